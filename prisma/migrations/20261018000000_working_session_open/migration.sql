@@ -0,0 +1,25 @@
+-- 未終了のセッションを1ユーザー・1組織につき1つに制限する（終了後はnull）
+ALTER TABLE "WorkingSession" ADD COLUMN IF NOT EXISTS "open" BOOLEAN;
+
+-- 導入前から未終了のセッションにも制約が効くよう open を設定する
+-- 未終了のセッションが既に複数ある場合は、アプリと同じく最も古いものを対象にする（残りは自動終了の対象になる）
+UPDATE "WorkingSession" SET "open" = true
+WHERE "id" IN (
+  SELECT DISTINCT ON ("userId", "organizationId") "id"
+  FROM "WorkingSession"
+  WHERE "checkoutAt" IS NULL
+  ORDER BY "userId", "organizationId", "checkinAt" ASC
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "WorkingSession_userId_organizationId_open_key"
+  ON "WorkingSession"("userId", "organizationId", "open");
+
+-- Slack・Chatworkからの再送リクエストの重複排除
+CREATE TABLE IF NOT EXISTS "ProcessedRequest" (
+  "id" TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "ProcessedRequest_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "ProcessedRequest_createdAt_idx" ON "ProcessedRequest"("createdAt");
@@ -0,0 +1,17 @@
+-- 月次レポートを配信した対象の月（配信時刻にサーバーが停止していても次の実行で配信する）
+ALTER TABLE "Organization" ADD COLUMN IF NOT EXISTS "monthlyReportSentMonth" TEXT;
+
+-- 導入前に配信済みの月を再送しないよう、組織のタイムゾーンで配信時刻（1日9時）を過ぎた直近の月を設定する
+UPDATE "Organization"
+SET "monthlyReportSentMonth" = to_char(
+  date_trunc('month', (now() AT TIME ZONE "timeZone") - interval '9 hours') - interval '1 month',
+  'YYYY-MM'
+)
+WHERE "monthlyReportSentMonth" IS NULL;
+
+-- 休暇中のSlackステータスを設定した日時（日付が変わった時刻にサーバーが停止していても次の実行で設定する）
+ALTER TABLE "Vacation" ADD COLUMN IF NOT EXISTS "slackStatusAppliedAt" TIMESTAMP(3);
+
+-- 導入前に設定済みの休暇（今日以前）には再度設定しない
+UPDATE "Vacation" SET "slackStatusAppliedAt" = now()
+WHERE "slackStatusAppliedAt" IS NULL AND "date" <= CURRENT_DATE;
@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { Membership, MembershipStatus, PrismaClient, Role, User, WorkingSession } from '@prisma/client';
+import ApiRouter from './ApiRouter';
+import OrganizationService from '../services/OrganizationService';
+import PermissionService from '../services/PermissionService';
+import UserService from '../services/UserService';
+import WorkingSessionService from '../services/WorkingSessionService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import { getCurrentActor } from '../utils/auditContext';
+
+const KEY = 'nw_0123456789abcdefghijklmnopqrstuv';
+const AUTHORIZATION = { authorization: `Bearer ${KEY}` };
+
+const organization = { id: 'org-1', name: '株式会社サンプル', timeZone: 'Asia/Tokyo' };
+const taro = { id: 'user-2', name: '山田太郎', email: 'taro@example.com' } as User;
+
+describe('ApiRouter', () => {
+  let server: Server;
+  let baseUrl: string;
+  let prisma: { apiKey: { findUnique: jest.Mock; update: jest.Mock } };
+  let can: jest.SpyInstance;
+  let getMembership: jest.SpyInstance;
+  let checkin: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    prisma = {
+      apiKey: {
+        findUnique: jest.fn(async ({ where }) =>
+          where.keyHash === crypto.createHash('sha256').update(KEY).digest('hex')
+            ? { id: 'api-key-1', organizationId: 'org-1', createdById: 'user-1', revokedAt: null, organization }
+            : null
+        ),
+        update: jest.fn().mockResolvedValue({}),
+      },
+    };
+    can = jest.spyOn(PermissionService.prototype, 'can').mockResolvedValue(true);
+    getMembership = jest
+      .spyOn(OrganizationService.prototype, 'getMembership')
+      .mockResolvedValue({ userId: taro.id, status: MembershipStatus.ACTIVE } as Membership);
+    jest.spyOn(UserService.prototype, 'findById').mockResolvedValue(taro);
+    checkin = jest.spyOn(WorkingSessionService.prototype, 'checkin');
+
+    const app = express();
+    app.use('/api/v1', new ApiRouter(prisma as unknown as PrismaClient).createRouter());
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function request(path: string, init: RequestInit = {}): Promise<{ status: number; body: unknown }> {
+    const response = await fetch(`${baseUrl}${path}`, init);
+    return { status: response.status, body: await response.json() };
+  }
+
+  function postCheckin(body: string) {
+    return request('/sessions/checkin', {
+      method: 'POST',
+      headers: { ...AUTHORIZATION, 'content-type': 'application/json' },
+      body,
+    });
+  }
+
+  describe('認証', () => {
+    it('APIキーがない・形式が不正な場合は401を返す', async () => {
+      const unauthorized = {
+        status: 401,
+        body: {
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'APIキーが無効です。Authorization: Bearer <APIキー> を指定してください。',
+          },
+        },
+      };
+
+      await expect(request('/members')).resolves.toEqual(unauthorized);
+      await expect(request('/members', { headers: { authorization: KEY } })).resolves.toEqual(unauthorized);
+      await expect(request('/members', { headers: { authorization: 'Bearer nw_unknown' } })).resolves.toEqual(
+        unauthorized
+      );
+    });
+
+    it('発行したメンバーがAPIキーの管理権限を失ったキーは401を返す', async () => {
+      can.mockResolvedValue(false);
+
+      const { status } = await request('/members', { headers: AUTHORIZATION });
+
+      expect(status).toBe(401);
+      expect(can).toHaveBeenCalledWith('user-1', 'org-1', 'api_key:manage');
+    });
+
+    it('APIキーの組織のデータを返す', async () => {
+      const findMembers = jest.spyOn(OrganizationService.prototype, 'findMembers').mockResolvedValue({
+        members: [{ id: 'membership-2', role: Role.MEMBER, status: MembershipStatus.ACTIVE, user: taro }] as (Membership & {
+          user: User;
+        })[],
+        total: 21,
+      });
+
+      const response = await request('/members?status=active&perPage=20', { headers: AUTHORIZATION });
+
+      expect(response).toMatchObject({
+        status: 200,
+        body: {
+          data: [{ id: 'membership-2', user: { id: 'user-2' } }],
+          pagination: { page: 1, perPage: 20, total: 21, totalPages: 2 },
+        },
+      });
+      expect(findMembers).toHaveBeenCalledWith('org-1', { status: MembershipStatus.ACTIVE }, expect.anything());
+    });
+  });
+
+  describe('操作', () => {
+    it('APIキーを発行したメンバーの操作として実行する', async () => {
+      let actor: ReturnType<typeof getCurrentActor>;
+      checkin.mockImplementation(async () => {
+        actor = getCurrentActor();
+        return { id: 'session-1', userId: taro.id, checkinAt: new Date('2026-10-19T00:00:00Z') } as WorkingSession;
+      });
+
+      const response = await postCheckin(JSON.stringify({ userId: 'user-2', note: '設計' }));
+
+      expect(response).toMatchObject({ status: 201, body: { data: { id: 'session-1' } } });
+      expect(checkin).toHaveBeenCalledWith('user-2', 'org-1', '設計');
+      expect(actor).toEqual({ actorId: 'user-1', platform: 'api' });
+    });
+
+    it('組織のメンバーでないユーザーは404を返す', async () => {
+      getMembership.mockResolvedValue({ userId: taro.id, status: MembershipStatus.LEFT } as Membership);
+
+      const response = await postCheckin(JSON.stringify({ userId: 'user-2' }));
+
+      expect(response).toMatchObject({ status: 404, body: { error: { code: 'NOT_FOUND' } } });
+      expect(checkin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('エラーの形式', () => {
+    it('業務ルール違反は422、権限不足は403、想定外のエラーは500を返す', async () => {
+      checkin.mockRejectedValueOnce(new Error('既にチェックインしています。先にチェックアウトしてください。'));
+      await expect(postCheckin(JSON.stringify({ userId: 'user-2' }))).resolves.toEqual({
+        status: 422,
+        body: { error: { code: 'COMMAND_FAILED', message: '既にチェックインしています。先にチェックアウトしてください。' } },
+      });
+
+      checkin.mockRejectedValueOnce(new PermissionDeniedError('session:checkin', '利用停止中です。'));
+      await expect(postCheckin(JSON.stringify({ userId: 'user-2' }))).resolves.toEqual({
+        status: 403,
+        body: { error: { code: 'PERMISSION_DENIED', message: '利用停止中です。' } },
+      });
+
+      checkin.mockRejectedValueOnce(new TypeError("Cannot read properties of undefined (reading 'id')"));
+      await expect(postCheckin(JSON.stringify({ userId: 'user-2' }))).resolves.toEqual({
+        status: 500,
+        body: { error: { code: 'INTERNAL_ERROR', message: 'サーバーでエラーが発生しました。' } },
+      });
+    });
+
+    it('不正なJSON・必須項目の不足は400、存在しないパスは404を返す', async () => {
+      await expect(postCheckin('{"userId":')).resolves.toMatchObject({
+        status: 400,
+        body: { error: { code: 'INVALID_ARGUMENT', message: 'リクエストボディのJSONが不正です。' } },
+      });
+      await expect(postCheckin('{}')).resolves.toMatchObject({
+        status: 400,
+        body: { error: { code: 'INVALID_ARGUMENT' } },
+      });
+      await expect(request('/unknown', { headers: AUTHORIZATION })).resolves.toEqual({
+        status: 404,
+        body: { error: { code: 'NOT_FOUND', message: 'GET /unknown は存在しません。' } },
+      });
+    });
+  });
+});
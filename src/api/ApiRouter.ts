@@ -0,0 +1,448 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { MembershipStatus, PrismaClient, User, VacationType } from '@prisma/client';
+import UserService from '../services/UserService';
+import OrganizationService from '../services/OrganizationService';
+import WorkingSessionService from '../services/WorkingSessionService';
+import VacationService from '../services/VacationService';
+import ReportService from '../services/ReportService';
+import TimesheetService from '../services/TimesheetService';
+import ApiKeyService, { ApiKeyWithOrganization } from '../services/ApiKeyService';
+import ApiError from '../errors/ApiError';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import { runAsActor } from '../utils/auditContext';
+import { MAX_VACATION_DAYS } from '../commands/vacationArgs';
+import { addDays, diffDays, getZonedParts, startOfDay } from '../utils/timezone';
+import {
+  optionalBoolean,
+  optionalDate,
+  optionalInteger,
+  optionalString,
+  paginated,
+  parsePage,
+  requiredDate,
+  requiredString,
+  toDateString,
+} from './params';
+import {
+  serializeMember,
+  serializeMonthlyReport,
+  serializeOrganizationSummary,
+  serializeSession,
+  serializeVacation,
+} from './serializers';
+
+type ApiHandler = (req: Request, res: Response, apiKey: ApiKeyWithOrganization) => Promise<void>;
+
+/**
+ * REST API（/api/v1）のルーター
+ *
+ * `Authorization: Bearer <APIキー>` で認証し、APIキーの組織のデータのみ扱う。
+ * APIからの操作はAPIキーを発行したメンバーの操作として監査ログに記録する。
+ */
+export default class ApiRouter {
+  private userService: UserService;
+  private organizationService: OrganizationService;
+  private workingSessionService: WorkingSessionService;
+  private vacationService: VacationService;
+  private reportService: ReportService;
+  private timesheetService: TimesheetService;
+  private apiKeyService: ApiKeyService;
+
+  constructor(prisma: PrismaClient) {
+    this.userService = new UserService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.vacationService = new VacationService(prisma);
+    this.reportService = new ReportService(prisma);
+    this.timesheetService = new TimesheetService(prisma);
+    this.apiKeyService = new ApiKeyService(prisma);
+  }
+
+  /**
+   * ルーターを作成する
+   *
+   * JSONのパースエラーも共通の形式で返すため、ボディのパースはルーター内で行う。
+   */
+  createRouter(): Router {
+    const router = Router();
+    router.use(express.json());
+
+    router.get('/sessions', this.handle(this.listSessions.bind(this)));
+    router.post('/sessions/checkin', this.handle(this.checkin.bind(this)));
+    router.post('/sessions/checkout', this.handle(this.checkout.bind(this)));
+
+    router.get('/vacations', this.handle(this.listVacations.bind(this)));
+    router.post('/vacations', this.handle(this.createVacations.bind(this)));
+    router.get('/vacations/:id', this.handle(this.getVacation.bind(this)));
+    router.patch('/vacations/:id', this.handle(this.updateVacation.bind(this)));
+    router.delete('/vacations/:id', this.handle(this.deleteVacation.bind(this)));
+
+    router.get('/members', this.handle(this.listMembers.bind(this)));
+
+    router.get('/reports/monthly', this.handle(this.monthlyReport.bind(this)));
+    router.get('/timesheets', this.handle(this.timesheet.bind(this)));
+
+    router.use((req, res) => {
+      this.sendError(res, new ApiError(404, 'NOT_FOUND', `${req.method} ${req.path} は存在しません。`));
+    });
+
+    // JSONのパースエラーなど、ハンドラーの外で発生したエラー
+    // Expressはエラーハンドラーを引数の数で判別するため、使わない next も受け取る
+    router.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+      this.sendError(res, error);
+    });
+
+    return router;
+  }
+
+  /**
+   * GET /sessions - セッション一覧（新しい順）
+   *
+   * クエリ: userId, from, to（YYYY-MM-DD、組織のタイムゾーンでのチェックイン日で絞り込み）, open（true: 未終了のみ）, page, perPage
+   */
+  private async listSessions(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const page = parsePage(req.query);
+    const { timeZone } = apiKey.organization;
+    const from = optionalDate(req.query, 'from');
+    const to = optionalDate(req.query, 'to');
+
+    const { sessions, total } = await this.workingSessionService.findSessions(
+      apiKey.organizationId,
+      {
+        userId: optionalString(req.query, 'userId'),
+        from: from && startOfDay(from, timeZone),
+        // to の日付も含める
+        to: to && startOfDay(addDays(to, 1), timeZone),
+        open: optionalBoolean(req.query, 'open'),
+      },
+      page
+    );
+
+    res.json(paginated(sessions.map((session) => serializeSession(session)), total, page));
+  }
+
+  /**
+   * POST /sessions/checkin - メンバーのチェックイン
+   *
+   * ボディ: { userId, note? }
+   */
+  private async checkin(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const member = await this.findMember(apiKey, requiredString(req.body ?? {}, 'userId'));
+
+    const session = await this.workingSessionService.checkin(
+      member.id,
+      apiKey.organizationId,
+      optionalString(req.body, 'note')
+    );
+
+    res.status(201).json({ data: serializeSession(session) });
+  }
+
+  /**
+   * POST /sessions/checkout - メンバーのチェックアウト
+   *
+   * ボディ: { userId, note? }
+   */
+  private async checkout(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const member = await this.findMember(apiKey, requiredString(req.body ?? {}, 'userId'));
+
+    const session = await this.workingSessionService.checkout(
+      member.id,
+      apiKey.organizationId,
+      optionalString(req.body, 'note')
+    );
+
+    res.json({ data: serializeSession(session) });
+  }
+
+  /**
+   * GET /vacations - 休暇一覧（日付順）
+   *
+   * クエリ: userId, from, to（YYYY-MM-DD）, page, perPage
+   */
+  private async listVacations(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const page = parsePage(req.query);
+
+    const { vacations, total } = await this.vacationService.findVacations(
+      apiKey.organizationId,
+      {
+        userId: optionalString(req.query, 'userId'),
+        from: optionalDate(req.query, 'from'),
+        to: optionalDate(req.query, 'to'),
+      },
+      page
+    );
+
+    res.json(paginated(vacations.map((vacation) => serializeVacation(vacation)), total, page));
+  }
+
+  /**
+   * POST /vacations - 休暇の申請（期間内の日付ごとに登録）
+   *
+   * ボディ: { userId, startDate, endDate?, type?, reason? }（type は FULL_DAY・AM_HALF・PM_HALF、半休は1日のみ）
+   */
+  private async createVacations(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const body = req.body ?? {};
+    const member = await this.findMember(apiKey, requiredString(body, 'userId'));
+    const startDate = requiredDate(body, 'startDate');
+    const endDate = optionalDate(body, 'endDate') ?? startDate;
+    const type = optionalString(body, 'type') ?? VacationType.FULL_DAY;
+    if (!Object.values<string>(VacationType).includes(type)) {
+      throw new ApiError(400, 'INVALID_ARGUMENT', 'type は FULL_DAY・AM_HALF・PM_HALF のいずれかで指定してください。');
+    }
+    if (type !== VacationType.FULL_DAY && endDate.getTime() !== startDate.getTime()) {
+      throw new ApiError(400, 'INVALID_ARGUMENT', '半休は1日ずつ申請してください。');
+    }
+
+    const days = diffDays(startDate, endDate) + 1;
+    if (days < 1 || days > MAX_VACATION_DAYS) {
+      throw new ApiError(
+        400,
+        'INVALID_ARGUMENT',
+        `endDate は startDate 以降、${MAX_VACATION_DAYS}日以内で指定してください。`
+      );
+    }
+
+    const { vacations, skippedDates } = await this.vacationService.requestVacation(
+      member,
+      apiKey.organization,
+      startDate,
+      endDate,
+      optionalString(body, 'reason'),
+      type as VacationType
+    );
+
+    res.status(201).json({
+      data: vacations.map((vacation) => serializeVacation(vacation)),
+      skippedDates: skippedDates.map((date) => toDateString(date)),
+    });
+  }
+
+  /**
+   * GET /vacations/:id - 休暇の取得
+   */
+  private async getVacation(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const vacation = await this.findVacation(apiKey, req.params.id);
+    res.json({ data: serializeVacation(vacation) });
+  }
+
+  /**
+   * PATCH /vacations/:id - 休暇の理由の変更（日付を変える場合は取り消して申請し直す）
+   *
+   * ボディ: { reason }（null で理由を削除）
+   */
+  private async updateVacation(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const body = req.body ?? {};
+    if (!('reason' in body)) {
+      throw new ApiError(400, 'INVALID_ARGUMENT', 'reason を指定してください。');
+    }
+
+    const vacation = await this.findVacation(apiKey, req.params.id);
+    const updated = await this.vacationService.updateVacationReason(
+      vacation,
+      apiKey.organization,
+      optionalString(body, 'reason') ?? null
+    );
+
+    res.json({ data: serializeVacation({ ...updated, user: vacation.user }) });
+  }
+
+  /**
+   * DELETE /vacations/:id - 休暇の取り消し
+   */
+  private async deleteVacation(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const vacation = await this.findVacation(apiKey, req.params.id);
+    const deleted = await this.vacationService.cancelVacation(
+      vacation.user,
+      apiKey.organization,
+      vacation.date
+    );
+
+    res.json({ data: serializeVacation({ ...deleted, user: vacation.user }) });
+  }
+
+  /**
+   * GET /members - メンバー一覧（登録順）
+   *
+   * クエリ: status（ACTIVE・INVITED・SUSPENDED・LEFT）, page, perPage
+   */
+  private async listMembers(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const page = parsePage(req.query);
+    const status = optionalString(req.query, 'status')?.toUpperCase();
+    if (status && !Object.values(MembershipStatus).includes(status as MembershipStatus)) {
+      throw new ApiError(
+        400,
+        'INVALID_ARGUMENT',
+        `status は ${Object.values(MembershipStatus).join('・')} のいずれかを指定してください。`
+      );
+    }
+
+    const { members, total } = await this.organizationService.findMembers(
+      apiKey.organizationId,
+      { status: status as MembershipStatus | undefined },
+      page
+    );
+
+    res.json(paginated(members.map((member) => serializeMember(member)), total, page));
+  }
+
+  /**
+   * GET /reports/monthly - 月次レポート（userId を省略した場合は組織全体のサマリー）
+   *
+   * クエリ: year, month（省略時は組織のタイムゾーンでの今月）, userId
+   */
+  private async monthlyReport(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const now = getZonedParts(new Date(), apiKey.organization.timeZone);
+    const year = optionalInteger(req.query, 'year') ?? now.year;
+    const month = optionalInteger(req.query, 'month') ?? now.month;
+    if (month > 12) {
+      throw new ApiError(400, 'INVALID_ARGUMENT', 'month は1〜12で指定してください。');
+    }
+
+    const userId = optionalString(req.query, 'userId');
+    if (userId) {
+      const member = await this.findMember(apiKey, userId);
+      const report = await this.reportService.getUserMonthlyReport(
+        member,
+        apiKey.organization,
+        year,
+        month
+      );
+      res.json({ data: serializeMonthlyReport(report) });
+      return;
+    }
+
+    const summary = await this.reportService.getOrganizationMonthlySummary(
+      apiKey.organization,
+      year,
+      month
+    );
+    res.json({ data: serializeOrganizationSummary(summary) });
+  }
+
+  /**
+   * GET /timesheets - 勤務表のファイル（CSV・Excel）
+   *
+   * クエリ: from, to（YYYY-MM-DD、必須）, userId（省略時は組織全体）, format（csv・xlsx、既定はcsv）, round（丸め単位の分）
+   */
+  private async timesheet(req: Request, res: Response, apiKey: ApiKeyWithOrganization): Promise<void> {
+    const format = optionalString(req.query, 'format') ?? 'csv';
+    if (format !== 'csv' && format !== 'xlsx') {
+      throw new ApiError(400, 'INVALID_ARGUMENT', 'format は csv または xlsx を指定してください。');
+    }
+
+    const userId = optionalString(req.query, 'userId');
+    if (userId) {
+      await this.findMember(apiKey, userId);
+    }
+
+    const { filename, content } = await this.timesheetService.exportTimesheet(
+      apiKey.organization,
+      apiKey.createdById,
+      {
+        startDate: requiredDate(req.query, 'from'),
+        endDate: requiredDate(req.query, 'to'),
+        userId,
+        roundingMinutes: optionalInteger(req.query, 'round'),
+      },
+      format
+    );
+
+    res.attachment(filename);
+    res.type(format === 'csv' ? 'text/csv; charset=utf-8' : format).send(content);
+  }
+
+  /**
+   * APIキーの組織のメンバーを取得する（退会済み・メンバーでない場合は404）
+   */
+  private async findMember(apiKey: ApiKeyWithOrganization, userId: string): Promise<User> {
+    const membership = await this.organizationService.getMembership(apiKey.organizationId, userId);
+    const user =
+      membership && membership.status !== MembershipStatus.LEFT
+        ? await this.userService.findById(userId)
+        : null;
+
+    if (!user) {
+      throw new ApiError(404, 'NOT_FOUND', `ユーザー ${userId} は組織のメンバーではありません。`);
+    }
+
+    return user;
+  }
+
+  /**
+   * APIキーの組織の休暇を取得する（他の組織の休暇は404）
+   */
+  private async findVacation(apiKey: ApiKeyWithOrganization, id: string) {
+    const vacation = await this.vacationService.getVacationById(id);
+    if (!vacation || vacation.organizationId !== apiKey.organizationId) {
+      throw new ApiError(404, 'NOT_FOUND', `休暇 ${id} が見つかりません。`);
+    }
+
+    return vacation;
+  }
+
+  /**
+   * 認証して処理を実行し、エラーを共通の形式で返すハンドラーを作成する
+   */
+  private handle(handler: ApiHandler) {
+    return async (req: Request, res: Response): Promise<void> => {
+      try {
+        const apiKey = await this.authenticate(req);
+        await runAsActor({ actorId: apiKey.createdById, platform: 'api' }, () =>
+          handler(req, res, apiKey)
+        );
+      } catch (error) {
+        this.sendError(res, error);
+      }
+    };
+  }
+
+  /**
+   * Authorization ヘッダーのAPIキーを検証する
+   */
+  private async authenticate(req: Request): Promise<ApiKeyWithOrganization> {
+    const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+    const apiKey = match ? await this.apiKeyService.authenticate(match[1]) : null;
+
+    if (!apiKey) {
+      throw new ApiError(
+        401,
+        'UNAUTHORIZED',
+        'APIキーが無効です。Authorization: Bearer <APIキー> を指定してください。'
+      );
+    }
+
+    return apiKey;
+  }
+
+  /**
+   * エラーを `{ "error": { "code", "message" } }` の形式で返す
+   *
+   * サービスが業務ルール違反として投げる Error は422、想定外のエラーは500として扱う。
+   */
+  private sendError(res: Response, error: unknown): void {
+    if (error instanceof ApiError) {
+      res.status(error.status).json({ error: { code: error.code, message: error.message } });
+      return;
+    }
+    if (error instanceof PermissionDeniedError) {
+      res.status(403).json({ error: { code: 'PERMISSION_DENIED', message: error.message } });
+      return;
+    }
+    if (error instanceof SyntaxError && (error as { type?: string }).type === 'entity.parse.failed') {
+      res.status(400).json({
+        error: { code: 'INVALID_ARGUMENT', message: 'リクエストボディのJSONが不正です。' },
+      });
+      return;
+    }
+    if (error instanceof Error && error.constructor === Error) {
+      res.status(422).json({ error: { code: 'COMMAND_FAILED', message: error.message } });
+      return;
+    }
+
+    console.error('REST APIエラー:', error);
+    res.status(500).json({
+      error: { code: 'INTERNAL_ERROR', message: 'サーバーでエラーが発生しました。' },
+    });
+  }
+}
@@ -0,0 +1,158 @@
+import ApiError from '../errors/ApiError';
+import { calendarDate, formatDate } from '../utils/timezone';
+
+/** 1ページの件数の既定値 */
+const DEFAULT_PER_PAGE = 50;
+
+/** 1ページの最大件数 */
+const MAX_PER_PAGE = 100;
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * ページ指定（page は1始まり）
+ */
+export interface Page {
+  page: number;
+  perPage: number;
+  skip: number;
+  take: number;
+}
+
+/**
+ * 一覧APIのレスポンス
+ */
+export interface PaginatedBody<T> {
+  data: T[];
+  pagination: {
+    page: number;
+    perPage: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+/**
+ * クエリ・ボディの値を文字列として取得する（未指定・空文字はundefined）
+ */
+export function optionalString(params: Record<string, unknown>, name: string): string | undefined {
+  const value = params[name];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new ApiError(400, 'INVALID_ARGUMENT', `${name} は文字列で指定してください。`);
+  }
+
+  return value;
+}
+
+/**
+ * 必須の文字列を取得する
+ */
+export function requiredString(params: Record<string, unknown>, name: string): string {
+  const value = optionalString(params, name);
+  if (value === undefined) {
+    throw new ApiError(400, 'INVALID_ARGUMENT', `${name} を指定してください。`);
+  }
+
+  return value;
+}
+
+/**
+ * 正の整数を取得する（クエリの文字列も数値として扱う）
+ */
+export function optionalInteger(params: Record<string, unknown>, name: string): number | undefined {
+  const value = params[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const number = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < 1) {
+    throw new ApiError(400, 'INVALID_ARGUMENT', `${name} は1以上の整数で指定してください。`);
+  }
+
+  return number;
+}
+
+/**
+ * true / false を取得する（クエリの文字列も真偽値として扱う）
+ */
+export function optionalBoolean(params: Record<string, unknown>, name: string): boolean | undefined {
+  const value = params[name];
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (value === true || value === 'true') {
+    return true;
+  }
+  if (value === false || value === 'false') {
+    return false;
+  }
+
+  throw new ApiError(400, 'INVALID_ARGUMENT', `${name} は true または false で指定してください。`);
+}
+
+/**
+ * YYYY-MM-DD 形式の日付を取得する
+ */
+export function optionalDate(params: Record<string, unknown>, name: string): Date | undefined {
+  const value = optionalString(params, name);
+  if (value === undefined) {
+    return undefined;
+  }
+
+  // 2026-02-30 のような存在しない日付も除外する
+  const match = value.match(DATE_REGEX);
+  const date = match ? calendarDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+  if (!date) {
+    throw new ApiError(400, 'INVALID_ARGUMENT', `${name} は YYYY-MM-DD 形式で指定してください。`);
+  }
+
+  return date;
+}
+
+/**
+ * 必須の日付を取得する
+ */
+export function requiredDate(params: Record<string, unknown>, name: string): Date {
+  const value = optionalDate(params, name);
+  if (value === undefined) {
+    throw new ApiError(400, 'INVALID_ARGUMENT', `${name} を指定してください。`);
+  }
+
+  return value;
+}
+
+/**
+ * 日付をYYYY-MM-DD形式にフォーマット
+ */
+export function toDateString(date: Date): string {
+  return formatDate(date);
+}
+
+/**
+ * ページ指定（page・perPage）を取得する
+ */
+export function parsePage(params: Record<string, unknown>): Page {
+  const page = optionalInteger(params, 'page') ?? 1;
+  const perPage = Math.min(optionalInteger(params, 'perPage') ?? DEFAULT_PER_PAGE, MAX_PER_PAGE);
+
+  return { page, perPage, skip: (page - 1) * perPage, take: perPage };
+}
+
+/**
+ * 一覧APIのレスポンスを作成する
+ */
+export function paginated<T>(data: T[], total: number, page: Page): PaginatedBody<T> {
+  return {
+    data,
+    pagination: {
+      page: page.page,
+      perPage: page.perPage,
+      total,
+      totalPages: Math.ceil(total / page.perPage),
+    },
+  };
+}
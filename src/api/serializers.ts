@@ -0,0 +1,102 @@
+import { Membership, User, Vacation, WorkingBreak, WorkingSession } from '@prisma/client';
+import { MonthlyUserReport, OrganizationMonthlySummary } from '../services/ReportService';
+import { toDateString } from './params';
+
+// REST APIのレスポンス用の変換
+// トークンなどの内部情報を返さないよう、返す項目を明示的に列挙する。
+// 休暇・日別集計の日付は YYYY-MM-DD（サーバーのローカル時刻）、それ以外の日時はISO 8601で返す。
+
+/**
+ * ユーザー
+ */
+export function serializeUser(user: User) {
+  return {
+    id: user.id,
+    name: user.name,
+    email: user.email,
+    slackUserId: user.slackUserId,
+    chatworkUserId: user.chatworkUserId,
+  };
+}
+
+/**
+ * メンバーシップ（ユーザー付き）
+ */
+export function serializeMember(membership: Membership & { user: User }) {
+  return {
+    id: membership.id,
+    role: membership.role,
+    status: membership.status,
+    createdAt: membership.createdAt,
+    user: serializeUser(membership.user),
+  };
+}
+
+/**
+ * 稼働セッション（休憩・ユーザーは取得済みの場合のみ含める）
+ */
+export function serializeSession(
+  session: WorkingSession & { breaks?: WorkingBreak[]; user?: User }
+) {
+  return {
+    id: session.id,
+    userId: session.userId,
+    user: session.user ? serializeUser(session.user) : undefined,
+    checkinAt: session.checkinAt,
+    checkoutAt: session.checkoutAt,
+    note: session.note,
+    autoClosed: session.autoClosed,
+    needsReview: session.needsReview,
+    breaks: session.breaks?.map((workingBreak) => ({
+      id: workingBreak.id,
+      startAt: workingBreak.startAt,
+      endAt: workingBreak.endAt,
+    })),
+  };
+}
+
+/**
+ * 休暇
+ */
+export function serializeVacation(vacation: Vacation & { user?: User }) {
+  return {
+    id: vacation.id,
+    userId: vacation.userId,
+    user: vacation.user ? serializeUser(vacation.user) : undefined,
+    date: toDateString(vacation.date),
+    type: vacation.type,
+    reason: vacation.reason,
+  };
+}
+
+/**
+ * メンバーの月次レポート
+ */
+export function serializeMonthlyReport(report: MonthlyUserReport) {
+  return {
+    user: serializeUser(report.user),
+    year: report.year,
+    month: report.month,
+    timeZone: report.timeZone,
+    totalWorkingHours: report.totalWorkingHours,
+    dailyWorkingHours: report.dailyWorkingHours.map(({ date, hours }) => ({
+      date: toDateString(date),
+      hours,
+    })),
+    vacations: report.vacations.map((vacation) => serializeVacation(vacation)),
+    openSessions: report.openSessions.map((session) => serializeSession(session)),
+    autoClosedSessions: report.autoClosedSessions.map((session) => serializeSession(session)),
+  };
+}
+
+/**
+ * 組織の月次サマリー
+ */
+export function serializeOrganizationSummary(summary: OrganizationMonthlySummary) {
+  return {
+    year: summary.year,
+    month: summary.month,
+    totalWorkingHours: summary.totalWorkingHours,
+    members: summary.members.map((report) => serializeMonthlyReport(report)),
+  };
+}
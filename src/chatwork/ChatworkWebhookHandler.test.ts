@@ -0,0 +1,226 @@
+import { Request, Response } from 'express';
+import { Organization, Prisma, PrismaClient, User, WorkingSession } from '@prisma/client';
+import ChatworkWebhookHandler from './ChatworkWebhookHandler';
+import UserService from '../services/UserService';
+import WorkingSessionService from '../services/WorkingSessionService';
+import OrganizationResolver from '../commands/OrganizationResolver';
+import { formatCommandError } from '../commands/errorText';
+import webhooks from './__fixtures__/chatworkWebhooks.json';
+
+const mockSendMessage = jest.fn();
+const mockGetMyAccountId = jest.fn();
+
+jest.mock('../services/ChatworkApiService', () =>
+  jest.fn().mockImplementation(() => ({
+    sendMessage: mockSendMessage,
+    getMyAccountId: mockGetMyAccountId,
+  }))
+);
+
+type RecordedWebhook = { headers: Record<string, string>; body: string };
+
+/**
+ * 記録したWebhookのリクエスト
+ */
+function createRequest(webhook: RecordedWebhook, headers: Record<string, string> = {}): Request {
+  const allHeaders: Record<string, string> = { ...webhook.headers, ...headers };
+  return {
+    body: Buffer.from(webhook.body),
+    query: {},
+    get: (name: string) => allHeaders[name.toLowerCase()],
+  } as unknown as Request;
+}
+
+function createResponse() {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+}
+
+/**
+ * 応答後に行うコマンドの実行・返信が終わるまで待つ
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * 処理済みのリクエストを記録するテーブルだけを持つPrismaClient
+ */
+function createPrisma() {
+  const claimed = new Set<string>();
+
+  return {
+    processedRequest: {
+      create: jest.fn(async ({ data }: { data: { id: string } }) => {
+        if (claimed.has(data.id)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+            code: 'P2002',
+            clientVersion: Prisma.prismaVersion.client,
+          });
+        }
+        claimed.add(data.id);
+        return data;
+      }),
+      deleteMany: jest.fn(async ({ where }: { where: { id: string } }) => {
+        claimed.delete(where.id);
+        return { count: 1 };
+      }),
+    },
+  };
+}
+
+const MESSAGE_REQUEST_ID = 'chatwork:1834567890123456789';
+
+describe('ChatworkWebhookHandler', () => {
+  let handler: ChatworkWebhookHandler;
+  let prisma: ReturnType<typeof createPrisma>;
+  let findUser: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    // 記録したイベントの送信直後の時刻
+    jest.spyOn(Date, 'now').mockReturnValue(1760745700 * 1000);
+    process.env.CHATWORK_API_TOKEN = 'test-api-token';
+    process.env.CHATWORK_WEBHOOK_TOKEN = webhooks.webhookToken;
+
+    mockGetMyAccountId.mockResolvedValue('1111111');
+    mockSendMessage.mockResolvedValue(undefined);
+    // コマンドは実際の処理クラスで実行し、データベースを使う部分だけを差し替える
+    findUser = jest.spyOn(UserService.prototype, 'findByPlatformUserId').mockResolvedValue(null);
+
+    prisma = createPrisma();
+    handler = new ChatworkWebhookHandler(prisma as unknown as PrismaClient);
+    handler.start();
+    await flush();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('署名が一致しない場合は401を返し、コマンドを実行しない', async () => {
+    const res = createResponse();
+    await handler.handleWebhook(
+      createRequest(webhooks.messageCreated, {
+        'x-chatworkwebhooksignature': webhooks.messageCreatedByBot.headers['x-chatworkwebhooksignature'],
+      }),
+      res as unknown as Response
+    );
+    await flush();
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(prisma.processedRequest.create).not.toHaveBeenCalled();
+    expect(findUser).not.toHaveBeenCalled();
+  });
+
+  it('署名のヘッダーがない場合は401を返す', async () => {
+    const res = createResponse();
+    await handler.handleWebhook(
+      createRequest({ ...webhooks.messageCreated, headers: { 'content-type': 'application/json' } }),
+      res as unknown as Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('ボット宛てのコマンドは200を返した後に実行し、送信者に返信する', async () => {
+    const res = createResponse();
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), res as unknown as Response);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ status: 'accepted' });
+    expect(prisma.processedRequest.create).toHaveBeenCalledWith({ data: { id: MESSAGE_REQUEST_ID } });
+
+    await flush();
+
+    expect(findUser).toHaveBeenCalledWith('chatwork', '1234567890');
+    expect(prisma.processedRequest.deleteMany).not.toHaveBeenCalled();
+    expect(mockSendMessage).toHaveBeenCalledWith(
+      '567890123',
+      '[rp aid=1234567890 to=567890123-1834567890123456789][piconname:1234567890]さん\n' +
+        formatCommandError('USER_NOT_REGISTERED', 'ユーザー登録が必要です。/register で登録してください。')
+    );
+  });
+
+  it('コマンドの実行に失敗した場合は処理済みの記録を取り消し、再送で処理できるようにする', async () => {
+    findUser.mockRejectedValueOnce(new Error("Can't reach database server"));
+
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), createResponse() as unknown as Response);
+    await flush();
+
+    expect(prisma.processedRequest.deleteMany).toHaveBeenCalledWith({ where: { id: MESSAGE_REQUEST_ID } });
+    expect(mockSendMessage).toHaveBeenCalledWith(
+      '567890123',
+      expect.stringContaining(formatCommandError('COMMAND_FAILED', "エラーが発生しました: Can't reach database server"))
+    );
+
+    // 再送されたメッセージは改めて実行する
+    const res = createResponse();
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), res as unknown as Response);
+    await flush();
+
+    expect(res.json).toHaveBeenCalledWith({ status: 'accepted' });
+    expect(findUser).toHaveBeenCalledTimes(2);
+  });
+
+  it('打刻した後は返信に失敗しても処理済みの記録を残す', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const organization = { id: 'org-1', name: '株式会社サンプル', timeZone: 'Asia/Tokyo' } as Organization;
+    findUser.mockResolvedValue({ id: 'user-1', name: '山田太郎' } as User);
+    jest.spyOn(OrganizationResolver.prototype, 'resolve').mockResolvedValue({ type: 'resolved', organization });
+    jest.spyOn(WorkingSessionService.prototype, 'closeStaleSession').mockResolvedValue(null);
+    const checkin = jest
+      .spyOn(WorkingSessionService.prototype, 'checkin')
+      .mockResolvedValue({ id: 'session-1' } as WorkingSession);
+    mockSendMessage.mockRejectedValue(new Error('Request failed with status code 503'));
+
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), createResponse() as unknown as Response);
+    await flush();
+
+    expect(checkin).toHaveBeenCalledTimes(1);
+    expect(prisma.processedRequest.deleteMany).not.toHaveBeenCalled();
+
+    // 再送されたメッセージで二重にチェックインしない
+    const res = createResponse();
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), res as unknown as Response);
+    await flush();
+
+    expect(res.json).toHaveBeenCalledWith({ status: 'duplicate' });
+    expect(checkin).toHaveBeenCalledTimes(1);
+  });
+
+  it('再送されたメッセージは200を返して処理しない', async () => {
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), createResponse() as unknown as Response);
+    await flush();
+
+    const res = createResponse();
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), res as unknown as Response);
+    await flush();
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ status: 'duplicate' });
+    expect(findUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('ボット自身の返信には反応しない', async () => {
+    const res = createResponse();
+    await handler.handleWebhook(createRequest(webhooks.messageCreatedByBot), res as unknown as Response);
+    await flush();
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith({ status: 'ignored' });
+    expect(findUser).not.toHaveBeenCalled();
+  });
+
+  it('送信から24時間以上経ったメッセージは処理しない', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue((1760745598 + 25 * 60 * 60) * 1000);
+
+    const res = createResponse();
+    await handler.handleWebhook(createRequest(webhooks.messageCreated), res as unknown as Response);
+    await flush();
+
+    expect(res.json).toHaveBeenCalledWith({ status: 'expired' });
+    expect(findUser).not.toHaveBeenCalled();
+  });
+});
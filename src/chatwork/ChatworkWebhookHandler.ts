@@ -1,49 +1,87 @@
 import { Request, Response } from 'express';
-import axios from 'axios';
 import { PrismaClient } from '@prisma/client';
-import UserService from '../services/UserService';
-import WorkingSessionService from '../services/WorkingSessionService';
-import OrganizationService from '../services/OrganizationService';
+import AttendanceCommandProcessor from '../commands/AttendanceCommandProcessor';
+import { CommandResult } from '../commands/types';
+import { formatCommandResult, ResultTextStyle } from '../commands/resultText';
+import ProcessedRequestService from '../services/ProcessedRequestService';
+import ChatworkApiService from '../services/ChatworkApiService';
+import { verifyChatworkSignature } from './webhookSignature';
+import {
+  ChatworkCommand,
+  formatChatworkHelp,
+  formatUnknownCommand,
+  parseChatworkCommand,
+} from './commandParser';
+
+/** Chatworkでの表記（装飾なし） */
+const CHATWORK_TEXT_STYLE: ResultTextStyle = {
+  member: (name) => name,
+  code: (text) => text,
+};
+
+/** 送信から時間が経ちすぎたイベントは再送・リプレイとみなして処理しない（秒） */
+const MAX_EVENT_AGE_SECONDS = 24 * 60 * 60;
 
 /**
  * Chatwork Webhookハンドラークラス
  */
 export default class ChatworkWebhookHandler {
-  private prisma: PrismaClient;
-  private userService: UserService;
-  private workingSessionService: WorkingSessionService;
-  private organizationService: OrganizationService;
-  private apiToken: string;
+  private commandProcessor: AttendanceCommandProcessor;
+  private processedRequestService: ProcessedRequestService;
+  private chatworkApiService: ChatworkApiService;
   private webhookToken: string;
+  /** ボットのアカウントID（起動時に取得する。取得できるまでは未設定） */
+  private botAccountId?: string;
+  private botAccountIdRequest?: Promise<void>;
 
   constructor(prisma: PrismaClient) {
-    this.prisma = prisma;
-    this.userService = new UserService(prisma);
-    this.workingSessionService = new WorkingSessionService(prisma);
-    this.organizationService = new OrganizationService(prisma);
+    this.commandProcessor = new AttendanceCommandProcessor(prisma);
+    this.processedRequestService = new ProcessedRequestService(prisma);
     
     // 環境変数からトークンを取得
-    this.apiToken = process.env.CHATWORK_API_TOKEN || '';
+    const apiToken = process.env.CHATWORK_API_TOKEN || '';
     this.webhookToken = process.env.CHATWORK_WEBHOOK_TOKEN || '';
+    this.chatworkApiService = new ChatworkApiService(apiToken);
     
-    if (!this.apiToken || !this.webhookToken) {
+    if (!apiToken || !this.webhookToken) {
       console.warn('Chatwork API tokenまたはWebhook tokenが設定されていません');
     }
   }
 
+  /**
+   * ボットのアカウントIDを取得しておく（Webhookの応答を待たせないよう、起動時に1回だけ取得する）
+   */
+  start(): void {
+    this.loadBotAccountId();
+  }
+
   /**
    * Webhookハンドラー
+   *
+   * 署名検証に生のボディを使うため、ボディは express.raw() で Buffer として受け取る。
+   * Chatworkは応答が遅いとWebhookを再送するため、コマンドの実行と返信は200を返した後に行う。
    */
   async handleWebhook(req: Request, res: Response): Promise<void> {
     try {
-      // Webhookトークンの検証
-      const token = req.headers['x-chatworkwebhooktokenauth'];
-      if (token !== this.webhookToken) {
+      // 署名の検証（ヘッダーのほか、URLのクエリパラメータでも送られる）
+      const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const signature =
+        req.get('x-chatworkwebhooksignature') ??
+        (typeof req.query.chatwork_webhook_signature === 'string'
+          ? req.query.chatwork_webhook_signature
+          : undefined);
+      if (!verifyChatworkSignature(rawBody, signature, this.webhookToken)) {
         res.status(401).json({ error: 'Unauthorized' });
         return;
       }
 
-      const payload = req.body;
+      let payload;
+      try {
+        payload = JSON.parse(rawBody.toString('utf8'));
+      } catch {
+        res.status(400).json({ error: 'Invalid JSON' });
+        return;
+      }
       const { webhook_event_type, webhook_event } = payload;
 
       // メッセージイベントのみ処理
@@ -52,38 +90,45 @@ export default class ChatworkWebhookHandler {
         return;
       }
 
-      const { room_id, message_id, account, body } = webhook_event;
+      const { message_id, room_id, account_id, body, send_time } = webhook_event;
+
+      // 古いイベントのリプレイを防ぐ（処理済みのメッセージIDは一定期間しか保持しないため）
+      if (typeof send_time === 'number' && Date.now() / 1000 - send_time > MAX_EVENT_AGE_SECONDS) {
+        res.status(200).json({ status: 'expired' });
+        return;
+      }
+
+      // 起動時に取得できなかった場合は取り直す（このリクエストでは待たない）
+      if (!this.botAccountId) {
+        this.loadBotAccountId();
+      }
+
+      // ボット自身の返信には反応しない
+      if (String(account_id) === this.botAccountId) {
+        res.status(200).json({ status: 'ignored' });
+        return;
+      }
 
       // コマンド解析
-      const command = this.parseCommand(body);
+      const command = parseChatworkCommand(body, this.botAccountId);
       if (!command) {
         res.status(200).json({ status: 'ignored' });
         return;
       }
 
-      // コマンド処理
-      let response = '';
-      switch (command.name) {
-        case 'checkin':
-          response = await this.handleCheckinCommand(account.account_id, command.param);
-          break;
-        case 'checkout':
-          response = await this.handleCheckoutCommand(account.account_id, command.param);
-          break;
-        case 'status':
-          response = await this.handleStatusCommand(account.account_id);
-          break;
-        case 'vacation':
-          response = await this.handleVacationCommand(account.account_id, command.param);
-          break;
+      // 再送・リプレイされたメッセージは処理しない
+      if (!(await this.processedRequestService.claim('chatwork', String(message_id)))) {
+        res.status(200).json({ status: 'duplicate' });
+        return;
       }
 
-      // レスポンス送信
-      if (response) {
-        await this.sendChatworkMessage(room_id, response);
-      }
+      res.status(200).json({ status: 'accepted' });
 
-      res.status(200).json({ status: 'success' });
+      // 返信は実行したメンバーへの返信として送る（イベントには名前が含まれないため [piconname] で表示する）
+      const reply = `[rp aid=${account_id} to=${room_id}-${message_id}][piconname:${account_id}]さん\n`;
+      this.processCommand(command, String(message_id), String(account_id), String(room_id), reply).catch(
+        (error) => this.handleProcessingError(error, String(room_id), reply)
+      );
     } catch (error) {
       console.error('Chatworkウェブフック処理エラー:', error);
       res.status(500).json({ error: 'Internal server error' });
@@ -91,162 +136,122 @@ export default class ChatworkWebhookHandler {
   }
 
   /**
-   * コマンド解析
+   * コマンドを実行してルームに返信する
    */
-  private parseCommand(body: string): { name: string; param?: string } | null {
-    const commands = [
-      { name: 'checkin', regex: /^\/checkin\s*(.*)?$/ },
-      { name: 'checkout', regex: /^\/checkout\s*(.*)?$/ },
-      { name: 'status', regex: /^\/status$/ },
-      { name: 'vacation', regex: /^\/vacation\s*(.*)?$/ },
-    ];
-
-    for (const cmd of commands) {
-      const match = body.match(cmd.regex);
-      if (match) {
-        return {
-          name: cmd.name,
-          param: match[1]?.trim(),
-        };
-      }
+  private async processCommand(
+    command: ChatworkCommand,
+    messageId: string,
+    accountId: string,
+    roomId: string,
+    reply: string
+  ): Promise<void> {
+    if (command.type === 'help') {
+      await this.sendChatworkMessage(roomId, reply + formatChatworkHelp());
+      return;
+    }
+    if (command.type === 'unknown') {
+      await this.sendChatworkMessage(roomId, reply + formatUnknownCommand(command.name));
+      return;
     }
 
-    return null;
-  }
-
-  /**
-   * チェックインコマンド処理
-   */
-  private async handleCheckinCommand(chatworkUserId: string, note?: string): Promise<string> {
-    try {
-      // Chatwork ユーザーの取得
-      const user = await this.userService.findByChatworkUserId(chatworkUserId);
-      if (!user) {
-        return 'ユーザー登録が必要です。管理者に連絡してください。';
-      }
+    // 実行に失敗した場合は処理済みの記録を取り消す（返信の失敗では取り消さない）
+    const result = await this.processedRequestService.executeClaimed('chatwork', messageId, () =>
+      this.commandProcessor.execute({
+        platform: 'chatwork',
+        externalUserId: accountId,
+        command: command.name,
+        args: command.param,
+        context: { chatworkRoomId: roomId },
+      })
+    );
 
-      // 組織の取得（TODO: 複数組織対応の場合は選択UIが必要）
-      const organizations = await this.organizationService.getUserOrganizations(user.id);
-      if (organizations.length === 0) {
-        return '所属組織が見つかりません。管理者に連絡してください。';
+    // レスポンス送信（ファイルの出力はルームにアップロードする）
+    if (result.type === 'file') {
+      await this.sendChatworkFile(roomId, result.filename, result.content, reply + result.message);
+    } else {
+      const response = this.renderResult(result);
+      if (response) {
+        await this.sendChatworkMessage(roomId, reply + response);
       }
-
-      // 最初の組織を使用
-      const organization = organizations[0];
-
-      // チェックイン実行
-      await this.workingSessionService.checkin(user.id, organization.id, note);
-
-      return `${user.name} さんがチェックインしました！${note ? `\n> ${note}` : ''}`;
-    } catch (error) {
-      return `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`;
     }
   }
 
   /**
-   * チェックアウトコマンド処理
+   * コマンドの処理中に想定外のエラーが発生した場合は、実行したメンバーに再実行を促す
    */
-  private async handleCheckoutCommand(chatworkUserId: string, note?: string): Promise<string> {
-    try {
-      // Chatwork ユーザーの取得
-      const user = await this.userService.findByChatworkUserId(chatworkUserId);
-      if (!user) {
-        return 'ユーザー登録が必要です。管理者に連絡してください。';
-      }
-
-      // 組織の取得（TODO: 複数組織対応の場合は選択UIが必要）
-      const organizations = await this.organizationService.getUserOrganizations(user.id);
-      if (organizations.length === 0) {
-        return '所属組織が見つかりません。管理者に連絡してください。';
-      }
+  private async handleProcessingError(error: unknown, roomId: string, reply: string): Promise<void> {
+    console.error('Chatworkコマンド処理エラー:', error);
+    await this.sendChatworkMessage(roomId, reply + 'エラーが発生しました。もう一度実行してください。');
+  }
 
-      // 最初の組織を使用
-      const organization = organizations[0];
-
-      // チェックアウト実行
-      const session = await this.workingSessionService.checkout(user.id, organization.id, note);
-      
-      // セッションの開始時間と終了時間から稼働時間を計算
-      const hours = session.checkoutAt && 
-        (session.checkoutAt.getTime() - session.checkinAt.getTime()) / (1000 * 60 * 60);
-      
-      return `${user.name} さんがチェックアウトしました！${note ? `\n> ${note}` : ''}` +
-             `\n稼働時間: ${hours ? hours.toFixed(2) : '計算エラー'} 時間`;
-    } catch (error) {
-      return `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`;
+  /**
+   * ボットのアカウントIDを取得する（取得に失敗した場合は宛先による絞り込みをしない）
+   */
+  private loadBotAccountId(): void {
+    if (this.botAccountIdRequest) {
+      return;
     }
+
+    this.botAccountIdRequest = this.chatworkApiService
+      .getMyAccountId()
+      .then((accountId) => {
+        this.botAccountId = accountId;
+      })
+      .catch((error) => {
+        console.error('Chatworkアカウント情報取得エラー:', error);
+      })
+      .finally(() => {
+        this.botAccountIdRequest = undefined;
+      });
   }
 
   /**
-   * ステータス確認コマンド処理
+   * コマンド実行結果をChatworkのメッセージに変換
    */
-  private async handleStatusCommand(chatworkUserId: string): Promise<string> {
-    try {
-      // Chatwork ユーザーの取得
-      const user = await this.userService.findByChatworkUserId(chatworkUserId);
-      if (!user) {
-        return 'ユーザー登録が必要です。管理者に連絡してください。';
-      }
+  private renderResult(result: CommandResult): string {
+    switch (result.type) {
+      case 'select_organization': {
+        let message = '複数の組織に所属しています。--org <slug> で対象の組織を指定してください:\n';
 
-      // 組織の取得（TODO: 複数組織対応の場合は選択UIが必要）
-      const organizations = await this.organizationService.getUserOrganizations(user.id);
-      if (organizations.length === 0) {
-        return '所属組織が見つかりません。管理者に連絡してください。';
-      }
-
-      // 最初の組織を使用
-      const organization = organizations[0];
+        for (const organization of result.candidates) {
+          message += `• ${organization.name} (${organization.slug})\n`;
+        }
 
-      // 全アクティブセッションを取得
-      const activeSessions = await this.workingSessionService.getAllActiveSessions(organization.id);
-      
-      if (activeSessions.length === 0) {
-        return '現在稼働中のメンバーはいません。';
+        return message + '/org <slug> でデフォルトの組織を設定できます。';
       }
 
-      // メッセージ作成
-      let message = `現在稼働中のメンバー (${activeSessions.length}人):\n`;
-      
-      for (const session of activeSessions) {
-        const startTime = session.checkinAt.toLocaleString('ja-JP', {
-          hour: '2-digit',
-          minute: '2-digit',
-        });
-        
-        message += `• ${session.user.name} (開始: ${startTime})${session.note ? ` - ${session.note}` : ''}\n`;
-      }
+      case 'file':
+        return result.message;
 
-      return message;
-    } catch (error) {
-      return `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`;
+      default:
+        return formatCommandResult(result, CHATWORK_TEXT_STYLE);
     }
   }
 
   /**
-   * 休暇申請コマンド処理
+   * Chatworkメッセージ送信（一時的なエラー・レート制限は再試行する）
    */
-  private async handleVacationCommand(chatworkUserId: string, params?: string): Promise<string> {
-    // TODO: Google Calendar連携を実装
-    return '休暇申請機能は近日公開予定です。';
+  private async sendChatworkMessage(roomId: string, message: string): Promise<void> {
+    try {
+      await this.chatworkApiService.sendMessage(roomId, message);
+    } catch (error) {
+      console.error('Chatworkメッセージ送信エラー:', error);
+    }
   }
 
   /**
-   * Chatworkメッセージ送信
+   * Chatworkにファイルをアップロード（一時的なエラー・レート制限は再試行する）
    */
-  private async sendChatworkMessage(roomId: string, message: string): Promise<void> {
+  private async sendChatworkFile(
+    roomId: string,
+    filename: string,
+    content: string | Buffer,
+    message: string
+  ): Promise<void> {
     try {
-      const url = `https://api.chatwork.com/v2/rooms/${roomId}/messages`;
-      await axios.post(
-        url,
-        { body: message },
-        {
-          headers: {
-            'X-ChatWorkToken': this.apiToken,
-          },
-        }
-      );
+      await this.chatworkApiService.uploadFile(roomId, filename, content, message);
     } catch (error) {
-      console.error('Chatworkメッセージ送信エラー:', error);
+      console.error('Chatworkファイル送信エラー:', error);
     }
   }
 }
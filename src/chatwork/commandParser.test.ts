@@ -0,0 +1,106 @@
+import { formatChatworkHelp, formatUnknownCommand, parseChatworkCommand } from './commandParser';
+
+const BOT_ACCOUNT_ID = '9999999';
+
+describe('parseChatworkCommand', () => {
+  it('/ で始まるコマンドと引数を解析する', () => {
+    expect(parseChatworkCommand('/checkin 朝会の後から')).toEqual({
+      type: 'command',
+      name: 'checkin',
+      param: '朝会の後から',
+    });
+    expect(parseChatworkCommand('/CHECKOUT')).toEqual({ type: 'command', name: 'checkout', param: '' });
+    expect(parseChatworkCommand('\n\n/vacation 11/3 --am 通院  ')).toEqual({
+      type: 'command',
+      name: 'vacation',
+      param: '11/3 --am 通院',
+    });
+  });
+
+  it('日本語の別名は / なしでも使える', () => {
+    expect(parseChatworkCommand('出勤')).toEqual({ type: 'command', name: 'checkin', param: '' });
+    expect(parseChatworkCommand('/休憩')).toEqual({ type: 'command', name: 'break', param: '' });
+    expect(parseChatworkCommand('修正 10/15 9:00-18:00')).toEqual({
+      type: 'command',
+      name: 'fix',
+      param: '10/15 9:00-18:00',
+    });
+    // 英語のコマンド名は / が必要
+    expect(parseChatworkCommand('checkin')).toBeNull();
+  });
+
+  it('ヘルプ・存在しないコマンドを判別する', () => {
+    expect(parseChatworkCommand('/help')).toEqual({ type: 'help' });
+    expect(parseChatworkCommand('ヘルプ')).toEqual({ type: 'help' });
+    expect(parseChatworkCommand('/chekin')).toEqual({ type: 'unknown', name: 'chekin' });
+    // パスのような文字列は入力ミスとして扱わない
+    expect(parseChatworkCommand('/usr/local/bin を確認しました')).toBeNull();
+  });
+
+  it('通常の会話・引用はコマンドとして扱わない', () => {
+    expect(parseChatworkCommand('おはようございます\n/checkin')).toBeNull();
+    expect(parseChatworkCommand('[qt][qtmeta aid=1234567 time=1760000000]/checkout[/qt]了解です')).toBeNull();
+    expect(parseChatworkCommand('[qt][qtmeta aid=1234567 time=1760000000]確認お願いします[/qt]\n/status')).toEqual({
+      type: 'command',
+      name: 'status',
+      param: '',
+    });
+  });
+
+  it('ボット宛ての宛先・返信に続くコマンドを解析する', () => {
+    expect(parseChatworkCommand(`[To:${BOT_ACCOUNT_ID}]ボットさん /checkin 在宅`, BOT_ACCOUNT_ID)).toEqual({
+      type: 'command',
+      name: 'checkin',
+      param: '在宅',
+    });
+    expect(parseChatworkCommand(`[To:${BOT_ACCOUNT_ID}]ボットさん\n退勤`, BOT_ACCOUNT_ID)).toEqual({
+      type: 'command',
+      name: 'checkout',
+      param: '',
+    });
+    expect(
+      parseChatworkCommand(`[rp aid=${BOT_ACCOUNT_ID} to=123456789-1234567890]ボットさん\n/resume`, BOT_ACCOUNT_ID)
+    ).toEqual({ type: 'command', name: 'resume', param: '' });
+    expect(parseChatworkCommand('[toall]\n/status', BOT_ACCOUNT_ID)).toEqual({
+      type: 'command',
+      name: 'status',
+      param: '',
+    });
+    expect(parseChatworkCommand(`[To:1234567][To:${BOT_ACCOUNT_ID}]佐藤さん、ボットさん /break`, BOT_ACCOUNT_ID)).toEqual({
+      type: 'command',
+      name: 'break',
+      param: '',
+    });
+  });
+
+  it('他のメンバー宛てのメッセージはコマンドとして扱わない', () => {
+    expect(parseChatworkCommand('[To:1234567]佐藤さん /checkin', BOT_ACCOUNT_ID)).toBeNull();
+    expect(parseChatworkCommand('[rp aid=1234567 to=123456789-1234567890]佐藤さん\n退勤', BOT_ACCOUNT_ID)).toBeNull();
+
+    // ボットのアカウントIDが未設定の場合は宛先を問わない
+    expect(parseChatworkCommand('[To:1234567]佐藤さん /checkin')).toEqual({
+      type: 'command',
+      name: 'checkin',
+      param: '',
+    });
+  });
+});
+
+describe('formatChatworkHelp', () => {
+  it('コマンドの使い方と日本語の別名を一覧にする', () => {
+    const help = formatChatworkHelp();
+
+    expect(help).toMatch(/^\[info\]\[title\]NowWorking のコマンド\[\/title\]/);
+    expect(help).toContain('/checkin [コメント] - 打刻開始（「出勤」でも可）\n');
+    expect(help).toContain('/export [期間] [csv|xlsx] [ユーザー|all] - 勤務表をファイルで出力\n');
+    expect(help).toMatch(/--org <slug> で対象の組織を指定できます。\[\/info\]$/);
+  });
+});
+
+describe('formatUnknownCommand', () => {
+  it('ヘルプの表示方法を案内する', () => {
+    expect(formatUnknownCommand('chekin')).toBe(
+      '「/chekin」というコマンドはありません。/help でコマンドの一覧を表示できます。'
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import { CommandName } from '../commands/types';
+
+/**
+ * Chatworkのメッセージから解析したコマンド
+ */
+export type ChatworkCommand =
+  | { type: 'command'; name: CommandName; param: string }
+  | { type: 'help' }
+  /** `/` で始まるが存在しないコマンド（入力ミスなど） */
+  | { type: 'unknown'; name: string };
+
+/**
+ * Chatworkのコマンドの定義
+ */
+interface CommandDefinition {
+  name: CommandName;
+  /** Chatworkでのコマンド名（`/` を除く） */
+  command: string;
+  /** `/` なしでも使える日本語の別名 */
+  aliases: string[];
+  usage: string;
+  description: string;
+}
+
+/** コマンドの一覧（ヘルプの表示順） */
+const COMMANDS: CommandDefinition[] = [
+  {
+    name: 'checkin',
+    command: 'checkin',
+    aliases: ['出勤'],
+    usage: '[コメント]',
+    description: '打刻開始',
+  },
+  {
+    name: 'checkout',
+    command: 'checkout',
+    aliases: ['退勤'],
+    usage: '[コメント]',
+    description: '打刻終了',
+  },
+  {
+    name: 'break',
+    command: 'break',
+    aliases: ['休憩'],
+    usage: '',
+    description: '休憩開始',
+  },
+  {
+    name: 'resume',
+    command: 'resume',
+    aliases: ['再開'],
+    usage: '',
+    description: '休憩終了、作業再開',
+  },
+  {
+    name: 'status',
+    command: 'status',
+    aliases: ['状況'],
+    usage: '',
+    description: '現在稼働中のメンバーを表示',
+  },
+  {
+    name: 'vacation',
+    command: 'vacation',
+    aliases: ['休暇'],
+    usage: '<日付> [--am|--pm] [理由]',
+    description: '休暇申請、cancel <日付> で取り消し',
+  },
+  {
+    name: 'fix',
+    command: 'fix',
+    aliases: ['修正'],
+    usage: '<日付> <開始>-<終了> [理由]',
+    description: '稼働時間の修正を申請',
+  },
+  {
+    name: 'report',
+    command: 'report',
+    aliases: ['レポート'],
+    usage: '[YYYY-MM]',
+    description: '月次レポートを表示',
+  },
+  {
+    name: 'export',
+    command: 'export',
+    aliases: [],
+    usage: '[期間] [csv|xlsx] [ユーザー|all]',
+    description: '勤務表をファイルで出力',
+  },
+  {
+    name: 'register',
+    command: 'register',
+    aliases: [],
+    usage: '[link]',
+    description: 'ユーザー登録、連携用コードの発行',
+  },
+  {
+    name: 'link',
+    command: 'link',
+    aliases: [],
+    usage: '<コード>',
+    description: '登録済みユーザーにアカウントを紐付け',
+  },
+  {
+    name: 'org',
+    command: 'org',
+    aliases: [],
+    usage: '[slug]',
+    description: '所属組織の一覧、デフォルト組織の設定',
+  },
+  {
+    name: 'timezone',
+    command: 'timezone',
+    aliases: [],
+    usage: '[タイムゾーン|reset]',
+    description: '自分のタイムゾーンの表示・設定',
+  },
+  {
+    name: 'calendar',
+    command: 'calendar',
+    aliases: [],
+    usage: '[カレンダーID|disconnect]',
+    description: 'Googleカレンダー連携（管理者のみ）',
+  },
+  {
+    name: 'admin',
+    command: 'admin',
+    aliases: [],
+    usage: '<サブコマンド>',
+    description: '組織のメンバー管理（管理者のみ）',
+  },
+];
+
+/** ヘルプを表示するコマンド名 */
+const HELP_COMMANDS = ['help', 'ヘルプ'];
+
+/** 引用（[qt]...[/qt]）はコマンドとして扱わない */
+const QUOTE_PATTERN = /\[qt\][\s\S]*?\[\/qt\]/g;
+
+/** 行頭の宛先・返信タグ（[To:123]、[rp aid=123 to=456-789]、[toall]） */
+const ADDRESS_TAG_PATTERN = /^\s*\[(?:To:(\d+)|rp aid=(\d+) to=[\d-]+|(toall))\]/;
+
+/**
+ * メッセージ本文からコマンドを解析する（コマンドでない場合はnull）
+ *
+ * 宛先・返信タグに続く名前（「[To:123]ボットさん」など）は読み飛ばし、その後のコマンドを解析する。
+ * botAccountId を指定した場合、他のメンバー宛てのメッセージはコマンドとして扱わない。
+ * コマンドは `/checkin` の形式のほか、「出勤」などの日本語の別名でも指定できる。
+ */
+export function parseChatworkCommand(body: string, botAccountId?: string): ChatworkCommand | null {
+  const lines = body.replace(QUOTE_PATTERN, '').split('\n');
+  let toBot = false;
+
+  for (const line of lines) {
+    let rest = line;
+    let addressed = false;
+    for (let match = rest.match(ADDRESS_TAG_PATTERN); match; match = rest.match(ADDRESS_TAG_PATTERN)) {
+      const [tag, toId, replyId, toAll] = match;
+      toBot ||= Boolean(toAll) || !botAccountId || (toId ?? replyId) === botAccountId;
+      rest = rest.slice(tag.length);
+      addressed = true;
+    }
+
+    if (addressed) {
+      if (!toBot) {
+        return null;
+      }
+
+      // 宛先の名前の後に続くコマンドを探す（名前だけの行は次の行へ）
+      const words = rest.trim().split(/\s+/);
+      for (let i = 0; i < words.length; i++) {
+        const command = parseLine(words.slice(i).join(' '));
+        if (command) {
+          return command;
+        }
+      }
+      continue;
+    }
+
+    if (rest.trim() === '') {
+      continue;
+    }
+
+    // 宛先の後の最初の行がコマンドでなければ、通常の会話として扱う
+    return parseLine(rest.trim());
+  }
+
+  return null;
+}
+
+/**
+ * 「コマンド名 引数」の形式の1行を解析する
+ */
+function parseLine(line: string): ChatworkCommand | null {
+  const match = line.match(/^(\/)?(\S+)(?:\s+(.*))?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, slash, word, param = ''] = match;
+  const name = word.toLowerCase();
+
+  if (HELP_COMMANDS.includes(name)) {
+    return { type: 'help' };
+  }
+
+  const definition = COMMANDS.find((command) =>
+    slash ? command.command === name || command.aliases.includes(name) : command.aliases.includes(name)
+  );
+  if (definition) {
+    return { type: 'command', name: definition.name, param: param.trim() };
+  }
+
+  // URLやパスのような文字列は入力ミスとして扱わない
+  if (slash && /^[a-z][a-z-]*$/.test(name)) {
+    return { type: 'unknown', name };
+  }
+
+  return null;
+}
+
+/**
+ * Chatworkで使えるコマンドの一覧
+ */
+export function formatChatworkHelp(): string {
+  let message = '[info][title]NowWorking のコマンド[/title]';
+
+  for (const command of COMMANDS) {
+    const usage = command.usage ? ` ${command.usage}` : '';
+    const aliases = command.aliases.length > 0 ? `（「${command.aliases.join('」「')}」でも可）` : '';
+    message += `/${command.command}${usage} - ${command.description}${aliases}\n`;
+  }
+
+  message += '複数の組織に所属している場合は --org <slug> で対象の組織を指定できます。[/info]';
+  return message;
+}
+
+/**
+ * 存在しないコマンドを実行した場合のメッセージ
+ */
+export function formatUnknownCommand(name: string): string {
+  return `「/${name}」というコマンドはありません。/help でコマンドの一覧を表示できます。`;
+}
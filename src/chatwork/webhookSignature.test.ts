@@ -0,0 +1,32 @@
+import { verifyChatworkSignature } from './webhookSignature';
+import webhooks from './__fixtures__/chatworkWebhooks.json';
+
+describe('verifyChatworkSignature', () => {
+  const { webhookToken, messageCreated } = webhooks;
+  const rawBody = Buffer.from(messageCreated.body);
+  const signature = messageCreated.headers['x-chatworkwebhooksignature'];
+
+  it('記録したWebhookの署名を受け入れる', () => {
+    expect(verifyChatworkSignature(rawBody, signature, webhookToken)).toBe(true);
+  });
+
+  it('ボディが改ざんされている場合は拒否する', () => {
+    const tampered = Buffer.from(messageCreated.body.replace('/checkin', '/checkout'));
+    expect(verifyChatworkSignature(tampered, signature, webhookToken)).toBe(false);
+  });
+
+  it('別のリクエストの署名は拒否する', () => {
+    const otherSignature = webhooks.messageCreatedByBot.headers['x-chatworkwebhooksignature'];
+    expect(verifyChatworkSignature(rawBody, otherSignature, webhookToken)).toBe(false);
+  });
+
+  it('署名のヘッダーがない場合は拒否する', () => {
+    expect(verifyChatworkSignature(rawBody, undefined, webhookToken)).toBe(false);
+    expect(verifyChatworkSignature(rawBody, '', webhookToken)).toBe(false);
+  });
+
+  it('トークンが未設定・base64として不正な場合は拒否する', () => {
+    expect(verifyChatworkSignature(rawBody, signature, '')).toBe(false);
+    expect(verifyChatworkSignature(rawBody, signature, '***not-base64***')).toBe(false);
+  });
+});
@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+
+/**
+ * ChatworkのWebhookの署名を検証する
+ *
+ * 署名はリクエストボディ（生のバイト列）のHMAC-SHA256をbase64にしたもので、
+ * 鍵にはWebhookのトークンをbase64デコードしたものを使う。
+ */
+export function verifyChatworkSignature(
+  rawBody: Buffer,
+  signature: string | undefined,
+  webhookToken: string
+): boolean {
+  if (!signature || !webhookToken) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHmac('sha256', Buffer.from(webhookToken, 'base64'))
+    .update(rawBody)
+    .digest();
+  const actual = Buffer.from(signature, 'base64');
+
+  return actual.length === expected.length && crypto.timingSafeEqual(actual, expected);
+}
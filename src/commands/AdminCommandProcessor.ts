@@ -0,0 +1,624 @@
+import { Organization, PrismaClient, Role, User } from '@prisma/client';
+import UserService from '../services/UserService';
+import OrganizationService from '../services/OrganizationService';
+import PermissionService from '../services/PermissionService';
+import AuditLogService from '../services/AuditLogService';
+import ApiKeyService from '../services/ApiKeyService';
+import StatusBoardService from '../services/StatusBoardService';
+import FreeeCredentialService from '../services/FreeeCredentialService';
+import FreeeSyncService from '../services/FreeeSyncService';
+import { getMonthRange, getZonedParts, isValidTimeZone } from '../utils/timezone';
+import { CommandContext, CommandResult, Platform } from './types';
+
+const USAGE =
+  '管理コマンドの使い方（Slackは /nw-admin、Chatworkは /admin に続けて指定）:\n' +
+  'members - メンバー一覧\n' +
+  'invite <メールアドレス|@ユーザー> [OWNER|ADMIN|MEMBER] - メンバーを招待\n' +
+  'role <ユーザー> <OWNER|ADMIN|MEMBER> - ロールを変更\n' +
+  'suspend <ユーザー> - 利用停止\n' +
+  'activate <ユーザー> - 利用停止を解除\n' +
+  'remove <ユーザー> - 組織から削除\n' +
+  'delete-organization <組織のslug> - 組織を削除（オーナーのみ）\n' +
+  'audit [ユーザー] - 変更履歴（新しい順に20件）\n' +
+  'audit-export [YYYY-MM] - 変更履歴をCSVで出力（省略時は今月）\n' +
+  'api-key create <名前> - REST API用のAPIキーを発行（Slackのみ）\n' +
+  'api-key list - APIキーの一覧\n' +
+  'api-key revoke <キーの先頭部分> - APIキーを無効化\n' +
+  'board [reset|off] - Webのステータスボードのリンク（reset: URLを変更、off: 非公開）\n' +
+  'timezone [<タイムゾーン>] - 組織のタイムゾーン（例: Asia/Tokyo）\n' +
+  'link-slack-team [<チームID>|off] - Slackワークスペースを組織に紐付け（省略時は実行したワークスペース）\n' +
+  'link-chatwork-room [<ルームID>|off] - Chatworkルームを組織に紐付け（省略時は実行したルーム）\n' +
+  'freee connect|disconnect - freeeとの連携・連携解除\n' +
+  'freee [members] - メンバーとfreeeの従業員・請求先の対応\n' +
+  'freee map [<ユーザー> <従業員ID|off>] - 従業員を対応付け（省略時はメールアドレスで自動）\n' +
+  'freee bill <ユーザー> <取引先ID> <時給>|off - 業務委託メンバーの請求先と単価\n' +
+  'freee push [YYYY-MM] - 締まった月の勤怠をfreeeに送信（省略時は先月）\n' +
+  'freee invoice [YYYY-MM] - 業務委託メンバーの請求書の下書きを作成（省略時は先月）';
+
+/**
+ * 組織のメンバー管理コマンドの処理クラス
+ *
+ * 権限チェックは各サービスで行い、権限がない場合は `PermissionDeniedError` が投げられる。
+ */
+export default class AdminCommandProcessor {
+  private userService: UserService;
+  private organizationService: OrganizationService;
+  private permissionService: PermissionService;
+  private auditLogService: AuditLogService;
+  private apiKeyService: ApiKeyService;
+  private statusBoardService: StatusBoardService;
+  private freeeCredentialService: FreeeCredentialService;
+  private freeeSyncService: FreeeSyncService;
+
+  constructor(prisma: PrismaClient) {
+    this.userService = new UserService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.permissionService = new PermissionService(prisma);
+    this.auditLogService = new AuditLogService(prisma);
+    this.apiKeyService = new ApiKeyService(prisma);
+    this.statusBoardService = new StatusBoardService(prisma);
+    this.freeeCredentialService = new FreeeCredentialService(prisma);
+    this.freeeSyncService = new FreeeSyncService(prisma);
+  }
+
+  /**
+   * 管理コマンドを実行する
+   */
+  async execute(
+    user: User,
+    organization: Organization,
+    args: string,
+    platform: Platform,
+    context?: CommandContext
+  ): Promise<CommandResult> {
+    const [subcommand, target, roleName] = args.trim().split(/\s+/);
+
+    if (subcommand === 'members') {
+      await this.permissionService.authorize(user.id, organization.id, 'member:view');
+      const members = await this.organizationService.getOrganizationMembers(organization.id);
+      return { type: 'admin_members', organization, members };
+    }
+
+    if (subcommand === 'delete-organization') {
+      return this.deleteOrganization(user, organization, target);
+    }
+
+    if (subcommand === 'audit') {
+      return this.auditLogs(user, organization, target);
+    }
+
+    if (subcommand === 'audit-export') {
+      return this.exportAuditLogs(user, organization, target);
+    }
+
+    if (subcommand === 'api-key') {
+      return this.apiKeys(user, organization, platform, args.trim().replace(/^api-key\s*/, ''));
+    }
+
+    if (subcommand === 'board') {
+      return this.statusBoard(user, organization, target);
+    }
+
+    if (subcommand === 'timezone') {
+      return this.timeZone(user, organization, target);
+    }
+
+    if (subcommand === 'link-slack-team') {
+      return this.linkPlatform(user, organization, 'slack', target ?? context?.slackTeamId);
+    }
+
+    if (subcommand === 'link-chatwork-room') {
+      return this.linkPlatform(user, organization, 'chatwork', target ?? context?.chatworkRoomId);
+    }
+
+    if (subcommand === 'freee') {
+      return this.freee(user, organization, args.trim().replace(/^freee\s*/, ''));
+    }
+
+    if (!target || !['invite', 'role', 'suspend', 'activate', 'remove'].includes(subcommand)) {
+      return { type: 'error', code: 'INVALID_ARGUMENT', message: USAGE };
+    }
+
+    if (subcommand === 'invite') {
+      return this.invite(user, organization, target, roleName);
+    }
+
+    const member = await this.userService.findByReference(target);
+    if (!member) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message: `「${target}」は組織のメンバーではありません。`,
+      };
+    }
+
+    switch (subcommand) {
+      case 'role': {
+        const role = this.parseRole(roleName);
+        if (!role) {
+          return {
+            type: 'error',
+            code: 'INVALID_ARGUMENT',
+            message: 'ロールは OWNER・ADMIN・MEMBER のいずれかを指定してください。',
+          };
+        }
+
+        const updated = await this.organizationService.changeUserRole(
+          organization.id,
+          member.id,
+          role,
+          user.id
+        );
+        return {
+          type: 'admin_member_updated',
+          action: 'role_changed',
+          organization,
+          member,
+          membership: updated,
+        };
+      }
+
+      case 'suspend': {
+        const updated = await this.organizationService.suspendUser(
+          organization.id,
+          member.id,
+          user.id
+        );
+        return {
+          type: 'admin_member_updated',
+          action: 'suspended',
+          organization,
+          member,
+          membership: updated,
+        };
+      }
+
+      case 'activate': {
+        const updated = await this.organizationService.reactivateUser(
+          organization.id,
+          member.id,
+          user.id
+        );
+        return {
+          type: 'admin_member_updated',
+          action: 'activated',
+          organization,
+          member,
+          membership: updated,
+        };
+      }
+
+      default: {
+        const updated = await this.organizationService.removeUserFromOrganization(
+          organization.id,
+          member.id,
+          user.id
+        );
+        return {
+          type: 'admin_member_updated',
+          action: 'removed',
+          organization,
+          member,
+          membership: updated,
+        };
+      }
+    }
+  }
+
+  /**
+   * メンバーの招待（未登録のメールアドレスは仮ユーザーを作成し、/register 時に紐付ける）
+   */
+  private async invite(
+    user: User,
+    organization: Organization,
+    target: string,
+    roleName?: string
+  ): Promise<CommandResult> {
+    const role = roleName ? this.parseRole(roleName) : Role.MEMBER;
+    if (!role) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message: 'ロールは OWNER・ADMIN・MEMBER のいずれかを指定してください。',
+      };
+    }
+
+    // 仮ユーザーを作成する前に招待できるか確認する
+    await this.permissionService.authorizeInvitation(user.id, organization.id, role);
+
+    let member = await this.userService.findByReference(target);
+    if (!member) {
+      if (!UserService.isEmail(target)) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: `「${target}」は未登録のユーザーです。メールアドレスで招待してください。`,
+        };
+      }
+      member = await this.userService.createUser(target.split('@')[0], target);
+    }
+
+    const invited = await this.userService.inviteUserToOrganization(
+      member.id,
+      organization.id,
+      role,
+      user.id
+    );
+
+    return {
+      type: 'admin_member_updated',
+      action: 'invited',
+      organization,
+      member,
+      membership: invited,
+    };
+  }
+
+  /**
+   * 組織の削除（誤操作防止のため組織のslugの入力を求める）
+   */
+  private async deleteOrganization(
+    user: User,
+    organization: Organization,
+    slug?: string
+  ): Promise<CommandResult> {
+    if (slug !== organization.slug) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message: `組織を削除するには、確認のため組織のslugを指定してください。例: delete-organization ${organization.slug}`,
+      };
+    }
+
+    await this.organizationService.deleteOrganization(organization.id, user.id);
+
+    return { type: 'admin_organization_deleted', organization };
+  }
+
+  /**
+   * 組織の変更履歴を表示する（ユーザーを指定した場合はそのユーザーの操作・そのユーザーへの変更のみ）
+   */
+  private async auditLogs(
+    user: User,
+    organization: Organization,
+    target?: string
+  ): Promise<CommandResult> {
+    let member: User | null = null;
+    if (target) {
+      member = await this.userService.findByReference(target);
+      if (!member) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: `「${target}」に該当するユーザーが見つかりません。`,
+        };
+      }
+    }
+
+    const logs = await this.auditLogService.getLogs(organization.id, user.id, {
+      userId: member?.id,
+    });
+
+    return { type: 'audit_logs', organization, logs };
+  }
+
+  /**
+   * 指定した月（組織のタイムゾーン）の組織の変更履歴をCSVで出力する
+   */
+  private async exportAuditLogs(
+    user: User,
+    organization: Organization,
+    monthArg?: string
+  ): Promise<CommandResult> {
+    let { year, month } = getZonedParts(new Date(), organization.timeZone);
+
+    if (monthArg) {
+      const match = monthArg.match(/^(\d{4})[-/](\d{1,2})$/);
+      if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: '対象月は YYYY-MM 形式で指定してください。例: audit-export 2026-10',
+        };
+      }
+      year = Number(match[1]);
+      month = Number(match[2]);
+    }
+
+    const { start, end } = getMonthRange(year, month, organization.timeZone);
+    const content = await this.auditLogService.exportCsv(organization.id, user.id, start, end);
+    const period = `${year}-${month.toString().padStart(2, '0')}`;
+
+    return {
+      type: 'file',
+      message: `「${organization.name}」の${year}年${month}月の変更履歴です。`,
+      filename: `audit-log-${organization.slug}-${period}.csv`,
+      content,
+    };
+  }
+
+  /**
+   * REST API用のAPIキーの発行・一覧・無効化
+   */
+  private async apiKeys(
+    user: User,
+    organization: Organization,
+    platform: Platform,
+    args: string
+  ): Promise<CommandResult> {
+    const [action, ...rest] = args.split(/\s+/);
+    const value = rest.join(' ');
+
+    if (action === 'list') {
+      const apiKeys = await this.apiKeyService.getApiKeys(organization.id, user.id);
+      return { type: 'api_keys', organization, apiKeys };
+    }
+
+    if (action === 'create' && value) {
+      // Chatworkではルームの全員にキーが見えてしまうため、本人にのみ表示されるSlackに限る
+      if (platform !== 'slack') {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: 'APIキーはルームの他のメンバーにも見えてしまうため、Slackの /nw-admin から発行してください。',
+        };
+      }
+
+      const { apiKey, key } = await this.apiKeyService.createApiKey(organization.id, user.id, value);
+      return { type: 'api_key_created', organization, apiKey, key };
+    }
+
+    if (action === 'revoke' && value) {
+      const apiKey = await this.apiKeyService.revokeApiKey(organization.id, value, user.id);
+      return { type: 'api_key_revoked', organization, apiKey };
+    }
+
+    return { type: 'error', code: 'INVALID_ARGUMENT', message: USAGE };
+  }
+
+  /**
+   * Webのステータスボードのリンクを表示する（未発行・reset の場合はトークンを発行、off の場合は非公開）
+   */
+  private async statusBoard(
+    user: User,
+    organization: Organization,
+    action?: string
+  ): Promise<CommandResult> {
+    if (action && action !== 'reset' && action !== 'off') {
+      return { type: 'error', code: 'INVALID_ARGUMENT', message: USAGE };
+    }
+
+    await this.permissionService.authorize(user.id, organization.id, 'organization:update');
+
+    let updated = organization;
+    if (action === 'off') {
+      updated = await this.organizationService.updateOrganization(organization.id, {
+        statusBoardToken: null,
+      });
+    } else if (action === 'reset' || !organization.statusBoardToken) {
+      updated = await this.organizationService.updateOrganization(organization.id, {
+        statusBoardToken: this.statusBoardService.createToken(),
+      });
+    }
+
+    return {
+      type: 'status_board',
+      organization: updated,
+      url: this.statusBoardService.getBoardUrl(updated),
+    };
+  }
+
+  /**
+   * 組織のタイムゾーンの表示・設定
+   *
+   * 月の境界・日別の集計・メッセージの時刻に使用する（タイムゾーンを設定したメンバーはその設定を優先）。
+   */
+  private async timeZone(
+    user: User,
+    organization: Organization,
+    timeZone?: string
+  ): Promise<CommandResult> {
+    if (!timeZone) {
+      return { type: 'organization_time_zone', organization, updated: false };
+    }
+
+    if (!isValidTimeZone(timeZone)) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message: `「${timeZone}」は有効なタイムゾーンではありません。例: timezone Asia/Tokyo`,
+      };
+    }
+
+    await this.permissionService.authorize(user.id, organization.id, 'organization:update');
+
+    const updated = await this.organizationService.updateOrganization(organization.id, {
+      timeZone,
+    });
+    return { type: 'organization_time_zone', organization: updated, updated: true };
+  }
+
+  /**
+   * Slackワークスペース・Chatworkルームを組織に紐付ける（off の場合は紐付けを解除）
+   *
+   * IDを省略した場合は、コマンドを実行したワークスペース・ルームを紐付ける。
+   */
+  private async linkPlatform(
+    user: User,
+    organization: Organization,
+    platform: Platform,
+    externalId?: string
+  ): Promise<CommandResult> {
+    const pattern = platform === 'slack' ? /^[TE][A-Z0-9]+$/ : /^\d+$/;
+    if (!externalId || (externalId !== 'off' && !pattern.test(externalId))) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message:
+          platform === 'slack'
+            ? 'SlackのチームID（例: T0123ABCD）を指定するか、紐付けるワークスペースで実行してください。'
+            : 'ChatworkのルームID（数字）を指定するか、紐付けるルームで実行してください。',
+      };
+    }
+
+    const linked = externalId !== 'off';
+    const updated = await this.organizationService.linkPlatform(
+      organization.id,
+      platform,
+      linked ? externalId : null,
+      user.id
+    );
+    return { type: 'platform_linked', organization: updated, platform, linked };
+  }
+
+  /**
+   * freee連携の設定・勤怠の送信・請求書の作成
+   */
+  private async freee(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    const [action = 'members', target, ...values] = args.split(/\s+/).filter(Boolean);
+
+    switch (action) {
+      case 'connect': {
+        await this.permissionService.authorize(user.id, organization.id, 'organization:update');
+        const url = this.freeeCredentialService.createConnectUrl(organization.id);
+        return { type: 'freee_connect_link', organization, url };
+      }
+
+      case 'disconnect':
+        await this.permissionService.authorize(user.id, organization.id, 'organization:update');
+        await this.freeeCredentialService.disconnect(organization.id);
+        return { type: 'freee_disconnected', organization };
+
+      case 'members': {
+        const members = await this.freeeSyncService.getMemberStatuses(organization.id, user.id);
+        return { type: 'freee_members', organization, members };
+      }
+
+      case 'map':
+        if (!target) {
+          const members = await this.freeeSyncService.mapEmployeesByEmail(organization, user.id);
+          return { type: 'freee_members', organization, members };
+        }
+        return this.updateFreeeSetting(user, organization, target, values, 'map');
+
+      case 'bill':
+        if (!target) break;
+        return this.updateFreeeSetting(user, organization, target, values, 'bill');
+
+      case 'push':
+      case 'invoice': {
+        const period = this.parseMonth(organization, target);
+        if (!period) {
+          return {
+            type: 'error',
+            code: 'INVALID_ARGUMENT',
+            message: `対象月は YYYY-MM 形式で指定してください。例: freee ${action} 2026-09`,
+          };
+        }
+
+        if (action === 'push') {
+          const results = await this.freeeSyncService.pushAttendance(
+            organization,
+            user.id,
+            period.year,
+            period.month
+          );
+          return { type: 'freee_attendance_pushed', organization, ...period, results };
+        }
+
+        const results = await this.freeeSyncService.createInvoices(
+          organization,
+          user.id,
+          period.year,
+          period.month
+        );
+        return { type: 'freee_invoices_created', organization, ...period, results };
+      }
+    }
+
+    return { type: 'error', code: 'INVALID_ARGUMENT', message: USAGE };
+  }
+
+  /**
+   * メンバーのfreeeの従業員ID（map）・請求先と単価（bill）を設定する
+   */
+  private async updateFreeeSetting(
+    user: User,
+    organization: Organization,
+    target: string,
+    values: string[],
+    action: 'map' | 'bill'
+  ): Promise<CommandResult> {
+    const member = await this.userService.findByReference(target);
+    if (!member) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message: `「${target}」は組織のメンバーではありません。`,
+      };
+    }
+
+    const ids = values.map(Number);
+    const off = values[0] === 'off';
+
+    if (action === 'map') {
+      if (!off && !(ids.length === 1 && Number.isInteger(ids[0]) && ids[0] > 0)) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: 'freeeの従業員IDを指定してください。例: freee map user@example.com 12345',
+        };
+      }
+      await this.freeeSyncService.setEmployeeId(organization.id, user.id, member.id, off ? null : ids[0]);
+    } else {
+      if (!off && !(ids.length === 2 && ids.every((id) => Number.isInteger(id) && id > 0))) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: '取引先IDと時給を指定してください。例: freee bill user@example.com 67890 5000',
+        };
+      }
+      await this.freeeSyncService.setBilling(
+        organization.id,
+        user.id,
+        member.id,
+        off ? null : { partnerId: ids[0], hourlyRate: ids[1] }
+      );
+    }
+
+    const members = await this.freeeSyncService.getMemberStatuses(organization.id, user.id);
+    return { type: 'freee_members', organization, members };
+  }
+
+  /**
+   * 対象月（YYYY-MM）を解析する（省略時は組織のタイムゾーンでの先月）
+   */
+  private parseMonth(
+    organization: Organization,
+    monthArg?: string
+  ): { year: number; month: number } | null {
+    if (!monthArg) {
+      const { year, month } = getZonedParts(new Date(), organization.timeZone);
+      return month === 1 ? { year: year - 1, month: 12 } : { year, month: month - 1 };
+    }
+
+    const match = monthArg.match(/^(\d{4})[-/](\d{1,2})$/);
+    if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+      return null;
+    }
+
+    return { year: Number(match[1]), month: Number(match[2]) };
+  }
+
+  /**
+   * ロール名を解析する（大文字・小文字は区別しない）
+   */
+  private parseRole(roleName?: string): Role | null {
+    const role = roleName?.toUpperCase();
+    return role === Role.OWNER || role === Role.ADMIN || role === Role.MEMBER ? role : null;
+  }
+}
@@ -0,0 +1,157 @@
+import { Organization, PrismaClient, User, WorkingSession } from '@prisma/client';
+import AttendanceCommandProcessor from './AttendanceCommandProcessor';
+import OrganizationResolver from './OrganizationResolver';
+import AdminCommandProcessor from './AdminCommandProcessor';
+import UserService from '../services/UserService';
+import WorkingSessionService from '../services/WorkingSessionService';
+import VacationService from '../services/VacationService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import { CommandRequest } from './types';
+
+const user = {
+  id: 'user-1',
+  name: '山田太郎',
+  email: 'taro@example.com',
+  timeZone: null,
+  defaultOrganizationId: null,
+} as unknown as User;
+
+const organization = {
+  id: 'org-1',
+  name: '株式会社サンプル',
+  slug: 'sample',
+  timeZone: 'Asia/Tokyo',
+} as unknown as Organization;
+
+const otherOrganization = {
+  id: 'org-2',
+  name: 'サンプル開発',
+  slug: 'sample-dev',
+  timeZone: 'Asia/Tokyo',
+} as unknown as Organization;
+
+function createRequest(command: CommandRequest['command'], args = ''): CommandRequest {
+  return { platform: 'chatwork', externalUserId: '1234567890', command, args };
+}
+
+describe('AttendanceCommandProcessor', () => {
+  let processor: AttendanceCommandProcessor;
+  let findUser: jest.SpyInstance;
+  let resolveOrganization: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    findUser = jest.spyOn(UserService.prototype, 'findByPlatformUserId').mockResolvedValue(user);
+    resolveOrganization = jest
+      .spyOn(OrganizationResolver.prototype, 'resolve')
+      .mockResolvedValue({ type: 'resolved', organization });
+    jest.spyOn(WorkingSessionService.prototype, 'recordActivity').mockResolvedValue(undefined);
+
+    processor = new AttendanceCommandProcessor({} as PrismaClient);
+  });
+
+  it('未登録のユーザーには登録を案内する', async () => {
+    findUser.mockResolvedValue(null);
+
+    const result = await processor.execute(createRequest('checkin'));
+
+    expect(result).toMatchObject({ type: 'error', code: 'USER_NOT_REGISTERED' });
+    expect(resolveOrganization).not.toHaveBeenCalled();
+  });
+
+  it('チェックインするとコメント付きのセッションを返す', async () => {
+    const session = { id: 'session-1', checkinAt: new Date() } as WorkingSession;
+    jest.spyOn(WorkingSessionService.prototype, 'closeStaleSession').mockResolvedValue(null);
+    const checkin = jest.spyOn(WorkingSessionService.prototype, 'checkin').mockResolvedValue(session);
+
+    const result = await processor.execute(createRequest('checkin', ' 朝会から '));
+
+    expect(checkin).toHaveBeenCalledWith(user.id, organization.id, '朝会から');
+    expect(result).toEqual({
+      type: 'checkin',
+      user,
+      organization,
+      session,
+      note: '朝会から',
+      closedStaleSession: undefined,
+    });
+  });
+
+  it('--org の指定は取り除いて組織の解決に使う', async () => {
+    jest.spyOn(WorkingSessionService.prototype, 'closeStaleSession').mockResolvedValue(null);
+    const checkin = jest
+      .spyOn(WorkingSessionService.prototype, 'checkin')
+      .mockResolvedValue({ id: 'session-1' } as WorkingSession);
+
+    await processor.execute(createRequest('checkin', '--org sample 朝会から'));
+
+    expect(resolveOrganization).toHaveBeenCalledWith(user, expect.objectContaining({ slug: 'sample' }));
+    expect(checkin).toHaveBeenCalledWith(user.id, organization.id, '朝会から');
+  });
+
+  it('組織が決まらない場合は選択を求める', async () => {
+    resolveOrganization.mockResolvedValue({
+      type: 'ambiguous',
+      candidates: [organization, otherOrganization],
+    });
+    const request = createRequest('status');
+
+    const result = await processor.execute(request);
+
+    expect(result).toEqual({
+      type: 'select_organization',
+      user,
+      candidates: [organization, otherOrganization],
+      request,
+    });
+  });
+
+  it('所属組織が見つからない場合はエラーを返す', async () => {
+    resolveOrganization.mockResolvedValue({ type: 'not_found', message: '組織「other」に所属していません。' });
+
+    const result = await processor.execute(createRequest('status', '--org other'));
+
+    expect(result).toEqual({
+      type: 'error',
+      code: 'ORGANIZATION_NOT_FOUND',
+      message: '組織「other」に所属していません。',
+    });
+  });
+
+  it('権限がない操作は PERMISSION_DENIED を返す', async () => {
+    jest
+      .spyOn(AdminCommandProcessor.prototype, 'execute')
+      .mockRejectedValue(new PermissionDeniedError('organization:update', '組織の設定を変更する権限がありません。'));
+
+    const result = await processor.execute(createRequest('admin', 'link-chatwork-room'));
+
+    expect(result).toEqual({
+      type: 'error',
+      code: 'PERMISSION_DENIED',
+      message: '組織の設定を変更する権限がありません。',
+    });
+  });
+
+  it('想定外のエラーはメッセージを添えて COMMAND_FAILED を返す', async () => {
+    jest
+      .spyOn(WorkingSessionService.prototype, 'startBreak')
+      .mockRejectedValue(new Error('チェックイン中のセッションがありません。'));
+
+    const result = await processor.execute(createRequest('break'));
+
+    expect(result).toEqual({
+      type: 'error',
+      code: 'COMMAND_FAILED',
+      message: 'エラーが発生しました: チェックイン中のセッションがありません。',
+    });
+  });
+
+  it('休暇の日付が不正な場合は申請しない', async () => {
+    const requestVacation = jest.spyOn(VacationService.prototype, 'requestVacation');
+
+    const result = await processor.execute(createRequest('vacation', '来週のどこか'));
+
+    expect(result).toMatchObject({ type: 'error', code: 'INVALID_ARGUMENT' });
+    expect(requestVacation).not.toHaveBeenCalled();
+  });
+});
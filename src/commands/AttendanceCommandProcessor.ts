@@ -0,0 +1,628 @@
+import { Organization, PrismaClient, User } from '@prisma/client';
+import UserService from '../services/UserService';
+import WorkingSessionService from '../services/WorkingSessionService';
+import OrganizationService from '../services/OrganizationService';
+import VacationService from '../services/VacationService';
+import GoogleCredentialService from '../services/GoogleCredentialService';
+import ReportService from '../services/ReportService';
+import SessionCorrectionService from '../services/SessionCorrectionService';
+import PermissionService from '../services/PermissionService';
+import TimesheetService from '../services/TimesheetService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import { runAsActor } from '../utils/auditContext';
+import { getZonedParts, isValidTimeZone, resolveTimeZone, toCalendarDate } from '../utils/timezone';
+import OrganizationResolver from './OrganizationResolver';
+import AdminCommandProcessor from './AdminCommandProcessor';
+import { extractOrganizationOption } from './args';
+import { parseVacationArgs } from './vacationArgs';
+import { parseCorrectionArgs } from './correctionArgs';
+import { parseExportArgs } from './exportArgs';
+import { formatDay } from './reportText';
+import { CommandRequest, CommandResult, Platform } from './types';
+
+/**
+ * 勤怠コマンドの処理クラス
+ *
+ * Slack・Chatworkなどのアダプターから正規化されたリクエストを受け取り、
+ * 表示形式に依存しない実行結果を返す。
+ */
+export default class AttendanceCommandProcessor {
+  private userService: UserService;
+  private workingSessionService: WorkingSessionService;
+  private organizationService: OrganizationService;
+  private vacationService: VacationService;
+  private googleCredentialService: GoogleCredentialService;
+  private reportService: ReportService;
+  private permissionService: PermissionService;
+  private sessionCorrectionService: SessionCorrectionService;
+  private timesheetService: TimesheetService;
+  private organizationResolver: OrganizationResolver;
+  private adminCommandProcessor: AdminCommandProcessor;
+
+  constructor(prisma: PrismaClient) {
+    this.userService = new UserService(prisma);
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.vacationService = new VacationService(prisma);
+    this.googleCredentialService = new GoogleCredentialService(prisma);
+    this.reportService = new ReportService(prisma);
+    this.permissionService = new PermissionService(prisma);
+    this.sessionCorrectionService = new SessionCorrectionService(prisma);
+    this.timesheetService = new TimesheetService(prisma);
+    this.organizationResolver = new OrganizationResolver(prisma);
+    this.adminCommandProcessor = new AdminCommandProcessor(prisma);
+  }
+
+  /**
+   * コマンドを実行する
+   */
+  async execute(request: CommandRequest): Promise<CommandResult> {
+    try {
+      // プラットフォームのユーザーIDからユーザーを取得
+      const user = await this.userService.findByPlatformUserId(
+        request.platform,
+        request.externalUserId
+      );
+
+      // コマンド内での変更を操作者とともに監査ログに記録する
+      return await runAsActor({ actorId: user?.id, platform: request.platform }, () =>
+        this.dispatch(request, user)
+      );
+    } catch (error) {
+      if (error instanceof PermissionDeniedError) {
+        return { type: 'error', code: 'PERMISSION_DENIED', message: error.message };
+      }
+
+      return {
+        type: 'error',
+        code: 'COMMAND_FAILED',
+        message: `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`,
+      };
+    }
+  }
+
+  /**
+   * ユーザー・組織を確認してコマンドごとの処理に振り分ける
+   */
+  private async dispatch(request: CommandRequest, user: User | null): Promise<CommandResult> {
+    // ユーザー登録・アカウント連携は未登録でも実行できる
+    if (request.command === 'register') {
+      return await this.register(request, user);
+    }
+    if (request.command === 'link') {
+      return await this.link(request);
+    }
+
+    if (!user) {
+      return {
+        type: 'error',
+        code: 'USER_NOT_REGISTERED',
+        message: 'ユーザー登録が必要です。/register で登録してください。',
+      };
+    }
+
+    // デフォルト組織・タイムゾーンの確認・設定は組織の解決を必要としない
+    if (request.command === 'org') {
+      return await this.organization(user, request.args);
+    }
+    if (request.command === 'timezone') {
+      return await this.timeZone(user, request.args);
+    }
+
+    // 対象組織の決定
+    const { slug, rest: args } = extractOrganizationOption(request.args);
+    const resolution = await this.organizationResolver.resolve(user, {
+      organizationId: request.organizationId,
+      slug,
+      context: request.context,
+    });
+
+    if (resolution.type === 'not_found') {
+      return { type: 'error', code: 'ORGANIZATION_NOT_FOUND', message: resolution.message };
+    }
+    if (resolution.type === 'suspended') {
+      return { type: 'error', code: 'PERMISSION_DENIED', message: resolution.message };
+    }
+    if (resolution.type === 'ambiguous') {
+      return {
+        type: 'select_organization',
+        user,
+        candidates: resolution.candidates,
+        request,
+      };
+    }
+
+    const organization = resolution.organization;
+
+    // チェックイン中のセッションに最後の操作時刻を記録
+    if (request.command !== 'checkin' && request.command !== 'checkout') {
+      await this.workingSessionService.recordActivity(user.id, organization.id);
+    }
+
+    switch (request.command) {
+      case 'checkin':
+        return await this.checkin(user, organization, args);
+      case 'checkout':
+        return await this.checkout(user, organization, args);
+      case 'break':
+        return await this.startBreak(user, organization);
+      case 'resume':
+        return await this.endBreak(user, organization);
+      case 'status':
+        return await this.status(user, organization);
+      case 'vacation':
+        return await this.vacation(user, organization, args);
+      case 'report':
+        return await this.report(user, organization, args);
+      case 'calendar':
+        return await this.calendar(user, organization, args);
+      case 'fix':
+        return await this.fix(user, organization, args);
+      case 'export':
+        return await this.exportTimesheet(user, organization, args);
+      case 'admin':
+        return await this.adminCommandProcessor.execute(
+          user,
+          organization,
+          args,
+          request.platform,
+          request.context
+        );
+    }
+  }
+
+  /**
+   * チェックイン処理
+   */
+  private async checkin(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    // コメントがあれば取得
+    const note = args.trim() || undefined;
+
+    // 前回のチェックアウト忘れは組織のポリシーに従って自動終了する
+    const closedStaleSession = await this.workingSessionService.closeStaleSession(
+      user.id,
+      organization
+    );
+
+    const session = await this.workingSessionService.checkin(user.id, organization.id, note);
+
+    return {
+      type: 'checkin',
+      user,
+      organization,
+      session,
+      note,
+      closedStaleSession: closedStaleSession ?? undefined,
+    };
+  }
+
+  /**
+   * チェックアウト処理
+   */
+  private async checkout(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    // コメントがあれば取得
+    const note = args.trim() || undefined;
+
+    const session = await this.workingSessionService.checkout(user.id, organization.id, note);
+
+    // 休憩を除いた稼働時間と休憩時間を計算
+    const workingHours = this.workingSessionService.getNetWorkingHours(session);
+    const breakHours = this.workingSessionService.getBreakHours(session);
+
+    return {
+      type: 'checkout',
+      user,
+      organization,
+      session,
+      note,
+      workingHours,
+      breakHours,
+    };
+  }
+
+  /**
+   * 休憩開始処理
+   */
+  private async startBreak(user: User, organization: Organization): Promise<CommandResult> {
+    const workingBreak = await this.workingSessionService.startBreak(user.id, organization.id);
+
+    return { type: 'break_started', user, organization, workingBreak };
+  }
+
+  /**
+   * 休憩終了（作業再開）処理
+   */
+  private async endBreak(user: User, organization: Organization): Promise<CommandResult> {
+    const workingBreak = await this.workingSessionService.endBreak(user.id, organization.id);
+
+    return { type: 'break_ended', user, organization, workingBreak };
+  }
+
+  /**
+   * ステータス確認処理
+   */
+  private async status(user: User, organization: Organization): Promise<CommandResult> {
+    const activeSessions = await this.workingSessionService.getAllActiveSessions(organization.id);
+
+    return { type: 'status', user, organization, activeSessions };
+  }
+
+  /**
+   * 休暇申請・取り消し処理
+   */
+  private async vacation(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    const parsed = parseVacationArgs(args, this.today(user, organization));
+    if (!parsed) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message:
+          '日付を指定してください（最大31日間、半休は1日のみ）。\n' +
+          '例: /vacation 2026-11-03、/vacation 11/3-11/5 帰省、/vacation 11/3 --am 通院、/vacation cancel 11/3',
+      };
+    }
+
+    if (parsed.action === 'cancel') {
+      const vacation = await this.vacationService.cancelVacation(user, organization, parsed.date);
+      return { type: 'vacation_cancelled', user, organization, vacation };
+    }
+
+    const { vacations, skippedDates } = await this.vacationService.requestVacation(
+      user,
+      organization,
+      parsed.startDate,
+      parsed.endDate,
+      parsed.reason,
+      parsed.type
+    );
+
+    return {
+      type: 'vacation_requested',
+      user,
+      organization,
+      vacations,
+      skippedDates,
+      reason: parsed.reason,
+    };
+  }
+
+  /**
+   * 勤務表の出力（自分以外のメンバー・組織全体はOWNER・ADMINのみ）
+   */
+  private async exportTimesheet(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    const parsed = parseExportArgs(args, this.today(user, organization));
+    if (!parsed) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message:
+          '期間は YYYY-MM または 開始日~終了日 の形式で指定してください（省略時は今月）。\n' +
+          '例: 2026-10、10/1~10/15 xlsx、2026-10 all --round 15、2026-10 <メンバー>',
+      };
+    }
+
+    let member: User | null = user;
+    if (parsed.target === 'all') {
+      member = null;
+    } else if (parsed.target !== 'self') {
+      member = await this.userService.findByReference(parsed.target);
+      if (!member) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: `「${parsed.target}」に該当するユーザーが見つかりません。`,
+        };
+      }
+    }
+
+    const { filename, content } = await this.timesheetService.exportTimesheet(
+      organization,
+      user.id,
+      {
+        startDate: parsed.startDate,
+        endDate: parsed.endDate,
+        userId: member?.id,
+        roundingMinutes: parsed.roundingMinutes,
+      },
+      parsed.format
+    );
+
+    const period = `${formatDay(parsed.startDate)}〜${formatDay(parsed.endDate)}`;
+    return {
+      type: 'file',
+      message: `「${organization.name}」の${member ? `${member.name} さんの` : '全メンバーの'}勤務表（${period}）です。`,
+      filename,
+      content,
+    };
+  }
+
+  /**
+   * 稼働時間の修正申請・審査処理
+   */
+  private async fix(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    const parsed = parseCorrectionArgs(args, this.today(user, organization));
+    if (!parsed) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message:
+          '日付と修正後の時刻を指定してください。省略した時刻は変更しません。\n' +
+          '例: /fix 10/15 9:00-18:00 打刻忘れ、/fix 10/15 -18:30\n' +
+          '管理者: /fix list、/fix approve <申請ID>、/fix reject <申請ID> [理由]',
+      };
+    }
+
+    switch (parsed.action) {
+      case 'list': {
+        const corrections = await this.sessionCorrectionService.getPendingCorrections(
+          organization.id,
+          user.id
+        );
+        return { type: 'corrections', organization, corrections };
+      }
+
+      case 'approve': {
+        const correction = await this.sessionCorrectionService.approve(parsed.correctionId, user.id);
+        return { type: 'correction_reviewed', correction };
+      }
+
+      case 'reject': {
+        const correction = await this.sessionCorrectionService.reject(
+          parsed.correctionId,
+          user.id,
+          parsed.comment
+        );
+        return { type: 'correction_reviewed', correction };
+      }
+
+      case 'request': {
+        const correction = await this.sessionCorrectionService.requestCorrection(
+          user.id,
+          organization.id,
+          { ...parsed, timeZone: resolveTimeZone(user, organization) }
+        );
+        return { type: 'correction_requested', user, organization, correction };
+      }
+    }
+  }
+
+  /**
+   * 月次レポート処理（引数なしの場合はユーザーのタイムゾーンでの今月）
+   */
+  private async report(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    let { year, month } = getZonedParts(new Date(), resolveTimeZone(user, organization));
+
+    if (args.trim()) {
+      const match = args.trim().match(/^(\d{4})[-/](\d{1,2})$/);
+      if (!match || Number(match[2]) < 1 || Number(match[2]) > 12) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message: '対象月は YYYY-MM 形式で指定してください。例: /report 2026-10',
+        };
+      }
+      year = Number(match[1]);
+      month = Number(match[2]);
+    }
+
+    const report = await this.reportService.getUserMonthlyReport(user, organization, year, month);
+
+    return { type: 'report', report };
+  }
+
+  /**
+   * Googleカレンダー連携の設定（組織の設定変更権限が必要）
+   *
+   * 引数なし: 連携リンクを発行 / `disconnect`: 連携解除 / それ以外: 休暇を登録するカレンダーIDを設定
+   */
+  private async calendar(
+    user: User,
+    organization: Organization,
+    args: string
+  ): Promise<CommandResult> {
+    await this.permissionService.authorize(user.id, organization.id, 'organization:update');
+
+    const calendarId = args.trim();
+
+    if (!calendarId) {
+      const url = this.googleCredentialService.createConnectUrl(organization.id);
+      return { type: 'calendar_connect_link', organization, url };
+    }
+
+    if (calendarId === 'disconnect') {
+      await this.googleCredentialService.disconnect(organization.id);
+      return { type: 'calendar_disconnected', organization };
+    }
+
+    const updated = await this.organizationService.updateOrganization(organization.id, {
+      googleCalendarId: calendarId,
+    });
+    return { type: 'calendar_updated', organization: updated };
+  }
+
+  /**
+   * ユーザー登録処理（`link` の場合はアカウント連携コードを発行）
+   *
+   * プロフィールのメールアドレスが既存ユーザーと一致する場合はそのユーザーに紐付け、
+   * 承認待ちの招待があれば承認する。
+   */
+  private async register(request: CommandRequest, user: User | null): Promise<CommandResult> {
+    if (request.args.trim() === 'link') {
+      if (!user) {
+        return {
+          type: 'error',
+          code: 'USER_NOT_REGISTERED',
+          message: 'ユーザー登録が必要です。/register で登録してください。',
+        };
+      }
+
+      const linkCode = await this.userService.createLinkCode(user.id);
+      return { type: 'link_code', user, code: linkCode.code, expiresAt: linkCode.expiresAt };
+    }
+
+    let registeredUser = user;
+    let created = false;
+
+    if (!registeredUser) {
+      if (!request.profile) {
+        return {
+          type: 'error',
+          code: 'INVALID_ARGUMENT',
+          message:
+            'このプラットフォームからは新規登録できません。' +
+            '登録済みのアカウントで /register link を実行し、発行されたコードを /link <コード> で入力してください。',
+        };
+      }
+
+      const existingUser = await this.userService.findByEmail(request.profile.email);
+      if (existingUser) {
+        const linkedId = this.getPlatformUserId(existingUser, request.platform);
+        if (linkedId && linkedId !== request.externalUserId) {
+          return {
+            type: 'error',
+            code: 'COMMAND_FAILED',
+            message: 'このメールアドレスのユーザーは既に別のアカウントに紐付けられています。管理者に連絡してください。',
+          };
+        }
+
+        registeredUser = await this.userService.linkPlatformAccount(
+          existingUser.id,
+          request.platform,
+          request.externalUserId
+        );
+      } else {
+        registeredUser = await this.userService.createUser(
+          request.profile.name,
+          request.profile.email,
+          request.platform === 'slack' ? request.externalUserId : undefined,
+          request.platform === 'chatwork' ? request.externalUserId : undefined
+        );
+        created = true;
+      }
+    }
+
+    // 承認待ちの招待を承認する
+    const invitations = await this.userService.getPendingInvitations(registeredUser.id);
+    for (const invitation of invitations) {
+      await this.userService.acceptInvitation(invitation.id);
+    }
+
+    return {
+      type: 'registered',
+      user: registeredUser,
+      created,
+      acceptedOrganizations: invitations.map((invitation) => invitation.organization),
+    };
+  }
+
+  /**
+   * アカウント連携処理（別のプラットフォームで発行したコードを入力）
+   */
+  private async link(request: CommandRequest): Promise<CommandResult> {
+    const code = request.args.trim();
+    if (!code) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message: '連携コードを指定してください。例: /link ABCD2345',
+      };
+    }
+
+    const user = await this.userService.redeemLinkCode(
+      code,
+      request.platform,
+      request.externalUserId
+    );
+
+    return { type: 'account_linked', user, platform: request.platform };
+  }
+
+  /**
+   * ユーザーのタイムゾーンでの今日の日付
+   */
+  private today(user: User, organization: Organization): Date {
+    return toCalendarDate(new Date(), resolveTimeZone(user, organization));
+  }
+
+  /**
+   * ユーザーに紐付いたプラットフォームのユーザーIDを取得
+   */
+  private getPlatformUserId(user: User, platform: Platform): string | null {
+    return platform === 'slack' ? user.slackUserId : user.chatworkUserId;
+  }
+
+  /**
+   * 所属組織の一覧表示・デフォルト組織の設定
+   */
+  private async organization(user: User, args: string): Promise<CommandResult> {
+    const organizations = await this.organizationService.getUserOrganizations(user.id);
+    const slug = args.trim();
+
+    if (!slug) {
+      return { type: 'organizations', user, organizations };
+    }
+
+    const organization = organizations.find((org) => org.slug === slug);
+    if (!organization) {
+      return {
+        type: 'error',
+        code: 'ORGANIZATION_NOT_FOUND',
+        message: `組織「${slug}」に所属していません。`,
+      };
+    }
+
+    const updatedUser = await this.userService.setDefaultOrganization(user.id, organization.id);
+
+    return { type: 'default_organization_set', user: updatedUser, organization };
+  }
+
+  /**
+   * ユーザーのタイムゾーンの表示・設定（`reset` の場合は組織の設定に戻す）
+   */
+  private async timeZone(user: User, args: string): Promise<CommandResult> {
+    const timeZone = args.trim();
+
+    if (!timeZone) {
+      return { type: 'user_time_zone', user, updated: false };
+    }
+
+    if (timeZone !== 'reset' && !isValidTimeZone(timeZone)) {
+      return {
+        type: 'error',
+        code: 'INVALID_ARGUMENT',
+        message: `「${timeZone}」は有効なタイムゾーンではありません。例: /timezone Asia/Tokyo、/timezone reset`,
+      };
+    }
+
+    const updatedUser = await this.userService.updateTimeZone(
+      user.id,
+      timeZone === 'reset' ? null : timeZone
+    );
+
+    return { type: 'user_time_zone', user: updatedUser, updated: true };
+  }
+}
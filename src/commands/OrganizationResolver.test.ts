@@ -0,0 +1,75 @@
+import { Membership, MembershipStatus, Organization, PrismaClient, User } from '@prisma/client';
+import OrganizationResolver from './OrganizationResolver';
+import OrganizationService from '../services/OrganizationService';
+
+const user = { id: 'user-1', defaultOrganizationId: null } as User;
+const sales = { id: 'org-1', name: '営業部', slug: 'sales' } as Organization;
+const development = { id: 'org-2', name: '開発部', slug: 'dev' } as Organization;
+
+function membership(organization: Organization, status: MembershipStatus) {
+  return { organizationId: organization.id, userId: user.id, status, organization } as Membership & {
+    organization: Organization;
+  };
+}
+
+describe('OrganizationResolver', () => {
+  let resolver: OrganizationResolver;
+  let getUserMemberships: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    getUserMemberships = jest.spyOn(OrganizationService.prototype, 'getUserMemberships');
+    jest.spyOn(OrganizationService.prototype, 'findByChatworkRoomId').mockResolvedValue(null);
+
+    resolver = new OrganizationResolver({} as PrismaClient);
+  });
+
+  it('利用停止中の組織しかない場合は利用停止中であることを伝える', async () => {
+    getUserMemberships.mockResolvedValue([membership(sales, MembershipStatus.SUSPENDED)]);
+
+    const resolution = await resolver.resolve(user, {});
+
+    expect(resolution).toEqual({
+      type: 'suspended',
+      organization: sales,
+      message: '組織「営業部」では利用停止中です。管理者に連絡してください。',
+    });
+  });
+
+  it('利用停止中の組織を指定した場合は所属していない組織と区別する', async () => {
+    getUserMemberships.mockResolvedValue([
+      membership(sales, MembershipStatus.SUSPENDED),
+      membership(development, MembershipStatus.ACTIVE),
+    ]);
+
+    await expect(resolver.resolve(user, { slug: 'sales' })).resolves.toMatchObject({ type: 'suspended' });
+    await expect(resolver.resolve(user, { slug: 'hr' })).resolves.toEqual({
+      type: 'not_found',
+      message: '組織「hr」に所属していません。',
+    });
+  });
+
+  it('ルームに紐づく組織で利用停止中の場合は他の組織で実行しない', async () => {
+    getUserMemberships.mockResolvedValue([
+      membership(sales, MembershipStatus.SUSPENDED),
+      membership(development, MembershipStatus.ACTIVE),
+    ]);
+    jest.spyOn(OrganizationService.prototype, 'findByChatworkRoomId').mockResolvedValue(sales);
+
+    const resolution = await resolver.resolve(user, { context: { chatworkRoomId: '567890123' } });
+
+    expect(resolution).toMatchObject({ type: 'suspended', organization: sales });
+  });
+
+  it('利用中の組織が1つだけの場合はその組織を対象にする', async () => {
+    getUserMemberships.mockResolvedValue([
+      membership(sales, MembershipStatus.SUSPENDED),
+      membership(development, MembershipStatus.ACTIVE),
+    ]);
+
+    await expect(resolver.resolve(user, {})).resolves.toEqual({
+      type: 'resolved',
+      organization: development,
+    });
+  });
+});
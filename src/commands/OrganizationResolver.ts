@@ -0,0 +1,132 @@
+import { Membership, MembershipStatus, Organization, PrismaClient, User } from '@prisma/client';
+import OrganizationService from '../services/OrganizationService';
+import { CommandContext } from './types';
+
+/**
+ * 組織の解決結果
+ */
+export type OrganizationResolution =
+  | { type: 'resolved'; organization: Organization }
+  | { type: 'ambiguous'; candidates: Organization[] }
+  | { type: 'not_found'; message: string }
+  | { type: 'suspended'; organization: Organization; message: string };
+
+type MembershipWithOrganization = Membership & { organization: Organization };
+
+/**
+ * コマンドの対象組織を決定するクラス
+ *
+ * 優先順位: 明示指定（組織ID・--org） > Slackチーム/Chatworkルームの紐付け > ユーザーのデフォルト組織 > 唯一の所属組織
+ */
+export default class OrganizationResolver {
+  private organizationService: OrganizationService;
+
+  constructor(prisma: PrismaClient) {
+    this.organizationService = new OrganizationService(prisma);
+  }
+
+  /**
+   * ユーザーとコマンドのコンテキストから対象組織を決定する
+   */
+  async resolve(
+    user: User,
+    options: { organizationId?: string; slug?: string; context?: CommandContext }
+  ): Promise<OrganizationResolution> {
+    // 利用停止中の組織は対象にしないが、指定された場合は所属していない組織と区別して伝える
+    const memberships = await this.organizationService.getUserMemberships(user.id);
+    const organizations = memberships
+      .filter((membership) => membership.status === MembershipStatus.ACTIVE)
+      .map((membership) => membership.organization);
+    const suspended = memberships.filter(
+      (membership) => membership.status === MembershipStatus.SUSPENDED
+    );
+
+    if (organizations.length === 0) {
+      return suspended.length > 0
+        ? this.suspended(suspended[0])
+        : { type: 'not_found', message: '所属組織が見つかりません。管理者に連絡してください。' };
+    }
+
+    // 組織選択UIなどで組織IDが明示されている場合
+    if (options.organizationId) {
+      const organization = organizations.find((org) => org.id === options.organizationId);
+      const suspendedMembership = suspended.find(
+        (membership) => membership.organizationId === options.organizationId
+      );
+      if (organization) {
+        return { type: 'resolved', organization };
+      }
+      return suspendedMembership
+        ? this.suspended(suspendedMembership)
+        : { type: 'not_found', message: '選択された組織に所属していません。' };
+    }
+
+    // --org <slug> で明示されている場合
+    if (options.slug) {
+      const organization = organizations.find((org) => org.slug === options.slug);
+      const suspendedMembership = suspended.find(
+        (membership) => membership.organization.slug === options.slug
+      );
+      if (organization) {
+        return { type: 'resolved', organization };
+      }
+      return suspendedMembership
+        ? this.suspended(suspendedMembership)
+        : { type: 'not_found', message: `組織「${options.slug}」に所属していません。` };
+    }
+
+    // Slackチーム・Chatworkルームに紐づく組織（利用停止中の場合は他の組織で実行しない）
+    const mapped = await this.findMappedOrganization(options.context);
+    if (mapped) {
+      const organization = organizations.find((org) => org.id === mapped.id);
+      if (organization) {
+        return { type: 'resolved', organization };
+      }
+
+      const suspendedMembership = suspended.find((membership) => membership.organizationId === mapped.id);
+      if (suspendedMembership) {
+        return this.suspended(suspendedMembership);
+      }
+    }
+
+    // ユーザーのデフォルト組織
+    if (user.defaultOrganizationId) {
+      const organization = organizations.find((org) => org.id === user.defaultOrganizationId);
+      if (organization) {
+        return { type: 'resolved', organization };
+      }
+    }
+
+    if (organizations.length === 1) {
+      return { type: 'resolved', organization: organizations[0] };
+    }
+
+    return { type: 'ambiguous', candidates: organizations };
+  }
+
+  /**
+   * 利用停止中の組織が対象になった場合の結果
+   */
+  private suspended(membership: MembershipWithOrganization): OrganizationResolution {
+    return {
+      type: 'suspended',
+      organization: membership.organization,
+      message: `組織「${membership.organization.name}」では利用停止中です。管理者に連絡してください。`,
+    };
+  }
+
+  /**
+   * プラットフォームのコンテキストに紐づく組織を取得
+   */
+  private async findMappedOrganization(
+    context?: CommandContext
+  ): Promise<Organization | null> {
+    if (context?.slackTeamId) {
+      return this.organizationService.findBySlackTeamId(context.slackTeamId);
+    }
+    if (context?.chatworkRoomId) {
+      return this.organizationService.findByChatworkRoomId(context.chatworkRoomId);
+    }
+    return null;
+  }
+}
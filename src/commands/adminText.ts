@@ -0,0 +1,121 @@
+import { ApiKey, Membership, MembershipStatus, Organization, Role, User } from '@prisma/client';
+import { MemberUpdateAction, Platform } from './types';
+import { formatDateTime } from '../utils/timezone';
+
+const ROLE_LABELS: Record<Role, string> = {
+  OWNER: 'オーナー',
+  ADMIN: '管理者',
+  MEMBER: 'メンバー',
+};
+
+const STATUS_LABELS: Record<MembershipStatus, string> = {
+  ACTIVE: '利用中',
+  INVITED: '招待中',
+  SUSPENDED: '利用停止',
+  LEFT: '退会済み',
+};
+
+/**
+ * 組織のメンバー一覧をテキストに変換（Slack・Chatwork共通、退会済みは除く）
+ */
+export function formatOrganizationMembers(
+  organization: Organization,
+  members: (Membership & { user: User })[]
+): string {
+  const current = members.filter((member) => member.status !== MembershipStatus.LEFT);
+  let message = `「${organization.name}」のメンバー (${current.length}人):\n`;
+
+  for (const member of current) {
+    message += `• ${member.user.name} <${member.user.email}> - ${ROLE_LABELS[member.role]}`;
+    message += member.status !== MembershipStatus.ACTIVE ? `（${STATUS_LABELS[member.status]}）\n` : '\n';
+  }
+
+  return message;
+}
+
+/**
+ * 管理コマンドによるメンバーシップの変更結果をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatMemberUpdate(
+  action: MemberUpdateAction,
+  organization: Organization,
+  member: User,
+  membership: Membership
+): string {
+  switch (action) {
+    case 'invited':
+      return (
+        `${member.name} さんを「${organization.name}」に${ROLE_LABELS[membership.role]}として招待しました。` +
+        `\n/register を実行すると招待が承認されます。`
+      );
+    case 'role_changed':
+      return `${member.name} さんのロールを${ROLE_LABELS[membership.role]}に変更しました。`;
+    case 'suspended':
+      return `${member.name} さんを利用停止にしました。再開するまでチェックインできません。`;
+    case 'activated':
+      return `${member.name} さんの利用停止を解除しました。`;
+    case 'removed':
+      return `${member.name} さんを「${organization.name}」から削除しました。`;
+  }
+}
+
+/**
+ * 組織の有効なAPIキーの一覧をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatApiKeys(organization: Organization, apiKeys: ApiKey[]): string {
+  if (apiKeys.length === 0) {
+    return `「${organization.name}」に有効なAPIキーはありません。`;
+  }
+
+  let message = `「${organization.name}」のAPIキー (${apiKeys.length}件):\n`;
+  for (const apiKey of apiKeys) {
+    const lastUsed = apiKey.lastUsedAt
+      ? formatDateTime(apiKey.lastUsedAt, organization.timeZone)
+      : '未使用';
+    message += `• ${apiKey.name} (${apiKey.keyPrefix}…) - 最終使用: ${lastUsed}\n`;
+  }
+
+  return message;
+}
+
+/**
+ * 発行したAPIキーをテキストに変換（キーはこの一度しか表示できない）
+ */
+export function formatApiKeyCreated(organization: Organization, apiKey: ApiKey, key: string): string {
+  return (
+    `「${organization.name}」のAPIキー「${apiKey.name}」を発行しました。\n` +
+    `${key}\n` +
+    'このキーは再表示できません。安全な場所に保管してください。\n' +
+    'REST APIでは `Authorization: Bearer <APIキー>` ヘッダーを指定してください。'
+  );
+}
+
+/**
+ * ステータスボードのURLをテキストに変換（Slack・Chatwork共通）
+ */
+export function formatStatusBoard(organization: Organization, url: string | null): string {
+  if (!url) {
+    return `「${organization.name}」のステータスボードを非公開にしました。`;
+  }
+
+  return (
+    `「${organization.name}」のステータスボード:\n${url}\n` +
+    'URLを知っている人は誰でも閲覧できます。URLを変更するには board reset、非公開にするには board off を実行してください。'
+  );
+}
+
+/**
+ * Slackワークスペース・Chatworkルームの紐付けの変更結果をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatPlatformLink(organization: Organization, platform: Platform, linked: boolean): string {
+  const label = platform === 'slack' ? 'Slackワークスペース' : 'Chatworkルーム';
+  if (!linked) {
+    return `「${organization.name}」と${label}の紐付けを解除しました。`;
+  }
+
+  const externalId = platform === 'slack' ? organization.slackTeamId : organization.chatworkRoomId;
+  return (
+    `${label}（${externalId}）を「${organization.name}」に紐付けました。\n` +
+    `この${label}からのコマンドは、--org を指定しなければ「${organization.name}」が対象になります。`
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * 引数文字列から `--org <slug>` オプションを取り出す
+ */
+export function extractOrganizationOption(args: string): { slug?: string; rest: string } {
+  const match = args.match(/(?:^|\s)--org(?:=|\s+)(\S+)/);
+  if (!match) {
+    return { rest: args.trim() };
+  }
+
+  const rest = (args.slice(0, match.index) + args.slice((match.index ?? 0) + match[0].length))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return { slug: match[1], rest };
+}
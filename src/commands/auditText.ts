@@ -0,0 +1,102 @@
+import { Organization } from '@prisma/client';
+import { AuditAction, AuditLogWithUsers } from '../services/AuditLogService';
+import { formatClockTime, getZonedParts } from '../utils/timezone';
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  'session.checkin': 'チェックイン',
+  'session.checkout': 'チェックアウト',
+  'session.auto_closed': 'チェックアウト忘れの自動終了',
+  'session.corrected': '終了時刻の修正',
+  'session.note_updated': '作業内容の記録',
+  'break.started': '休憩開始',
+  'break.ended': '休憩終了',
+  'correction.requested': '修正申請',
+  'correction.approved': '修正申請の承認',
+  'correction.rejected': '修正申請の却下',
+  'organization.created': '組織の作成',
+  'organization.updated': '組織の設定変更',
+  'organization.deleted': '組織の削除',
+  'membership.invited': 'メンバーの招待',
+  'membership.accepted': '招待の承認',
+  'membership.role_changed': 'ロールの変更',
+  'membership.status_changed': 'メンバーの状態変更',
+  'user.created': 'ユーザー登録',
+  'user.account_linked': 'アカウント連携',
+  'user.default_organization_changed': 'デフォルト組織の変更',
+  'user.time_zone_changed': 'タイムゾーンの変更',
+  'user.slack_token_changed': 'Slackステータス連携の変更',
+  'api_key.created': 'APIキーの発行',
+  'api_key.revoked': 'APIキーの無効化',
+};
+
+/** 変更内容の表示で比較しない項目 */
+const IGNORED_KEYS = ['id', 'createdAt', 'updatedAt', 'lastActivityAt', 'lastUsedAt', 'open'];
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * 日時をタイムゾーンでの「10/17 09:30」形式にフォーマット
+ */
+function formatDateTime(date: Date, timeZone: string): string {
+  const { month, day } = getZonedParts(date, timeZone);
+  return `${month}/${day} ${formatClockTime(date, timeZone)}`;
+}
+
+/**
+ * 記録された値を表示用の文字列に変換（日時は組織のタイムゾーンで表示）
+ */
+function formatValue(value: unknown, timeZone: string): string {
+  if (value === null || value === undefined) {
+    return '-';
+  }
+  if (typeof value === 'string' && ISO_DATE_REGEX.test(value)) {
+    return formatDateTime(new Date(value), timeZone);
+  }
+
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * 変更前後で値が変わった項目を「項目: 変更前 → 変更後」の形式で列挙する
+ */
+function describeChanges(before: unknown, after: unknown, timeZone: string): string[] {
+  const beforeValues = (before ?? {}) as Record<string, unknown>;
+  const afterValues = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(beforeValues), ...Object.keys(afterValues)]);
+
+  return [...keys]
+    .filter((key) => !IGNORED_KEYS.includes(key))
+    .filter((key) => JSON.stringify(beforeValues[key]) !== JSON.stringify(afterValues[key]))
+    .map(
+      (key) =>
+        `${key}: ${formatValue(beforeValues[key], timeZone)} → ${formatValue(afterValues[key], timeZone)}`
+    );
+}
+
+/**
+ * 監査ログの一覧をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatAuditLogs(organization: Organization, logs: AuditLogWithUsers[]): string {
+  if (logs.length === 0) {
+    return `「${organization.name}」の変更履歴はありません。`;
+  }
+
+  let message = `「${organization.name}」の変更履歴（新しい順 ${logs.length}件）:\n`;
+
+  for (const log of logs) {
+    const label = ACTION_LABELS[log.action as AuditAction] ?? log.action;
+    const actor = log.actor?.name ?? 'システム';
+    const subject = log.user && log.user.id !== log.actor?.id ? ` → ${log.user.name}` : '';
+
+    message += `\n• ${formatDateTime(log.createdAt, organization.timeZone)} ${label}（${actor}${subject} / ${log.platform}）`;
+
+    // 作成時は変更前の値がないため、変更内容は更新時のみ表示する
+    if (log.before !== null) {
+      for (const change of describeChanges(log.before, log.after, organization.timeZone)) {
+        message += `\n    ${change}`;
+      }
+    }
+  }
+
+  return message;
+}
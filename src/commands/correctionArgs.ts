@@ -0,0 +1,100 @@
+import { TimeOfDay } from '../services/SessionCorrectionService';
+import { calendarDate } from '../utils/timezone';
+
+/**
+ * /fix コマンドの引数の解析結果
+ */
+export type CorrectionArgs =
+  | {
+      action: 'request';
+      date: Date;
+      checkinTime?: TimeOfDay;
+      checkoutTime?: TimeOfDay;
+      reason?: string;
+    }
+  | { action: 'list' }
+  | { action: 'approve'; correctionId: string }
+  | { action: 'reject'; correctionId: string; comment?: string };
+
+const DATE_PATTERN = '(\\d{4}[-/]\\d{1,2}[-/]\\d{1,2}|\\d{1,2}/\\d{1,2})';
+const TIME_PATTERN = '(\\d{1,2}:\\d{2})';
+const REQUEST_REGEX = new RegExp(
+  `^${DATE_PATTERN}\\s+${TIME_PATTERN}?\\s*[-~〜]\\s*${TIME_PATTERN}?(?:\\s+(.+))?$`
+);
+const APPROVE_REGEX = /^approve\s+(\S+)$/;
+const REJECT_REGEX = /^reject\s+(\S+)(?:\s+(.+))?$/;
+
+/**
+ * /fix コマンドの引数を解析する
+ *
+ * 例: `10/15 9:00-18:00 打刻忘れ`、`2026-10-15 -18:30`（終了時刻のみ修正）、`list`、`approve <申請ID>`、`reject <申請ID> [理由]`
+ * 年を省略した日付は today（ユーザーのタイムゾーンでの今日の日付）以前で最も近い日付として扱う。
+ */
+export function parseCorrectionArgs(args: string, today: Date): CorrectionArgs | null {
+  const text = args.trim();
+
+  if (text === 'list') {
+    return { action: 'list' };
+  }
+
+  const approveMatch = text.match(APPROVE_REGEX);
+  if (approveMatch) {
+    return { action: 'approve', correctionId: approveMatch[1] };
+  }
+
+  const rejectMatch = text.match(REJECT_REGEX);
+  if (rejectMatch) {
+    return { action: 'reject', correctionId: rejectMatch[1], comment: rejectMatch[2]?.trim() };
+  }
+
+  const requestMatch = text.match(REQUEST_REGEX);
+  if (!requestMatch || (!requestMatch[2] && !requestMatch[3])) {
+    return null;
+  }
+
+  const date = parseDate(requestMatch[1], today);
+  const checkinTime = requestMatch[2] ? parseTime(requestMatch[2]) : undefined;
+  const checkoutTime = requestMatch[3] ? parseTime(requestMatch[3]) : undefined;
+  if (!date || checkinTime === null || checkoutTime === null) {
+    return null;
+  }
+
+  return {
+    action: 'request',
+    date,
+    checkinTime,
+    checkoutTime,
+    reason: requestMatch[4]?.trim() || undefined,
+  };
+}
+
+/**
+ * 日付文字列を日付に変換する（存在しない日付の場合はnull）
+ */
+function parseDate(value: string, today: Date): Date | null {
+  const parts = value.split(/[-/]/).map(Number);
+  const [year, month, day] =
+    parts.length === 3 ? parts : [inferYear(parts[0], parts[1], today), parts[0], parts[1]];
+
+  return calendarDate(year, month, day);
+}
+
+/**
+ * 年が省略された日付の年を推定する（今日より後なら前年）
+ */
+function inferYear(month: number, day: number, today: Date): number {
+  const candidate = new Date(Date.UTC(today.getUTCFullYear(), month - 1, day));
+  return candidate > today ? today.getUTCFullYear() - 1 : today.getUTCFullYear();
+}
+
+/**
+ * 「9:00」形式の時刻を解析する
+ */
+function parseTime(value: string): TimeOfDay | null {
+  const [hours, minutes] = value.split(':').map(Number);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+
+  return { hours, minutes };
+}
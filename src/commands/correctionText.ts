@@ -0,0 +1,73 @@
+import { CorrectionStatus, Organization } from '@prisma/client';
+import { SessionCorrectionWithRelations } from '../services/SessionCorrectionService';
+import { formatDay, formatTime } from './reportText';
+import { resolveTimeZone } from '../utils/timezone';
+
+/**
+ * 開始〜終了の時間帯をテキストに変換
+ */
+function formatRange(checkinAt: Date, checkoutAt: Date | null, timeZone: string): string {
+  return `${formatTime(checkinAt, timeZone)}〜${checkoutAt ? formatTime(checkoutAt, timeZone) : ''}`;
+}
+
+/**
+ * 修正申請の内容を申請者のタイムゾーンでテキストに変換（例: 「10/15(水) 09:00〜18:00 → 09:30〜18:30」）
+ */
+export function formatCorrection(correction: SessionCorrectionWithRelations): string {
+  const timeZone = resolveTimeZone(correction.requester, correction.organization);
+  const requested = formatRange(correction.checkinAt, correction.checkoutAt, timeZone);
+  const day = formatDay(correction.checkinAt, timeZone);
+
+  const text = correction.originalCheckinAt
+    ? `${day} ${formatRange(correction.originalCheckinAt, correction.originalCheckoutAt, timeZone)} → ${requested}`
+    : `${day} ${requested}（打刻漏れの追加）`;
+
+  return correction.reason ? `${text}\n> ${correction.reason}` : text;
+}
+
+/**
+ * 修正申請の受付をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatCorrectionRequested(correction: SessionCorrectionWithRelations): string {
+  return (
+    `修正を申請しました。管理者の承認後に反映されます。\n${formatCorrection(correction)}\n` +
+    `申請ID: ${correction.id}`
+  );
+}
+
+/**
+ * 承認待ちの修正申請一覧をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatPendingCorrections(
+  organization: Organization,
+  corrections: SessionCorrectionWithRelations[]
+): string {
+  if (corrections.length === 0) {
+    return `「${organization.name}」に承認待ちの修正申請はありません。`;
+  }
+
+  let message = `「${organization.name}」の承認待ちの修正申請 (${corrections.length}件):\n`;
+
+  for (const correction of corrections) {
+    message += `\n• ${correction.requester.name}: ${formatCorrection(correction)}\n  申請ID: ${correction.id}`;
+  }
+
+  return `${message}\n\n承認: /fix approve <申請ID> / 却下: /fix reject <申請ID> [理由]`;
+}
+
+/**
+ * 修正申請の審査結果をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatCorrectionReviewed(correction: SessionCorrectionWithRelations): string {
+  const approved = correction.status === CorrectionStatus.APPROVED;
+
+  let message =
+    `${correction.requester.name} さんの修正申請を${approved ? '承認' : '却下'}しました。\n` +
+    formatCorrection(correction);
+
+  if (correction.reviewComment) {
+    message += `\n却下理由: ${correction.reviewComment}`;
+  }
+
+  return message;
+}
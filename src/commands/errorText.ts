@@ -0,0 +1,16 @@
+import { CommandErrorCode } from './types';
+
+const ERROR_TITLES: Record<CommandErrorCode, string> = {
+  USER_NOT_REGISTERED: '⚠️ ユーザー未登録',
+  ORGANIZATION_NOT_FOUND: '⚠️ 組織が見つかりません',
+  INVALID_ARGUMENT: '⚠️ 入力内容を確認してください',
+  PERMISSION_DENIED: '🚫 権限がありません',
+  COMMAND_FAILED: '❌ 処理に失敗しました',
+};
+
+/**
+ * コマンドのエラーをテキストに変換（Slack・Chatwork共通）
+ */
+export function formatCommandError(code: CommandErrorCode, message: string): string {
+  return `${ERROR_TITLES[code]}\n${message}`;
+}
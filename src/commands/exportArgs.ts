@@ -0,0 +1,107 @@
+import { TimesheetFormat } from '../services/TimesheetService';
+import { calendarDate, lastDayOfMonth } from '../utils/timezone';
+
+/**
+ * 勤務表出力コマンドの引数の解析結果
+ */
+export interface ExportArgs {
+  startDate: Date;
+  endDate: Date;
+  format: TimesheetFormat;
+  /** 対象（self: 自分、all: 組織全体、それ以外: メンバーの指定） */
+  target: string;
+  roundingMinutes?: number;
+}
+
+const DATE_PATTERN = '(\\d{4}[-/]\\d{1,2}[-/]\\d{1,2}|\\d{1,2}/\\d{1,2})';
+const RANGE_REGEX = new RegExp(`^${DATE_PATTERN}(?:[~〜]|-(?=\\d{1,2}/|\\d{4}))${DATE_PATTERN}$`);
+const DATE_REGEX = new RegExp(`^${DATE_PATTERN}$`);
+const MONTH_REGEX = /^(\d{4})[-/](\d{1,2})$/;
+const ROUND_REGEX = /--round\s+(\d+)/;
+
+/**
+ * 勤務表出力コマンドの引数を解析する
+ *
+ * 例: ``（今月の自分の勤務表）、`2026-10 xlsx`、`10/1~10/15 all --round 15`、`2026-10 @ユーザー`
+ * 年を省略した日付は today（ユーザーのタイムゾーンでの今日の日付）以前で最も近い日付として扱う。
+ */
+export function parseExportArgs(args: string, today: Date): ExportArgs | null {
+  let text = args.trim();
+  let roundingMinutes: number | undefined;
+
+  const roundMatch = text.match(ROUND_REGEX);
+  if (roundMatch) {
+    roundingMinutes = Number(roundMatch[1]);
+    text = text.replace(ROUND_REGEX, '').trim();
+  }
+
+  const result: ExportArgs = {
+    startDate: calendarDate(today.getUTCFullYear(), today.getUTCMonth() + 1, 1)!,
+    endDate: lastDayOfMonth(today.getUTCFullYear(), today.getUTCMonth() + 1),
+    format: 'csv',
+    target: 'self',
+    roundingMinutes,
+  };
+
+  for (const token of text.split(/\s+/).filter(Boolean)) {
+    const lower = token.toLowerCase();
+    if (lower === 'csv' || lower === 'xlsx') {
+      result.format = lower;
+      continue;
+    }
+
+    const monthMatch = token.match(MONTH_REGEX);
+    if (monthMatch) {
+      const month = Number(monthMatch[2]);
+      if (month < 1 || month > 12) return null;
+      result.startDate = calendarDate(Number(monthMatch[1]), month, 1)!;
+      result.endDate = lastDayOfMonth(Number(monthMatch[1]), month);
+      continue;
+    }
+
+    const rangeMatch = token.match(RANGE_REGEX);
+    const dateMatch = token.match(DATE_REGEX);
+    if (rangeMatch || dateMatch) {
+      const startDate = parseDate(rangeMatch ? rangeMatch[1] : token, today);
+      let endDate = rangeMatch ? parseDate(rangeMatch[2], today) : startDate;
+      if (!startDate || !endDate) return null;
+
+      // 年を省略した終了日は開始日以降で最も近い日付とする
+      if (rangeMatch && !/^\d{4}/.test(rangeMatch[2])) {
+        const [month, day] = [endDate.getUTCMonth() + 1, endDate.getUTCDate()];
+        endDate = calendarDate(startDate.getUTCFullYear(), month, day);
+        if (!endDate || endDate < startDate) {
+          endDate = calendarDate(startDate.getUTCFullYear() + 1, month, day);
+        }
+        if (!endDate) return null;
+      }
+      result.startDate = startDate;
+      result.endDate = endDate;
+      continue;
+    }
+
+    // 残りはメンバーの指定（Chatworkの宛先「[To:123]名前さん」も1語として扱う）
+    result.target = lower === 'all' ? 'all' : token;
+  }
+
+  return result;
+}
+
+/**
+ * 日付文字列を日付に変換する（存在しない日付の場合はnull）
+ */
+function parseDate(value: string, today: Date): Date | null {
+  const parts = value.split(/[-/]/).map(Number);
+  const [year, month, day] =
+    parts.length === 3 ? parts : [inferYear(parts[0], parts[1], today), parts[0], parts[1]];
+
+  return calendarDate(year, month, day);
+}
+
+/**
+ * 年が省略された日付の年を推定する（今日より後なら前年）
+ */
+function inferYear(month: number, day: number, today: Date): number {
+  const candidate = new Date(Date.UTC(today.getUTCFullYear(), month - 1, day));
+  return candidate > today ? today.getUTCFullYear() - 1 : today.getUTCFullYear();
+}
@@ -0,0 +1,98 @@
+import { Organization } from '@prisma/client';
+import {
+  FreeeAttendanceResult,
+  FreeeInvoiceResult,
+  FreeeMemberStatus,
+  FreeeSyncStatus,
+} from '../services/FreeeSyncService';
+
+const STATUS_LABELS: Record<FreeeSyncStatus, string> = {
+  sent: '送信済み',
+  skipped: '未送信',
+  failed: '失敗',
+};
+
+/**
+ * freee連携の開始リンクをテキストに変換（Slack・Chatwork共通）
+ */
+export function formatFreeeConnectLink(organization: Organization, url: string): string {
+  return (
+    `「${organization.name}」をfreeeと連携するには、10分以内に次のリンクを開いてください:\n${url}\n` +
+    '認可画面で連携する事業所を選択してください。'
+  );
+}
+
+/**
+ * メンバーとfreeeの連携設定の一覧をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatFreeeMembers(organization: Organization, members: FreeeMemberStatus[]): string {
+  let message = `「${organization.name}」のfreee連携設定:\n`;
+
+  for (const { user, setting } of members) {
+    const employee = setting?.employeeId ? `従業員ID ${setting.employeeId}` : '従業員 未設定';
+    const billing =
+      setting?.partnerId && setting.hourlyRate
+        ? ` / 請求: 取引先ID ${setting.partnerId}・${setting.hourlyRate.toLocaleString('ja-JP')}円/時間`
+        : '';
+    message += `• ${user.name} <${user.email}> - ${employee}${billing}\n`;
+  }
+
+  return message;
+}
+
+/**
+ * 勤怠の送信結果をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatFreeeAttendancePushed(
+  organization: Organization,
+  year: number,
+  month: number,
+  results: FreeeAttendanceResult[]
+): string {
+  if (results.length === 0) {
+    return 'freeeの従業員に対応付けたメンバーがいません。freee map で対応付けてください。';
+  }
+
+  const sent = results.filter((result) => result.status === 'sent').length;
+  let message = `「${organization.name}」の${year}年${month}月の勤怠をfreeeに送信しました（${sent}/${results.length}人）:\n`;
+
+  for (const result of results) {
+    message +=
+      `• ${result.user.name} - ${STATUS_LABELS[result.status]}` +
+      `（${result.workDays}日・${(result.workMinutes / 60).toFixed(2)} 時間）` +
+      (result.reason ? `: ${result.reason}\n` : '\n');
+  }
+
+  return message;
+}
+
+/**
+ * 請求書の作成結果をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatFreeeInvoicesCreated(
+  organization: Organization,
+  year: number,
+  month: number,
+  results: FreeeInvoiceResult[]
+): string {
+  if (results.length === 0) {
+    return '請求先を設定したメンバーがいません。freee bill で取引先と単価を設定してください。';
+  }
+
+  let message = `「${organization.name}」の${year}年${month}月の請求書:\n`;
+
+  for (const result of results) {
+    const total = result.lines.reduce((sum, line) => sum + line.amount, 0);
+    message += `• 取引先ID ${result.partnerId} - `;
+    message +=
+      result.status === 'sent'
+        ? `下書きを作成しました（請求書ID: ${result.invoiceId}、${total.toLocaleString('ja-JP')}円）\n`
+        : `${STATUS_LABELS[result.status]}: ${result.reason}\n`;
+
+    for (const line of result.lines) {
+      message += `    ${line.user.name} ${line.hours.toFixed(2)} 時間 × ${line.hourlyRate.toLocaleString('ja-JP')}円\n`;
+    }
+  }
+
+  return message;
+}
@@ -0,0 +1,109 @@
+import { Vacation, VacationType } from '@prisma/client';
+import { MonthlyUserReport, OrganizationMonthlySummary } from '../services/ReportService';
+import { formatClockTime, toCalendarDate } from '../utils/timezone';
+
+const WEEKDAYS = ['日', '月', '火', '水', '木', '金', '土'];
+
+/** 休暇の種類の表示名 */
+export const VACATION_TYPE_LABELS: Record<VacationType, string> = {
+  FULL_DAY: '終日',
+  AM_HALF: '午前半休',
+  PM_HALF: '午後半休',
+};
+
+/**
+ * 日付を「11/03(月)」形式にフォーマット
+ *
+ * timeZone を指定した場合は日時をそのタイムゾーンでの日付に変換する（省略時は休暇などの日付として扱う）。
+ */
+export function formatDay(date: Date, timeZone?: string): string {
+  const calendarDate = timeZone ? toCalendarDate(date, timeZone) : date;
+  const month = (calendarDate.getUTCMonth() + 1).toString().padStart(2, '0');
+  const day = calendarDate.getUTCDate().toString().padStart(2, '0');
+  return `${month}/${day}(${WEEKDAYS[calendarDate.getUTCDay()]})`;
+}
+
+/**
+ * 休暇の日付を「11/03(月)」「11/03(月) 午前半休」形式にフォーマット
+ */
+export function formatVacationDay(vacation: Vacation): string {
+  return vacation.type === VacationType.FULL_DAY
+    ? formatDay(vacation.date)
+    : `${formatDay(vacation.date)} ${VACATION_TYPE_LABELS[vacation.type]}`;
+}
+
+/**
+ * 休暇の日数（半休は0.5日として数える）
+ */
+export function countVacationDays(vacations: Vacation[]): number {
+  return vacations.reduce(
+    (days, vacation) => days + (vacation.type === VacationType.FULL_DAY ? 1 : 0.5),
+    0
+  );
+}
+
+/**
+ * 時刻をタイムゾーンでの「09:30」形式にフォーマット
+ */
+export function formatTime(date: Date, timeZone: string): string {
+  return formatClockTime(date, timeZone);
+}
+
+/**
+ * メンバーの月次レポートをテキストに変換（Slack・Chatwork共通）
+ */
+export function formatMonthlyReport(report: MonthlyUserReport): string {
+  const { timeZone } = report;
+  let message =
+    `${report.year}年${report.month}月の稼働レポート（${report.organization.name}）\n` +
+    `合計稼働時間: ${report.totalWorkingHours.toFixed(2)} 時間\n` +
+    `稼働日数: ${report.dailyWorkingHours.length} 日 / 休暇: ${countVacationDays(report.vacations)} 日\n`;
+
+  if (report.dailyWorkingHours.length > 0) {
+    message += '\n日別の稼働時間:\n';
+    for (const daily of report.dailyWorkingHours) {
+      message += `• ${formatDay(daily.date)} ${daily.hours.toFixed(2)} 時間\n`;
+    }
+  }
+
+  if (report.vacations.length > 0) {
+    message += `\n休暇: ${report.vacations.map((vacation) => formatVacationDay(vacation)).join(', ')}\n`;
+  }
+
+  if (report.openSessions.length > 0) {
+    message += '\n⚠️ チェックアウトされていないセッション（稼働時間に含まれていません）:\n';
+    for (const session of report.openSessions) {
+      message += `• ${formatDay(session.checkinAt, timeZone)} ${formatTime(session.checkinAt, timeZone)} 開始\n`;
+    }
+  }
+
+  if (report.autoClosedSessions.length > 0) {
+    message += '\n⚠️ チェックアウト忘れで自動終了したセッション:\n';
+    for (const session of report.autoClosedSessions) {
+      message += `• ${formatDay(session.checkinAt, timeZone)} ${formatTime(session.checkinAt, timeZone)}〜${
+        session.checkoutAt ? formatTime(session.checkoutAt, timeZone) : ''
+      }${session.needsReview ? '（要確認）' : '（修正済み）'}\n`;
+    }
+  }
+
+  return message;
+}
+
+/**
+ * 組織の月次サマリーをテキストに変換（Slack・Chatwork共通）
+ */
+export function formatOrganizationSummary(summary: OrganizationMonthlySummary): string {
+  let message =
+    `${summary.year}年${summary.month}月の組織サマリー（${summary.organization.name}）\n` +
+    `メンバー ${summary.members.length}人 / 合計稼働時間: ${summary.totalWorkingHours.toFixed(2)} 時間\n\n`;
+
+  for (const report of summary.members) {
+    message +=
+      `• ${report.user.name}: ${report.totalWorkingHours.toFixed(2)} 時間` +
+      `（稼働 ${report.dailyWorkingHours.length} 日 / 休暇 ${countVacationDays(report.vacations)} 日` +
+      `${report.openSessions.length > 0 ? ` / 未チェックアウト ${report.openSessions.length} 件` : ''}` +
+      `${report.autoClosedSessions.length > 0 ? ` / 自動終了 ${report.autoClosedSessions.length} 件` : ''}）\n`;
+  }
+
+  return message;
+}
@@ -0,0 +1,43 @@
+import { Organization, User } from '@prisma/client';
+import { formatCommandResult, ResultTextStyle } from './resultText';
+
+const plain: ResultTextStyle = { member: (name) => name, code: (text) => text };
+const markdown: ResultTextStyle = { member: (name) => `@${name}`, code: (text) => `\`${text}\`` };
+
+const user = { id: 'user-1', name: '山田太郎', defaultOrganizationId: 'org-1' } as unknown as User;
+const organizations = [
+  { id: 'org-1', name: '株式会社サンプル', slug: 'sample' },
+  { id: 'org-2', name: 'サンプル開発', slug: 'sample-dev' },
+] as unknown as Organization[];
+
+describe('formatCommandResult', () => {
+  it('メンバー名・識別子はプラットフォームの表記で出力する', () => {
+    const result = { type: 'organizations' as const, user, organizations };
+
+    expect(formatCommandResult(result, plain)).toBe(
+      '所属組織一覧:\n• 株式会社サンプル (sample) ← デフォルト\n• サンプル開発 (sample-dev)\n'
+    );
+    expect(formatCommandResult(result, markdown)).toBe(
+      '所属組織一覧:\n• 株式会社サンプル (`sample`) ← デフォルト\n• サンプル開発 (`sample-dev`)\n'
+    );
+  });
+
+  it('休憩を除いた稼働時間を表示する', () => {
+    const text = formatCommandResult(
+      {
+        type: 'checkout',
+        user,
+        organization: organizations[0],
+        session: {} as never,
+        note: 'レビュー対応',
+        workingHours: 7.5,
+        breakHours: 1,
+      },
+      markdown
+    );
+
+    expect(text).toBe(
+      '@山田太郎 さんがチェックアウトしました！\n> レビュー対応\n稼働時間: 7.50 時間（休憩 1.00 時間を除く）'
+    );
+  });
+});
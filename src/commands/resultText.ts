@@ -0,0 +1,224 @@
+import { CommandResult } from './types';
+import { formatDay, formatMonthlyReport, formatTime, formatVacationDay } from './reportText';
+import { formatOrganizationTimeZone, formatUserTimeZone } from './timeZoneText';
+import {
+  formatApiKeyCreated,
+  formatApiKeys,
+  formatMemberUpdate,
+  formatOrganizationMembers,
+  formatPlatformLink,
+  formatStatusBoard,
+} from './adminText';
+import {
+  formatFreeeAttendancePushed,
+  formatFreeeConnectLink,
+  formatFreeeInvoicesCreated,
+  formatFreeeMembers,
+} from './freeeText';
+import { formatCommandError } from './errorText';
+import { formatAuditLogs } from './auditText';
+import {
+  formatCorrectionRequested,
+  formatCorrectionReviewed,
+  formatPendingCorrections,
+} from './correctionText';
+import { resolveTimeZone } from '../utils/timezone';
+
+/**
+ * プラットフォームごとの表記の違い（Slackのmrkdwn・Chatworkのプレーンテキスト）
+ */
+export interface ResultTextStyle {
+  /** メンバーの名前の表記 */
+  member: (name: string) => string;
+  /** slug などの識別子の表記 */
+  code: (text: string) => string;
+}
+
+/**
+ * 組織の選択・ファイルの送信はプラットフォームごとにUIが異なるため、各アダプターで表示する
+ */
+export type TextCommandResult = Exclude<CommandResult, { type: 'select_organization' | 'file' }>;
+
+/**
+ * コマンドの実行結果をメッセージに変換（Slack・Chatwork共通）
+ */
+export function formatCommandResult(result: TextCommandResult, style: ResultTextStyle): string {
+  switch (result.type) {
+    case 'checkin':
+      return (
+        `${style.member(result.user.name)} さんがチェックインしました！${result.note ? `\n> ${result.note}` : ''}` +
+        (result.closedStaleSession
+          ? '\n前回のセッションはチェックアウトされていなかったため自動で終了し、要確認として記録しました。'
+          : '')
+      );
+
+    case 'checkout':
+      return (
+        `${style.member(result.user.name)} さんがチェックアウトしました！${result.note ? `\n> ${result.note}` : ''}` +
+        `\n稼働時間: ${result.workingHours.toFixed(2)} 時間` +
+        `${result.breakHours > 0 ? `（休憩 ${result.breakHours.toFixed(2)} 時間を除く）` : ''}`
+      );
+
+    case 'break_started':
+      return `${style.member(result.user.name)} さんが休憩に入りました。再開するときは /resume を実行してください。`;
+
+    case 'break_ended': {
+      const minutes = Math.round(
+        ((result.workingBreak.endAt ?? new Date()).getTime() - result.workingBreak.startAt.getTime()) /
+          (1000 * 60)
+      );
+      return `${style.member(result.user.name)} さんが作業を再開しました！（休憩 ${minutes} 分）`;
+    }
+
+    case 'status': {
+      if (result.activeSessions.length === 0) {
+        return '現在稼働中のメンバーはいません。';
+      }
+
+      // 開始時刻は実行したユーザーのタイムゾーンで表示
+      let message = `現在稼働中のメンバー (${result.activeSessions.length}人):\n`;
+      const timeZone = resolveTimeZone(result.user, result.organization);
+
+      for (const session of result.activeSessions) {
+        const startTime = formatTime(session.checkinAt, timeZone);
+        const onBreak = session.breaks.some((workingBreak) => !workingBreak.endAt);
+
+        message += `• ${style.member(session.user.name)} (開始: ${startTime})${onBreak ? ' ☕ 休憩中' : ''}${session.note ? ` - ${session.note}` : ''}\n`;
+      }
+
+      return message;
+    }
+
+    case 'vacation_requested': {
+      if (result.vacations.length === 0) {
+        return '指定した日付は既に休暇登録済みです。';
+      }
+
+      const dates = result.vacations.map((vacation) => formatVacationDay(vacation));
+      let message = `${style.member(result.user.name)} さんの休暇を登録しました: ${dates.join(', ')}${result.reason ? `\n> ${result.reason}` : ''}`;
+
+      if (result.vacations.every((vacation) => vacation.googleEventId)) {
+        message += '\nGoogleカレンダーに登録しました。';
+      }
+      if (result.skippedDates.length > 0) {
+        const skipped = result.skippedDates.map((date) => formatDay(date));
+        message += `\n登録済みのためスキップ: ${skipped.join(', ')}`;
+      }
+
+      return message;
+    }
+
+    case 'vacation_cancelled':
+      return `${style.member(result.user.name)} さんの ${formatDay(result.vacation.date)} の休暇を取り消しました。`;
+
+    case 'report':
+      return formatMonthlyReport(result.report);
+
+    case 'calendar_connect_link':
+      return `「${result.organization.name}」のGoogleカレンダー連携を開始するには、10分以内に次のURLを開いてください:\n${result.url}`;
+
+    case 'calendar_updated':
+      return `「${result.organization.name}」の休暇を登録するカレンダーを ${result.organization.googleCalendarId} に設定しました。`;
+
+    case 'calendar_disconnected':
+      return `「${result.organization.name}」のGoogleカレンダー連携を解除しました。`;
+
+    case 'registered': {
+      let message = result.created
+        ? `ユーザー登録が完了しました！（${result.user.name} / ${result.user.email}）`
+        : `登録済みのユーザー（${result.user.name} / ${result.user.email}）として利用できます。`;
+
+      if (result.acceptedOrganizations.length > 0) {
+        message += `\n招待を承認しました: ${result.acceptedOrganizations.map((org) => org.name).join(', ')}`;
+      }
+
+      return message;
+    }
+
+    case 'link_code': {
+      const expiresAt = formatTime(result.expiresAt, resolveTimeZone(result.user));
+      return `アカウント連携コード: ${result.code}（${expiresAt}まで有効）\n連携したいプラットフォームで /link ${result.code} を実行してください。`;
+    }
+
+    case 'account_linked':
+      return `${result.platform === 'slack' ? 'Slack' : 'Chatwork'}アカウントを ${result.user.name} さんに紐付けました。`;
+
+    case 'organizations': {
+      if (result.organizations.length === 0) {
+        return '所属組織が見つかりません。管理者に連絡してください。';
+      }
+
+      let message = '所属組織一覧:\n';
+
+      for (const organization of result.organizations) {
+        const isDefault = organization.id === result.user.defaultOrganizationId;
+        message += `• ${organization.name} (${style.code(organization.slug)})${isDefault ? ' ← デフォルト' : ''}\n`;
+      }
+
+      return message;
+    }
+
+    case 'default_organization_set':
+      return `デフォルトの組織を「${result.organization.name}」に設定しました。`;
+
+    case 'user_time_zone':
+      return formatUserTimeZone(result.user, result.updated);
+
+    case 'organization_time_zone':
+      return formatOrganizationTimeZone(result.organization, result.updated);
+
+    case 'correction_requested':
+      return formatCorrectionRequested(result.correction);
+
+    case 'corrections':
+      return formatPendingCorrections(result.organization, result.corrections);
+
+    case 'correction_reviewed':
+      return formatCorrectionReviewed(result.correction);
+
+    case 'admin_members':
+      return formatOrganizationMembers(result.organization, result.members);
+
+    case 'admin_member_updated':
+      return formatMemberUpdate(result.action, result.organization, result.member, result.membership);
+
+    case 'admin_organization_deleted':
+      return `組織「${result.organization.name}」を削除しました。`;
+
+    case 'api_key_created':
+      return formatApiKeyCreated(result.organization, result.apiKey, result.key);
+
+    case 'api_keys':
+      return formatApiKeys(result.organization, result.apiKeys);
+
+    case 'api_key_revoked':
+      return `APIキー「${result.apiKey.name}」を無効にしました。`;
+
+    case 'status_board':
+      return formatStatusBoard(result.organization, result.url);
+
+    case 'platform_linked':
+      return formatPlatformLink(result.organization, result.platform, result.linked);
+
+    case 'freee_connect_link':
+      return formatFreeeConnectLink(result.organization, result.url);
+
+    case 'freee_disconnected':
+      return `「${result.organization.name}」のfreee連携を解除しました。`;
+
+    case 'freee_members':
+      return formatFreeeMembers(result.organization, result.members);
+
+    case 'freee_attendance_pushed':
+      return formatFreeeAttendancePushed(result.organization, result.year, result.month, result.results);
+
+    case 'freee_invoices_created':
+      return formatFreeeInvoicesCreated(result.organization, result.year, result.month, result.results);
+
+    case 'audit_logs':
+      return formatAuditLogs(result.organization, result.logs);
+
+    case 'error':
+      return formatCommandError(result.code, result.message);
+  }
+}
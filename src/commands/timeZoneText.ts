@@ -0,0 +1,25 @@
+import { Organization, User } from '@prisma/client';
+
+/**
+ * ユーザーのタイムゾーンの設定をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatUserTimeZone(user: User, updated: boolean): string {
+  if (!user.timeZone) {
+    return updated
+      ? 'タイムゾーンの設定を解除しました。組織のタイムゾーンを使用します。'
+      : 'タイムゾーンは未設定です（組織のタイムゾーンを使用）。例: /timezone America/New_York';
+  }
+
+  return updated
+    ? `タイムゾーンを ${user.timeZone} に設定しました。`
+    : `タイムゾーン: ${user.timeZone}（組織の設定に戻すには reset を指定）`;
+}
+
+/**
+ * 組織のタイムゾーンの設定をテキストに変換（Slack・Chatwork共通）
+ */
+export function formatOrganizationTimeZone(organization: Organization, updated: boolean): string {
+  return updated
+    ? `「${organization.name}」のタイムゾーンを ${organization.timeZone} に設定しました。`
+    : `「${organization.name}」のタイムゾーン: ${organization.timeZone}`;
+}
@@ -0,0 +1,315 @@
+import { ApiKey, Membership, Organization, User, Vacation, WorkingBreak, WorkingSession } from '@prisma/client';
+import { MonthlyUserReport } from '../services/ReportService';
+import { WorkingSessionWithBreaks } from '../services/WorkingSessionService';
+import { SessionCorrectionWithRelations } from '../services/SessionCorrectionService';
+import { AuditLogWithUsers } from '../services/AuditLogService';
+import {
+  FreeeAttendanceResult,
+  FreeeInvoiceResult,
+  FreeeMemberStatus,
+} from '../services/FreeeSyncService';
+
+/**
+ * コマンドの送信元プラットフォーム
+ */
+export type Platform = 'slack' | 'chatwork';
+
+/**
+ * 勤怠コマンド名
+ */
+export type CommandName =
+  | 'checkin'
+  | 'checkout'
+  | 'break'
+  | 'resume'
+  | 'status'
+  | 'vacation'
+  | 'report'
+  | 'org'
+  | 'calendar'
+  | 'register'
+  | 'link'
+  | 'admin'
+  | 'fix'
+  | 'export'
+  | 'timezone';
+
+/**
+ * 組織の推定に使うプラットフォーム上のコンテキスト
+ */
+export interface CommandContext {
+  slackTeamId?: string;
+  chatworkRoomId?: string;
+}
+
+/**
+ * プラットフォームに依存しない正規化済みのコマンドリクエスト
+ */
+export interface CommandRequest {
+  platform: Platform;
+  /** プラットフォーム上のユーザーID（SlackのユーザーID、ChatworkのアカウントIDなど） */
+  externalUserId: string;
+  command: CommandName;
+  /** コマンド名以降の引数文字列（`--org <slug>` を含むことがある） */
+  args: string;
+  context?: CommandContext;
+  /** 組織選択UIなどで明示的に選ばれた組織ID */
+  organizationId?: string;
+  /** プラットフォームから取得したプロフィール（ユーザー登録に使用） */
+  profile?: { name: string; email: string };
+}
+
+/**
+ * コマンド失敗時のエラーコード
+ */
+export type CommandErrorCode =
+  | 'USER_NOT_REGISTERED'
+  | 'ORGANIZATION_NOT_FOUND'
+  | 'INVALID_ARGUMENT'
+  | 'PERMISSION_DENIED'
+  | 'COMMAND_FAILED';
+
+/**
+ * ユーザー情報・休憩付きの稼働セッション
+ */
+export type ActiveSession = WorkingSessionWithBreaks & { user: User };
+
+/**
+ * 管理コマンドによるメンバーシップの変更内容
+ */
+export type MemberUpdateAction = 'invited' | 'role_changed' | 'suspended' | 'activated' | 'removed';
+
+/**
+ * コマンドの実行結果（各プラットフォームのアダプターが表示形式に変換する）
+ */
+export type CommandResult =
+  | {
+      type: 'checkin';
+      user: User;
+      organization: Organization;
+      session: WorkingSession;
+      note?: string;
+      /** チェックイン前に自動終了した前回のチェックアウト忘れのセッション */
+      closedStaleSession?: WorkingSession;
+    }
+  | {
+      type: 'checkout';
+      user: User;
+      organization: Organization;
+      session: WorkingSession;
+      note?: string;
+      /** 休憩を除いた稼働時間（時間単位） */
+      workingHours: number;
+      /** 休憩時間（時間単位） */
+      breakHours: number;
+    }
+  | {
+      type: 'break_started';
+      user: User;
+      organization: Organization;
+      workingBreak: WorkingBreak;
+    }
+  | {
+      type: 'break_ended';
+      user: User;
+      organization: Organization;
+      workingBreak: WorkingBreak;
+    }
+  | {
+      type: 'status';
+      user: User;
+      organization: Organization;
+      activeSessions: ActiveSession[];
+    }
+  | {
+      type: 'vacation_requested';
+      user: User;
+      organization: Organization;
+      vacations: Vacation[];
+      /** 既に登録済みのため登録しなかった日付 */
+      skippedDates: Date[];
+      reason?: string;
+    }
+  | {
+      type: 'vacation_cancelled';
+      user: User;
+      organization: Organization;
+      vacation: Vacation;
+    }
+  | {
+      type: 'report';
+      report: MonthlyUserReport;
+    }
+  | {
+      type: 'calendar_connect_link';
+      organization: Organization;
+      /** 有効期限付きの連携開始URL */
+      url: string;
+    }
+  | {
+      type: 'calendar_updated';
+      organization: Organization;
+    }
+  | {
+      type: 'calendar_disconnected';
+      organization: Organization;
+    }
+  | {
+      type: 'registered';
+      user: User;
+      /** 新規にユーザーを作成したか（falseは既存ユーザーへの紐付け） */
+      created: boolean;
+      /** 登録時に承認した招待の組織 */
+      acceptedOrganizations: Organization[];
+    }
+  | {
+      type: 'link_code';
+      user: User;
+      code: string;
+      expiresAt: Date;
+    }
+  | {
+      type: 'account_linked';
+      user: User;
+      platform: Platform;
+    }
+  | {
+      type: 'select_organization';
+      user: User;
+      candidates: Organization[];
+      /** 組織を選択した後に再実行するリクエスト */
+      request: CommandRequest;
+    }
+  | {
+      type: 'organizations';
+      user: User;
+      organizations: Organization[];
+    }
+  | {
+      type: 'default_organization_set';
+      user: User;
+      organization: Organization;
+    }
+  | {
+      type: 'user_time_zone';
+      user: User;
+      /** 設定を変更した場合はtrue（表示のみの場合はfalse） */
+      updated: boolean;
+    }
+  | {
+      type: 'organization_time_zone';
+      organization: Organization;
+      updated: boolean;
+    }
+  | {
+      type: 'correction_requested';
+      user: User;
+      organization: Organization;
+      correction: SessionCorrectionWithRelations;
+    }
+  | {
+      type: 'corrections';
+      organization: Organization;
+      /** 承認待ちの修正申請 */
+      corrections: SessionCorrectionWithRelations[];
+    }
+  | {
+      type: 'correction_reviewed';
+      correction: SessionCorrectionWithRelations;
+    }
+  | {
+      type: 'admin_members';
+      organization: Organization;
+      members: (Membership & { user: User })[];
+    }
+  | {
+      type: 'admin_member_updated';
+      action: MemberUpdateAction;
+      organization: Organization;
+      /** 操作対象のユーザー */
+      member: User;
+      membership: Membership;
+    }
+  | {
+      type: 'admin_organization_deleted';
+      organization: Organization;
+    }
+  | {
+      type: 'api_key_created';
+      organization: Organization;
+      apiKey: ApiKey;
+      /** 発行したキー（この結果でのみ表示できる） */
+      key: string;
+    }
+  | {
+      type: 'api_keys';
+      organization: Organization;
+      apiKeys: ApiKey[];
+    }
+  | {
+      type: 'api_key_revoked';
+      organization: Organization;
+      apiKey: ApiKey;
+    }
+  | {
+      type: 'status_board';
+      organization: Organization;
+      /** ボードのURL（非公開にした場合はnull） */
+      url: string | null;
+    }
+  | {
+      type: 'platform_linked';
+      organization: Organization;
+      platform: Platform;
+      /** 紐付けを解除した場合はfalse */
+      linked: boolean;
+    }
+  | {
+      type: 'freee_connect_link';
+      organization: Organization;
+      /** 有効期限付きの連携開始URL */
+      url: string;
+    }
+  | {
+      type: 'freee_disconnected';
+      organization: Organization;
+    }
+  | {
+      type: 'freee_members';
+      organization: Organization;
+      members: FreeeMemberStatus[];
+    }
+  | {
+      type: 'freee_attendance_pushed';
+      organization: Organization;
+      year: number;
+      month: number;
+      results: FreeeAttendanceResult[];
+    }
+  | {
+      type: 'freee_invoices_created';
+      organization: Organization;
+      year: number;
+      month: number;
+      results: FreeeInvoiceResult[];
+    }
+  | {
+      type: 'audit_logs';
+      organization: Organization;
+      /** 新しい順の監査ログ */
+      logs: AuditLogWithUsers[];
+    }
+  | {
+      type: 'file';
+      /** ファイルに添えるメッセージ */
+      message: string;
+      filename: string;
+      /** CSVなどのテキスト、またはExcelなどのバイナリ */
+      content: string | Buffer;
+    }
+  | {
+      type: 'error';
+      code: CommandErrorCode;
+      /** ユーザーにそのまま表示できるメッセージ */
+      message: string;
+    };
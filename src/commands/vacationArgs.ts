@@ -0,0 +1,91 @@
+import { VacationType } from '@prisma/client';
+import { calendarDate, diffDays } from '../utils/timezone';
+
+/**
+ * /vacation コマンドの引数の解析結果
+ */
+export type VacationArgs =
+  | { action: 'request'; startDate: Date; endDate: Date; type: VacationType; reason?: string }
+  | { action: 'cancel'; date: Date };
+
+/** 一度に申請できる最大日数 */
+export const MAX_VACATION_DAYS = 31;
+
+/** 半休を指定するオプション */
+const HALF_DAY_OPTIONS: Record<string, VacationType> = {
+  '--am': VacationType.AM_HALF,
+  '--pm': VacationType.PM_HALF,
+};
+
+const DATE_PATTERN = '(\\d{4}[-/]\\d{1,2}[-/]\\d{1,2}|\\d{1,2}/\\d{1,2})';
+const REQUEST_REGEX = new RegExp(`^${DATE_PATTERN}(?:\\s*[-~〜]\\s*${DATE_PATTERN})?(?:\\s+(.+))?$`);
+const CANCEL_REGEX = new RegExp(`^cancel\\s+${DATE_PATTERN}$`);
+
+/**
+ * /vacation コマンドの引数を解析する
+ *
+ * 例: `2026-11-03`、`11/3-11/5 帰省`、`11/3 --am 通院`、`cancel 11/3`
+ * 年を省略した日付は today（ユーザーのタイムゾーンでの今日の日付）以降で最も近い日付として扱う。
+ * `--am`・`--pm` は午前・午後の半休で、1日のみ指定できる。
+ */
+export function parseVacationArgs(args: string, today: Date): VacationArgs | null {
+  let type: VacationType = VacationType.FULL_DAY;
+  const text = args
+    .trim()
+    .replace(/(^|\s)(--am|--pm)(?=\s|$)/, (_, space: string, option: string) => {
+      type = HALF_DAY_OPTIONS[option];
+      return space;
+    })
+    .trim();
+
+  const cancelMatch = text.match(CANCEL_REGEX);
+  if (cancelMatch) {
+    const date = parseDate(cancelMatch[1], today);
+    return date ? { action: 'cancel', date } : null;
+  }
+
+  const requestMatch = text.match(REQUEST_REGEX);
+  if (!requestMatch) {
+    return null;
+  }
+
+  const startDate = parseDate(requestMatch[1], today);
+  const endDate = requestMatch[2] ? parseDate(requestMatch[2], startDate ?? today) : startDate;
+  if (!startDate || !endDate || endDate < startDate) {
+    return null;
+  }
+
+  if (diffDays(startDate, endDate) + 1 > MAX_VACATION_DAYS) {
+    return null;
+  }
+  if (type !== VacationType.FULL_DAY && endDate.getTime() !== startDate.getTime()) {
+    return null;
+  }
+
+  return {
+    action: 'request',
+    startDate,
+    endDate,
+    type,
+    reason: requestMatch[3]?.trim() || undefined,
+  };
+}
+
+/**
+ * 日付文字列を日付に変換する（存在しない日付の場合はnull）
+ */
+function parseDate(value: string, base: Date): Date | null {
+  const parts = value.split(/[-/]/).map(Number);
+  const [year, month, day] =
+    parts.length === 3 ? parts : [inferYear(parts[0], parts[1], base), parts[0], parts[1]];
+
+  return calendarDate(year, month, day);
+}
+
+/**
+ * 年が省略された日付の年を推定する（基準日より前なら翌年）
+ */
+function inferYear(month: number, day: number, base: Date): number {
+  const candidate = new Date(Date.UTC(base.getUTCFullYear(), month - 1, day));
+  return candidate < base ? base.getUTCFullYear() + 1 : base.getUTCFullYear();
+}
@@ -0,0 +1,27 @@
+/**
+ * REST APIのエラーコード
+ */
+export type ApiErrorCode =
+  | 'UNAUTHORIZED'
+  | 'PERMISSION_DENIED'
+  | 'NOT_FOUND'
+  | 'INVALID_ARGUMENT'
+  | 'COMMAND_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * REST APIでステータスコード付きで返すエラー
+ *
+ * `{ "error": { "code": ..., "message": ... } }` の形式のレスポンスに変換される。
+ */
+export default class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+
+  constructor(status: number, code: ApiErrorCode, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+  }
+}
@@ -0,0 +1,16 @@
+import { Permission } from '../services/PermissionService';
+
+/**
+ * 権限がない操作を実行しようとした場合のエラー
+ *
+ * コマンド処理で `PERMISSION_DENIED` の結果に変換され、各プラットフォームで同じ形式で表示される。
+ */
+export default class PermissionDeniedError extends Error {
+  readonly permission: Permission;
+
+  constructor(permission: Permission, message: string) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+    this.permission = permission;
+  }
+}
@@ -0,0 +1,68 @@
+import { SessionCorrection, Vacation, WorkingSession } from '@prisma/client';
+
+/**
+ * 勤怠イベントとペイロードの対応
+ */
+export interface AttendanceEventMap {
+  checkin: { userId: string; organizationId: string; session: WorkingSession };
+  checkout: { userId: string; organizationId: string; session: WorkingSession };
+  break_started: { userId: string; organizationId: string; sessionId: string };
+  break_ended: { userId: string; organizationId: string; sessionId: string };
+  vacation_requested: { userId: string; organizationId: string; vacations: Vacation[] };
+  vacation_cancelled: { userId: string; organizationId: string; vacation: Vacation };
+  correction_requested: { userId: string; organizationId: string; correction: SessionCorrection };
+  correction_reviewed: { userId: string; organizationId: string; correction: SessionCorrection };
+}
+
+export type AttendanceEventName = keyof AttendanceEventMap;
+
+type Listener<K extends AttendanceEventName> = (
+  payload: AttendanceEventMap[K]
+) => void | Promise<void>;
+
+/**
+ * イベントごとの購読者（イベント名とペイロードの型を対応させて保持する）
+ */
+type ListenerMap = { [K in AttendanceEventName]?: Set<Listener<K>> };
+
+/**
+ * 勤怠イベントの通知クラス
+ *
+ * サービスでの打刻・休暇の変更を、Slackステータス同期などの購読者に通知する。
+ * 購読者のエラーは記録のみ行い、呼び出し元の処理には影響させない。
+ */
+class AttendanceEvents {
+  private listeners: ListenerMap = {};
+
+  /**
+   * イベントを購読する
+   */
+  on<K extends AttendanceEventName>(event: K, listener: Listener<K>): void {
+    const listeners = this.listeners[event] ?? new Set<Listener<K>>();
+    listeners.add(listener);
+    // 型引数のままでは ListenerMap[K] に代入できないため、対象のイベントだけの型として代入する
+    (this.listeners as { [E in K]?: Set<Listener<E>> })[event] = listeners;
+  }
+
+  /**
+   * イベントの購読を解除する
+   */
+  off<K extends AttendanceEventName>(event: K, listener: Listener<K>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * イベントを通知する（購読者の完了は待たない）
+   */
+  emit<K extends AttendanceEventName>(event: K, payload: AttendanceEventMap[K]): void {
+    for (const listener of this.listeners[event] ?? []) {
+      Promise.resolve()
+        .then(() => listener(payload))
+        .catch((error) => {
+          console.error(`勤怠イベント処理エラー (${event}):`, error);
+        });
+    }
+  }
+}
+
+export const attendanceEvents = new AttendanceEvents();
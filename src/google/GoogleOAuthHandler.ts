@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import GoogleCredentialService from '../services/GoogleCredentialService';
+
+/**
+ * Google OAuth連携ハンドラークラス
+ *
+ * チャットで発行した連携リンク（署名済みstate付き）から組織ごとのGoogleカレンダー連携を行う。
+ */
+export default class GoogleOAuthHandler {
+  private googleCredentialService: GoogleCredentialService;
+
+  constructor(prisma: PrismaClient) {
+    this.googleCredentialService = new GoogleCredentialService(prisma);
+  }
+
+  /**
+   * 連携開始（Googleの認可画面へリダイレクト）
+   */
+  async handleStart(req: Request, res: Response): Promise<void> {
+    const state = typeof req.query.state === 'string' ? req.query.state : '';
+
+    try {
+      res.redirect(this.googleCredentialService.getAuthUrl(state));
+    } catch (error) {
+      res.status(400).type('text/plain').send(error instanceof Error ? error.message : '不明なエラー');
+    }
+  }
+
+  /**
+   * 認可後のコールバック（トークンを保存）
+   */
+  async handleCallback(req: Request, res: Response): Promise<void> {
+    const { code, state, error } = req.query;
+
+    if (typeof error === 'string') {
+      res.status(400).type('text/plain').send(`Googleカレンダー連携がキャンセルされました: ${error}`);
+      return;
+    }
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      res.status(400).type('text/plain').send('不正なリクエストです。');
+      return;
+    }
+
+    try {
+      const organization = await this.googleCredentialService.handleCallback(code, state);
+      res.type('text/plain').send(`「${organization.name}」のGoogleカレンダー連携が完了しました。このページは閉じて構いません。`);
+    } catch (error) {
+      console.error('Google OAuthコールバックエラー:', error);
+      res.status(400).type('text/plain').send(
+        `Googleカレンダー連携に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+      );
+    }
+  }
+}
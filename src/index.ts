@@ -1,12 +1,29 @@
 import dotenv from 'dotenv';
 import express from 'express';
-import { App } from '@slack/bolt';
+import { App, ExpressReceiver } from '@slack/bolt';
 import { PrismaClient } from '@prisma/client';
+import SlackCommandHandler from './slack/SlackCommandHandler';
+import MonthlyReportDispatcher from './slack/MonthlyReportDispatcher';
+import Scheduler from './scheduler/Scheduler';
+import MonthlyReportJob from './scheduler/jobs/MonthlyReportJob';
+import CheckoutReminderJob from './scheduler/jobs/CheckoutReminderJob';
+import StaleSessionCleanupJob from './scheduler/jobs/StaleSessionCleanupJob';
+import StaleSessionNotifier from './slack/StaleSessionNotifier';
+import SlackStatusSync from './slack/SlackStatusSync';
+import SlackOAuthHandler from './slack/SlackOAuthHandler';
+import SessionCorrectionNotifier from './slack/SessionCorrectionNotifier';
+import VacationStatusJob from './scheduler/jobs/VacationStatusJob';
+import ProcessedRequestCleanupJob from './scheduler/jobs/ProcessedRequestCleanupJob';
+import ChatworkWebhookHandler from './chatwork/ChatworkWebhookHandler';
+import GoogleOAuthHandler from './google/GoogleOAuthHandler';
+import FreeeOAuthHandler from './freee/FreeeOAuthHandler';
+import ApiRouter from './api/ApiRouter';
+import StatusBoardHandler from './web/StatusBoardHandler';
 
 // 環境変数を読み込む
 dotenv.config();
 
-// データベース接続
+// データベース接続（全ハンドラーで共有）
 const prisma = new PrismaClient();
 
 // Expressアプリの初期化
@@ -14,13 +31,40 @@ const app = express();
 const port = process.env.PORT || 3000;
 
 // Slackアプリの初期化
+// Socket Modeでない場合はExpressReceiverを使い、同じExpressサーバー上でイベントを受け付ける
+const useSocketMode = Boolean(process.env.SLACK_APP_TOKEN);
+const slackReceiver = useSocketMode
+  ? undefined
+  : new ExpressReceiver({
+      signingSecret: process.env.SLACK_SIGNING_SECRET || '',
+    });
+
 const slackApp = new App({
   token: process.env.SLACK_BOT_TOKEN,
-  signingSecret: process.env.SLACK_SIGNING_SECRET,
-  socketMode: process.env.SLACK_APP_TOKEN ? true : false,
-  appToken: process.env.SLACK_APP_TOKEN,
+  ...(slackReceiver
+    ? { receiver: slackReceiver }
+    : {
+        signingSecret: process.env.SLACK_SIGNING_SECRET,
+        socketMode: true,
+        appToken: process.env.SLACK_APP_TOKEN,
+      }),
 });
 
+// Slackのリクエスト署名検証は生のボディを使うため、JSONパーサーより先にマウントする
+if (slackReceiver) {
+  app.use(slackReceiver.router);
+}
+
+// REST API（組織ごとのAPIキーで認証。エラーをJSONで返すため、ボディのパースはルーター内で行う）
+app.use('/api/v1', new ApiRouter(prisma).createRouter());
+
+// Chatwork Webhookの設定（署名検証は生のボディを使うため、JSONパーサーより先にマウントする）
+const chatworkWebhookHandler = new ChatworkWebhookHandler(prisma);
+chatworkWebhookHandler.start();
+app.post('/chatwork/webhook', express.raw({ type: '*/*' }), (req, res) =>
+  chatworkWebhookHandler.handleWebhook(req, res)
+);
+
 // JSONリクエストのパース
 app.use(express.json());
 
@@ -30,63 +74,87 @@ app.get('/', (req, res) => {
 });
 
 // Slackコマンドの設定
-// チェックイン
-slackApp.command('/checkin', async ({ command, ack, respond }) => {
-  await ack();
-  
-  // TODO: ユーザー認証と打刻処理
-  
-  await respond({
-    text: `@${command.user_name} さんがチェックインしました！`,
-  });
-});
+const slackCommandHandler = new SlackCommandHandler(slackApp, prisma);
+slackCommandHandler.initialize();
 
-// チェックアウト
-slackApp.command('/checkout', async ({ command, ack, respond }) => {
-  await ack();
-  
-  // TODO: ユーザー認証と打刻終了処理
-  
-  await respond({
-    text: `@${command.user_name} さんがチェックアウトしました！`,
-  });
-});
+// 打刻に合わせたSlackステータスの同期
+const slackStatusSync = new SlackStatusSync(slackApp, prisma);
+slackStatusSync.start();
 
-// ステータス確認
-slackApp.command('/status', async ({ ack, respond }) => {
-  await ack();
-  
-  // TODO: 現在稼働中のメンバー一覧取得
-  
-  await respond({
-    text: "現在稼働中のメンバー一覧:\n（実装中）",
-  });
-});
+// 稼働時間の修正申請の承認フロー
+const sessionCorrectionNotifier = new SessionCorrectionNotifier(slackApp, prisma);
+sessionCorrectionNotifier.start();
 
-// 休暇申請
-slackApp.command('/vacation', async ({ command, ack, respond }) => {
-  await ack();
-  
-  // TODO: 休暇申請処理とGoogleカレンダー連携
-  
-  await respond({
-    text: `@${command.user_name} さんの休暇申請を受け付けました！`,
-  });
-});
+const slackOAuthHandler = new SlackOAuthHandler(slackApp, prisma);
+app.get('/oauth/slack/start', (req, res) => slackOAuthHandler.handleStart(req, res));
+app.get('/oauth/slack/callback', (req, res) => slackOAuthHandler.handleCallback(req, res));
+
+// 定期ジョブの設定
+const scheduler = new Scheduler(prisma);
+scheduler.register(new MonthlyReportJob(new MonthlyReportDispatcher(slackApp, prisma)));
+scheduler.register(new CheckoutReminderJob(slackApp, prisma));
+scheduler.register(
+  new StaleSessionCleanupJob(prisma, new StaleSessionNotifier(slackApp, prisma))
+);
+scheduler.register(new VacationStatusJob(slackStatusSync));
+scheduler.register(new ProcessedRequestCleanupJob(prisma));
+scheduler.start();
 
-// Slackアプリの起動
-(async () => {
-  await slackApp.start();
-  console.log('⚡️ Slack Bolt app is running!');
-})();
+// Googleカレンダー連携（組織ごとのOAuth）の設定
+const googleOAuthHandler = new GoogleOAuthHandler(prisma);
+app.get('/oauth/google/start', (req, res) => googleOAuthHandler.handleStart(req, res));
+app.get('/oauth/google/callback', (req, res) => googleOAuthHandler.handleCallback(req, res));
+
+// freee連携（組織ごとのOAuth）の設定
+const freeeOAuthHandler = new FreeeOAuthHandler(prisma);
+app.get('/oauth/freee/start', (req, res) => freeeOAuthHandler.handleStart(req, res));
+app.get('/oauth/freee/callback', (req, res) => freeeOAuthHandler.handleCallback(req, res));
+
+// Webのステータスボード（現在稼働中のメンバー一覧）
+const statusBoardHandler = new StatusBoardHandler(prisma);
+statusBoardHandler.start();
+app.get('/status/:slug', (req, res) => statusBoardHandler.handlePage(req, res));
+app.get('/status/:slug/events', (req, res) => statusBoardHandler.handleEvents(req, res));
+
+// Slackアプリの起動（Socket Modeの場合のみ。HTTPモードはExpressサーバーで受け付ける）
+if (useSocketMode) {
+  (async () => {
+    await slackApp.start();
+    console.log('⚡️ Slack Bolt app is running!');
+  })();
+}
 
 // Expressサーバーの起動
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`🚀 NowWorking API server is running on port ${port}`);
 });
 
 // アプリケーション終了時の処理
-process.on('SIGINT', async () => {
-  await prisma.$disconnect();
-  process.exit(0);
-});
+let shuttingDown = false;
+const shutdown = async (signal: NodeJS.Signals): Promise<void> => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} を受信しました。終了処理を開始します...`);
+
+  try {
+    scheduler.stop();
+    statusBoardHandler.stop();
+
+    if (useSocketMode) {
+      await slackApp.stop();
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      server.close((error) => (error ? reject(error) : resolve()));
+    });
+
+    await prisma.$disconnect();
+    process.exit(0);
+  } catch (error) {
+    console.error('終了処理エラー:', error);
+    process.exit(1);
+  }
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
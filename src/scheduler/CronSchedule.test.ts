@@ -0,0 +1,48 @@
+import CronSchedule from './CronSchedule';
+
+// CronSchedule はサーバーのローカル時刻で評価するため、日時はローカル時刻で作成する
+describe('CronSchedule', () => {
+  it('不正な式はエラーにする', () => {
+    expect(() => new CronSchedule('0 9 * *')).toThrow('cron式の形式が不正です: 0 9 * *');
+    expect(() => new CronSchedule('60 9 * * *')).toThrow('cron式のフィールドが不正です: 60');
+    expect(() => new CronSchedule('*/0 9 * * *')).toThrow('cron式のフィールドが不正です: */0');
+    expect(() => new CronSchedule('0 17-9 * * *')).toThrow('cron式のフィールドが不正です: 17-9');
+    expect(() => new CronSchedule('0 9 * * mon')).toThrow('cron式のフィールドが不正です: mon');
+  });
+
+  it('リスト・範囲・ステップで次の実行時刻を求める', () => {
+    const schedule = new CronSchedule('0,30 9-10 * * *');
+    const until = new Date(2026, 9, 20);
+
+    expect(schedule.nextOccurrence(new Date(2026, 9, 19, 8, 45), until)).toEqual(new Date(2026, 9, 19, 9, 0));
+    expect(schedule.nextOccurrence(new Date(2026, 9, 19, 9, 0), until)).toEqual(new Date(2026, 9, 19, 9, 30));
+    expect(schedule.nextOccurrence(new Date(2026, 9, 19, 10, 30), until)).toBeNull();
+
+    const quarterly = new CronSchedule('*/15 * * * *');
+    expect(quarterly.nextOccurrence(new Date(2026, 9, 19, 9, 1, 30), until)).toEqual(new Date(2026, 9, 19, 9, 15));
+  });
+
+  it('曜日は0と7のどちらでも日曜日として扱う', () => {
+    // 2026-10-19 は月曜日
+    const after = new Date(2026, 9, 19, 12, 0);
+    const until = new Date(2026, 10, 1);
+
+    expect(new CronSchedule('0 9 * * 7').nextOccurrence(after, until)).toEqual(new Date(2026, 9, 25, 9, 0));
+    expect(new CronSchedule('0 9 * * 0').nextOccurrence(after, until)).toEqual(new Date(2026, 9, 25, 9, 0));
+    expect(new CronSchedule('0 9 * * 1-5').nextOccurrence(after, until)).toEqual(new Date(2026, 9, 20, 9, 0));
+  });
+
+  it('日と曜日の両方を指定した場合はどちらかに一致すればよい', () => {
+    const schedule = new CronSchedule('0 9 1 * 0');
+
+    // 2026-10-25（日曜日）、2026-11-01（1日）
+    expect(schedule.nextOccurrence(new Date(2026, 9, 19), new Date(2026, 11, 1))).toEqual(new Date(2026, 9, 25, 9, 0));
+    expect(schedule.nextOccurrence(new Date(2026, 9, 26), new Date(2026, 11, 1))).toEqual(new Date(2026, 10, 1, 9, 0));
+  });
+
+  it('月をまたいで次の実行時刻を求める', () => {
+    const schedule = new CronSchedule('0 9 1 * *');
+
+    expect(schedule.nextOccurrence(new Date(2026, 11, 1, 9, 0), new Date(2027, 1, 1))).toEqual(new Date(2027, 0, 1, 9, 0));
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * cron形式（分 時 日 月 曜日）のスケジュール
+ *
+ * `*`、数値、リスト（`1,15`）、範囲（`1-5`）、ステップ（`*\/15`）に対応する。
+ * 時刻はサーバーのローカル時刻で評価する。
+ */
+export default class CronSchedule {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private daysOfMonth: Set<number>;
+  private months: Set<number>;
+  private daysOfWeek: Set<number>;
+  private dayOfMonthRestricted: boolean;
+  private dayOfWeekRestricted: boolean;
+
+  constructor(expression: string) {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`cron式の形式が不正です: ${expression}`);
+    }
+
+    this.minutes = this.parseField(fields[0], 0, 59);
+    this.hours = this.parseField(fields[1], 0, 23);
+    this.daysOfMonth = this.parseField(fields[2], 1, 31);
+    this.months = this.parseField(fields[3], 1, 12);
+    // 日曜日は0と7のどちらでも指定できる
+    this.daysOfWeek = new Set(
+      Array.from(this.parseField(fields[4], 0, 7)).map((day) => (day === 7 ? 0 : day))
+    );
+    this.dayOfMonthRestricted = fields[2] !== '*';
+    this.dayOfWeekRestricted = fields[4] !== '*';
+  }
+
+  /**
+   * after より後、until 以前で最初に一致する時刻を返す（なければnull）
+   */
+  nextOccurrence(after: Date, until: Date): Date | null {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    while (date <= until) {
+      if (!this.matchesDay(date)) {
+        date.setHours(24, 0, 0, 0);
+        continue;
+      }
+      if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+      if (this.minutes.has(date.getMinutes())) {
+        return date;
+      }
+      date.setMinutes(date.getMinutes() + 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * 日付（月・日・曜日）が一致するか
+   *
+   * 日と曜日の両方が指定されている場合は、一般的なcronと同様にどちらかに一致すればよい。
+   */
+  private matchesDay(date: Date): boolean {
+    if (!this.months.has(date.getMonth() + 1)) {
+      return false;
+    }
+
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  /**
+   * cronの1フィールドを値の集合に変換する
+   */
+  private parseField(field: string, min: number, max: number): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText ? Number(stepText) : 1;
+
+      let start = min;
+      let end = max;
+      if (range !== '*') {
+        const [startText, endText] = range.split('-');
+        start = Number(startText);
+        end = endText !== undefined ? Number(endText) : stepText ? max : start;
+      }
+
+      if (
+        !Number.isInteger(start) ||
+        !Number.isInteger(end) ||
+        !Number.isInteger(step) ||
+        step < 1 ||
+        start < min ||
+        end > max ||
+        start > end
+      ) {
+        throw new Error(`cron式のフィールドが不正です: ${field}`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+}
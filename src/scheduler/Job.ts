@@ -0,0 +1,14 @@
+/**
+ * 定期ジョブの定義
+ */
+export interface Job {
+  /** ジョブ名（実行状態の保存キー） */
+  name: string;
+  /** cron形式のスケジュール（分 時 日 月 曜日） */
+  schedule: string;
+  /**
+   * ジョブを実行する
+   * @param scheduledAt スケジュール上の実行時刻
+   */
+  run(scheduledAt: Date): Promise<void>;
+}
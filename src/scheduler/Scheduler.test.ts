@@ -0,0 +1,205 @@
+import { PrismaClient, ScheduledJob } from '@prisma/client';
+import Scheduler from './Scheduler';
+import { Job } from './Job';
+
+type Where = Record<string, unknown>;
+
+/**
+ * updateMany の条件（等価・lt・OR・AND）を評価する
+ */
+function matches(row: ScheduledJob, where: Where): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') {
+      return (condition as Where[]).some((c) => matches(row, c));
+    }
+    if (key === 'AND') {
+      return (condition as Where[]).every((c) => matches(row, c));
+    }
+
+    const value = row[key as keyof ScheduledJob];
+    if (condition && typeof condition === 'object' && 'lt' in condition) {
+      return value !== null && value < (condition as { lt: Date }).lt;
+    }
+    return value === condition;
+  });
+}
+
+/**
+ * ScheduledJobテーブルをメモリ上で扱うPrismaClient
+ */
+function createPrisma(rows: ScheduledJob[] = []) {
+  const jobs = new Map(rows.map((row) => [row.name, row]));
+
+  const scheduledJob = {
+    upsert: jest.fn(async ({ where, create }: { where: { name: string }; create: Partial<ScheduledJob> }) => {
+      if (!jobs.has(where.name)) {
+        jobs.set(where.name, createRow({ ...create, name: where.name }));
+      }
+      return jobs.get(where.name);
+    }),
+    updateMany: jest.fn(async ({ where, data }: { where: Where; data: Partial<ScheduledJob> }) => {
+      const targets = Array.from(jobs.values()).filter((row) => matches(row, where));
+      for (const row of targets) {
+        Object.assign(row, data);
+      }
+      return { count: targets.length };
+    }),
+  };
+
+  return { prisma: { scheduledJob } as unknown as PrismaClient, jobs };
+}
+
+function createRow(overrides: Partial<ScheduledJob> & { name: string }): ScheduledJob {
+  return {
+    lastRunAt: null,
+    lastError: null,
+    lockedBy: null,
+    lockedUntil: null,
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createJob(run: Job['run'] = async () => undefined) {
+  return { name: 'hourly-report', schedule: '0 * * * *', run: jest.fn(run) };
+}
+
+/** スケジュールの確認を1回行う（1分進める） */
+async function tick(): Promise<void> {
+  await jest.advanceTimersByTimeAsync(60 * 1000);
+}
+
+// CronSchedule はサーバーのローカル時刻で評価するため、日時はローカル時刻で作成する
+describe('Scheduler', () => {
+  let scheduler: Scheduler;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    // 2026-10-19 10:30:30
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 30, 30) });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it('初めて登録されたジョブは過去分を実行しない', async () => {
+    const { prisma, jobs } = createPrisma();
+    const job = createJob();
+    scheduler = new Scheduler(prisma);
+    scheduler.register(job);
+    scheduler.start();
+
+    await tick();
+
+    expect(job.run).not.toHaveBeenCalled();
+    expect(jobs.get('hourly-report')?.lastRunAt).toEqual(new Date(2026, 9, 19, 10, 31, 30));
+  });
+
+  it('停止中に過ぎたスケジュールは直近の時刻で1回だけ実行する', async () => {
+    const { prisma, jobs } = createPrisma([createRow({ name: 'hourly-report', lastRunAt: new Date(2026, 9, 19, 7, 0) })]);
+    const job = createJob();
+    scheduler = new Scheduler(prisma);
+    scheduler.register(job);
+    scheduler.start();
+
+    await tick();
+    await tick();
+
+    expect(job.run).toHaveBeenCalledTimes(1);
+    expect(job.run).toHaveBeenCalledWith(new Date(2026, 9, 19, 10, 0));
+    expect(jobs.get('hourly-report')).toMatchObject({
+      lastRunAt: new Date(2026, 9, 19, 10, 0),
+      lastError: null,
+      lockedBy: null,
+      lockedUntil: null,
+    });
+  });
+
+  it('ジョブが失敗しても次のスケジュールまで再実行せず、エラーを記録する', async () => {
+    const { prisma, jobs } = createPrisma([createRow({ name: 'hourly-report', lastRunAt: new Date(2026, 9, 19, 9, 0) })]);
+    const job = createJob(() => Promise.reject(new Error('connection refused')));
+    scheduler = new Scheduler(prisma);
+    scheduler.register(job);
+    scheduler.start();
+
+    await tick();
+    await tick();
+
+    expect(job.run).toHaveBeenCalledTimes(1);
+    expect(jobs.get('hourly-report')).toMatchObject({
+      lastRunAt: new Date(2026, 9, 19, 10, 0),
+      lastError: 'connection refused',
+    });
+  });
+
+  it('他のインスタンスが実行中のジョブは実行しない', async () => {
+    const { prisma } = createPrisma([
+      createRow({
+        name: 'hourly-report',
+        lastRunAt: new Date(2026, 9, 19, 9, 0),
+        lockedBy: 'other-host-1',
+        lockedUntil: new Date(2026, 9, 19, 10, 35),
+      }),
+    ]);
+    const job = createJob();
+    scheduler = new Scheduler(prisma);
+    scheduler.register(job);
+    scheduler.start();
+
+    await tick();
+
+    expect(job.run).not.toHaveBeenCalled();
+  });
+
+  it('期限が切れたロックは奪って実行する', async () => {
+    const { prisma, jobs } = createPrisma([
+      createRow({
+        name: 'hourly-report',
+        lastRunAt: new Date(2026, 9, 19, 9, 0),
+        lockedBy: 'other-host-1',
+        lockedUntil: new Date(2026, 9, 19, 10, 20),
+      }),
+    ]);
+    const job = createJob();
+    scheduler = new Scheduler(prisma);
+    scheduler.register(job);
+    scheduler.start();
+
+    await tick();
+
+    expect(job.run).toHaveBeenCalledWith(new Date(2026, 9, 19, 10, 0));
+    expect(jobs.get('hourly-report')).toMatchObject({ lockedBy: null, lockedUntil: null });
+  });
+
+  it('実行に時間がかかるジョブはロックを延長し、他のインスタンスに奪われない', async () => {
+    const { prisma, jobs } = createPrisma([createRow({ name: 'hourly-report', lastRunAt: new Date(2026, 9, 19, 9, 0) })]);
+    let finish: () => void = () => undefined;
+    const job = createJob(() => new Promise<void>((resolve) => (finish = resolve)));
+    scheduler = new Scheduler(prisma);
+    scheduler.register(job);
+    scheduler.start();
+
+    await tick();
+    const lockedBy = jobs.get('hourly-report')?.lockedBy;
+    expect(lockedBy).toEqual(expect.any(String));
+
+    // 最初のロックの期限（10分後）を過ぎても実行中
+    await jest.advanceTimersByTimeAsync(15 * 60 * 1000);
+    const state = jobs.get('hourly-report');
+    expect(state?.lockedBy).toBe(lockedBy);
+    expect(state?.lockedUntil?.getTime()).toBeGreaterThan(Date.now());
+
+    finish();
+    await tick();
+
+    expect(job.run).toHaveBeenCalledTimes(1);
+    expect(jobs.get('hourly-report')).toMatchObject({
+      lastRunAt: new Date(2026, 9, 19, 10, 0),
+      lockedBy: null,
+      lockedUntil: null,
+    });
+  });
+});
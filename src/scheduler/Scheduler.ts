@@ -0,0 +1,173 @@
+import os from 'os';
+import { PrismaClient } from '@prisma/client';
+import CronSchedule from './CronSchedule';
+import { Job } from './Job';
+
+/** スケジュール確認の間隔（1分） */
+const TICK_INTERVAL_MS = 60 * 1000;
+
+/** ジョブのロック保持時間（この時間を過ぎたロックは他のインスタンスが奪える） */
+const LOCK_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** 実行中のジョブのロックを延長する間隔 */
+const LOCK_RENEW_INTERVAL_MS = LOCK_TIMEOUT_MS / 2;
+
+/**
+ * プロセス内の定期ジョブスケジューラー
+ *
+ * 実行状態はScheduledJobテーブルに保存し、再起動後の二重実行と
+ * 複数インスタンスでの同時実行を防ぐ。
+ */
+export default class Scheduler {
+  private prisma: PrismaClient;
+  private jobs: { job: Job; schedule: CronSchedule }[] = [];
+  private instanceId: string;
+  private timer?: NodeJS.Timeout;
+  private running = new Set<string>();
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.instanceId = `${os.hostname()}-${process.pid}`;
+  }
+
+  /**
+   * ジョブを登録する
+   */
+  register(job: Job): void {
+    this.jobs.push({ job, schedule: new CronSchedule(job.schedule) });
+  }
+
+  /**
+   * スケジューラーを開始する
+   */
+  start(): void {
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => {
+        console.error('スケジューラーエラー:', error);
+      });
+    }, TICK_INTERVAL_MS);
+  }
+
+  /**
+   * スケジューラーを停止する（実行中のジョブは中断しない）
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * 実行時刻を過ぎたジョブを実行する
+   */
+  private async tick(): Promise<void> {
+    const now = new Date();
+
+    for (const { job, schedule } of this.jobs) {
+      if (this.running.has(job.name)) {
+        continue;
+      }
+
+      const scheduledAt = await this.findDueTime(job, schedule, now);
+      if (scheduledAt) {
+        this.running.add(job.name);
+        this.runJob(job, scheduledAt)
+          .catch((error) => console.error(`ジョブ実行エラー (${job.name}):`, error))
+          .finally(() => this.running.delete(job.name));
+      }
+    }
+  }
+
+  /**
+   * 未実行の直近のスケジュール時刻を返す（実行不要ならnull）
+   *
+   * 初めて登録されたジョブは過去分を実行せず、現在時刻を基準に記録する。
+   */
+  private async findDueTime(
+    job: Job,
+    schedule: CronSchedule,
+    now: Date
+  ): Promise<Date | null> {
+    const state = await this.prisma.scheduledJob.upsert({
+      where: { name: job.name },
+      create: { name: job.name, lastRunAt: now },
+      update: {},
+    });
+
+    const lastRunAt = state.lastRunAt ?? now;
+    let due: Date | null = null;
+    for (
+      let next = schedule.nextOccurrence(lastRunAt, now);
+      next;
+      next = schedule.nextOccurrence(next, now)
+    ) {
+      due = next;
+    }
+
+    return due;
+  }
+
+  /**
+   * ロックを取得してジョブを実行し、実行状態を保存する
+   */
+  private async runJob(job: Job, scheduledAt: Date): Promise<void> {
+    const now = new Date();
+
+    // 未実行かつ他のインスタンスがロックしていない場合のみロックを取得する
+    const { count } = await this.prisma.scheduledJob.updateMany({
+      where: {
+        name: job.name,
+        OR: [{ lastRunAt: null }, { lastRunAt: { lt: scheduledAt } }],
+        AND: [{ OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }] }],
+      },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + LOCK_TIMEOUT_MS),
+      },
+    });
+    if (count === 0) {
+      return;
+    }
+
+    // 実行が長引いても他のインスタンスに奪われないよう、実行中はロックを延長し続ける
+    const renewTimer = setInterval(() => {
+      this.renewLock(job).catch((error) => {
+        console.error(`ジョブのロック延長エラー (${job.name}):`, error);
+      });
+    }, LOCK_RENEW_INTERVAL_MS);
+
+    let lastError: string | null = null;
+    try {
+      await job.run(scheduledAt);
+    } catch (error) {
+      // 失敗しても次のスケジュールまで再実行しない（エラー内容は記録する）
+      lastError = error instanceof Error ? error.message : String(error);
+      console.error(`ジョブ実行エラー (${job.name}):`, error);
+    } finally {
+      clearInterval(renewTimer);
+      await this.prisma.scheduledJob.updateMany({
+        where: { name: job.name, lockedBy: this.instanceId },
+        data: {
+          lastRunAt: scheduledAt,
+          lastError,
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      });
+    }
+  }
+
+  /**
+   * 実行中のジョブのロックの保持時間を延長する
+   */
+  private async renewLock(job: Job): Promise<void> {
+    const { count } = await this.prisma.scheduledJob.updateMany({
+      where: { name: job.name, lockedBy: this.instanceId },
+      data: { lockedUntil: new Date(Date.now() + LOCK_TIMEOUT_MS) },
+    });
+    if (count === 0) {
+      console.error(`ジョブのロックが他のインスタンスに奪われました (${job.name})`);
+    }
+  }
+}
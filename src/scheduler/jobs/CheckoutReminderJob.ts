@@ -0,0 +1,61 @@
+import { App } from '@slack/bolt';
+import { PrismaClient } from '@prisma/client';
+import OrganizationService from '../../services/OrganizationService';
+import WorkingSessionService from '../../services/WorkingSessionService';
+import { formatClockTime, getZonedParts, resolveTimeZone } from '../../utils/timezone';
+import { Job } from '../Job';
+
+/** リマインドする時刻（メンバーのタイムゾーンでの時） */
+const REMINDER_HOUR = 20;
+
+/**
+ * 平日の夜にチェックアウトしていないメンバーへSlack DMでリマインドするジョブ
+ *
+ * メンバーごとにタイムゾーンが異なるため毎時実行し、メンバーのタイムゾーンで平日20時台のメンバーに送る。
+ */
+export default class CheckoutReminderJob implements Job {
+  name = 'checkout-reminder';
+  schedule = '0 * * * *';
+
+  private app: App;
+  private organizationService: OrganizationService;
+  private workingSessionService: WorkingSessionService;
+
+  constructor(app: App, prisma: PrismaClient) {
+    this.app = app;
+    this.organizationService = new OrganizationService(prisma);
+    this.workingSessionService = new WorkingSessionService(prisma);
+  }
+
+  async run(scheduledAt: Date): Promise<void> {
+    const organizations = await this.organizationService.findAll();
+
+    for (const organization of organizations) {
+      const activeSessions = await this.workingSessionService.getAllActiveSessions(
+        organization.id
+      );
+
+      for (const session of activeSessions) {
+        if (!session.user.slackUserId) continue;
+
+        const timeZone = resolveTimeZone(session.user, organization);
+        const now = getZonedParts(scheduledAt, timeZone);
+        if (now.hours !== REMINDER_HOUR || now.weekday === 0 || now.weekday === 6) continue;
+
+        const checkin = getZonedParts(session.checkinAt, timeZone);
+        const startTime = `${checkin.month}/${checkin.day} ${formatClockTime(session.checkinAt, timeZone)}`;
+
+        try {
+          await this.app.client.chat.postMessage({
+            channel: session.user.slackUserId,
+            text:
+              `「${organization.name}」で ${startTime} からチェックイン中です。` +
+              `作業が終わっていれば /checkout を実行してください。`,
+          });
+        } catch (error) {
+          console.error(`リマインド送信エラー (${session.user.slackUserId}):`, error);
+        }
+      }
+    }
+  }
+}
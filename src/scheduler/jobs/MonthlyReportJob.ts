@@ -0,0 +1,22 @@
+import MonthlyReportDispatcher from '../../slack/MonthlyReportDispatcher';
+import { Job } from '../Job';
+
+/**
+ * 毎月1日に前月分の月次レポートを配信するジョブ
+ *
+ * 組織ごとにタイムゾーンが異なるため毎時実行し、組織のタイムゾーンで1日9時を過ぎて未配信の組織に配信する。
+ */
+export default class MonthlyReportJob implements Job {
+  name = 'monthly-report';
+  schedule = '0 * * * *';
+
+  private dispatcher: MonthlyReportDispatcher;
+
+  constructor(dispatcher: MonthlyReportDispatcher) {
+    this.dispatcher = dispatcher;
+  }
+
+  async run(scheduledAt: Date): Promise<void> {
+    await this.dispatcher.dispatchDue(scheduledAt);
+  }
+}
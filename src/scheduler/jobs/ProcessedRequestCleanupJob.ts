@@ -0,0 +1,21 @@
+import { PrismaClient } from '@prisma/client';
+import ProcessedRequestService from '../../services/ProcessedRequestService';
+import { Job } from '../Job';
+
+/**
+ * 毎日、再送の重複排除に使った処理済みリクエストの古い記録を削除するジョブ
+ */
+export default class ProcessedRequestCleanupJob implements Job {
+  name = 'processed-request-cleanup';
+  schedule = '30 3 * * *';
+
+  private processedRequestService: ProcessedRequestService;
+
+  constructor(prisma: PrismaClient) {
+    this.processedRequestService = new ProcessedRequestService(prisma);
+  }
+
+  async run(scheduledAt: Date): Promise<void> {
+    await this.processedRequestService.deleteExpired(scheduledAt);
+  }
+}
@@ -0,0 +1,35 @@
+import { PrismaClient } from '@prisma/client';
+import OrganizationService from '../../services/OrganizationService';
+import WorkingSessionService from '../../services/WorkingSessionService';
+import StaleSessionNotifier from '../../slack/StaleSessionNotifier';
+import { Job } from '../Job';
+
+/**
+ * チェックアウト忘れのセッションを組織のポリシーに従って自動終了し、本人に通知するジョブ
+ */
+export default class StaleSessionCleanupJob implements Job {
+  name = 'stale-session-cleanup';
+  schedule = '*/15 * * * *';
+
+  private organizationService: OrganizationService;
+  private workingSessionService: WorkingSessionService;
+  private notifier: StaleSessionNotifier;
+
+  constructor(prisma: PrismaClient, notifier: StaleSessionNotifier) {
+    this.organizationService = new OrganizationService(prisma);
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.notifier = notifier;
+  }
+
+  async run(): Promise<void> {
+    const organizations = await this.organizationService.findAll();
+
+    for (const organization of organizations) {
+      const closedSessions = await this.workingSessionService.closeStaleSessions(organization);
+
+      for (const session of closedSessions) {
+        await this.notifier.notify(session.user, organization, session);
+      }
+    }
+  }
+}
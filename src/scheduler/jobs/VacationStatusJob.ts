@@ -0,0 +1,22 @@
+import SlackStatusSync from '../../slack/SlackStatusSync';
+import { Job } from '../Job';
+
+/**
+ * 毎時、今日休暇のメンバーのSlackステータスを「休暇中」にするジョブ
+ *
+ * メンバーごとにタイムゾーンが異なるため毎時実行し、今日まだ設定していないメンバーのみを対象とする。
+ */
+export default class VacationStatusJob implements Job {
+  name = 'vacation-status';
+  schedule = '5 * * * *';
+
+  private slackStatusSync: SlackStatusSync;
+
+  constructor(slackStatusSync: SlackStatusSync) {
+    this.slackStatusSync = slackStatusSync;
+  }
+
+  async run(scheduledAt: Date): Promise<void> {
+    await this.slackStatusSync.applyTodayVacationStatuses(scheduledAt);
+  }
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import { ApiKey, Membership, PrismaClient } from '@prisma/client';
+import ApiKeyService from './ApiKeyService';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+
+const KEY = 'nw_0123456789abcdefghijklmnopqrstuv';
+
+function hash(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function createApiKey(overrides: Partial<ApiKey> = {}): ApiKey {
+  return {
+    id: 'api-key-1',
+    organizationId: 'org-1',
+    name: '給与システム連携',
+    keyHash: hash(KEY),
+    keyPrefix: KEY.slice(0, 11),
+    createdById: 'user-1',
+    revokedAt: null,
+    lastUsedAt: null,
+    ...overrides,
+  } as ApiKey;
+}
+
+describe('ApiKeyService', () => {
+  let prisma: {
+    apiKey: { create: jest.Mock; findUnique: jest.Mock; findFirst: jest.Mock; update: jest.Mock };
+  };
+  let service: ApiKeyService;
+  let authorize: jest.SpyInstance;
+  let can: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    authorize = jest.spyOn(PermissionService.prototype, 'authorize').mockResolvedValue({} as Membership);
+    can = jest.spyOn(PermissionService.prototype, 'can').mockResolvedValue(true);
+    jest.spyOn(AuditLogService.prototype, 'record').mockResolvedValue({} as never);
+
+    prisma = {
+      apiKey: {
+        create: jest.fn(async ({ data }) => ({ id: 'api-key-1', ...data })),
+        findUnique: jest.fn().mockResolvedValue({ ...createApiKey(), organization: { id: 'org-1' } }),
+        findFirst: jest.fn().mockResolvedValue(createApiKey()),
+        update: jest.fn(async ({ data }) => ({ ...createApiKey(), ...data })),
+      },
+    };
+    service = new ApiKeyService(prisma as unknown as PrismaClient);
+  });
+
+  describe('createApiKey', () => {
+    it('キーは発行時のみ返し、ハッシュと先頭部分だけを保存する', async () => {
+      const { apiKey, key } = await service.createApiKey('org-1', 'user-1', '給与システム連携');
+
+      expect(key).toMatch(/^nw_[A-Za-z0-9_-]{32}$/);
+      expect(prisma.apiKey.create).toHaveBeenCalledWith({
+        data: {
+          organizationId: 'org-1',
+          name: '給与システム連携',
+          keyHash: hash(key),
+          keyPrefix: key.slice(0, 11),
+          createdById: 'user-1',
+        },
+      });
+      expect(JSON.stringify(apiKey)).not.toContain(key);
+    });
+
+    it('APIキーの管理権限がないメンバーは発行できない', async () => {
+      authorize.mockRejectedValue(new PermissionDeniedError('api_key:manage', '権限がありません'));
+
+      await expect(service.createApiKey('org-1', 'user-2', '連携')).rejects.toThrow(PermissionDeniedError);
+      expect(prisma.apiKey.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('有効なキーは組織付きで返し、最終利用日時を記録する', async () => {
+      const apiKey = await service.authenticate(KEY);
+
+      expect(apiKey).toMatchObject({ id: 'api-key-1', organization: { id: 'org-1' } });
+      expect(prisma.apiKey.findUnique).toHaveBeenCalledWith({
+        where: { keyHash: hash(KEY) },
+        include: { organization: true },
+      });
+      expect(can).toHaveBeenCalledWith('user-1', 'org-1', 'api_key:manage');
+      expect(prisma.apiKey.update).toHaveBeenCalledWith({
+        where: { id: 'api-key-1' },
+        data: { lastUsedAt: expect.any(Date) },
+      });
+    });
+
+    it('接頭辞のないキーはデータベースを参照せずに拒否する', async () => {
+      await expect(service.authenticate('0123456789abcdef')).resolves.toBeNull();
+      expect(prisma.apiKey.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('存在しない・無効にしたキーは拒否する', async () => {
+      prisma.apiKey.findUnique.mockResolvedValueOnce(null);
+      await expect(service.authenticate(KEY)).resolves.toBeNull();
+
+      prisma.apiKey.findUnique.mockResolvedValueOnce({ ...createApiKey({ revokedAt: new Date() }), organization: {} });
+      await expect(service.authenticate(KEY)).resolves.toBeNull();
+
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it('発行したメンバーが管理権限を失ったキーは拒否する', async () => {
+      can.mockResolvedValue(false);
+
+      await expect(service.authenticate(KEY)).resolves.toBeNull();
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('IDまたはキーの先頭部分で指定したキーを無効にする', async () => {
+      const revoked = await service.revokeApiKey('org-1', 'nw_01234567', 'user-1');
+
+      expect(prisma.apiKey.findFirst).toHaveBeenCalledWith({
+        where: {
+          organizationId: 'org-1',
+          revokedAt: null,
+          OR: [{ id: 'nw_01234567' }, { keyPrefix: 'nw_01234567' }],
+        },
+      });
+      expect(revoked.revokedAt).toEqual(expect.any(Date));
+    });
+
+    it('該当する有効なキーがない場合はエラーにする', async () => {
+      prisma.apiKey.findFirst.mockResolvedValue(null);
+
+      await expect(service.revokeApiKey('org-1', 'nw_unknown', 'user-1')).rejects.toThrow(
+        '「nw_unknown」に該当する有効なAPIキーが見つかりません。'
+      );
+    });
+  });
+});
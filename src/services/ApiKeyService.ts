@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { ApiKey, Organization, PrismaClient } from '@prisma/client';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+
+/** 発行するキーの接頭辞（ログなどでAPIキーと判別しやすくするため） */
+const KEY_PREFIX = 'nw_';
+
+/** 一覧表示用に保存するキーの先頭部分の長さ（接頭辞を含む） */
+const DISPLAY_PREFIX_LENGTH = 11;
+
+/**
+ * 組織付きのAPIキー
+ */
+export type ApiKeyWithOrganization = ApiKey & { organization: Organization };
+
+/**
+ * REST API用の組織ごとのAPIキーを管理するサービス
+ *
+ * キーは発行時に一度だけ返し、データベースにはSHA-256のハッシュのみ保存する。
+ */
+export default class ApiKeyService {
+  private prisma: PrismaClient;
+  private permissionService: PermissionService;
+  private auditLogService: AuditLogService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.permissionService = new PermissionService(prisma);
+    this.auditLogService = new AuditLogService(prisma);
+  }
+
+  /**
+   * APIキーを発行する（戻り値の key は再表示できない）
+   */
+  async createApiKey(
+    organizationId: string,
+    actorId: string,
+    name: string
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    await this.permissionService.authorize(actorId, organizationId, 'api_key:manage');
+
+    const key = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        organizationId,
+        name,
+        keyHash: this.hash(key),
+        keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        createdById: actorId,
+      },
+    });
+
+    await this.auditLogService.record({
+      action: 'api_key.created',
+      organizationId,
+      targetId: apiKey.id,
+      after: apiKey,
+      actorId,
+    });
+
+    return { apiKey, key };
+  }
+
+  /**
+   * 組織の有効なAPIキーの一覧を取得する
+   */
+  async getApiKeys(organizationId: string, viewerId: string): Promise<ApiKey[]> {
+    await this.permissionService.authorize(viewerId, organizationId, 'api_key:manage');
+
+    return this.prisma.apiKey.findMany({
+      where: { organizationId, revokedAt: null },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * APIキーを無効にする（IDまたはキーの先頭部分で指定）
+   */
+  async revokeApiKey(organizationId: string, reference: string, actorId: string): Promise<ApiKey> {
+    await this.permissionService.authorize(actorId, organizationId, 'api_key:manage');
+
+    const apiKey = await this.prisma.apiKey.findFirst({
+      where: {
+        organizationId,
+        revokedAt: null,
+        OR: [{ id: reference }, { keyPrefix: reference }],
+      },
+    });
+    if (!apiKey) {
+      throw new Error(`「${reference}」に該当する有効なAPIキーが見つかりません。`);
+    }
+
+    const revoked = await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { revokedAt: new Date() },
+    });
+
+    await this.auditLogService.record({
+      action: 'api_key.revoked',
+      organizationId,
+      targetId: apiKey.id,
+      before: apiKey,
+      after: revoked,
+      actorId,
+    });
+
+    return revoked;
+  }
+
+  /**
+   * キーを検証して有効なAPIキーを返す（無効な場合はnull）
+   *
+   * 発行したメンバーがAPIキーの管理権限を失った場合（利用停止・ロール変更など）もキーは無効になる。
+   */
+  async authenticate(key: string): Promise<ApiKeyWithOrganization | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: this.hash(key) },
+      include: { organization: true },
+    });
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    const allowed = await this.permissionService.can(
+      apiKey.createdById,
+      apiKey.organizationId,
+      'api_key:manage'
+    );
+    if (!allowed) {
+      return null;
+    }
+
+    await this.prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return apiKey;
+  }
+
+  /**
+   * キーのハッシュを計算する
+   */
+  private hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
@@ -0,0 +1,171 @@
+import { AuditLog, Prisma, PrismaClient, User } from '@prisma/client';
+import { getCurrentActor } from '../utils/auditContext';
+import { toCsv } from '../utils/csv';
+import PermissionService from './PermissionService';
+
+/**
+ * 監査ログに記録する操作
+ */
+export type AuditAction =
+  | 'session.checkin'
+  | 'session.checkout'
+  | 'session.auto_closed'
+  | 'session.corrected'
+  | 'session.note_updated'
+  | 'break.started'
+  | 'break.ended'
+  | 'correction.requested'
+  | 'correction.approved'
+  | 'correction.rejected'
+  | 'organization.created'
+  | 'organization.updated'
+  | 'organization.deleted'
+  | 'membership.invited'
+  | 'membership.accepted'
+  | 'membership.role_changed'
+  | 'membership.status_changed'
+  | 'user.created'
+  | 'user.account_linked'
+  | 'user.default_organization_changed'
+  | 'user.time_zone_changed'
+  | 'user.slack_token_changed'
+  | 'api_key.created'
+  | 'api_key.revoked';
+
+/**
+ * 監査ログの記録内容
+ */
+export interface AuditEntry {
+  action: AuditAction;
+  organizationId?: string | null;
+  targetId: string;
+  /** 変更の対象となったユーザー */
+  userId?: string | null;
+  before?: unknown;
+  after?: unknown;
+  /** 操作者（省略時は実行中の処理の操作者） */
+  actorId?: string | null;
+}
+
+/**
+ * 操作者・対象ユーザー付きの監査ログ
+ */
+export type AuditLogWithUsers = AuditLog & { actor: User | null; user: User | null };
+
+/** 監査ログに値を残さない項目（トークンなど） */
+const SECRET_KEYS = ['slackUserToken', 'accessToken', 'refreshToken', 'keyHash', 'statusBoardToken'];
+
+/** 一覧表示の最大件数 */
+const MAX_LIST_LIMIT = 100;
+
+/**
+ * 勤怠・メンバーシップの変更を記録する監査ログサービス（追記のみ）
+ */
+export default class AuditLogService {
+  private prisma: PrismaClient;
+  private permissionService: PermissionService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.permissionService = new PermissionService(prisma);
+  }
+
+  /**
+   * 変更を記録する
+   *
+   * 変更と同じトランザクションで記録する場合はトランザクションのクライアントを渡す。
+   */
+  async record(
+    entry: AuditEntry,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<AuditLog> {
+    const actor = getCurrentActor();
+
+    return client.auditLog.create({
+      data: {
+        organizationId: entry.organizationId ?? null,
+        actorId: entry.actorId !== undefined ? entry.actorId : (actor?.actorId ?? null),
+        platform: actor?.platform ?? 'system',
+        action: entry.action,
+        targetType: entry.action.split('.')[0],
+        targetId: entry.targetId,
+        userId: entry.userId ?? null,
+        before: this.toJson(entry.before),
+        after: this.toJson(entry.after),
+      },
+    });
+  }
+
+  /**
+   * 組織の監査ログを新しい順に取得する（OWNER・ADMINのみ）
+   */
+  async getLogs(
+    organizationId: string,
+    viewerId: string,
+    options: { userId?: string; limit?: number } = {}
+  ): Promise<AuditLogWithUsers[]> {
+    await this.permissionService.authorize(viewerId, organizationId, 'audit:view');
+
+    return this.prisma.auditLog.findMany({
+      where: {
+        organizationId,
+        ...(options.userId ? { OR: [{ userId: options.userId }, { actorId: options.userId }] } : {}),
+      },
+      include: { actor: true, user: true },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(options.limit ?? 20, MAX_LIST_LIMIT),
+    });
+  }
+
+  /**
+   * 指定した期間の組織の監査ログをCSVで出力する（OWNER・ADMINのみ）
+   */
+  async exportCsv(
+    organizationId: string,
+    viewerId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<string> {
+    await this.permissionService.authorize(viewerId, organizationId, 'audit:view');
+
+    const logs = await this.prisma.auditLog.findMany({
+      where: {
+        organizationId,
+        createdAt: { gte: startDate, lt: endDate },
+      },
+      include: { actor: true, user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return toCsv([
+      ['日時', '操作者', '操作者メールアドレス', 'プラットフォーム', '操作', '対象種別', '対象ID', '対象ユーザー', '変更前', '変更後'],
+      ...logs.map((log) => [
+        log.createdAt,
+        log.actor?.name ?? 'システム',
+        log.actor?.email,
+        log.platform,
+        log.action,
+        log.targetType,
+        log.targetId,
+        log.user?.name,
+        log.before === null ? '' : JSON.stringify(log.before),
+        log.after === null ? '' : JSON.stringify(log.after),
+      ]),
+    ]);
+  }
+
+  /**
+   * 値をJSONとして保存できる形に変換する（日時は文字列に変換し、トークンなどは伏せる）
+   */
+  private toJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+    if (value === undefined || value === null) {
+      return Prisma.JsonNull;
+    }
+
+    return JSON.parse(
+      JSON.stringify(value, (key, item) =>
+        SECRET_KEYS.includes(key) && item ? '[REDACTED]' : item
+      )
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+
+/** 送信を試みる最大回数（初回を含む） */
+const MAX_ATTEMPTS = 4;
+
+/** 再試行までの待ち時間の初期値（ミリ秒、再試行のたびに2倍にする） */
+const INITIAL_BACKOFF_MS = 1000;
+
+/** レート制限の解除を待つ最大時間（ミリ秒） */
+const MAX_RATE_LIMIT_WAIT_MS = 60 * 1000;
+
+/**
+ * 指定したミリ秒待つ
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Chatwork API（メッセージ・ファイルの送信）のクライアント
+ *
+ * 一時的なエラー（ネットワークエラー・5xx）は間隔を空けて再試行し、
+ * レート制限（429）の場合は x-ratelimit-reset の時刻まで待ってから再試行する。
+ */
+export default class ChatworkApiService {
+  private client: AxiosInstance;
+
+  constructor(apiToken: string) {
+    this.client = axios.create({
+      baseURL: process.env.CHATWORK_API_BASE_URL || 'https://api.chatwork.com/v2',
+      headers: { 'X-ChatWorkToken': apiToken },
+    });
+  }
+
+  /**
+   * APIトークンのアカウント（ボット）のアカウントIDを取得
+   */
+  async getMyAccountId(): Promise<string> {
+    const { data } = await this.requestWithRetry(() => this.client.get<{ account_id: number }>('/me'));
+    return String(data.account_id);
+  }
+
+  /**
+   * ルームにメッセージを送信
+   */
+  async sendMessage(roomId: string, body: string): Promise<void> {
+    await this.requestWithRetry(() =>
+      this.client.post(`/rooms/${roomId}/messages`, new URLSearchParams({ body }))
+    );
+  }
+
+  /**
+   * ルームにファイルをアップロード
+   */
+  async uploadFile(
+    roomId: string,
+    filename: string,
+    content: string | Buffer,
+    message: string
+  ): Promise<void> {
+    const type = filename.endsWith('.xlsx')
+      ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      : 'text/csv';
+
+    await this.requestWithRetry(() => {
+      const form = new FormData();
+      form.append('file', new Blob([content], { type }), filename);
+      form.append('message', message);
+
+      return this.client.post(`/rooms/${roomId}/files`, form);
+    });
+  }
+
+  /**
+   * 再試行できるエラーの場合は待ってから再送する（最後のエラーはそのまま投げる）
+   */
+  private async requestWithRetry<T>(send: () => Promise<AxiosResponse<T>>): Promise<AxiosResponse<T>> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await send();
+      } catch (error) {
+        const wait = this.getRetryWait(error, attempt);
+        if (wait === null || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+
+        console.warn(`Chatwork APIの送信に失敗しました。${wait}ms後に再試行します（${attempt}/${MAX_ATTEMPTS}回目）`);
+        await sleep(wait);
+      }
+    }
+  }
+
+  /**
+   * 再試行までの待ち時間（ミリ秒、再試行しないエラーの場合はnull）
+   */
+  private getRetryWait(error: unknown, attempt: number): number | null {
+    if (!axios.isAxiosError(error)) {
+      return null;
+    }
+
+    const backoff = INITIAL_BACKOFF_MS * 2 ** (attempt - 1);
+    const status = error.response?.status;
+
+    // レスポンスがない（ネットワークエラー・タイムアウト）場合とサーバーエラーは再試行する
+    if (status === undefined || status >= 500) {
+      return backoff;
+    }
+
+    if (status === 429) {
+      // x-ratelimit-reset は制限が解除されるUNIX時刻（秒）
+      const reset = Number(error.response?.headers['x-ratelimit-reset']);
+      const untilReset = Number.isFinite(reset) && reset > 0 ? reset * 1000 - Date.now() : 0;
+      const wait = Math.max(untilReset, backoff);
+
+      return wait <= MAX_RATE_LIMIT_WAIT_MS ? wait : null;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,107 @@
+import { Organization, PrismaClient, User, Vacation, WorkingBreak } from '@prisma/client';
+import DashboardService from './DashboardService';
+import WorkingSessionService, { WorkingSessionWithBreaks } from './WorkingSessionService';
+import VacationService from './VacationService';
+
+const organization = { id: 'org-1', name: '株式会社サンプル', timeZone: 'Asia/Tokyo' } as Organization;
+const taro = { id: 'user-1', name: '山田太郎', timeZone: null } as User;
+const hanako = { id: 'user-2', name: '佐藤花子', timeZone: null } as User;
+
+function createSession(
+  id: string,
+  user: User,
+  checkinAt: string,
+  checkoutAt: string | null,
+  breaks: [string, string | null][] = []
+): WorkingSessionWithBreaks & { user: User } {
+  return {
+    id,
+    userId: user.id,
+    organizationId: organization.id,
+    checkinAt: new Date(checkinAt),
+    checkoutAt: checkoutAt ? new Date(checkoutAt) : null,
+    breaks: breaks.map(
+      ([startAt, endAt]) =>
+        ({ startAt: new Date(startAt), endAt: endAt ? new Date(endAt) : null }) as WorkingBreak
+    ),
+    user,
+  } as WorkingSessionWithBreaks & { user: User };
+}
+
+describe('DashboardService', () => {
+  let service: DashboardService;
+  let getSessions: jest.SpyInstance;
+  let getVacations: jest.SpyInstance;
+  let getActiveSessions: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    getSessions = jest.spyOn(WorkingSessionService.prototype, 'getSessionsByDateRange').mockResolvedValue([]);
+    getVacations = jest.spyOn(VacationService.prototype, 'getVacationsByDateRange').mockResolvedValue([]);
+    getActiveSessions = jest.spyOn(WorkingSessionService.prototype, 'getAllActiveSessions').mockResolvedValue([]);
+
+    service = new DashboardService({} as PrismaClient);
+  });
+
+  it('今週（月曜日から）の稼働時間を稼働中のセッションも含めて集計する', async () => {
+    const activeSession = createSession('session-3', taro, '2026-10-21T00:00:00Z', null, [
+      ['2026-10-21T00:30:00Z', null],
+    ]);
+    getSessions.mockResolvedValue([
+      // 日曜日 22:00〜月曜日 02:00 JST（今週の分は2時間）
+      createSession('session-1', taro, '2026-10-18T13:00:00Z', '2026-10-18T17:00:00Z'),
+      // 火曜日 09:00〜18:00 JST（休憩1時間）
+      createSession('session-2', taro, '2026-10-20T00:00:00Z', '2026-10-20T09:00:00Z', [
+        ['2026-10-20T03:00:00Z', '2026-10-20T04:00:00Z'],
+      ]),
+      // 水曜日 09:00〜、09:30から休憩中
+      activeSession,
+    ]);
+
+    // 2026-10-21（水）10:00 JST
+    const dashboard = await service.getDashboard(taro, organization, new Date('2026-10-21T01:00:00Z'));
+
+    expect(dashboard.weekStart).toEqual(new Date('2026-10-19T00:00:00Z'));
+    expect(dashboard.weeklyHours).toBeCloseTo(10.5);
+    expect(dashboard.activeSession).toBe(activeSession);
+    expect(dashboard.onBreak).toBe(true);
+    expect(getSessions).toHaveBeenCalledWith(
+      'user-1',
+      'org-1',
+      new Date('2026-10-18T15:00:00Z'),
+      new Date('2026-10-25T15:00:00Z')
+    );
+    expect(getVacations).toHaveBeenCalledWith(
+      'user-1',
+      'org-1',
+      new Date('2026-10-21T00:00:00Z'),
+      new Date('2026-11-20T00:00:00Z')
+    );
+  });
+
+  it('ユーザーのタイムゾーンで週と今日を決める', async () => {
+    const user = { ...taro, timeZone: 'America/New_York' };
+
+    // 2026-10-19（月）12:00 JST は New York ではまだ 10/18（日）
+    const dashboard = await service.getDashboard(user, organization, new Date('2026-10-19T03:00:00Z'));
+
+    expect(dashboard.timeZone).toBe('America/New_York');
+    expect(dashboard.weekStart).toEqual(new Date('2026-10-12T00:00:00Z'));
+    expect(dashboard.activeSession).toBeNull();
+    expect(dashboard.onBreak).toBe(false);
+    expect(dashboard.weeklyHours).toBe(0);
+  });
+
+  it('稼働中のメンバーをチェックイン順に並べる', async () => {
+    getActiveSessions.mockResolvedValue([
+      createSession('session-5', hanako, '2026-10-21T00:30:00Z', null),
+      createSession('session-4', taro, '2026-10-20T23:45:00Z', null),
+    ]);
+    getVacations.mockResolvedValue([{ id: 'vacation-1' } as Vacation]);
+
+    const dashboard = await service.getDashboard(taro, organization, new Date('2026-10-21T01:00:00Z'));
+
+    expect(dashboard.workingNow.map((session) => session.id)).toEqual(['session-4', 'session-5']);
+    expect(dashboard.upcomingVacations).toEqual([{ id: 'vacation-1' }]);
+  });
+});
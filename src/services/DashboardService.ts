@@ -0,0 +1,93 @@
+import { Organization, PrismaClient, User, Vacation } from '@prisma/client';
+import WorkingSessionService, { WorkingSessionWithBreaks } from './WorkingSessionService';
+import VacationService from './VacationService';
+import { addDays, getZonedParts, resolveTimeZone, startOfDay, toCalendarDate } from '../utils/timezone';
+
+/** 表示する今後の休暇の期間（日） */
+const UPCOMING_VACATION_DAYS = 30;
+
+/**
+ * メンバー本人向けのダッシュボード（SlackのApp Homeなど）の内容
+ */
+export interface Dashboard {
+  user: User;
+  organization: Organization;
+  /** 表示に使うタイムゾーン（ユーザーの設定を優先） */
+  timeZone: string;
+  /** 未終了のセッション（チェックインしていない場合はnull） */
+  activeSession: WorkingSessionWithBreaks | null;
+  onBreak: boolean;
+  /** 今週（月曜日から）の日付 */
+  weekStart: Date;
+  /** 今週の休憩を除いた稼働時間（時間単位、稼働中のセッションは現在時刻まで） */
+  weeklyHours: number;
+  /** 今日以降の休暇（日付順） */
+  upcomingVacations: Vacation[];
+  /** 組織で現在稼働中のメンバーのセッション（チェックイン順） */
+  workingNow: (WorkingSessionWithBreaks & { user: User })[];
+}
+
+/**
+ * メンバー本人向けのダッシュボードのデータを集計するサービス
+ */
+export default class DashboardService {
+  private workingSessionService: WorkingSessionService;
+  private vacationService: VacationService;
+
+  constructor(prisma: PrismaClient) {
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.vacationService = new VacationService(prisma);
+  }
+
+  /**
+   * ユーザーの組織でのダッシュボードを取得する
+   */
+  async getDashboard(user: User, organization: Organization, now: Date = new Date()): Promise<Dashboard> {
+    const timeZone = resolveTimeZone(user, organization);
+
+    // 週は月曜日から数える
+    const today = toCalendarDate(now, timeZone);
+    const weekStart = addDays(today, -((getZonedParts(now, timeZone).weekday + 6) % 7));
+    const weekEnd = addDays(weekStart, 7);
+
+    const [sessions, upcomingVacations, workingNow] = await Promise.all([
+      this.workingSessionService.getSessionsByDateRange(
+        user.id,
+        organization.id,
+        startOfDay(weekStart, timeZone),
+        startOfDay(weekEnd, timeZone)
+      ),
+      this.vacationService.getVacationsByDateRange(
+        user.id,
+        organization.id,
+        today,
+        addDays(today, UPCOMING_VACATION_DAYS)
+      ),
+      this.workingSessionService.getAllActiveSessions(organization.id),
+    ]);
+
+    // 日付をまたぐセッションは今週の分のみ数える
+    let weeklyHours = 0;
+    for (const session of sessions) {
+      for (const segment of this.workingSessionService.splitByDay(session, timeZone, now)) {
+        if (segment.date >= weekStart && segment.date < weekEnd) {
+          weeklyHours += segment.workingHours;
+        }
+      }
+    }
+
+    const activeSession = sessions.find((session) => !session.checkoutAt) ?? null;
+
+    return {
+      user,
+      organization,
+      timeZone,
+      activeSession,
+      onBreak: activeSession?.breaks.some((workingBreak) => !workingBreak.endAt) ?? false,
+      weekStart,
+      weeklyHours,
+      upcomingVacations,
+      workingNow: workingNow.sort((a, b) => a.checkinAt.getTime() - b.checkinAt.getTime()),
+    };
+  }
+}
@@ -0,0 +1,248 @@
+import axios, { AxiosInstance } from 'axios';
+
+/**
+ * freeeのOAuthトークン
+ */
+export interface FreeeTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiryDate: Date;
+  /** 認可画面で選択した事業所のID */
+  companyId?: number;
+}
+
+/**
+ * freeeの事業所
+ */
+export interface FreeeCompany {
+  id: number;
+  name: string;
+}
+
+/**
+ * 人事労務freeeの従業員
+ */
+export interface FreeeEmployee {
+  id: number;
+  num: string | null;
+  display_name: string;
+  email: string | null;
+}
+
+/**
+ * 請求書の明細行
+ */
+export interface FreeeInvoiceLine {
+  description: string;
+  /** 数量（時間） */
+  quantity: number;
+  /** 単価（円） */
+  unitPrice: number;
+}
+
+/** 従業員一覧の1ページあたりの件数（freeeの上限） */
+const EMPLOYEES_PER_PAGE = 100;
+
+/**
+ * freeeのAPIのベースURL（モックサーバーで動作確認する場合は環境変数で変更する）
+ */
+function getApiBaseUrl(): string {
+  return process.env.FREEE_API_BASE_URL || 'https://api.freee.co.jp';
+}
+
+/**
+ * freeeの認可サーバーのベースURL
+ */
+function getAuthBaseUrl(): string {
+  return process.env.FREEE_AUTH_BASE_URL || 'https://accounts.secure.freee.co.jp';
+}
+
+/**
+ * freee API（人事労務freee・会計freee）のクライアント
+ */
+export default class FreeeApiService {
+  private client: AxiosInstance;
+
+  constructor(accessToken?: string) {
+    this.client = axios.create({
+      baseURL: getApiBaseUrl(),
+      headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : {},
+    });
+  }
+
+  /**
+   * OAuth2認証用のURLを生成（認可画面で連携する事業所を選択させる）
+   */
+  getAuthUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: process.env.FREEE_CLIENT_ID || '',
+      redirect_uri: process.env.FREEE_REDIRECT_URI || '',
+      response_type: 'code',
+      prompt: 'select_company',
+      state,
+    });
+
+    return `${getAuthBaseUrl()}/public_api/authorize?${params}`;
+  }
+
+  /**
+   * 認証コードからトークンを取得
+   */
+  async getToken(code: string): Promise<FreeeTokens> {
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: process.env.FREEE_REDIRECT_URI || '',
+    });
+  }
+
+  /**
+   * リフレッシュトークンでトークンを更新
+   */
+  async refreshToken(refreshToken: string): Promise<FreeeTokens> {
+    return this.requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+  }
+
+  /**
+   * ログインユーザーが所属する事業所の一覧を取得
+   */
+  async getCompanies(): Promise<FreeeCompany[]> {
+    const { data } = await this.request<{ companies: FreeeCompany[] }>('GET', '/hr/api/v1/users/me');
+    return data.companies;
+  }
+
+  /**
+   * 指定した月に在籍する従業員の一覧を取得
+   */
+  async getEmployees(companyId: number, year: number, month: number): Promise<FreeeEmployee[]> {
+    const employees: FreeeEmployee[] = [];
+
+    for (let offset = 0; ; offset += EMPLOYEES_PER_PAGE) {
+      const { data } = await this.request<{ employees: FreeeEmployee[]; total_count: number }>(
+        'GET',
+        '/hr/api/v1/employees',
+        { params: { company_id: companyId, year, month, limit: EMPLOYEES_PER_PAGE, offset } }
+      );
+      employees.push(...data.employees);
+
+      if (data.employees.length === 0 || employees.length >= data.total_count) {
+        return employees;
+      }
+    }
+  }
+
+  /**
+   * 従業員の月次の勤怠（勤怠サマリー）を更新
+   */
+  async updateWorkRecordSummary(
+    companyId: number,
+    employeeId: number,
+    year: number,
+    month: number,
+    summary: { workDays: number; workMinutes: number }
+  ): Promise<void> {
+    await this.request('PUT', `/hr/api/v1/employees/${employeeId}/work_record_summaries/${year}/${month}`, {
+      data: {
+        company_id: companyId,
+        work_days: summary.workDays,
+        total_normal_work_mins: summary.workMinutes,
+      },
+    });
+  }
+
+  /**
+   * 請求書を下書きとして作成し、請求書IDを返す
+   */
+  async createInvoice(
+    companyId: number,
+    partnerId: number,
+    issueDate: string,
+    title: string,
+    lines: FreeeInvoiceLine[]
+  ): Promise<number> {
+    const { data } = await this.request<{ invoice: { id: number } }>('POST', '/api/1/invoices', {
+      data: {
+        company_id: companyId,
+        partner_id: partnerId,
+        issue_date: issueDate,
+        title,
+        invoice_status: 'draft',
+        invoice_contents: lines.map((line, index) => ({
+          order: index,
+          type: 'normal',
+          description: line.description,
+          qty: line.quantity,
+          unit: '時間',
+          unit_price: line.unitPrice,
+        })),
+      },
+    });
+
+    return data.invoice.id;
+  }
+
+  /**
+   * トークンエンドポイントへのリクエスト
+   */
+  private async requestToken(params: Record<string, string>): Promise<FreeeTokens> {
+    const body = new URLSearchParams({
+      ...params,
+      client_id: process.env.FREEE_CLIENT_ID || '',
+      client_secret: process.env.FREEE_CLIENT_SECRET || '',
+    });
+
+    const { data } = await this.request<{
+      access_token: string;
+      refresh_token: string;
+      expires_in: number;
+      company_id?: number;
+    }>('POST', `${getAuthBaseUrl()}/public_api/token`, { data: body });
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiryDate: new Date(Date.now() + data.expires_in * 1000),
+      companyId: data.company_id ?? undefined,
+    };
+  }
+
+  /**
+   * APIリクエスト（エラー時はfreeeのエラーメッセージを含むErrorを投げる）
+   */
+  private async request<T = unknown>(
+    method: 'GET' | 'POST' | 'PUT',
+    url: string,
+    options: { params?: Record<string, unknown>; data?: unknown } = {}
+  ): Promise<{ data: T }> {
+    try {
+      return await this.client.request<T>({ method, url, ...options });
+    } catch (error) {
+      if (!axios.isAxiosError(error)) {
+        throw error;
+      }
+
+      throw new Error(`freee APIエラー: ${this.getErrorMessage(error.response?.data) ?? error.message}`);
+    }
+  }
+
+  /**
+   * freeeのエラーレスポンスからメッセージを取り出す
+   */
+  private getErrorMessage(data: unknown): string | null {
+    if (!data || typeof data !== 'object') {
+      return null;
+    }
+
+    const body = data as {
+      message?: string;
+      error_description?: string;
+      errors?: { messages?: string[] }[];
+    };
+    const messages = body.errors?.flatMap((error) => error.messages ?? []) ?? [];
+    if (messages.length > 0) {
+      return messages.join(' / ');
+    }
+
+    return body.message ?? body.error_description ?? null;
+  }
+}
@@ -0,0 +1,127 @@
+import { FreeeCredential, Organization, PrismaClient } from '@prisma/client';
+import FreeeApiService, { FreeeTokens } from './FreeeApiService';
+import { createSignedToken, decrypt, encrypt, verifySignedToken } from '../utils/crypto';
+
+/** 連携開始リンクの有効期限（秒） */
+const CONNECT_LINK_EXPIRES_IN = 10 * 60;
+
+/** 期限切れ直前のアクセストークンを使わないよう、この時間より前に更新する（ミリ秒） */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * freee APIのクライアントと連携先の事業所
+ */
+export interface FreeeConnection {
+  api: FreeeApiService;
+  credential: FreeeCredential;
+}
+
+/**
+ * 組織ごとのfreee OAuthトークンを管理するサービス
+ */
+export default class FreeeCredentialService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * freee連携を開始するURLを作成する
+   */
+  createConnectUrl(organizationId: string): string {
+    const state = createSignedToken({ organizationId }, CONNECT_LINK_EXPIRES_IN);
+    const baseUrl = process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+    return `${baseUrl}/oauth/freee/start?state=${encodeURIComponent(state)}`;
+  }
+
+  /**
+   * 連携開始リンクのstateを検証してfreeeの認可URLを返す
+   */
+  getAuthUrl(state: string): string {
+    if (!verifySignedToken<{ organizationId: string }>(state)) {
+      throw new Error('連携リンクが無効か期限切れです。もう一度リンクを発行してください。');
+    }
+
+    return new FreeeApiService().getAuthUrl(state);
+  }
+
+  /**
+   * 認可コードをトークンに交換し、連携する事業所とともに組織に保存する
+   */
+  async handleCallback(code: string, state: string): Promise<Organization> {
+    const payload = verifySignedToken<{ organizationId: string }>(state);
+    if (!payload) {
+      throw new Error('連携リンクが無効か期限切れです。もう一度リンクを発行してください。');
+    }
+
+    const tokens = await new FreeeApiService().getToken(code);
+
+    // 認可画面で選択した事業所を使う（取得できない場合は最初の事業所）
+    const companies = await new FreeeApiService(tokens.accessToken).getCompanies();
+    const company = companies.find((item) => item.id === tokens.companyId) ?? companies[0];
+    if (!company) {
+      throw new Error('連携できるfreeeの事業所が見つかりませんでした。');
+    }
+
+    const data = {
+      ...this.encryptTokens(tokens),
+      companyId: company.id,
+      companyName: company.name,
+    };
+    await this.prisma.freeeCredential.upsert({
+      where: { organizationId: payload.organizationId },
+      create: { organizationId: payload.organizationId, ...data },
+      update: data,
+    });
+
+    return this.prisma.organization.findUniqueOrThrow({
+      where: { id: payload.organizationId },
+    });
+  }
+
+  /**
+   * 組織のトークンでAPIクライアントを作成する（未連携の場合はnull）
+   *
+   * アクセストークンの期限が近い場合は更新して保存する。
+   */
+  async getConnection(organizationId: string): Promise<FreeeConnection | null> {
+    let credential = await this.prisma.freeeCredential.findUnique({
+      where: { organizationId },
+    });
+    if (!credential) {
+      return null;
+    }
+
+    if (credential.expiryDate.getTime() - Date.now() < REFRESH_MARGIN_MS) {
+      const tokens = await new FreeeApiService().refreshToken(decrypt(credential.refreshToken));
+      credential = await this.prisma.freeeCredential.update({
+        where: { organizationId },
+        data: this.encryptTokens(tokens),
+      });
+    }
+
+    return { api: new FreeeApiService(decrypt(credential.accessToken)), credential };
+  }
+
+  /**
+   * 連携を解除する
+   */
+  async disconnect(organizationId: string): Promise<void> {
+    await this.prisma.freeeCredential.deleteMany({
+      where: { organizationId },
+    });
+  }
+
+  /**
+   * 保存するトークンを暗号化する
+   */
+  private encryptTokens(tokens: FreeeTokens) {
+    return {
+      accessToken: encrypt(tokens.accessToken),
+      refreshToken: encrypt(tokens.refreshToken),
+      expiryDate: tokens.expiryDate,
+    };
+  }
+}
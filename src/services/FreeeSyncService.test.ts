@@ -0,0 +1,386 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Membership, MembershipStatus, Organization, PrismaClient, User } from '@prisma/client';
+import FreeeSyncService from './FreeeSyncService';
+import OrganizationService from './OrganizationService';
+import PermissionService from './PermissionService';
+import WorkingSessionService from './WorkingSessionService';
+import SessionCorrectionService from './SessionCorrectionService';
+import { decrypt, encrypt } from '../utils/crypto';
+
+/**
+ * スタブサーバーが受け取ったリクエスト
+ */
+interface RecordedRequest {
+  method: string;
+  path: string;
+  authorization?: string;
+  body: string;
+}
+
+type StubResponse = { status: number; body: unknown };
+
+const organization = {
+  id: 'org-1',
+  name: '株式会社サンプル',
+  timeZone: 'Asia/Tokyo',
+} as unknown as Organization;
+
+const member = {
+  id: 'user-1',
+  name: '山田太郎',
+  email: 'taro@example.com',
+  timeZone: null,
+} as unknown as User;
+
+const hanako = {
+  id: 'user-2',
+  name: '佐藤花子',
+  email: 'Hanako@Example.com',
+  timeZone: null,
+} as unknown as User;
+
+/** 締まった月 */
+const YEAR = 2025;
+const MONTH = 9;
+
+describe('FreeeSyncService', () => {
+  let server: http.Server;
+  let requests: RecordedRequest[];
+  let respond: (request: RecordedRequest) => StubResponse;
+  let prisma: {
+    freeeCredential: { findUnique: jest.Mock; update: jest.Mock };
+    freeeMemberSetting: { findMany: jest.Mock; upsert: jest.Mock };
+    freeeInvoice: { findUnique: jest.Mock; create: jest.Mock };
+  };
+  let service: FreeeSyncService;
+  let hasPendingCorrections: jest.SpyInstance;
+  let getMembership: jest.SpyInstance;
+
+  beforeAll(async () => {
+    // freeeのAPI・認可サーバーの代わりに、リクエストを記録して決めたレスポンスを返す
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const request = {
+          method: req.method ?? '',
+          path: req.url ?? '',
+          authorization: req.headers.authorization,
+          body,
+        };
+        requests.push(request);
+
+        const { status, body: responseBody } = respond(request);
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(responseBody));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const { port } = server.address() as AddressInfo;
+    process.env.FREEE_API_BASE_URL = `http://127.0.0.1:${port}`;
+    process.env.FREEE_AUTH_BASE_URL = `http://127.0.0.1:${port}`;
+    process.env.FREEE_CLIENT_ID = 'client-id';
+    process.env.FREEE_CLIENT_SECRET = 'client-secret';
+    process.env.TOKEN_ENCRYPTION_KEY = Buffer.alloc(32, 1).toString('base64');
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    requests = [];
+    respond = () => ({ status: 200, body: {} });
+
+    prisma = {
+      freeeCredential: {
+        findUnique: jest.fn().mockResolvedValue({
+          organizationId: organization.id,
+          accessToken: encrypt('access-token'),
+          refreshToken: encrypt('refresh-token'),
+          expiryDate: new Date(Date.now() + 60 * 60 * 1000),
+          companyId: 101,
+        }),
+        update: jest.fn(),
+      },
+      freeeMemberSetting: {
+        findMany: jest.fn().mockResolvedValue([
+          { userId: member.id, employeeId: 501, partnerId: 701, hourlyRate: 5000, user: member },
+        ]),
+        upsert: jest.fn(async ({ create }) => create),
+      },
+      freeeInvoice: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        create: jest.fn(),
+      },
+    };
+
+    jest.spyOn(PermissionService.prototype, 'authorize').mockResolvedValue(undefined as never);
+    jest.spyOn(OrganizationService.prototype, 'getActiveOrganizationMembers').mockResolvedValue([
+      { userId: member.id, user: member },
+      { userId: hanako.id, user: hanako },
+    ] as (Membership & { user: User })[]);
+    getMembership = jest
+      .spyOn(OrganizationService.prototype, 'getMembership')
+      .mockResolvedValue({ userId: hanako.id, status: MembershipStatus.ACTIVE } as Membership);
+    jest.spyOn(WorkingSessionService.prototype, 'getMonthlyReport').mockResolvedValue({
+      totalWorkingHours: 150.5,
+      sessions: [],
+      dailyWorkingHours: [
+        { date: new Date('2025-09-01'), hours: 8 },
+        { date: new Date('2025-09-02'), hours: 0 },
+        { date: new Date('2025-09-03'), hours: 7.5 },
+      ],
+      openSessions: [],
+      autoClosedSessions: [],
+    });
+    hasPendingCorrections = jest
+      .spyOn(SessionCorrectionService.prototype, 'hasPendingCorrections')
+      .mockResolvedValue(false);
+
+    service = new FreeeSyncService(prisma as unknown as PrismaClient);
+  });
+
+  describe('mapEmployeesByEmail', () => {
+    it('従業員IDが未設定のメンバーをメールアドレス（大文字・小文字を区別しない）で対応付ける', async () => {
+      respond = () => ({
+        status: 200,
+        body: {
+          employees: [
+            { id: 502, num: null, display_name: '山田 太郎', email: 'taro@example.com' },
+            { id: 503, num: null, display_name: '佐藤 花子', email: 'hanako@example.com' },
+          ],
+          total_count: 2,
+        },
+      });
+      prisma.freeeMemberSetting.findMany.mockResolvedValue([
+        { userId: member.id, employeeId: 501, partnerId: null, hourlyRate: null },
+      ]);
+
+      const statuses = await service.mapEmployeesByEmail(organization, 'admin-1');
+
+      expect(requests[0]).toMatchObject({ method: 'GET', authorization: 'Bearer access-token' });
+      expect(requests[0].path).toMatch(/^\/hr\/api\/v1\/employees\?company_id=101&/);
+      expect(prisma.freeeMemberSetting.upsert).toHaveBeenCalledTimes(1);
+      expect(prisma.freeeMemberSetting.upsert).toHaveBeenCalledWith({
+        where: { organizationId_userId: { organizationId: organization.id, userId: hanako.id } },
+        create: { organizationId: organization.id, userId: hanako.id, employeeId: 503 },
+        update: { employeeId: 503 },
+      });
+      expect(statuses.map(({ user }) => user.id)).toEqual([member.id, hanako.id]);
+    });
+
+    it('freeeと連携していない場合はエラーにする', async () => {
+      prisma.freeeCredential.findUnique.mockResolvedValue(null);
+
+      await expect(service.mapEmployeesByEmail(organization, 'admin-1')).rejects.toThrow(
+        'freeeと連携していません。先に freee connect で連携してください。'
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('setEmployeeId / setBilling', () => {
+    it('メンバーの従業員ID・請求設定を保存する', async () => {
+      await service.setEmployeeId(organization.id, 'admin-1', hanako.id, 503);
+      await service.setBilling(organization.id, 'admin-1', hanako.id, { partnerId: 702, hourlyRate: 4000 });
+      await service.setBilling(organization.id, 'admin-1', hanako.id, null);
+
+      expect(prisma.freeeMemberSetting.upsert.mock.calls.map(([args]) => args.update)).toEqual([
+        { employeeId: 503 },
+        { partnerId: 702, hourlyRate: 4000 },
+        { partnerId: null, hourlyRate: null },
+      ]);
+    });
+
+    it('単価が1円以上の整数でない場合は保存しない', async () => {
+      for (const hourlyRate of [0, -1000, 4500.5]) {
+        await expect(
+          service.setBilling(organization.id, 'admin-1', hanako.id, { partnerId: 702, hourlyRate })
+        ).rejects.toThrow('単価は1円以上の整数で指定してください。');
+      }
+      expect(prisma.freeeMemberSetting.upsert).not.toHaveBeenCalled();
+    });
+
+    it('退会済み・組織外のユーザーは設定できない', async () => {
+      getMembership.mockResolvedValueOnce({ userId: hanako.id, status: MembershipStatus.LEFT } as Membership);
+      await expect(service.setEmployeeId(organization.id, 'admin-1', hanako.id, 503)).rejects.toThrow(
+        '指定したユーザーは組織のメンバーではありません。'
+      );
+
+      getMembership.mockResolvedValueOnce(null);
+      await expect(service.setEmployeeId(organization.id, 'admin-1', 'user-9', 503)).rejects.toThrow(
+        '指定したユーザーは組織のメンバーではありません。'
+      );
+      expect(prisma.freeeMemberSetting.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pushAttendance', () => {
+    it('確定した稼働を勤怠サマリーとして送信する', async () => {
+      const results = await service.pushAttendance(organization, 'admin-1', YEAR, MONTH);
+
+      expect(results).toEqual([
+        expect.objectContaining({ employeeId: 501, workDays: 2, workMinutes: 9030, status: 'sent' }),
+      ]);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({
+        method: 'PUT',
+        path: '/hr/api/v1/employees/501/work_record_summaries/2025/9',
+        authorization: 'Bearer access-token',
+      });
+      expect(JSON.parse(requests[0].body)).toEqual({
+        company_id: 101,
+        work_days: 2,
+        total_normal_work_mins: 9030,
+      });
+    });
+
+    it('アクセストークンの期限が近い場合は更新してから送信する', async () => {
+      prisma.freeeCredential.findUnique.mockResolvedValue({
+        organizationId: organization.id,
+        accessToken: encrypt('expired-token'),
+        refreshToken: encrypt('refresh-token'),
+        expiryDate: new Date(Date.now() + 30 * 1000),
+        companyId: 101,
+      });
+      prisma.freeeCredential.update.mockImplementation(async ({ data }) => ({ companyId: 101, ...data }));
+      respond = (request) =>
+        request.path === '/public_api/token'
+          ? {
+              status: 200,
+              body: { access_token: 'new-access-token', refresh_token: 'new-refresh-token', expires_in: 21600 },
+            }
+          : { status: 200, body: {} };
+
+      await service.pushAttendance(organization, 'admin-1', YEAR, MONTH);
+
+      const tokenRequest = new URLSearchParams(requests[0].body);
+      expect(requests[0]).toMatchObject({ method: 'POST', path: '/public_api/token' });
+      expect(tokenRequest.get('grant_type')).toBe('refresh_token');
+      expect(tokenRequest.get('refresh_token')).toBe('refresh-token');
+      expect(tokenRequest.get('client_secret')).toBe('client-secret');
+
+      // 更新したトークンは暗号化して保存する
+      const { data } = prisma.freeeCredential.update.mock.calls[0][0];
+      expect(decrypt(data.accessToken)).toBe('new-access-token');
+      expect(decrypt(data.refreshToken)).toBe('new-refresh-token');
+
+      expect(requests[1].authorization).toBe('Bearer new-access-token');
+    });
+
+    it('トークンの更新に失敗した場合は認可サーバーのエラーを返す', async () => {
+      prisma.freeeCredential.findUnique.mockResolvedValue({
+        organizationId: organization.id,
+        accessToken: encrypt('expired-token'),
+        refreshToken: encrypt('revoked-token'),
+        expiryDate: new Date(Date.now() - 1000),
+        companyId: 101,
+      });
+      respond = () => ({
+        status: 401,
+        body: { error: 'invalid_grant', error_description: 'refresh token is invalid' },
+      });
+
+      await expect(service.pushAttendance(organization, 'admin-1', YEAR, MONTH)).rejects.toThrow(
+        'freee APIエラー: refresh token is invalid'
+      );
+      expect(prisma.freeeCredential.update).not.toHaveBeenCalled();
+    });
+
+    it('freeeのエラーはメンバーごとの失敗として返す', async () => {
+      respond = () => ({
+        status: 400,
+        body: {
+          status_code: 400,
+          errors: [{ type: 'validation', messages: ['従業員が見つかりません', '年月が不正です'] }],
+        },
+      });
+
+      const results = await service.pushAttendance(organization, 'admin-1', YEAR, MONTH);
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          status: 'failed',
+          reason: 'freee APIエラー: 従業員が見つかりません / 年月が不正です',
+        }),
+      ]);
+    });
+
+    it('承認待ちの修正申請があるメンバーは送信しない', async () => {
+      hasPendingCorrections.mockResolvedValue(true);
+
+      const results = await service.pushAttendance(organization, 'admin-1', YEAR, MONTH);
+
+      expect(results).toEqual([
+        expect.objectContaining({ status: 'skipped', reason: '承認待ちの修正申請があります' }),
+      ]);
+      expect(requests).toHaveLength(0);
+    });
+
+    it('締まっていない月は送信しない', async () => {
+      const now = new Date();
+
+      await expect(
+        service.pushAttendance(organization, 'admin-1', now.getFullYear() + 1, 1)
+      ).rejects.toThrow('まだ締まっていないため');
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('createInvoices', () => {
+    it('取引先ごとに請求書の下書きを作成して記録する', async () => {
+      respond = () => ({ status: 201, body: { invoice: { id: 9001 } } });
+
+      const results = await service.createInvoices(organization, 'admin-1', YEAR, MONTH);
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          partnerId: 701,
+          invoiceId: 9001,
+          status: 'sent',
+          lines: [{ user: member, hours: 150.5, hourlyRate: 5000, amount: 752500 }],
+        }),
+      ]);
+      expect(requests[0]).toMatchObject({ method: 'POST', path: '/api/1/invoices' });
+      expect(JSON.parse(requests[0].body)).toMatchObject({
+        company_id: 101,
+        partner_id: 701,
+        invoice_status: 'draft',
+        invoice_contents: [{ description: '2025年9月 稼働（山田太郎）', qty: 150.5, unit_price: 5000 }],
+      });
+      expect(prisma.freeeInvoice.create).toHaveBeenCalledWith({
+        data: { organizationId: organization.id, partnerId: 701, year: YEAR, month: MONTH, invoiceId: 9001 },
+      });
+    });
+
+    it('作成済みの月・取引先は再作成しない', async () => {
+      prisma.freeeInvoice.findUnique.mockResolvedValue({ invoiceId: 9001 });
+
+      const results = await service.createInvoices(organization, 'admin-1', YEAR, MONTH);
+
+      expect(results).toEqual([
+        expect.objectContaining({ status: 'skipped', reason: '作成済みです（請求書ID: 9001）' }),
+      ]);
+      expect(requests).toHaveLength(0);
+    });
+
+    it('freeeのエラーでは作成済みとして記録しない', async () => {
+      respond = () => ({ status: 403, body: { message: '請求書を作成する権限がありません' } });
+
+      const results = await service.createInvoices(organization, 'admin-1', YEAR, MONTH);
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          status: 'failed',
+          reason: 'freee APIエラー: 請求書を作成する権限がありません',
+        }),
+      ]);
+      expect(prisma.freeeInvoice.create).not.toHaveBeenCalled();
+    });
+  });
+});
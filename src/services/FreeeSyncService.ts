@@ -0,0 +1,415 @@
+import {
+  FreeeMemberSetting,
+  MembershipStatus,
+  Organization,
+  PrismaClient,
+  User,
+} from '@prisma/client';
+import FreeeCredentialService, { FreeeConnection } from './FreeeCredentialService';
+import WorkingSessionService from './WorkingSessionService';
+import SessionCorrectionService from './SessionCorrectionService';
+import OrganizationService from './OrganizationService';
+import PermissionService from './PermissionService';
+import {
+  formatDate,
+  getMonthRange,
+  getZonedParts,
+  resolveTimeZone,
+  toCalendarDate,
+} from '../utils/timezone';
+
+/**
+ * メンバーとfreeeの連携設定
+ */
+export interface FreeeMemberStatus {
+  user: User;
+  setting: FreeeMemberSetting | null;
+}
+
+/**
+ * 業務委託メンバーの請求設定
+ */
+export interface FreeeBilling {
+  partnerId: number;
+  /** 単価（円/時間） */
+  hourlyRate: number;
+}
+
+/**
+ * freeeへの送信結果（sent: 送信済み、skipped: 確定していないため送信しなかった、failed: freeeのエラー）
+ */
+export type FreeeSyncStatus = 'sent' | 'skipped' | 'failed';
+
+/**
+ * メンバー1人分の勤怠の送信結果
+ */
+export interface FreeeAttendanceResult {
+  user: User;
+  employeeId: number;
+  workDays: number;
+  workMinutes: number;
+  status: FreeeSyncStatus;
+  reason?: string;
+}
+
+/**
+ * 取引先1件分の請求書の作成結果
+ */
+export interface FreeeInvoiceResult {
+  partnerId: number;
+  lines: { user: User; hours: number; hourlyRate: number; amount: number }[];
+  invoiceId?: number;
+  status: FreeeSyncStatus;
+  reason?: string;
+}
+
+/**
+ * メンバーの確定した月次の稼働
+ */
+interface MonthlyTotal {
+  workDays: number;
+  hours: number;
+  /** 確定していない理由（確定している場合はnull） */
+  pendingReason: string | null;
+}
+
+/**
+ * 稼働データをfreeeに送信するサービス
+ *
+ * 締まった月の稼働のみを送信する。未終了のセッション・確認が必要なセッション・承認待ちの修正申請がある
+ * メンバーは、稼働時間が確定していないため送信しない。
+ */
+export default class FreeeSyncService {
+  private prisma: PrismaClient;
+  private freeeCredentialService: FreeeCredentialService;
+  private workingSessionService: WorkingSessionService;
+  private sessionCorrectionService: SessionCorrectionService;
+  private organizationService: OrganizationService;
+  private permissionService: PermissionService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.freeeCredentialService = new FreeeCredentialService(prisma);
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.sessionCorrectionService = new SessionCorrectionService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.permissionService = new PermissionService(prisma);
+  }
+
+  /**
+   * アクティブメンバーの連携設定の一覧を取得する
+   */
+  async getMemberStatuses(organizationId: string, actorId: string): Promise<FreeeMemberStatus[]> {
+    await this.permissionService.authorize(actorId, organizationId, 'organization:update');
+
+    const [memberships, settings] = await Promise.all([
+      this.organizationService.getActiveOrganizationMembers(organizationId),
+      this.prisma.freeeMemberSetting.findMany({ where: { organizationId } }),
+    ]);
+
+    return memberships.map(({ user }) => ({
+      user,
+      setting: settings.find((setting) => setting.userId === user.id) ?? null,
+    }));
+  }
+
+  /**
+   * 従業員IDが未設定のアクティブメンバーを、メールアドレスが一致するfreeeの従業員に対応付ける
+   */
+  async mapEmployeesByEmail(
+    organization: Organization,
+    actorId: string
+  ): Promise<FreeeMemberStatus[]> {
+    const organizationId = organization.id;
+    const statuses = await this.getMemberStatuses(organizationId, actorId);
+    const { api, credential } = await this.getConnection(organizationId);
+
+    const { year, month } = getZonedParts(new Date(), organization.timeZone);
+    const employees = await api.getEmployees(credential.companyId, year, month);
+
+    for (const { user, setting } of statuses) {
+      if (setting?.employeeId) continue;
+
+      const employee = employees.find(
+        (item) => item.email?.toLowerCase() === user.email.toLowerCase()
+      );
+      if (employee) {
+        await this.saveSetting(organizationId, user.id, { employeeId: employee.id });
+      }
+    }
+
+    return this.getMemberStatuses(organizationId, actorId);
+  }
+
+  /**
+   * メンバーのfreeeの従業員IDを設定する（nullの場合は勤怠を送信しない）
+   */
+  async setEmployeeId(
+    organizationId: string,
+    actorId: string,
+    userId: string,
+    employeeId: number | null
+  ): Promise<FreeeMemberSetting> {
+    await this.permissionService.authorize(actorId, organizationId, 'organization:update');
+    await this.assertMember(organizationId, userId);
+
+    return this.saveSetting(organizationId, userId, { employeeId });
+  }
+
+  /**
+   * 業務委託メンバーの請求設定を変更する（nullの場合は請求書を作成しない）
+   */
+  async setBilling(
+    organizationId: string,
+    actorId: string,
+    userId: string,
+    billing: FreeeBilling | null
+  ): Promise<FreeeMemberSetting> {
+    await this.permissionService.authorize(actorId, organizationId, 'organization:update');
+    await this.assertMember(organizationId, userId);
+
+    if (billing && (!Number.isInteger(billing.hourlyRate) || billing.hourlyRate <= 0)) {
+      throw new Error('単価は1円以上の整数で指定してください。');
+    }
+
+    return this.saveSetting(organizationId, userId, {
+      partnerId: billing?.partnerId ?? null,
+      hourlyRate: billing?.hourlyRate ?? null,
+    });
+  }
+
+  /**
+   * 締まった月の稼働日数・実働時間を人事労務freeeの勤怠サマリーとして送信する
+   *
+   * 送信済みの月も上書きで再送信できる。
+   */
+  async pushAttendance(
+    organization: Organization,
+    actorId: string,
+    year: number,
+    month: number
+  ): Promise<FreeeAttendanceResult[]> {
+    await this.permissionService.authorize(actorId, organization.id, 'organization:update');
+    this.assertClosedMonth(organization, year, month);
+    const { api, credential } = await this.getConnection(organization.id);
+
+    const settings = await this.prisma.freeeMemberSetting.findMany({
+      where: { organizationId: organization.id, employeeId: { not: null } },
+      include: { user: true },
+    });
+
+    const results: FreeeAttendanceResult[] = [];
+    for (const setting of settings) {
+      const employeeId = setting.employeeId as number;
+      const total = await this.getMonthlyTotal(setting.user, organization, year, month);
+      const result: FreeeAttendanceResult = {
+        user: setting.user,
+        employeeId,
+        workDays: total.workDays,
+        workMinutes: Math.round(total.hours * 60),
+        status: 'sent',
+      };
+
+      if (total.pendingReason) {
+        results.push({ ...result, status: 'skipped', reason: total.pendingReason });
+        continue;
+      }
+
+      try {
+        await api.updateWorkRecordSummary(credential.companyId, employeeId, year, month, result);
+      } catch (error) {
+        console.error('freee勤怠送信エラー:', error);
+        result.status = 'failed';
+        result.reason = error instanceof Error ? error.message : '不明なエラー';
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * 締まった月の業務委託メンバーの稼働を、取引先ごとに会計freeeの請求書（下書き）にする
+   *
+   * 同じ月・取引先の請求書は一度だけ作成する。
+   */
+  async createInvoices(
+    organization: Organization,
+    actorId: string,
+    year: number,
+    month: number
+  ): Promise<FreeeInvoiceResult[]> {
+    await this.permissionService.authorize(actorId, organization.id, 'organization:update');
+    this.assertClosedMonth(organization, year, month);
+    const { api, credential } = await this.getConnection(organization.id);
+
+    const settings = await this.prisma.freeeMemberSetting.findMany({
+      where: {
+        organizationId: organization.id,
+        partnerId: { not: null },
+        hourlyRate: { not: null },
+      },
+      include: { user: true },
+    });
+    const partnerIds = Array.from(new Set(settings.map((setting) => setting.partnerId as number)));
+
+    const results: FreeeInvoiceResult[] = [];
+    for (const partnerId of partnerIds) {
+      const result: FreeeInvoiceResult = { partnerId, lines: [], status: 'sent' };
+      results.push(result);
+
+      const existing = await this.prisma.freeeInvoice.findUnique({
+        where: {
+          organizationId_partnerId_year_month: {
+            organizationId: organization.id,
+            partnerId,
+            year,
+            month,
+          },
+        },
+      });
+      if (existing) {
+        result.status = 'skipped';
+        result.reason = `作成済みです（請求書ID: ${existing.invoiceId}）`;
+        continue;
+      }
+
+      for (const setting of settings.filter((item) => item.partnerId === partnerId)) {
+        const total = await this.getMonthlyTotal(setting.user, organization, year, month);
+        if (total.pendingReason) {
+          result.status = 'skipped';
+          result.reason = `${setting.user.name}さん: ${total.pendingReason}`;
+          break;
+        }
+
+        const hours = Math.round(total.hours * 100) / 100;
+        if (hours > 0) {
+          const hourlyRate = setting.hourlyRate as number;
+          result.lines.push({ user: setting.user, hours, hourlyRate, amount: Math.round(hours * hourlyRate) });
+        }
+      }
+      if (result.status === 'skipped') continue;
+
+      if (result.lines.length === 0) {
+        result.status = 'skipped';
+        result.reason = '稼働がありません';
+        continue;
+      }
+
+      try {
+        result.invoiceId = await api.createInvoice(
+          credential.companyId,
+          partnerId,
+          formatDate(toCalendarDate(new Date(), organization.timeZone)),
+          `${year}年${month}月 稼働分`,
+          result.lines.map((line) => ({
+            description: `${year}年${month}月 稼働（${line.user.name}）`,
+            quantity: line.hours,
+            unitPrice: line.hourlyRate,
+          }))
+        );
+        await this.prisma.freeeInvoice.create({
+          data: { organizationId: organization.id, partnerId, year, month, invoiceId: result.invoiceId },
+        });
+      } catch (error) {
+        console.error('freee請求書作成エラー:', error);
+        result.status = 'failed';
+        result.reason = error instanceof Error ? error.message : '不明なエラー';
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * 組織のfreee連携を取得する（未連携の場合はエラー）
+   */
+  private async getConnection(organizationId: string): Promise<FreeeConnection> {
+    const connection = await this.freeeCredentialService.getConnection(organizationId);
+    if (!connection) {
+      throw new Error('freeeと連携していません。先に freee connect で連携してください。');
+    }
+
+    return connection;
+  }
+
+  /**
+   * 締まった月（組織のタイムゾーンで今月より前）であることを確認する
+   */
+  private assertClosedMonth(organization: Organization, year: number, month: number): void {
+    const now = getZonedParts(new Date(), organization.timeZone);
+    if (year * 12 + month >= now.year * 12 + now.month) {
+      throw new Error(`${year}年${month}月はまだ締まっていないため、freeeに送信できません。`);
+    }
+  }
+
+  /**
+   * メンバーの月次の稼働日数・実働時間を集計し、確定しているか確認する（メンバーのタイムゾーンで集計）
+   */
+  private async getMonthlyTotal(
+    user: User,
+    organization: Organization,
+    year: number,
+    month: number
+  ): Promise<MonthlyTotal> {
+    const timeZone = resolveTimeZone(user, organization);
+    const { totalWorkingHours, sessions, dailyWorkingHours, openSessions } =
+      await this.workingSessionService.getMonthlyReport(
+        user.id,
+        organization.id,
+        year,
+        month,
+        timeZone
+      );
+
+    const total = {
+      workDays: dailyWorkingHours.filter((daily) => daily.hours > 0).length,
+      hours: totalWorkingHours,
+    };
+
+    if (openSessions.length > 0) {
+      return { ...total, pendingReason: 'チェックアウトしていないセッションがあります' };
+    }
+    if (sessions.some((session) => session.needsReview)) {
+      return { ...total, pendingReason: '終了時刻の確認が必要なセッションがあります' };
+    }
+
+    const { start, end } = getMonthRange(year, month, timeZone);
+    const hasPendingCorrections = await this.sessionCorrectionService.hasPendingCorrections(
+      user.id,
+      organization.id,
+      start,
+      end
+    );
+    if (hasPendingCorrections) {
+      return { ...total, pendingReason: '承認待ちの修正申請があります' };
+    }
+
+    return { ...total, pendingReason: null };
+  }
+
+  /**
+   * 組織のメンバー（退会済みを除く）であることを確認する
+   */
+  private async assertMember(organizationId: string, userId: string): Promise<void> {
+    const membership = await this.organizationService.getMembership(organizationId, userId);
+    if (!membership || membership.status === MembershipStatus.LEFT) {
+      throw new Error('指定したユーザーは組織のメンバーではありません。');
+    }
+  }
+
+  /**
+   * メンバーの連携設定を保存する
+   */
+  private async saveSetting(
+    organizationId: string,
+    userId: string,
+    data: Partial<Pick<FreeeMemberSetting, 'employeeId' | 'partnerId' | 'hourlyRate'>>
+  ): Promise<FreeeMemberSetting> {
+    return this.prisma.freeeMemberSetting.upsert({
+      where: { organizationId_userId: { organizationId, userId } },
+      create: { organizationId, userId, ...data },
+      update: data,
+    });
+  }
+}
@@ -1,5 +1,14 @@
 import { google, calendar_v3 } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
+import { Credentials, OAuth2Client } from 'google-auth-library';
+import { DEFAULT_TIME_ZONE, formatDate } from '../utils/timezone';
+
+/**
+ * 予定が存在しない（404）・削除済み（410）ことを示すエラーか
+ */
+function isEventGoneError(error: unknown): boolean {
+  const status = (error as { response?: { status?: number } } | null)?.response?.status;
+  return status === 404 || status === 410;
+}
 
 /**
  * Googleカレンダー連携サービス
@@ -8,7 +17,7 @@ export default class GoogleCalendarService {
   private oauth2Client: OAuth2Client;
   private calendar: calendar_v3.Calendar;
 
-  constructor() {
+  constructor(credentials?: Credentials) {
     // OAuth2クライアントの初期化
     this.oauth2Client = new google.auth.OAuth2(
       process.env.GOOGLE_CLIENT_ID,
@@ -16,6 +25,11 @@ export default class GoogleCalendarService {
       process.env.GOOGLE_REDIRECT_URI
     );
 
+    // 保存済みのトークンがあれば設定（期限切れのアクセストークンはリフレッシュトークンで自動更新される）
+    if (credentials) {
+      this.oauth2Client.setCredentials(credentials);
+    }
+
     // カレンダーAPIの初期化
     this.calendar = google.calendar({ version: 'v3', auth: this.oauth2Client });
   }
@@ -23,19 +37,22 @@ export default class GoogleCalendarService {
   /**
    * OAuth2認証用のURLを生成
    */
-  getAuthUrl(): string {
+  getAuthUrl(state?: string): string {
     const scopes = ['https://www.googleapis.com/auth/calendar'];
     
     return this.oauth2Client.generateAuthUrl({
       access_type: 'offline',
+      // リフレッシュトークンを確実に受け取るため毎回同意画面を表示する
+      prompt: 'consent',
       scope: scopes,
+      state,
     });
   }
 
   /**
    * 認証コードからトークンを取得
    */
-  async getToken(code: string): Promise<any> {
+  async getToken(code: string): Promise<Credentials> {
     const { tokens } = await this.oauth2Client.getToken(code);
     this.oauth2Client.setCredentials(tokens);
     return tokens;
@@ -44,10 +61,17 @@ export default class GoogleCalendarService {
   /**
    * トークンをセット
    */
-  setToken(tokens: any): void {
+  setToken(tokens: Credentials): void {
     this.oauth2Client.setCredentials(tokens);
   }
 
+  /**
+   * トークンが更新されたときのリスナーを登録
+   */
+  onTokensRefreshed(listener: (tokens: Credentials) => void): void {
+    this.oauth2Client.on('tokens', listener);
+  }
+
   /**
    * カレンダーの一覧を取得
    */
@@ -70,6 +94,7 @@ export default class GoogleCalendarService {
     description: string,
     startDate: Date,
     endDate: Date,
+    timeZone: string,
     userEmail?: string
   ): Promise<calendar_v3.Schema$Event> {
     try {
@@ -78,12 +103,12 @@ export default class GoogleCalendarService {
         summary,
         description,
         start: {
-          date: this.formatDate(startDate),
-          timeZone: 'Asia/Tokyo',
+          date: formatDate(startDate),
+          timeZone,
         },
         end: {
-          date: this.formatDate(endDate),
-          timeZone: 'Asia/Tokyo',
+          date: formatDate(endDate),
+          timeZone,
         },
         transparency: 'transparent', // 外部向けに予定なしとして表示
       };
@@ -108,17 +133,6 @@ export default class GoogleCalendarService {
     }
   }
 
-  /**
-   * 日付をYYYY-MM-DD形式にフォーマット
-   */
-  private formatDate(date: Date): string {
-    const year = date.getFullYear();
-    const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    const day = date.getDate().toString().padStart(2, '0');
-    
-    return `${year}-${month}-${day}`;
-  }
-
   /**
    * 休暇イベントの更新
    */
@@ -128,7 +142,8 @@ export default class GoogleCalendarService {
     summary?: string,
     description?: string,
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    timeZone: string = DEFAULT_TIME_ZONE
   ): Promise<calendar_v3.Schema$Event> {
     try {
       // 更新内容の準備
@@ -139,15 +154,15 @@ export default class GoogleCalendarService {
       
       if (startDate) {
         eventPatch.start = {
-          date: this.formatDate(startDate),
-          timeZone: 'Asia/Tokyo',
+          date: formatDate(startDate),
+          timeZone,
         };
       }
       
       if (endDate) {
         eventPatch.end = {
-          date: this.formatDate(endDate),
-          timeZone: 'Asia/Tokyo',
+          date: formatDate(endDate),
+          timeZone,
         };
       }
 
@@ -167,7 +182,7 @@ export default class GoogleCalendarService {
   }
 
   /**
-   * 休暇イベントの削除
+   * 休暇イベントの削除（カレンダー上で既に削除されている場合は削除済みとして扱う）
    */
   async deleteVacationEvent(
     calendarId: string,
@@ -180,6 +195,9 @@ export default class GoogleCalendarService {
         sendUpdates: 'all', // 削除を通知
       });
     } catch (error) {
+      if (isEventGoneError(error)) {
+        return;
+      }
       console.error('カレンダーイベント削除エラー:', error);
       throw error;
     }
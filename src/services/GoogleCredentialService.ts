@@ -0,0 +1,132 @@
+import { PrismaClient, Organization } from '@prisma/client';
+import { Credentials } from 'google-auth-library';
+import GoogleCalendarService from './GoogleCalendarService';
+import { createSignedToken, decrypt, encrypt, verifySignedToken } from '../utils/crypto';
+
+/** 連携開始リンクの有効期限（秒） */
+const CONNECT_LINK_EXPIRES_IN = 10 * 60;
+
+/**
+ * 組織ごとのGoogle OAuthトークンを管理するサービス
+ */
+export default class GoogleCredentialService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Googleカレンダー連携を開始するURLを作成する
+   */
+  createConnectUrl(organizationId: string): string {
+    const state = createSignedToken({ organizationId }, CONNECT_LINK_EXPIRES_IN);
+    const baseUrl = process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+    return `${baseUrl}/oauth/google/start?state=${encodeURIComponent(state)}`;
+  }
+
+  /**
+   * 連携開始リンクのstateを検証してGoogleの認可URLを返す
+   */
+  getAuthUrl(state: string): string {
+    if (!verifySignedToken<{ organizationId: string }>(state)) {
+      throw new Error('連携リンクが無効か期限切れです。もう一度リンクを発行してください。');
+    }
+
+    return new GoogleCalendarService().getAuthUrl(state);
+  }
+
+  /**
+   * 認可コードをトークンに交換して組織に保存する
+   */
+  async handleCallback(code: string, state: string): Promise<Organization> {
+    const payload = verifySignedToken<{ organizationId: string }>(state);
+    if (!payload) {
+      throw new Error('連携リンクが無効か期限切れです。もう一度リンクを発行してください。');
+    }
+
+    const tokens = await new GoogleCalendarService().getToken(code);
+    if (!tokens.refresh_token) {
+      throw new Error('リフレッシュトークンを取得できませんでした。');
+    }
+
+    await this.saveCredentials(payload.organizationId, tokens);
+
+    // カレンダーが未設定の場合は連携したアカウントのメインカレンダーを使用
+    const organization = await this.prisma.organization.findUniqueOrThrow({
+      where: { id: payload.organizationId },
+    });
+    if (organization.googleCalendarId) {
+      return organization;
+    }
+
+    return this.prisma.organization.update({
+      where: { id: organization.id },
+      data: { googleCalendarId: 'primary' },
+    });
+  }
+
+  /**
+   * 組織のトークンでカレンダーサービスを作成する（未連携の場合はnull）
+   */
+  async getCalendarService(organizationId: string): Promise<GoogleCalendarService | null> {
+    const credential = await this.prisma.googleCredential.findUnique({
+      where: { organizationId },
+    });
+    if (!credential) {
+      return null;
+    }
+
+    const calendarService = new GoogleCalendarService({
+      access_token: credential.accessToken ? decrypt(credential.accessToken) : undefined,
+      refresh_token: decrypt(credential.refreshToken),
+      expiry_date: credential.expiryDate?.getTime(),
+      scope: credential.scope ?? undefined,
+    });
+
+    // アクセストークンが自動更新されたら保存する
+    calendarService.onTokensRefreshed((tokens) => {
+      this.saveCredentials(organizationId, tokens).catch((error) => {
+        console.error('Googleトークン保存エラー:', error);
+      });
+    });
+
+    return calendarService;
+  }
+
+  /**
+   * 連携を解除する
+   */
+  async disconnect(organizationId: string): Promise<void> {
+    await this.prisma.googleCredential.deleteMany({
+      where: { organizationId },
+    });
+  }
+
+  /**
+   * トークンを暗号化して保存する（リフレッシュトークンが含まれない更新では既存の値を残す）
+   */
+  private async saveCredentials(organizationId: string, tokens: Credentials): Promise<void> {
+    const data = {
+      accessToken: tokens.access_token ? encrypt(tokens.access_token) : null,
+      expiryDate: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
+      scope: tokens.scope ?? null,
+    };
+
+    if (tokens.refresh_token) {
+      const refreshToken = encrypt(tokens.refresh_token);
+      await this.prisma.googleCredential.upsert({
+        where: { organizationId },
+        create: { organizationId, refreshToken, ...data },
+        update: { refreshToken, ...data },
+      });
+      return;
+    }
+
+    await this.prisma.googleCredential.update({
+      where: { organizationId },
+      data,
+    });
+  }
+}
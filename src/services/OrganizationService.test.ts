@@ -0,0 +1,83 @@
+import { Membership, MembershipStatus, PrismaClient, Role } from '@prisma/client';
+import OrganizationService from './OrganizationService';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+
+const owner = {
+  id: 'membership-1',
+  organizationId: 'org-1',
+  userId: 'user-1',
+  role: Role.OWNER,
+  status: MembershipStatus.ACTIVE,
+} as Membership;
+
+describe('OrganizationService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    $queryRaw: jest.Mock;
+    membership: { findUnique: jest.Mock; update: jest.Mock };
+  };
+  let service: OrganizationService;
+  let record: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(PermissionService.prototype, 'authorizeMemberChange').mockResolvedValue(owner);
+    record = jest.spyOn(AuditLogService.prototype, 'record').mockResolvedValue({} as never);
+
+    prisma = {
+      $transaction: jest.fn(),
+      $queryRaw: jest.fn(),
+      membership: {
+        findUnique: jest.fn().mockResolvedValue(owner),
+        update: jest.fn(async ({ data }) => ({ ...owner, ...data })),
+      },
+    };
+    prisma.$transaction.mockImplementation((callback) => callback(prisma));
+
+    service = new OrganizationService(prisma as unknown as PrismaClient);
+  });
+
+  it('最後のOWNERのロールは変更できない', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ userId: 'user-1' }]);
+
+    await expect(service.changeUserRole('org-1', 'user-1', Role.ADMIN, 'user-1')).rejects.toThrow(
+      '組織には少なくとも1人のOWNERが必要です。'
+    );
+    expect(prisma.membership.update).not.toHaveBeenCalled();
+  });
+
+  it('OWNERの数をロックして数え、同じトランザクションで変更する', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ userId: 'user-1' }, { userId: 'user-2' }]);
+
+    const membership = await service.changeUserRole('org-1', 'user-1', Role.ADMIN, 'user-2');
+
+    expect(membership.role).toBe(Role.ADMIN);
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    const [query] = prisma.$queryRaw.mock.calls[0] as [TemplateStringsArray];
+    expect(query.join('?')).toContain('FOR UPDATE');
+    expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      prisma.membership.update.mock.invocationCallOrder[0]
+    );
+    // 監査ログも同じトランザクションで記録する
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ action: 'membership.role_changed' }), prisma);
+  });
+
+  it('最後のOWNERは利用停止にできない', async () => {
+    prisma.$queryRaw.mockResolvedValue([{ userId: 'user-1' }]);
+
+    await expect(service.suspendUser('org-1', 'user-1', 'user-2')).rejects.toThrow(
+      '組織には少なくとも1人のOWNERが必要です。'
+    );
+    expect(prisma.membership.update).not.toHaveBeenCalled();
+  });
+
+  it('OWNER以外のメンバーは他にOWNERがいなくても利用停止にできる', async () => {
+    prisma.membership.findUnique.mockResolvedValue({ ...owner, userId: 'user-3', role: Role.MEMBER });
+    prisma.$queryRaw.mockResolvedValue([{ userId: 'user-1' }]);
+
+    const membership = await service.suspendUser('org-1', 'user-3', 'user-1');
+
+    expect(membership.status).toBe(MembershipStatus.SUSPENDED);
+  });
+});
@@ -1,10 +1,32 @@
-import { PrismaClient, Organization, Membership, Role } from '@prisma/client';
+import {
+  Prisma,
+  PrismaClient,
+  Organization,
+  Membership,
+  MembershipStatus,
+  Role,
+  User,
+} from '@prisma/client';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+import { Platform } from '../commands/types';
+import { isUniqueConstraintError } from '../utils/prismaErrors';
+
+/** 紐付けの対象（エラーメッセージ用） */
+const PLATFORM_LINK_LABELS: Record<Platform, string> = {
+  slack: 'このSlackワークスペース',
+  chatwork: 'このChatworkルーム',
+};
 
 export default class OrganizationService {
   private prisma: PrismaClient;
+  private permissionService: PermissionService;
+  private auditLogService: AuditLogService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.permissionService = new PermissionService(prisma);
+    this.auditLogService = new AuditLogService(prisma);
   }
 
   /**
@@ -34,6 +56,18 @@ export default class OrganizationService {
         },
       });
 
+      await this.auditLogService.record(
+        {
+          action: 'organization.created',
+          organizationId: organization.id,
+          targetId: organization.id,
+          userId: creatorUserId,
+          after: organization,
+          actorId: creatorUserId,
+        },
+        tx
+      );
+
       return organization;
     });
   }
@@ -56,23 +90,124 @@ export default class OrganizationService {
     });
   }
 
+  /**
+   * SlackのチームIDに紐づく組織を検索する
+   */
+  async findBySlackTeamId(slackTeamId: string): Promise<Organization | null> {
+    return this.prisma.organization.findUnique({
+      where: { slackTeamId },
+    });
+  }
+
+  /**
+   * ChatworkのルームIDに紐づく組織を検索する
+   */
+  async findByChatworkRoomId(chatworkRoomId: string): Promise<Organization | null> {
+    return this.prisma.organization.findUnique({
+      where: { chatworkRoomId },
+    });
+  }
+
+  /**
+   * すべての組織を取得する
+   */
+  async findAll(): Promise<Organization[]> {
+    return this.prisma.organization.findMany({
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * 月次レポートを配信した対象の月（YYYY-MM）を記録する
+   */
+  async markMonthlyReportSent(organizationId: string, period: string): Promise<void> {
+    await this.prisma.organization.update({
+      where: { id: organizationId },
+      data: { monthlyReportSentMonth: period },
+    });
+  }
+
+  /**
+   * SlackのワークスペースまたはChatworkのルームを組織に紐付ける（nullの場合は紐付けを解除、OWNER・ADMINのみ）
+   *
+   * 紐付けたワークスペース・ルームからのコマンドは、--org の指定がなければこの組織を対象にする。
+   * 1つのワークスペース・ルームに紐付けられる組織は1つのみ。
+   */
+  async linkPlatform(
+    organizationId: string,
+    platform: Platform,
+    externalId: string | null,
+    actorId: string
+  ): Promise<Organization> {
+    await this.permissionService.authorize(actorId, organizationId, 'organization:update');
+
+    if (externalId) {
+      const linked =
+        platform === 'slack'
+          ? await this.findBySlackTeamId(externalId)
+          : await this.findByChatworkRoomId(externalId);
+      if (linked && linked.id !== organizationId) {
+        throw new Error(`${PLATFORM_LINK_LABELS[platform]}は既に組織「${linked.name}」に紐付けられています。`);
+      }
+    }
+
+    try {
+      return await this.updateOrganization(
+        organizationId,
+        platform === 'slack' ? { slackTeamId: externalId } : { chatworkRoomId: externalId }
+      );
+    } catch (error) {
+      // 確認後に他の組織に紐付けられた場合
+      if (isUniqueConstraintError(error)) {
+        throw new Error(`${PLATFORM_LINK_LABELS[platform]}は既に他の組織に紐付けられています。`);
+      }
+      throw error;
+    }
+  }
+
   /**
    * 組織を更新する
    */
   async updateOrganization(
     id: string,
-    data: { name?: string; slug?: string }
+    data: {
+      name?: string;
+      slug?: string;
+      slackTeamId?: string | null;
+      chatworkRoomId?: string | null;
+      googleCalendarId?: string | null;
+      statusBoardToken?: string | null;
+      timeZone?: string;
+    }
   ): Promise<Organization> {
-    return this.prisma.organization.update({
-      where: { id },
-      data,
+    return this.prisma.$transaction(async (tx) => {
+      const before = await tx.organization.findUniqueOrThrow({ where: { id } });
+      const organization = await tx.organization.update({
+        where: { id },
+        data,
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'organization.updated',
+          organizationId: id,
+          targetId: id,
+          before,
+          after: organization,
+        },
+        tx
+      );
+
+      return organization;
     });
   }
 
   /**
    * 組織のメンバー一覧を取得する
    */
-  async getOrganizationMembers(organizationId: string): Promise<Membership[]> {
+  async getOrganizationMembers(
+    organizationId: string
+  ): Promise<(Membership & { user: User })[]> {
     return this.prisma.membership.findMany({
       where: { 
         organizationId,
@@ -83,10 +218,50 @@ export default class OrganizationService {
     });
   }
 
+  /**
+   * 組織のメンバーを登録順に取得する（ページング用に総件数も返す）
+   */
+  async findMembers(
+    organizationId: string,
+    filter: { status?: MembershipStatus },
+    page: { skip: number; take: number }
+  ): Promise<{ members: (Membership & { user: User })[]; total: number }> {
+    const where = { organizationId, status: filter.status };
+
+    const [members, total] = await Promise.all([
+      this.prisma.membership.findMany({
+        where,
+        include: { user: true },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        skip: page.skip,
+        take: page.take,
+      }),
+      this.prisma.membership.count({ where }),
+    ]);
+
+    return { members, total };
+  }
+
+  /**
+   * ユーザーの組織内のメンバーシップを取得する
+   */
+  async getMembership(organizationId: string, userId: string): Promise<Membership | null> {
+    return this.prisma.membership.findUnique({
+      where: {
+        userId_organizationId: {
+          userId,
+          organizationId,
+        },
+      },
+    });
+  }
+
   /**
    * 組織のアクティブメンバー一覧を取得する
    */
-  async getActiveOrganizationMembers(organizationId: string): Promise<Membership[]> {
+  async getActiveOrganizationMembers(
+    organizationId: string
+  ): Promise<(Membership & { user: User })[]> {
     return this.prisma.membership.findMany({
       where: { 
         organizationId,
@@ -104,41 +279,211 @@ export default class OrganizationService {
   async changeUserRole(
     organizationId: string,
     userId: string,
-    newRole: Role
+    newRole: Role,
+    actorId: string
   ): Promise<Membership> {
-    return this.prisma.membership.update({
-      where: {
-        userId_organizationId: {
-          userId,
+    const target = await this.getCurrentMembership(organizationId, userId);
+    await this.permissionService.authorizeMemberChange(actorId, target, newRole);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (newRole !== Role.OWNER) {
+        await this.assertNotLastOwner(organizationId, userId, tx);
+      }
+
+      const membership = await tx.membership.update({
+        where: {
+          userId_organizationId: {
+            userId,
+            organizationId,
+          },
+        },
+        data: {
+          role: newRole,
+        },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'membership.role_changed',
           organizationId,
+          targetId: membership.id,
+          userId,
+          before: target,
+          after: membership,
+          actorId,
         },
-      },
-      data: {
-        role: newRole,
-      },
+        tx
+      );
+
+      return membership;
     });
   }
 
+  /**
+   * ユーザーのメンバーシップを利用停止にする
+   */
+  async suspendUser(
+    organizationId: string,
+    userId: string,
+    actorId: string
+  ): Promise<Membership> {
+    return this.changeMembershipStatus(organizationId, userId, MembershipStatus.SUSPENDED, actorId);
+  }
+
+  /**
+   * 利用停止中のメンバーシップを再開する
+   */
+  async reactivateUser(
+    organizationId: string,
+    userId: string,
+    actorId: string
+  ): Promise<Membership> {
+    const membership = await this.getMembership(organizationId, userId);
+    if (membership?.status !== MembershipStatus.SUSPENDED) {
+      throw new Error('利用停止中のメンバーではありません。');
+    }
+
+    return this.changeMembershipStatus(organizationId, userId, MembershipStatus.ACTIVE, actorId);
+  }
+
   /**
    * ユーザーのメンバーシップを削除する（退会処理）
    */
   async removeUserFromOrganization(
     organizationId: string,
-    userId: string
-  ): Promise<void> {
-    await this.prisma.membership.update({
-      where: {
-        userId_organizationId: {
-          userId,
+    userId: string,
+    actorId: string
+  ): Promise<Membership> {
+    return this.changeMembershipStatus(organizationId, userId, MembershipStatus.LEFT, actorId);
+  }
+
+  /**
+   * 組織を削除する（OWNERのみ）
+   *
+   * 稼働記録・休暇・メンバーシップなど組織に紐づくデータもすべて削除する。
+   */
+  async deleteOrganization(id: string, actorId: string): Promise<Organization> {
+    await this.permissionService.authorize(actorId, id, 'organization:delete');
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.sessionCorrection.deleteMany({ where: { organizationId: id } });
+      await tx.workingSession.deleteMany({ where: { organizationId: id } });
+      await tx.vacation.deleteMany({ where: { organizationId: id } });
+      await tx.googleCredential.deleteMany({ where: { organizationId: id } });
+      await tx.freeeCredential.deleteMany({ where: { organizationId: id } });
+      await tx.freeeMemberSetting.deleteMany({ where: { organizationId: id } });
+      await tx.freeeInvoice.deleteMany({ where: { organizationId: id } });
+      await tx.apiKey.deleteMany({ where: { organizationId: id } });
+      await tx.membership.deleteMany({ where: { organizationId: id } });
+      await tx.user.updateMany({
+        where: { defaultOrganizationId: id },
+        data: { defaultOrganizationId: null },
+      });
+
+      const organization = await tx.organization.delete({ where: { id } });
+
+      // 監査ログは組織の削除後も残す
+      await this.auditLogService.record(
+        {
+          action: 'organization.deleted',
+          organizationId: id,
+          targetId: id,
+          before: organization,
+          actorId,
+        },
+        tx
+      );
+
+      return organization;
+    });
+  }
+
+  /**
+   * メンバーシップの状態を変更する（最後のOWNERは無効にできない）
+   */
+  private async changeMembershipStatus(
+    organizationId: string,
+    userId: string,
+    status: MembershipStatus,
+    actorId: string
+  ): Promise<Membership> {
+    const target = await this.getCurrentMembership(organizationId, userId);
+    await this.permissionService.authorizeMemberChange(actorId, target);
+
+    return this.prisma.$transaction(async (tx) => {
+      if (status !== MembershipStatus.ACTIVE) {
+        await this.assertNotLastOwner(organizationId, userId, tx);
+      }
+
+      const membership = await tx.membership.update({
+        where: {
+          userId_organizationId: {
+            userId,
+            organizationId,
+          },
+        },
+        data: {
+          status,
+        },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'membership.status_changed',
           organizationId,
+          targetId: membership.id,
+          userId,
+          before: target,
+          after: membership,
+          actorId,
         },
-      },
-      data: {
-        status: 'LEFT',
-      },
+        tx
+      );
+
+      return membership;
     });
   }
 
+  /**
+   * 退会済みでないメンバーシップを取得する
+   */
+  private async getCurrentMembership(organizationId: string, userId: string): Promise<Membership> {
+    const membership = await this.getMembership(organizationId, userId);
+    if (!membership || membership.status === MembershipStatus.LEFT) {
+      throw new Error('組織のメンバーではありません。');
+    }
+
+    return membership;
+  }
+
+  /**
+   * 対象ユーザーが組織の最後のアクティブなOWNERでないことを確認する
+   *
+   * 同時に別のOWNERを変更して0人にならないよう、アクティブなOWNERのメンバーシップを
+   * トランザクション内でロックしてから数える。
+   */
+  private async assertNotLastOwner(
+    organizationId: string,
+    userId: string,
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    const owners = await tx.$queryRaw<{ userId: string }[]>`
+      SELECT "userId" FROM "Membership"
+      WHERE "organizationId" = ${organizationId}
+        AND "role" = 'OWNER'
+        AND "status" = 'ACTIVE'
+      FOR UPDATE
+    `;
+
+    if (!owners.some((owner) => owner.userId === userId)) {
+      return;
+    }
+
+    if (owners.length <= 1) {
+      throw new Error('組織には少なくとも1人のOWNERが必要です。先に別のメンバーをOWNERにしてください。');
+    }
+  }
+
   /**
    * ユーザーが所属する組織一覧を取得する
    */
@@ -155,4 +500,21 @@ export default class OrganizationService {
 
     return memberships.map(membership => membership.organization);
   }
+
+  /**
+   * ユーザーのメンバーシップ（退会済みを除く）を組織とともに取得する
+   */
+  async getUserMemberships(
+    userId: string
+  ): Promise<(Membership & { organization: Organization })[]> {
+    return this.prisma.membership.findMany({
+      where: {
+        userId,
+        status: { not: MembershipStatus.LEFT },
+      },
+      include: {
+        organization: true,
+      },
+    });
+  }
 }
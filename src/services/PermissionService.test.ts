@@ -0,0 +1,148 @@
+import { Membership, MembershipStatus, PrismaClient, Role, WorkingSession } from '@prisma/client';
+import PermissionService from './PermissionService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+
+function createMembership(
+  userId: string,
+  role: Role,
+  status: MembershipStatus = MembershipStatus.ACTIVE
+): Membership {
+  return { id: `membership-${userId}`, userId, organizationId: 'org-1', role, status } as Membership;
+}
+
+describe('PermissionService', () => {
+  let prisma: { membership: { findUnique: jest.Mock } };
+  let service: PermissionService;
+
+  function setMemberships(...memberships: Membership[]) {
+    prisma.membership.findUnique.mockImplementation(
+      async ({ where }) =>
+        memberships.find((membership) => membership.userId === where.userId_organizationId.userId) ?? null
+    );
+  }
+
+  beforeEach(() => {
+    prisma = { membership: { findUnique: jest.fn().mockResolvedValue(null) } };
+    service = new PermissionService(prisma as unknown as PrismaClient);
+  });
+
+  describe('hasPermission', () => {
+    it('上位のロールは下位のロールの権限をすべて持つ', () => {
+      expect(PermissionService.hasPermission(Role.MEMBER, 'session:checkin')).toBe(true);
+      expect(PermissionService.hasPermission(Role.MEMBER, 'session:edit_any')).toBe(false);
+      expect(PermissionService.hasPermission(Role.ADMIN, 'session:edit_any')).toBe(true);
+      expect(PermissionService.hasPermission(Role.ADMIN, 'member:grant_owner')).toBe(false);
+      expect(PermissionService.hasPermission(Role.ADMIN, 'organization:delete')).toBe(false);
+      expect(PermissionService.hasPermission(Role.OWNER, 'member:grant_owner')).toBe(true);
+      expect(PermissionService.hasPermission(Role.OWNER, 'organization:delete')).toBe(true);
+    });
+  });
+
+  describe('can', () => {
+    it('利用中のメンバーシップのみ権限を持つ', async () => {
+      setMemberships(
+        createMembership('user-1', Role.ADMIN),
+        createMembership('user-2', Role.OWNER, MembershipStatus.SUSPENDED),
+        createMembership('user-3', Role.OWNER, MembershipStatus.INVITED)
+      );
+
+      await expect(service.can('user-1', 'org-1', 'member:view')).resolves.toBe(true);
+      await expect(service.can('user-1', 'org-1', 'organization:delete')).resolves.toBe(false);
+      await expect(service.can('user-2', 'org-1', 'session:checkin')).resolves.toBe(false);
+      await expect(service.can('user-3', 'org-1', 'session:checkin')).resolves.toBe(false);
+      await expect(service.can('user-9', 'org-1', 'session:checkin')).resolves.toBe(false);
+    });
+  });
+
+  describe('authorize', () => {
+    it('権限を持つ場合はメンバーシップを返す', async () => {
+      const membership = createMembership('user-1', Role.MEMBER);
+      setMemberships(membership);
+
+      await expect(service.authorize('user-1', 'org-1', 'session:checkin')).resolves.toBe(membership);
+      expect(prisma.membership.findUnique).toHaveBeenCalledWith({
+        where: { userId_organizationId: { userId: 'user-1', organizationId: 'org-1' } },
+      });
+    });
+
+    it('利用停止中・メンバー以外・権限不足をそれぞれのメッセージで拒否する', async () => {
+      setMemberships(
+        createMembership('user-1', Role.MEMBER),
+        createMembership('user-2', Role.ADMIN, MembershipStatus.SUSPENDED),
+        createMembership('user-3', Role.ADMIN, MembershipStatus.LEFT)
+      );
+
+      await expect(service.authorize('user-1', 'org-1', 'audit:view')).rejects.toEqual(
+        new PermissionDeniedError('audit:view', '変更履歴は組織のオーナーまたは管理者のみ確認できます。')
+      );
+      await expect(service.authorize('user-2', 'org-1', 'session:checkin')).rejects.toThrow(
+        'この組織では利用停止中です。管理者に連絡してください。'
+      );
+      await expect(service.authorize('user-3', 'org-1', 'session:checkin')).rejects.toThrow(
+        'この組織のメンバーではありません。'
+      );
+      await expect(service.authorize('user-9', 'org-1', 'session:checkin')).rejects.toThrow(
+        PermissionDeniedError
+      );
+    });
+  });
+
+  describe('authorizeSessionEdit', () => {
+    it('本人は自分のセッションのみ、管理者は他のメンバーのセッションも編集できる', async () => {
+      setMemberships(createMembership('user-1', Role.MEMBER), createMembership('user-2', Role.ADMIN));
+      const session = { id: 'session-1', userId: 'user-1', organizationId: 'org-1' } as WorkingSession;
+
+      await expect(service.authorizeSessionEdit('user-1', session)).resolves.toMatchObject({ userId: 'user-1' });
+      await expect(service.authorizeSessionEdit('user-2', session)).resolves.toMatchObject({ userId: 'user-2' });
+      await expect(
+        service.authorizeSessionEdit('user-1', { ...session, userId: 'user-2' })
+      ).rejects.toMatchObject({ permission: 'session:edit_any' });
+    });
+  });
+
+  describe('authorizeMemberChange / authorizeInvitation', () => {
+    beforeEach(() => {
+      setMemberships(
+        createMembership('owner', Role.OWNER),
+        createMembership('admin', Role.ADMIN),
+        createMembership('member', Role.MEMBER)
+      );
+    });
+
+    it('オーナーの変更・オーナー権限の付与はオーナーのみ実行できる', async () => {
+      const target = createMembership('user-9', Role.MEMBER);
+      const ownerTarget = createMembership('user-9', Role.OWNER);
+
+      await expect(service.authorizeMemberChange('admin', target, Role.ADMIN)).resolves.toMatchObject({
+        userId: 'admin',
+      });
+      await expect(service.authorizeMemberChange('admin', target, Role.OWNER)).rejects.toMatchObject({
+        permission: 'member:grant_owner',
+      });
+      await expect(service.authorizeMemberChange('admin', ownerTarget)).rejects.toMatchObject({
+        permission: 'member:grant_owner',
+      });
+      await expect(service.authorizeMemberChange('owner', ownerTarget, Role.ADMIN)).resolves.toMatchObject({
+        userId: 'owner',
+      });
+      await expect(service.authorizeMemberChange('member', target)).rejects.toMatchObject({
+        permission: 'member:manage',
+      });
+    });
+
+    it('オーナーとしての招待はオーナーのみ実行できる', async () => {
+      await expect(service.authorizeInvitation('admin', 'org-1', Role.ADMIN)).resolves.toMatchObject({
+        userId: 'admin',
+      });
+      await expect(service.authorizeInvitation('admin', 'org-1', Role.OWNER)).rejects.toMatchObject({
+        permission: 'member:grant_owner',
+      });
+      await expect(service.authorizeInvitation('owner', 'org-1', Role.OWNER)).resolves.toMatchObject({
+        userId: 'owner',
+      });
+      await expect(service.authorizeInvitation('member', 'org-1', Role.MEMBER)).rejects.toMatchObject({
+        permission: 'member:invite',
+      });
+    });
+  });
+});
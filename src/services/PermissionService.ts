@@ -0,0 +1,192 @@
+import { Membership, MembershipStatus, PrismaClient, Role, WorkingSession } from '@prisma/client';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+
+/**
+ * 組織内で実行できる操作
+ */
+export type Permission =
+  | 'session:checkin'
+  | 'session:edit_own'
+  | 'session:edit_any'
+  | 'member:view'
+  | 'member:invite'
+  | 'member:manage'
+  | 'member:grant_owner'
+  | 'organization:update'
+  | 'organization:delete'
+  | 'audit:view'
+  | 'api_key:manage'
+  | 'timesheet:export_own'
+  | 'timesheet:export_any';
+
+/**
+ * ロールごとの権限（上位のロールは下位のロールの権限をすべて持つ）
+ */
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  MEMBER: ['session:checkin', 'session:edit_own', 'timesheet:export_own'],
+  ADMIN: [
+    'session:checkin',
+    'session:edit_own',
+    'session:edit_any',
+    'member:view',
+    'member:invite',
+    'member:manage',
+    'organization:update',
+    'audit:view',
+    'api_key:manage',
+    'timesheet:export_own',
+    'timesheet:export_any',
+  ],
+  OWNER: [
+    'session:checkin',
+    'session:edit_own',
+    'session:edit_any',
+    'member:view',
+    'member:invite',
+    'member:manage',
+    'member:grant_owner',
+    'organization:update',
+    'organization:delete',
+    'audit:view',
+    'api_key:manage',
+    'timesheet:export_own',
+    'timesheet:export_any',
+  ],
+};
+
+/**
+ * 権限がない場合に表示するメッセージ
+ */
+const DENIED_MESSAGES: Record<Permission, string> = {
+  'session:checkin': 'この組織でチェックインする権限がありません。',
+  'session:edit_own': 'セッションを編集する権限がありません。',
+  'session:edit_any': '他のメンバーのセッションは組織のオーナーまたは管理者のみ編集できます。',
+  'member:view': 'メンバー一覧は組織のオーナーまたは管理者のみ確認できます。',
+  'member:invite': 'メンバーの招待は組織のオーナーまたは管理者のみ実行できます。',
+  'member:manage': 'メンバーの管理は組織のオーナーまたは管理者のみ実行できます。',
+  'member:grant_owner': 'オーナーに関する変更は組織のオーナーのみ実行できます。',
+  'organization:update': '組織の設定は組織のオーナーまたは管理者のみ変更できます。',
+  'organization:delete': '組織の削除は組織のオーナーのみ実行できます。',
+  'audit:view': '変更履歴は組織のオーナーまたは管理者のみ確認できます。',
+  'api_key:manage': 'APIキーの管理は組織のオーナーまたは管理者のみ実行できます。',
+  'timesheet:export_own': '勤務表を出力する権限がありません。',
+  'timesheet:export_any': '他のメンバーの勤務表は組織のオーナーまたは管理者のみ出力できます。',
+};
+
+/**
+ * 組織内のロールとメンバーシップの状態に基づく権限チェック
+ *
+ * 利用中（ACTIVE）のメンバーシップのみ権限を持ち、招待中・利用停止中・退会済みは何もできない。
+ */
+export default class PermissionService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * ロールが権限を持つか
+   */
+  static hasPermission(role: Role, permission: Permission): boolean {
+    return ROLE_PERMISSIONS[role].includes(permission);
+  }
+
+  /**
+   * ユーザーが組織で権限を持つか
+   */
+  async can(userId: string, organizationId: string, permission: Permission): Promise<boolean> {
+    const membership = await this.getMembership(userId, organizationId);
+    return (
+      membership?.status === MembershipStatus.ACTIVE &&
+      PermissionService.hasPermission(membership.role, permission)
+    );
+  }
+
+  /**
+   * ユーザーが組織で権限を持つことを確認し、メンバーシップを返す
+   */
+  async authorize(
+    userId: string,
+    organizationId: string,
+    permission: Permission
+  ): Promise<Membership> {
+    const membership = await this.getMembership(userId, organizationId);
+
+    if (membership?.status === MembershipStatus.SUSPENDED) {
+      throw new PermissionDeniedError(
+        permission,
+        'この組織では利用停止中です。管理者に連絡してください。'
+      );
+    }
+    if (membership?.status !== MembershipStatus.ACTIVE) {
+      throw new PermissionDeniedError(permission, 'この組織のメンバーではありません。');
+    }
+    if (!PermissionService.hasPermission(membership.role, permission)) {
+      throw new PermissionDeniedError(permission, DENIED_MESSAGES[permission]);
+    }
+
+    return membership;
+  }
+
+  /**
+   * セッションを編集できることを確認する（本人は自分のセッション、管理者は組織内のすべて）
+   */
+  async authorizeSessionEdit(actorId: string, session: WorkingSession): Promise<Membership> {
+    return this.authorize(
+      actorId,
+      session.organizationId,
+      session.userId === actorId ? 'session:edit_own' : 'session:edit_any'
+    );
+  }
+
+  /**
+   * 他のメンバーのメンバーシップを変更できることを確認する
+   *
+   * オーナーの変更・オーナー権限の付与はオーナーのみ実行できる。
+   */
+  async authorizeMemberChange(
+    actorId: string,
+    target: Membership,
+    newRole?: Role
+  ): Promise<Membership> {
+    const membership = await this.authorize(actorId, target.organizationId, 'member:manage');
+
+    if (
+      (target.role === Role.OWNER || newRole === Role.OWNER) &&
+      !PermissionService.hasPermission(membership.role, 'member:grant_owner')
+    ) {
+      throw new PermissionDeniedError('member:grant_owner', DENIED_MESSAGES['member:grant_owner']);
+    }
+
+    return membership;
+  }
+
+  /**
+   * メンバーを招待できることを確認する
+   */
+  async authorizeInvitation(
+    actorId: string,
+    organizationId: string,
+    role: Role
+  ): Promise<Membership> {
+    const membership = await this.authorize(actorId, organizationId, 'member:invite');
+
+    if (role === Role.OWNER && !PermissionService.hasPermission(membership.role, 'member:grant_owner')) {
+      throw new PermissionDeniedError('member:grant_owner', DENIED_MESSAGES['member:grant_owner']);
+    }
+
+    return membership;
+  }
+
+  private async getMembership(userId: string, organizationId: string): Promise<Membership | null> {
+    return this.prisma.membership.findUnique({
+      where: {
+        userId_organizationId: {
+          userId,
+          organizationId,
+        },
+      },
+    });
+  }
+}
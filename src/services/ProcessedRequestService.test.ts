@@ -0,0 +1,63 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import ProcessedRequestService from './ProcessedRequestService';
+import { CommandResult } from '../commands/types';
+
+const uniqueConstraintError = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+  code: 'P2002',
+  clientVersion: Prisma.prismaVersion.client,
+});
+
+describe('ProcessedRequestService', () => {
+  let prisma: { processedRequest: { create: jest.Mock; deleteMany: jest.Mock } };
+  let service: ProcessedRequestService;
+
+  beforeEach(() => {
+    prisma = {
+      processedRequest: {
+        create: jest.fn().mockResolvedValue({}),
+        deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    service = new ProcessedRequestService(prisma as unknown as PrismaClient);
+  });
+
+  describe('executeOnce', () => {
+    it('処理済みのリクエストは実行しない', async () => {
+      prisma.processedRequest.create.mockRejectedValue(uniqueConstraintError);
+      const execute = jest.fn();
+
+      await expect(service.executeOnce('slack', 'trigger-1', execute)).resolves.toBeNull();
+      expect(execute).not.toHaveBeenCalled();
+    });
+
+    it('実行できたコマンドの記録は残す（コマンドのエラーも含む）', async () => {
+      const result: CommandResult = { type: 'error', code: 'INVALID_ARGUMENT', message: '日付を指定してください。' };
+
+      await expect(service.executeOnce('slack', 'trigger-1', async () => result)).resolves.toBe(result);
+      expect(prisma.processedRequest.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('COMMAND_FAILED の場合は記録を取り消す', async () => {
+      const result: CommandResult = { type: 'error', code: 'COMMAND_FAILED', message: 'エラーが発生しました' };
+
+      await expect(service.executeOnce('slack', 'trigger-1', async () => result)).resolves.toBe(result);
+      expect(prisma.processedRequest.deleteMany).toHaveBeenCalledWith({ where: { id: 'slack:trigger-1' } });
+    });
+
+    it('例外が発生した場合は記録を取り消してから投げ直す', async () => {
+      const error = new Error('timeout');
+
+      await expect(service.executeOnce('slack', 'trigger-1', () => Promise.reject(error))).rejects.toBe(error);
+      expect(prisma.processedRequest.deleteMany).toHaveBeenCalledWith({ where: { id: 'slack:trigger-1' } });
+    });
+  });
+
+  it('保持期間を過ぎた記録を削除する', async () => {
+    prisma.processedRequest.deleteMany.mockResolvedValue({ count: 3 });
+
+    await expect(service.deleteExpired(new Date('2026-10-19T00:00:00Z'))).resolves.toBe(3);
+    expect(prisma.processedRequest.deleteMany).toHaveBeenCalledWith({
+      where: { createdAt: { lt: new Date('2026-10-12T00:00:00Z') } },
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { PrismaClient } from '@prisma/client';
+import { CommandResult, Platform } from '../commands/types';
+import { isUniqueConstraintError } from '../utils/prismaErrors';
+
+/** 処理済みのリクエストを保持する期間（日）。プラットフォームの再送はこれより短い間隔で行われる */
+const RETENTION_DAYS = 7;
+
+/**
+ * Slack・Chatworkからの再送リクエストの重複を排除するサービス
+ *
+ * リクエストIDを一意制約付きで記録し、最初に記録できたリクエストだけを処理する。
+ */
+export default class ProcessedRequestService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * リクエストを処理済みとして記録する（既に処理済みの場合はfalse）
+   */
+  async claim(platform: Platform, requestId: string): Promise<boolean> {
+    try {
+      await this.prisma.processedRequest.create({
+        data: { id: `${platform}:${requestId}` },
+      });
+      return true;
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * コマンドを一度だけ実行する（処理済みの場合は実行せずnull）
+   */
+  async executeOnce(
+    platform: Platform,
+    requestId: string,
+    execute: () => Promise<CommandResult>
+  ): Promise<CommandResult | null> {
+    if (!(await this.claim(platform, requestId))) {
+      return null;
+    }
+
+    return this.executeClaimed(platform, requestId, execute);
+  }
+
+  /**
+   * 処理済みとして記録したリクエストのコマンドを実行する
+   *
+   * 実行に失敗した場合（COMMAND_FAILED・例外）は記録を取り消し、再送・再実行で処理できるようにする。
+   * 結果を受け取った後の返信の失敗では取り消さない（打刻などの変更を二重に行わないため）。
+   */
+  async executeClaimed(
+    platform: Platform,
+    requestId: string,
+    execute: () => Promise<CommandResult>
+  ): Promise<CommandResult> {
+    let result: CommandResult;
+    try {
+      result = await execute();
+    } catch (error) {
+      await this.release(platform, requestId);
+      throw error;
+    }
+
+    if (result.type === 'error' && result.code === 'COMMAND_FAILED') {
+      await this.release(platform, requestId);
+    }
+
+    return result;
+  }
+
+  /**
+   * 処理済みの記録を取り消す（処理に失敗したリクエストを再送・再実行できるようにする）
+   */
+  async release(platform: Platform, requestId: string): Promise<void> {
+    await this.prisma.processedRequest.deleteMany({
+      where: { id: `${platform}:${requestId}` },
+    });
+  }
+
+  /**
+   * 保持期間を過ぎた記録を削除する
+   */
+  async deleteExpired(now: Date = new Date()): Promise<number> {
+    const { count } = await this.prisma.processedRequest.deleteMany({
+      where: {
+        createdAt: { lt: new Date(now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000) },
+      },
+    });
+    return count;
+  }
+}
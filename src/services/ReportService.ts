@@ -0,0 +1,113 @@
+import { PrismaClient, Organization, User, Vacation, WorkingSession } from '@prisma/client';
+import WorkingSessionService from './WorkingSessionService';
+import OrganizationService from './OrganizationService';
+import VacationService from './VacationService';
+import { calendarDate, lastDayOfMonth, resolveTimeZone } from '../utils/timezone';
+
+/**
+ * メンバー1人分の月次レポート
+ */
+export interface MonthlyUserReport {
+  user: User;
+  organization: Organization;
+  year: number;
+  month: number;
+  /** 集計に使用したタイムゾーン */
+  timeZone: string;
+  totalWorkingHours: number;
+  dailyWorkingHours: { date: Date; hours: number }[];
+  vacations: Vacation[];
+  /** チェックアウトされていないセッション（稼働時間に含まれない） */
+  openSessions: WorkingSession[];
+  /** チェックアウト忘れとして自動終了したセッション */
+  autoClosedSessions: WorkingSession[];
+}
+
+/**
+ * 組織全体の月次サマリー
+ */
+export interface OrganizationMonthlySummary {
+  organization: Organization;
+  year: number;
+  month: number;
+  totalWorkingHours: number;
+  members: MonthlyUserReport[];
+}
+
+export default class ReportService {
+  private workingSessionService: WorkingSessionService;
+  private organizationService: OrganizationService;
+  private vacationService: VacationService;
+
+  constructor(prisma: PrismaClient) {
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.vacationService = new VacationService(prisma);
+  }
+
+  /**
+   * メンバーの月次レポートを作成する（メンバーのタイムゾーンで集計）
+   */
+  async getUserMonthlyReport(
+    user: User,
+    organization: Organization,
+    year: number,
+    month: number
+  ): Promise<MonthlyUserReport> {
+    const timeZone = resolveTimeZone(user, organization);
+    const { totalWorkingHours, dailyWorkingHours, openSessions, autoClosedSessions } =
+      await this.workingSessionService.getMonthlyReport(
+        user.id,
+        organization.id,
+        year,
+        month,
+        timeZone
+      );
+
+    const vacations = await this.vacationService.getVacationsByDateRange(
+      user.id,
+      organization.id,
+      calendarDate(year, month, 1)!,
+      lastDayOfMonth(year, month)
+    );
+
+    return {
+      user,
+      organization,
+      year,
+      month,
+      timeZone,
+      totalWorkingHours,
+      dailyWorkingHours,
+      vacations,
+      openSessions,
+      autoClosedSessions,
+    };
+  }
+
+  /**
+   * 組織のアクティブメンバー全員分の月次サマリーを作成する
+   */
+  async getOrganizationMonthlySummary(
+    organization: Organization,
+    year: number,
+    month: number
+  ): Promise<OrganizationMonthlySummary> {
+    const memberships = await this.organizationService.getActiveOrganizationMembers(
+      organization.id
+    );
+
+    const members: MonthlyUserReport[] = [];
+    for (const membership of memberships) {
+      members.push(await this.getUserMonthlyReport(membership.user, organization, year, month));
+    }
+
+    return {
+      organization,
+      year,
+      month,
+      totalWorkingHours: members.reduce((total, report) => total + report.totalWorkingHours, 0),
+      members,
+    };
+  }
+}
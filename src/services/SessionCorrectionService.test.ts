@@ -0,0 +1,299 @@
+import {
+  CorrectionStatus,
+  Membership,
+  Prisma,
+  PrismaClient,
+  SessionCorrection,
+  WorkingSession,
+} from '@prisma/client';
+import SessionCorrectionService from './SessionCorrectionService';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+
+const TOKYO = 'Asia/Tokyo';
+
+function createSession(overrides: Partial<WorkingSession> = {}): WorkingSession {
+  return {
+    id: 'session-1',
+    userId: 'user-1',
+    organizationId: 'org-1',
+    // 2026-10-15 09:00〜18:00 JST
+    checkinAt: new Date('2026-10-15T00:00:00Z'),
+    checkoutAt: new Date('2026-10-15T09:00:00Z'),
+    open: null,
+    ...overrides,
+  } as WorkingSession;
+}
+
+function createCorrection(overrides: Partial<SessionCorrection> = {}): SessionCorrection {
+  return {
+    id: 'correction-1',
+    organizationId: 'org-1',
+    requesterId: 'user-1',
+    sessionId: 'session-1',
+    checkinAt: new Date('2026-10-15T00:30:00Z'),
+    checkoutAt: new Date('2026-10-15T09:30:00Z'),
+    reason: null,
+    status: CorrectionStatus.PENDING,
+    ...overrides,
+  } as SessionCorrection;
+}
+
+describe('SessionCorrectionService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    workingSession: {
+      findMany: jest.Mock;
+      findFirst: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+    };
+    workingBreak: { updateMany: jest.Mock };
+    sessionCorrection: {
+      findFirst: jest.Mock;
+      findUnique: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    membership: { count: jest.Mock };
+  };
+  let service: SessionCorrectionService;
+  let record: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    // 2026-10-19 12:00 JST
+    jest.useFakeTimers({ now: new Date('2026-10-19T03:00:00Z') });
+    jest.spyOn(PermissionService.prototype, 'authorize').mockResolvedValue({} as Membership);
+    record = jest.spyOn(AuditLogService.prototype, 'record').mockResolvedValue({} as never);
+
+    prisma = {
+      $transaction: jest.fn(),
+      workingSession: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUniqueOrThrow: jest.fn().mockResolvedValue(createSession()),
+        create: jest.fn(async ({ data }) => ({ id: 'session-2', ...data })),
+        update: jest.fn(async ({ data }) => ({ ...createSession(), ...data })),
+      },
+      workingBreak: { updateMany: jest.fn().mockResolvedValue({ count: 0 }) },
+      sessionCorrection: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findUnique: jest.fn().mockResolvedValue(createCorrection()),
+        findUniqueOrThrow: jest.fn(async () => createCorrection({ status: CorrectionStatus.REJECTED })),
+        create: jest.fn(async ({ data }) => ({ id: 'correction-1', ...data })),
+        update: jest.fn(async ({ data }) => ({ ...createCorrection(), ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      membership: { count: jest.fn().mockResolvedValue(1) },
+    };
+    prisma.$transaction.mockImplementation((callback) => callback(prisma));
+
+    service = new SessionCorrectionService(prisma as unknown as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('requestCorrection', () => {
+    it('セッションの元の値を残して修正を申請する', async () => {
+      prisma.workingSession.findMany.mockResolvedValue([createSession()]);
+
+      await service.requestCorrection('user-1', 'org-1', {
+        date: new Date('2026-10-15T00:00:00Z'),
+        timeZone: TOKYO,
+        checkoutTime: { hours: 18, minutes: 30 },
+        reason: '打刻忘れ',
+      });
+
+      expect(prisma.sessionCorrection.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            organizationId: 'org-1',
+            requesterId: 'user-1',
+            sessionId: 'session-1',
+            originalCheckinAt: new Date('2026-10-15T00:00:00Z'),
+            originalCheckoutAt: new Date('2026-10-15T09:00:00Z'),
+            checkinAt: new Date('2026-10-15T00:00:00Z'),
+            checkoutAt: new Date('2026-10-15T09:30:00Z'),
+            reason: '打刻忘れ',
+          },
+        })
+      );
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ action: 'correction.requested' }), prisma);
+    });
+
+    it('終了時刻が開始時刻以前の場合は翌日として扱う', async () => {
+      await service.requestCorrection('user-1', 'org-1', {
+        date: new Date('2026-10-15T00:00:00Z'),
+        timeZone: TOKYO,
+        checkinTime: { hours: 22, minutes: 0 },
+        checkoutTime: { hours: 2, minutes: 0 },
+      });
+
+      expect(prisma.sessionCorrection.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            sessionId: undefined,
+            checkinAt: new Date('2026-10-15T13:00:00Z'),
+            checkoutAt: new Date('2026-10-15T17:00:00Z'),
+          }),
+        })
+      );
+    });
+
+    it('他のセッションと重なる時間帯は申請できない', async () => {
+      prisma.workingSession.findMany.mockResolvedValue([createSession()]);
+      prisma.workingSession.findFirst.mockResolvedValue(createSession({ id: 'session-3' }));
+
+      await expect(
+        service.requestCorrection('user-1', 'org-1', {
+          date: new Date('2026-10-15T00:00:00Z'),
+          timeZone: TOKYO,
+          checkinTime: { hours: 8, minutes: 0 },
+        })
+      ).rejects.toThrow('指定した時間帯が他のセッションと重なっています。');
+
+      // 修正対象のセッション自身は重なりの確認から除く
+      expect(prisma.workingSession.findFirst).toHaveBeenCalledWith({
+        where: expect.objectContaining({ id: { not: 'session-1' } }),
+      });
+      expect(prisma.sessionCorrection.create).not.toHaveBeenCalled();
+    });
+
+    it('未来の時刻・承認待ちの申請があるセッションは申請できない', async () => {
+      const date = new Date('2026-10-19T00:00:00Z');
+      await expect(
+        service.requestCorrection('user-1', 'org-1', {
+          date,
+          timeZone: TOKYO,
+          checkinTime: { hours: 9, minutes: 0 },
+          checkoutTime: { hours: 18, minutes: 0 },
+        })
+      ).rejects.toThrow('未来の時刻は指定できません。');
+
+      prisma.workingSession.findMany.mockResolvedValue([createSession()]);
+      prisma.sessionCorrection.findFirst.mockResolvedValue(createCorrection());
+      await expect(
+        service.requestCorrection('user-1', 'org-1', {
+          date: new Date('2026-10-15T00:00:00Z'),
+          timeZone: TOKYO,
+          checkoutTime: { hours: 18, minutes: 30 },
+        })
+      ).rejects.toThrow('このセッションには承認待ちの修正申請があります。');
+    });
+  });
+
+  describe('approve', () => {
+    it('承認した時刻をセッションに反映し、未終了の休憩を終了する', async () => {
+      await service.approve('correction-1', 'admin-1');
+
+      expect(prisma.workingSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-1' },
+        data: {
+          checkinAt: new Date('2026-10-15T00:30:00Z'),
+          checkoutAt: new Date('2026-10-15T09:30:00Z'),
+          open: null,
+          needsReview: false,
+        },
+      });
+      expect(prisma.workingBreak.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-1', endAt: null },
+        data: { endAt: new Date('2026-10-15T09:30:00Z') },
+      });
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'correction.approved', actorId: 'admin-1' }),
+        prisma
+      );
+    });
+
+    it('終了時刻のない打刻漏れの追加は未終了のセッションとして作成する', async () => {
+      prisma.sessionCorrection.findUnique.mockResolvedValue(
+        createCorrection({ sessionId: null, checkoutAt: null, reason: '打刻漏れ' })
+      );
+
+      await service.approve('correction-1', 'admin-1');
+
+      expect(prisma.workingSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ checkoutAt: null, open: true, note: '打刻漏れ' }),
+      });
+      expect(prisma.sessionCorrection.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { sessionId: 'session-2' } })
+      );
+    });
+
+    it('未終了のセッションが既にある場合は承認できない', async () => {
+      prisma.sessionCorrection.findUnique.mockResolvedValue(
+        createCorrection({ sessionId: null, checkoutAt: null })
+      );
+      prisma.workingSession.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        })
+      );
+
+      await expect(service.approve('correction-1', 'admin-1')).rejects.toThrow(
+        '未終了のセッションが既にあるため承認できません。'
+      );
+    });
+
+    it('同時に処理された申請は反映しない', async () => {
+      prisma.sessionCorrection.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.approve('correction-1', 'admin-1')).rejects.toThrow('この申請は既に処理されています。');
+      expect(prisma.workingSession.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('自分の申請の審査', () => {
+    it('他にOWNER・ADMINがいる場合は自分の申請を承認できない', async () => {
+      await expect(service.approve('correction-1', 'user-1')).rejects.toThrow(PermissionDeniedError);
+      expect(prisma.sessionCorrection.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('他にOWNER・ADMINがいない場合は自分の申請を承認でき、監査ログに残す', async () => {
+      prisma.membership.count.mockResolvedValue(0);
+
+      await service.approve('correction-1', 'user-1');
+
+      expect(prisma.membership.count).toHaveBeenCalledWith({
+        where: expect.objectContaining({ organizationId: 'org-1', userId: { not: 'user-1' } }),
+      });
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'correction.approved', userId: 'user-1', actorId: 'user-1' }),
+        prisma
+      );
+    });
+  });
+
+  describe('reject', () => {
+    it('コメント付きで却下し、セッションは変更しない', async () => {
+      const rejected = await service.reject('correction-1', 'admin-1', '時刻を確認してください');
+
+      expect(prisma.sessionCorrection.updateMany).toHaveBeenCalledWith({
+        where: { id: 'correction-1', status: CorrectionStatus.PENDING },
+        data: expect.objectContaining({
+          status: CorrectionStatus.REJECTED,
+          reviewerId: 'admin-1',
+          reviewComment: '時刻を確認してください',
+        }),
+      });
+      expect(rejected.status).toBe(CorrectionStatus.REJECTED);
+      expect(prisma.workingSession.update).not.toHaveBeenCalled();
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ action: 'correction.rejected' }), prisma);
+    });
+
+    it('処理済みの申請は却下できない', async () => {
+      prisma.sessionCorrection.findUnique.mockResolvedValue(createCorrection({ status: CorrectionStatus.APPROVED }));
+
+      await expect(service.reject('correction-1', 'admin-1')).rejects.toThrow('この申請は既に処理されています。');
+      expect(prisma.sessionCorrection.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,507 @@
+import {
+  CorrectionStatus,
+  MembershipStatus,
+  Organization,
+  PrismaClient,
+  Role,
+  SessionCorrection,
+  User,
+  WorkingSession,
+} from '@prisma/client';
+import { attendanceEvents } from '../events/attendanceEvents';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import { addDays, startOfDay, zonedTime } from '../utils/timezone';
+import { isUniqueConstraintError } from '../utils/prismaErrors';
+
+/** 1つのセッションとして申請できる最大時間（24時間） */
+const MAX_SESSION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 時刻（時・分）
+ */
+export interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+/**
+ * 申請者・組織・対象セッション付きの修正申請
+ */
+export type SessionCorrectionWithRelations = SessionCorrection & {
+  requester: User;
+  organization: Organization;
+  session: WorkingSession | null;
+};
+
+/**
+ * 稼働セッションの修正申請サービス
+ *
+ * 申請は承認されるまでセッションに反映しないため、レポートには承認済みの値のみが使われる。
+ * 申請時点の元の値は申請に残す。
+ */
+export default class SessionCorrectionService {
+  private prisma: PrismaClient;
+  private permissionService: PermissionService;
+  private auditLogService: AuditLogService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.permissionService = new PermissionService(prisma);
+    this.auditLogService = new AuditLogService(prisma);
+  }
+
+  /**
+   * 指定した日のセッションの開始・終了時刻の修正を申請する（セッションがない日は打刻漏れとして追加を申請）
+   *
+   * 日付・時刻は timeZone（申請者のタイムゾーン）で解釈する。
+   * 省略した時刻は現在の値のまま。終了時刻が開始時刻以前の場合は翌日として扱う。
+   */
+  async requestCorrection(
+    userId: string,
+    organizationId: string,
+    input: {
+      date: Date;
+      timeZone: string;
+      checkinTime?: TimeOfDay;
+      checkoutTime?: TimeOfDay;
+      reason?: string;
+    }
+  ): Promise<SessionCorrectionWithRelations> {
+    await this.permissionService.authorize(userId, organizationId, 'session:edit_own');
+
+    const { date, timeZone } = input;
+    const sessions = await this.prisma.workingSession.findMany({
+      where: {
+        userId,
+        organizationId,
+        checkinAt: { gte: startOfDay(date, timeZone), lt: startOfDay(addDays(date, 1), timeZone) },
+      },
+      orderBy: { checkinAt: 'asc' },
+    });
+
+    const session = this.findTargetSession(sessions, date, timeZone, input.checkinTime);
+
+    if (!session && (!input.checkinTime || !input.checkoutTime)) {
+      throw new Error('この日のセッションがありません。追加するには開始・終了時刻の両方を指定してください。');
+    }
+
+    const checkinAt = input.checkinTime
+      ? this.atTime(date, input.checkinTime, timeZone)
+      : (session as WorkingSession).checkinAt;
+    let checkoutAt = input.checkoutTime
+      ? this.atTime(date, input.checkoutTime, timeZone)
+      : (session?.checkoutAt ?? null);
+    if (input.checkoutTime && checkoutAt && checkoutAt <= checkinAt) {
+      checkoutAt = this.atTime(addDays(date, 1), input.checkoutTime, timeZone);
+    }
+
+    return this.submit(userId, organizationId, session, checkinAt, checkoutAt, input.reason);
+  }
+
+  /**
+   * 自動終了したセッションの実際の終了時刻を申請する（本人のみ）
+   *
+   * 終了時刻は直接変更せず、通常の修正申請として管理者の承認を経て反映する。
+   */
+  async requestCheckoutCorrection(
+    sessionId: string,
+    userId: string,
+    checkoutAt: Date
+  ): Promise<SessionCorrectionWithRelations> {
+    const session = await this.prisma.workingSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session || !session.autoClosed || session.userId !== userId) {
+      throw new Error('修正できるセッションが見つかりません。');
+    }
+    await this.permissionService.authorize(userId, session.organizationId, 'session:edit_own');
+
+    if (checkoutAt <= session.checkinAt) {
+      throw new Error('終了時刻はチェックイン時刻より後を指定してください。');
+    }
+
+    return this.submit(
+      userId,
+      session.organizationId,
+      session,
+      session.checkinAt,
+      checkoutAt,
+      'チェックアウト忘れで自動終了したセッションの終了時刻'
+    );
+  }
+
+  /**
+   * 申請内容を検証して修正申請を作成する
+   */
+  private async submit(
+    userId: string,
+    organizationId: string,
+    session: WorkingSession | null,
+    checkinAt: Date,
+    checkoutAt: Date | null,
+    reason?: string
+  ): Promise<SessionCorrectionWithRelations> {
+    await this.validate(userId, organizationId, checkinAt, checkoutAt, session?.id);
+
+    if (session) {
+      const pending = await this.prisma.sessionCorrection.findFirst({
+        where: { sessionId: session.id, status: CorrectionStatus.PENDING },
+      });
+      if (pending) {
+        throw new Error('このセッションには承認待ちの修正申請があります。');
+      }
+    }
+
+    const correction = await this.prisma.$transaction(async (tx) => {
+      const correction = await tx.sessionCorrection.create({
+        data: {
+          organizationId,
+          requesterId: userId,
+          sessionId: session?.id,
+          originalCheckinAt: session?.checkinAt,
+          originalCheckoutAt: session?.checkoutAt,
+          checkinAt,
+          checkoutAt,
+          reason,
+        },
+        include: { requester: true, organization: true, session: true },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'correction.requested',
+          organizationId,
+          targetId: correction.id,
+          userId,
+          after: correction,
+        },
+        tx
+      );
+
+      return correction;
+    });
+
+    attendanceEvents.emit('correction_requested', { userId, organizationId, correction });
+    return correction;
+  }
+
+  /**
+   * 修正申請を承認してセッションに反映する
+   */
+  async approve(correctionId: string, reviewerId: string): Promise<SessionCorrectionWithRelations> {
+    const correction = await this.getPendingCorrection(correctionId, reviewerId);
+
+    const approved = await this.prisma.$transaction(async (tx) => {
+      // 同時に承認・却下された場合に二重に反映しないよう、承認待ちの場合のみ更新する
+      const { count } = await tx.sessionCorrection.updateMany({
+        where: { id: correction.id, status: CorrectionStatus.PENDING },
+        data: { status: CorrectionStatus.APPROVED, reviewerId, reviewedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new Error('この申請は既に処理されています。');
+      }
+
+      let sessionId = correction.sessionId;
+      let before: WorkingSession | null = null;
+      let after: WorkingSession;
+      if (sessionId) {
+        before = await tx.workingSession.findUniqueOrThrow({ where: { id: sessionId } });
+        after = await tx.workingSession.update({
+          where: { id: sessionId },
+          data: {
+            checkinAt: correction.checkinAt,
+            checkoutAt: correction.checkoutAt,
+            open: correction.checkoutAt ? null : true,
+            needsReview: false,
+          },
+        });
+
+        if (correction.checkoutAt) {
+          await tx.workingBreak.updateMany({
+            where: { sessionId, endAt: null },
+            data: { endAt: correction.checkoutAt },
+          });
+        }
+      } else {
+        after = await tx.workingSession.create({
+          data: {
+            userId: correction.requesterId,
+            organizationId: correction.organizationId,
+            checkinAt: correction.checkinAt,
+            checkoutAt: correction.checkoutAt,
+            open: correction.checkoutAt ? null : true,
+            note: correction.reason,
+          },
+        });
+        sessionId = after.id;
+      }
+
+      const approved = await tx.sessionCorrection.update({
+        where: { id: correction.id },
+        data: { sessionId },
+        include: { requester: true, organization: true, session: true },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'correction.approved',
+          organizationId: approved.organizationId,
+          targetId: approved.id,
+          userId: approved.requesterId,
+          before,
+          after,
+          actorId: reviewerId,
+        },
+        tx
+      );
+
+      return approved;
+    }).catch((error) => {
+      // 申請後にチェックインしていて、未終了のセッションが2つになる場合
+      if (isUniqueConstraintError(error)) {
+        throw new Error('未終了のセッションが既にあるため承認できません。先にチェックアウトしてください。');
+      }
+      throw error;
+    });
+
+    attendanceEvents.emit('correction_reviewed', {
+      userId: approved.requesterId,
+      organizationId: approved.organizationId,
+      correction: approved,
+    });
+    return approved;
+  }
+
+  /**
+   * 修正申請を却下する
+   */
+  async reject(
+    correctionId: string,
+    reviewerId: string,
+    comment?: string
+  ): Promise<SessionCorrectionWithRelations> {
+    const correction = await this.getPendingCorrection(correctionId, reviewerId);
+
+    const rejected = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.sessionCorrection.updateMany({
+        where: { id: correction.id, status: CorrectionStatus.PENDING },
+        data: {
+          status: CorrectionStatus.REJECTED,
+          reviewerId,
+          reviewedAt: new Date(),
+          reviewComment: comment,
+        },
+      });
+      if (count === 0) {
+        throw new Error('この申請は既に処理されています。');
+      }
+
+      const rejected = await tx.sessionCorrection.findUniqueOrThrow({
+        where: { id: correction.id },
+        include: { requester: true, organization: true, session: true },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'correction.rejected',
+          organizationId: rejected.organizationId,
+          targetId: rejected.id,
+          userId: rejected.requesterId,
+          before: correction,
+          after: rejected,
+          actorId: reviewerId,
+        },
+        tx
+      );
+
+      return rejected;
+    });
+
+    attendanceEvents.emit('correction_reviewed', {
+      userId: rejected.requesterId,
+      organizationId: rejected.organizationId,
+      correction: rejected,
+    });
+    return rejected;
+  }
+
+  /**
+   * 組織の承認待ちの修正申請を取得する（承認できるメンバーのみ）
+   */
+  async getPendingCorrections(
+    organizationId: string,
+    reviewerId: string
+  ): Promise<SessionCorrectionWithRelations[]> {
+    await this.permissionService.authorize(reviewerId, organizationId, 'session:edit_any');
+
+    return this.prisma.sessionCorrection.findMany({
+      where: { organizationId, status: CorrectionStatus.PENDING },
+      include: { requester: true, organization: true, session: true },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * 期間内（startDate 以上 endDate 未満）のセッションに承認待ちの修正申請があるか
+   */
+  async hasPendingCorrections(
+    userId: string,
+    organizationId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<boolean> {
+    const count = await this.prisma.sessionCorrection.count({
+      where: {
+        organizationId,
+        requesterId: userId,
+        status: CorrectionStatus.PENDING,
+        OR: [
+          { checkinAt: { gte: startDate, lt: endDate } },
+          { originalCheckinAt: { gte: startDate, lt: endDate } },
+        ],
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * IDから修正申請を取得する
+   */
+  async getCorrectionById(id: string): Promise<SessionCorrectionWithRelations | null> {
+    return this.prisma.sessionCorrection.findUnique({
+      where: { id },
+      include: { requester: true, organization: true, session: true },
+    });
+  }
+
+  /**
+   * 承認待ちの申請を取得し、審査できることを確認する
+   *
+   * 自分の申請は他のOWNER・ADMINが審査する。他に審査できるメンバーがいない場合のみ自分で審査できる
+   * （監査ログには申請者本人が審査したことが残る）。
+   */
+  private async getPendingCorrection(
+    correctionId: string,
+    reviewerId: string
+  ): Promise<SessionCorrection> {
+    const correction = await this.prisma.sessionCorrection.findUnique({
+      where: { id: correctionId },
+    });
+
+    if (!correction) {
+      throw new Error('修正申請が見つかりません。');
+    }
+
+    await this.permissionService.authorize(reviewerId, correction.organizationId, 'session:edit_any');
+    if (
+      correction.requesterId === reviewerId &&
+      (await this.hasOtherReviewers(correction.organizationId, reviewerId))
+    ) {
+      throw new PermissionDeniedError(
+        'session:edit_any',
+        '自分の修正申請は承認・却下できません。他のOWNER・ADMINに依頼してください。'
+      );
+    }
+
+    if (correction.status !== CorrectionStatus.PENDING) {
+      throw new Error('この申請は既に処理されています。');
+    }
+
+    return correction;
+  }
+
+  /**
+   * 組織に申請者以外の審査できるアクティブなメンバーがいるか
+   */
+  private async hasOtherReviewers(organizationId: string, userId: string): Promise<boolean> {
+    const reviewerRoles = Object.values(Role).filter((role) =>
+      PermissionService.hasPermission(role, 'session:edit_any')
+    );
+
+    const count = await this.prisma.membership.count({
+      where: {
+        organizationId,
+        userId: { not: userId },
+        role: { in: reviewerRoles },
+        status: MembershipStatus.ACTIVE,
+      },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * 修正対象のセッションを決める（複数ある場合は開始時刻が最も近いもの）
+   */
+  private findTargetSession(
+    sessions: WorkingSession[],
+    date: Date,
+    timeZone: string,
+    checkinTime?: TimeOfDay
+  ): WorkingSession | null {
+    if (sessions.length <= 1) {
+      return sessions[0] ?? null;
+    }
+    if (!checkinTime) {
+      throw new Error('この日は複数のセッションがあります。開始時刻を指定してください。');
+    }
+
+    const target = this.atTime(date, checkinTime, timeZone).getTime();
+    return sessions.reduce((nearest, session) =>
+      Math.abs(session.checkinAt.getTime() - target) < Math.abs(nearest.checkinAt.getTime() - target)
+        ? session
+        : nearest
+    );
+  }
+
+  /**
+   * 申請内容の時刻を検証する（未来の時刻・24時間超・他のセッションとの重複は不可）
+   */
+  private async validate(
+    userId: string,
+    organizationId: string,
+    checkinAt: Date,
+    checkoutAt: Date | null,
+    sessionId?: string
+  ): Promise<void> {
+    const now = new Date();
+
+    if (checkinAt > now || (checkoutAt && checkoutAt > now)) {
+      throw new Error('未来の時刻は指定できません。');
+    }
+    if (checkoutAt && checkoutAt.getTime() - checkinAt.getTime() > MAX_SESSION_MS) {
+      throw new Error('1つのセッションは24時間以内で指定してください。');
+    }
+
+    const overlapping = await this.prisma.workingSession.findFirst({
+      where: {
+        userId,
+        organizationId,
+        id: sessionId ? { not: sessionId } : undefined,
+        checkinAt: { lt: checkoutAt ?? now },
+        OR: [{ checkoutAt: null }, { checkoutAt: { gt: checkinAt } }],
+      },
+    });
+    if (overlapping) {
+      throw new Error('指定した時間帯が他のセッションと重なっています。');
+    }
+  }
+
+  /**
+   * 日付にタイムゾーンでの時刻を設定した日時を返す
+   */
+  private atTime(date: Date, time: TimeOfDay, timeZone: string): Date {
+    return zonedTime(
+      timeZone,
+      date.getUTCFullYear(),
+      date.getUTCMonth() + 1,
+      date.getUTCDate(),
+      time.hours,
+      time.minutes
+    );
+  }
+}
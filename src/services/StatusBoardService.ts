@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { Organization, PrismaClient, User } from '@prisma/client';
+import OrganizationService from './OrganizationService';
+import WorkingSessionService from './WorkingSessionService';
+import VacationService from './VacationService';
+import { resolveTimeZone, toCalendarDate } from '../utils/timezone';
+
+/**
+ * ステータスボードに表示するメンバーの状態
+ */
+export type MemberState = 'working' | 'on_break' | 'vacation' | 'offline';
+
+/**
+ * ステータスボードの1行分
+ */
+export interface MemberStatus {
+  user: User;
+  state: MemberState;
+  /** 稼働中・休憩中の場合のチェックイン時刻 */
+  checkinAt?: Date;
+  /** チェックイン・チェックアウト時のメモ */
+  note?: string | null;
+  /** 休暇の理由 */
+  vacationReason?: string | null;
+}
+
+/** 表示順（稼働中のメンバーを上に表示する） */
+const STATE_ORDER: Record<MemberState, number> = {
+  working: 0,
+  on_break: 1,
+  vacation: 2,
+  offline: 3,
+};
+
+/**
+ * Webのステータスボード（現在稼働中のメンバー一覧）のサービス
+ *
+ * ボードは組織ごとの閲覧用トークンを知っている人のみ閲覧できる。
+ */
+export default class StatusBoardService {
+  private organizationService: OrganizationService;
+  private workingSessionService: WorkingSessionService;
+  private vacationService: VacationService;
+
+  constructor(prisma: PrismaClient) {
+    this.organizationService = new OrganizationService(prisma);
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.vacationService = new VacationService(prisma);
+  }
+
+  /**
+   * 閲覧用トークンを生成する
+   */
+  createToken(): string {
+    return crypto.randomBytes(24).toString('base64url');
+  }
+
+  /**
+   * ボードのURLを取得する（トークン未発行の場合はnull）
+   */
+  getBoardUrl(organization: Organization): string | null {
+    if (!organization.statusBoardToken) {
+      return null;
+    }
+
+    const baseUrl = process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+    return `${baseUrl}/status/${encodeURIComponent(organization.slug)}?token=${organization.statusBoardToken}`;
+  }
+
+  /**
+   * slugとトークンから組織を取得する（トークンが一致しない場合はnull）
+   */
+  async findBoard(slug: string, token: string): Promise<Organization | null> {
+    const organization = await this.organizationService.findBySlug(slug);
+    if (!organization?.statusBoardToken) {
+      return null;
+    }
+
+    const expected = Buffer.from(organization.statusBoardToken);
+    const actual = Buffer.from(token);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    return organization;
+  }
+
+  /**
+   * 組織のアクティブメンバー全員の現在の状態を取得する（稼働中・休憩中・休暇・オフラインの順）
+   *
+   * 休暇は各メンバーのタイムゾーンでの今日の日付で判定する。
+   */
+  async getMemberStatuses(organization: Organization): Promise<MemberStatus[]> {
+    const organizationId = organization.id;
+    const now = new Date();
+
+    const [memberships, activeSessions] = await Promise.all([
+      this.organizationService.getActiveOrganizationMembers(organizationId),
+      this.workingSessionService.getAllActiveSessions(organizationId),
+    ]);
+
+    const todays = new Map(
+      memberships.map(({ user }) => [
+        user.id,
+        toCalendarDate(now, resolveTimeZone(user, organization)).getTime(),
+      ])
+    );
+    const vacations = await this.vacationService.getVacationsOnDates(
+      Array.from(new Set(todays.values()), (time) => new Date(time))
+    );
+
+    const statuses = memberships.map(({ user }): MemberStatus => {
+      const session = activeSessions.find((active) => active.userId === user.id);
+      if (session) {
+        const onBreak = session.breaks.some((workingBreak) => !workingBreak.endAt);
+        return {
+          user,
+          state: onBreak ? 'on_break' : 'working',
+          checkinAt: session.checkinAt,
+          note: session.note,
+        };
+      }
+
+      const vacation = vacations.find(
+        (item) =>
+          item.userId === user.id &&
+          item.organizationId === organizationId &&
+          item.date.getTime() === todays.get(user.id)
+      );
+      if (vacation) {
+        return { user, state: 'vacation', vacationReason: vacation.reason };
+      }
+
+      return { user, state: 'offline' };
+    });
+
+    return statuses.sort(
+      (a, b) =>
+        STATE_ORDER[a.state] - STATE_ORDER[b.state] ||
+        (a.checkinAt?.getTime() ?? 0) - (b.checkinAt?.getTime() ?? 0) ||
+        a.user.name.localeCompare(b.user.name, 'ja')
+    );
+  }
+}
@@ -0,0 +1,165 @@
+import ExcelJS from 'exceljs';
+import { Membership, Organization, PrismaClient, User, WorkingBreak } from '@prisma/client';
+import TimesheetService from './TimesheetService';
+import WorkingSessionService, { WorkingSessionWithBreaks } from './WorkingSessionService';
+import PermissionService from './PermissionService';
+
+const organization = {
+  id: 'org-1',
+  name: '株式会社サンプル',
+  slug: 'sample',
+  timeZone: 'Asia/Tokyo',
+  timesheetRoundingMinutes: 15,
+} as Organization;
+const taro = { id: 'user-1', name: '山田太郎', email: 'taro@example.com', timeZone: null } as User;
+const hanako = { id: 'user-2', name: '佐藤花子', email: 'hanako@example.com', timeZone: null } as User;
+
+function createSession(
+  id: string,
+  user: User,
+  checkinAt: string,
+  checkoutAt: string | null,
+  breaks: [string, string][] = []
+): WorkingSessionWithBreaks & { user: User } {
+  return {
+    id,
+    userId: user.id,
+    organizationId: organization.id,
+    checkinAt: new Date(checkinAt),
+    checkoutAt: checkoutAt ? new Date(checkoutAt) : null,
+    note: null,
+    breaks: breaks.map(
+      ([startAt, endAt]) => ({ startAt: new Date(startAt), endAt: new Date(endAt) }) as WorkingBreak
+    ),
+    user,
+  } as WorkingSessionWithBreaks & { user: User };
+}
+
+const options = {
+  startDate: new Date('2026-10-01T00:00:00Z'),
+  endDate: new Date('2026-10-31T00:00:00Z'),
+};
+
+describe('TimesheetService', () => {
+  let service: TimesheetService;
+  let authorize: jest.SpyInstance;
+  let getSessions: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    authorize = jest.spyOn(PermissionService.prototype, 'authorize').mockResolvedValue({} as Membership);
+    getSessions = jest.spyOn(WorkingSessionService.prototype, 'getOrganizationSessionsByDateRange').mockResolvedValue([
+      // 2026-10-15 09:00〜17:08 JST（休憩1時間）
+      createSession('session-1', taro, '2026-10-15T00:00:00Z', '2026-10-15T08:08:00Z', [
+        ['2026-10-15T03:00:00Z', '2026-10-15T04:00:00Z'],
+      ]),
+      // 2026-10-16 22:00〜10-17 02:00 JST
+      createSession('session-2', taro, '2026-10-16T13:00:00Z', '2026-10-16T17:00:00Z'),
+    ]);
+
+    service = new TimesheetService({} as PrismaClient);
+  });
+
+  it('日別の実働時間を組織の単位で丸め、日付をまたぐセッションは日ごとに計上する', async () => {
+    const days = await service.getTimesheetDays(organization, 'admin-1', options);
+
+    expect(days.map((day) => [day.date, day.breakHours, day.netHours, day.roundedHours])).toEqual([
+      [new Date('2026-10-15T00:00:00Z'), 1, 428 / 60, 7.25],
+      [new Date('2026-10-16T00:00:00Z'), 0, 2, 2],
+      [new Date('2026-10-17T00:00:00Z'), 0, 2, 2],
+    ]);
+    expect(authorize).toHaveBeenCalledWith('admin-1', 'org-1', 'timesheet:export_any');
+  });
+
+  it('丸め単位を指定した場合は組織の設定より優先する', async () => {
+    const days = await service.getTimesheetDays(organization, 'admin-1', { ...options, roundingMinutes: 30 });
+
+    expect(days[0].roundedHours).toBe(7);
+  });
+
+  it('期間の外の日に計上される部分は含めない', async () => {
+    const days = await service.getTimesheetDays(organization, 'user-1', {
+      startDate: new Date('2026-10-17T00:00:00Z'),
+      endDate: new Date('2026-10-17T00:00:00Z'),
+      userId: 'user-1',
+    });
+
+    expect(days).toHaveLength(1);
+    expect(days[0].entries[0].start).toEqual(new Date('2026-10-16T15:00:00Z'));
+    expect(authorize).toHaveBeenCalledWith('user-1', 'org-1', 'timesheet:export_own');
+    expect(getSessions).toHaveBeenCalledWith(
+      'org-1',
+      new Date('2026-10-16T00:00:00Z'),
+      new Date('2026-10-19T00:00:00Z'),
+      'user-1'
+    );
+  });
+
+  it('不正な期間・丸め単位はエラーにする', async () => {
+    await expect(
+      service.getTimesheetDays(organization, 'admin-1', { startDate: options.endDate, endDate: options.startDate })
+    ).rejects.toThrow('終了日は開始日以降を指定してください。');
+    await expect(
+      service.getTimesheetDays(organization, 'admin-1', {
+        startDate: new Date('2026-01-01T00:00:00Z'),
+        endDate: new Date('2027-01-02T00:00:00Z'),
+      })
+    ).rejects.toThrow('勤務表は366日以内の期間で出力してください。');
+    await expect(
+      service.getTimesheetDays(organization, 'admin-1', { ...options, roundingMinutes: 0 })
+    ).rejects.toThrow('丸め単位は1〜60分の整数で指定してください。');
+  });
+
+  it('CSVでは日別小計を各日の最後の行に記載し、メンバーごとの合計を追加する', async () => {
+    getSessions.mockResolvedValue([
+      createSession('session-1', taro, '2026-10-15T00:00:00Z', '2026-10-15T08:08:00Z', [
+        ['2026-10-15T03:00:00Z', '2026-10-15T04:00:00Z'],
+      ]),
+      createSession('session-3', taro, '2026-10-15T09:00:00Z', '2026-10-15T10:00:00Z'),
+      createSession('session-4', hanako, '2026-10-15T00:00:00Z', null),
+    ]);
+
+    const file = await service.exportTimesheet(organization, 'admin-1', options, 'csv');
+    const lines = (file.content as string).replace('\uFEFF', '').split('\r\n');
+
+    expect(file.filename).toBe('timesheet-sample-2026-10-01_2026-10-31.csv');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '2026-10-15,山田太郎,taro@example.com,09:00,17:08,1,7.13,,',
+        '2026-10-15,山田太郎,taro@example.com,18:00,19:00,0,1,8.25,',
+        '山田太郎 合計,,,,,1,8.13,8.25,',
+        '2026-10-15,佐藤花子,hanako@example.com,09:00,,,,0,（未終了）',
+        '佐藤花子 合計,,,,,0,0,0,',
+        '合計,,,,,1,8.13,8.25,',
+      ])
+    );
+    expect(lines[lines.length - 2]).toBe('合計,,,,,1,8.13,8.25,');
+  });
+
+  it('Excelでは数値の書式と丸め単位の注記を付けて出力する', async () => {
+    const file = await service.exportTimesheet(organization, 'admin-1', options, 'xlsx');
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.content as unknown as ExcelJS.Buffer);
+    const sheet = workbook.getWorksheet('勤務表');
+
+    expect(file.filename).toBe('timesheet-sample-2026-10-01_2026-10-31.xlsx');
+    expect(sheet?.getRow(1).getCell(1).value).toBe('日付');
+    expect(sheet?.getRow(2).values).toEqual([
+      undefined,
+      '2026-10-15',
+      '山田太郎',
+      'taro@example.com',
+      '09:00',
+      '17:08',
+      1,
+      7.13,
+      7.25,
+    ]);
+    expect(sheet?.getRow(3).getCell(5).value).toBe('2026-10-17 00:00');
+    expect(sheet?.getRow(2).getCell(7).numFmt).toBe('0.00');
+    expect(sheet?.getRow(5).getCell(1).value).toBe('合計');
+    expect(sheet?.getRow(5).font?.bold).toBe(true);
+    expect(sheet?.getRow(7).getCell(1).value).toBe('株式会社サンプル / 日別小計は15分単位で丸めています');
+  });
+});
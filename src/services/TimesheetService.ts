@@ -0,0 +1,320 @@
+import ExcelJS from 'exceljs';
+import { Organization, PrismaClient, User } from '@prisma/client';
+import WorkingSessionService, { WorkingSessionWithBreaks } from './WorkingSessionService';
+import PermissionService from './PermissionService';
+import { CsvValue, toCsv } from '../utils/csv';
+import {
+  addDays,
+  diffDays,
+  formatClockTime,
+  formatDate,
+  resolveTimeZone,
+  toCalendarDate,
+} from '../utils/timezone';
+
+/** 一度に出力できる最大日数 */
+const MAX_TIMESHEET_DAYS = 366;
+
+/**
+ * 勤務表の出力形式
+ */
+export type TimesheetFormat = 'csv' | 'xlsx';
+
+/**
+ * 勤務表の出力条件
+ */
+export interface TimesheetOptions {
+  startDate: Date;
+  /** 終了日（この日を含む） */
+  endDate: Date;
+  /** 対象のメンバー（省略時は組織全体） */
+  userId?: string;
+  /** 日別の実働時間を丸める単位（分、省略時は組織の設定） */
+  roundingMinutes?: number;
+}
+
+/**
+ * 勤務表の1行（日付をまたぐセッションは日ごとに分割する）
+ */
+export interface TimesheetEntry {
+  session: WorkingSessionWithBreaks;
+  start: Date;
+  /** 終了時刻（未終了のセッションはnull） */
+  end: Date | null;
+  /** 休憩時間（時間） */
+  breakHours: number;
+  /** 実働時間（時間） */
+  netHours: number;
+}
+
+/**
+ * メンバーの1日分の勤務
+ */
+export interface TimesheetDay {
+  user: User;
+  /** メンバーのタイムゾーンでの日付 */
+  date: Date;
+  /** メンバーのタイムゾーン */
+  timeZone: string;
+  entries: TimesheetEntry[];
+  /** 休憩時間の合計（時間） */
+  breakHours: number;
+  /** 実働時間の合計（時間、終了済みのセッションのみ） */
+  netHours: number;
+  /** 丸めた実働時間（時間） */
+  roundedHours: number;
+}
+
+/**
+ * 出力した勤務表のファイル
+ */
+export interface TimesheetFile {
+  filename: string;
+  content: string | Buffer;
+}
+
+const HEADER = [
+  '日付',
+  'メンバー',
+  'メールアドレス',
+  '開始',
+  '終了',
+  '休憩（時間）',
+  '実働（時間）',
+  '日別小計（時間）',
+  'メモ',
+];
+
+/**
+ * 勤務表（期間内のセッションの一覧）をCSV・Excel形式で出力するサービス
+ *
+ * 日付はメンバーのタイムゾーンで数え、日付をまたぐセッションは日付が変わる時刻で分けてそれぞれの日に計上する。
+ * 日別の小計のみ設定した単位で丸める（最も近い単位に四捨五入）。
+ */
+export default class TimesheetService {
+  private workingSessionService: WorkingSessionService;
+  private permissionService: PermissionService;
+
+  constructor(prisma: PrismaClient) {
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.permissionService = new PermissionService(prisma);
+  }
+
+  /**
+   * 勤務表を出力する（自分以外・組織全体はOWNER・ADMINのみ）
+   */
+  async exportTimesheet(
+    organization: Organization,
+    actorId: string,
+    options: TimesheetOptions,
+    format: TimesheetFormat
+  ): Promise<TimesheetFile> {
+    const days = await this.getTimesheetDays(organization, actorId, options);
+    const roundingMinutes = options.roundingMinutes ?? organization.timesheetRoundingMinutes;
+    const rows = this.toRows(days);
+
+    const period = `${formatDate(options.startDate)}_${formatDate(options.endDate)}`;
+    const filename = `timesheet-${organization.slug}-${period}.${format}`;
+
+    if (format === 'csv') {
+      return { filename, content: toCsv([HEADER, ...rows]) };
+    }
+
+    return { filename, content: await this.toXlsx(organization, roundingMinutes, rows) };
+  }
+
+  /**
+   * 期間内のセッションをメンバー・日付ごとにまとめる（メンバー名・日付順）
+   */
+  async getTimesheetDays(
+    organization: Organization,
+    actorId: string,
+    options: TimesheetOptions
+  ): Promise<TimesheetDay[]> {
+    await this.permissionService.authorize(
+      actorId,
+      organization.id,
+      options.userId === actorId ? 'timesheet:export_own' : 'timesheet:export_any'
+    );
+
+    if (options.endDate < options.startDate) {
+      throw new Error('終了日は開始日以降を指定してください。');
+    }
+    if (diffDays(options.startDate, options.endDate) + 1 > MAX_TIMESHEET_DAYS) {
+      throw new Error(`勤務表は${MAX_TIMESHEET_DAYS}日以内の期間で出力してください。`);
+    }
+
+    const roundingMinutes = options.roundingMinutes ?? organization.timesheetRoundingMinutes;
+    if (!Number.isInteger(roundingMinutes) || roundingMinutes < 1 || roundingMinutes > 60) {
+      throw new Error('丸め単位は1〜60分の整数で指定してください。');
+    }
+
+    // メンバーごとにタイムゾーンが異なるため前後1日広く取得し、日付で絞り込む
+    const sessions = await this.workingSessionService.getOrganizationSessionsByDateRange(
+      organization.id,
+      addDays(options.startDate, -1),
+      addDays(options.endDate, 2),
+      options.userId
+    );
+
+    const days = new Map<string, TimesheetDay>();
+    for (const session of sessions) {
+      const timeZone = resolveTimeZone(session.user, organization);
+
+      for (const entry of this.toEntries(session, timeZone)) {
+        const date = toCalendarDate(entry.start, timeZone);
+        if (date < options.startDate || date > options.endDate) {
+          continue;
+        }
+
+        const key = `${session.userId}:${date.getTime()}`;
+        const day = days.get(key) ?? {
+          user: session.user,
+          date,
+          timeZone,
+          entries: [],
+          breakHours: 0,
+          netHours: 0,
+          roundedHours: 0,
+        };
+
+        day.entries.push(entry);
+        day.breakHours += entry.breakHours;
+        day.netHours += entry.netHours;
+        days.set(key, day);
+      }
+    }
+
+    return Array.from(days.values())
+      .map((day) => ({ ...day, roundedHours: this.round(day.netHours, roundingMinutes) }))
+      .sort(
+        (a, b) =>
+          a.user.name.localeCompare(b.user.name, 'ja') ||
+          a.user.id.localeCompare(b.user.id) ||
+          a.date.getTime() - b.date.getTime()
+      );
+  }
+
+  /**
+   * セッションを日ごとの行に分割する
+   *
+   * 未終了のセッションは稼働時間に含めない（月次レポートと同じ扱い）ため、チェックイン時刻の1行のみとする。
+   */
+  private toEntries(session: WorkingSessionWithBreaks, timeZone: string): TimesheetEntry[] {
+    if (!session.checkoutAt) {
+      return [{ session, start: session.checkinAt, end: null, breakHours: 0, netHours: 0 }];
+    }
+
+    return this.workingSessionService.splitByDay(session, timeZone).map((segment) => ({
+      session,
+      start: segment.start,
+      end: segment.end,
+      breakHours: segment.breakHours,
+      netHours: segment.workingHours,
+    }));
+  }
+
+  /**
+   * 勤務表の行を作成する
+   *
+   * 日別小計は各日の最後の行に記載する。複数のメンバーを含む場合はメンバーごとの合計行も追加し、最後に全体の合計行を追加する。
+   */
+  private toRows(days: TimesheetDay[]): CsvValue[][] {
+    const rows: CsvValue[][] = [];
+    const memberIds = new Set(days.map((day) => day.user.id));
+
+    for (const userId of memberIds) {
+      const memberDays = days.filter((day) => day.user.id === userId);
+
+      for (const day of memberDays) {
+        day.entries.forEach(({ session, start, end, breakHours, netHours }, index) => {
+          rows.push([
+            formatDate(day.date),
+            day.user.name,
+            day.user.email,
+            this.formatTime(start, day),
+            end ? this.formatTime(end, day) : '',
+            end ? this.toHours(breakHours) : '',
+            end ? this.toHours(netHours) : '',
+            index === day.entries.length - 1 ? this.toHours(day.roundedHours) : '',
+            end ? session.note : [session.note, '（未終了）'].filter(Boolean).join(' '),
+          ]);
+        });
+      }
+
+      if (memberIds.size > 1) {
+        rows.push(this.totalRow(`${memberDays[0].user.name} 合計`, memberDays));
+      }
+    }
+
+    rows.push(this.totalRow('合計', days));
+    return rows;
+  }
+
+  /**
+   * 合計行を作成する
+   */
+  private totalRow(label: string, days: TimesheetDay[]): CsvValue[] {
+    const sum = (key: 'breakHours' | 'netHours' | 'roundedHours') =>
+      this.toHours(days.reduce((total, day) => total + day[key], 0));
+
+    return [label, '', '', '', '', sum('breakHours'), sum('netHours'), sum('roundedHours'), ''];
+  }
+
+  /**
+   * Excel形式のファイルを作成する
+   */
+  private async toXlsx(
+    organization: Organization,
+    roundingMinutes: number,
+    rows: CsvValue[][]
+  ): Promise<Buffer> {
+    const workbook = new ExcelJS.Workbook();
+    const sheet = workbook.addWorksheet('勤務表');
+
+    sheet.columns = HEADER.map((header, index) => ({
+      header,
+      width: [12, 16, 24, 8, 18, 12, 12, 16, 40][index],
+    }));
+    sheet.getRow(1).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+
+    for (const row of rows) {
+      const added = sheet.addRow(row);
+      if (String(row[0]).endsWith('合計')) added.font = { bold: true };
+    }
+
+    for (const column of [6, 7, 8]) {
+      sheet.getColumn(column).numFmt = '0.00';
+    }
+
+    sheet.addRow([]);
+    sheet.addRow([`${organization.name} / 日別小計は${roundingMinutes}分単位で丸めています`]);
+
+    return Buffer.from(await workbook.xlsx.writeBuffer());
+  }
+
+  /**
+   * 時間を丸める単位の倍数に四捨五入する
+   */
+  private round(hours: number, roundingMinutes: number): number {
+    return (Math.round((hours * 60) / roundingMinutes) * roundingMinutes) / 60;
+  }
+
+  /**
+   * 時間を小数点以下2桁の数値にする
+   */
+  private toHours(hours: number): number {
+    return Math.round(hours * 100) / 100;
+  }
+
+  /**
+   * 時刻をメンバーのタイムゾーンでHH:MM形式にフォーマット（勤務日と日付が異なる場合は日付も付ける）
+   */
+  private formatTime(date: Date, day: TimesheetDay): string {
+    const time = formatClockTime(date, day.timeZone);
+    const calendarDate = toCalendarDate(date, day.timeZone);
+
+    return calendarDate.getTime() === day.date.getTime() ? time : `${formatDate(calendarDate)} ${time}`;
+  }
+}
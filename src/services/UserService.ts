@@ -1,10 +1,34 @@
-import { PrismaClient, User, Membership, Role, MembershipStatus } from '@prisma/client';
+import crypto from 'crypto';
+import {
+  PrismaClient,
+  User,
+  Membership,
+  Organization,
+  Role,
+  MembershipStatus,
+  AccountLinkCode,
+} from '@prisma/client';
+import { Platform } from '../commands/types';
+import { decrypt, encrypt } from '../utils/crypto';
+import { getCurrentActor } from '../utils/auditContext';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+
+/** アカウント連携コードの有効期限（10分） */
+const LINK_CODE_EXPIRES_IN_MS = 10 * 60 * 1000;
+
+/** 連携コードに使う文字（読み間違えやすい文字を除く） */
+const LINK_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
 
 export default class UserService {
   private prisma: PrismaClient;
+  private permissionService: PermissionService;
+  private auditLogService: AuditLogService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.permissionService = new PermissionService(prisma);
+    this.auditLogService = new AuditLogService(prisma);
   }
 
   /**
@@ -16,7 +40,7 @@ export default class UserService {
     slackUserId?: string,
     chatworkUserId?: string
   ): Promise<User> {
-    return this.prisma.user.create({
+    const user = await this.prisma.user.create({
       data: {
         name,
         email,
@@ -24,6 +48,26 @@ export default class UserService {
         chatworkUserId,
       },
     });
+
+    // 本人による登録では操作者を本人とする（管理者による招待では管理者）
+    await this.auditLogService.record({
+      action: 'user.created',
+      targetId: user.id,
+      userId: user.id,
+      after: user,
+      actorId: getCurrentActor()?.actorId ?? user.id,
+    });
+
+    return user;
+  }
+
+  /**
+   * IDからユーザーを検索する
+   */
+  async findById(id: string): Promise<User | null> {
+    return this.prisma.user.findUnique({
+      where: { id },
+    });
   }
 
   /**
@@ -44,6 +88,18 @@ export default class UserService {
     });
   }
 
+  /**
+   * プラットフォームのユーザーIDからユーザーを検索する
+   */
+  async findByPlatformUserId(platform: Platform, externalUserId: string): Promise<User | null> {
+    switch (platform) {
+      case 'slack':
+        return this.findBySlackUserId(externalUserId);
+      case 'chatwork':
+        return this.findByChatworkUserId(externalUserId);
+    }
+  }
+
   /**
    * メールアドレスからユーザーを検索する
    */
@@ -53,32 +109,279 @@ export default class UserService {
     });
   }
 
+  /**
+   * メールアドレス・Slackのメンション・Chatworkの宛先からユーザーを検索する
+   */
+  async findByReference(reference: string): Promise<User | null> {
+    const slackMention = reference.match(/^<@([A-Z0-9]+)(?:\|[^>]*)?>$/);
+    if (slackMention) {
+      return this.findBySlackUserId(slackMention[1]);
+    }
+
+    // Chatworkの宛先は「[To:123]名前さん」の形式で送られる
+    const chatworkTo = reference.match(/^\[To:(\d+)\]/);
+    if (chatworkTo) {
+      return this.findByChatworkUserId(chatworkTo[1]);
+    }
+
+    if (UserService.isEmail(reference)) {
+      return this.findByEmail(reference);
+    }
+
+    return null;
+  }
+
+  /**
+   * メールアドレス形式か
+   */
+  static isEmail(value: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+  }
+
+  /**
+   * プラットフォームのアカウントをユーザーに紐付ける
+   */
+  async linkPlatformAccount(
+    userId: string,
+    platform: Platform,
+    externalUserId: string
+  ): Promise<User> {
+    const linkedUser = await this.findByPlatformUserId(platform, externalUserId);
+    if (linkedUser && linkedUser.id !== userId) {
+      throw new Error('このアカウントは既に別のユーザーに紐付けられています。');
+    }
+
+    const before = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: platform === 'slack' ? { slackUserId: externalUserId } : { chatworkUserId: externalUserId },
+    });
+
+    await this.auditLogService.record({
+      action: 'user.account_linked',
+      targetId: user.id,
+      userId: user.id,
+      before: { slackUserId: before.slackUserId, chatworkUserId: before.chatworkUserId },
+      after: { slackUserId: user.slackUserId, chatworkUserId: user.chatworkUserId },
+      actorId: getCurrentActor()?.actorId ?? user.id,
+    });
+
+    return user;
+  }
+
+  /**
+   * アカウント連携用のワンタイムコードを発行する
+   */
+  async createLinkCode(userId: string): Promise<AccountLinkCode> {
+    // 同じユーザーの古いコードは無効にする
+    await this.prisma.accountLinkCode.deleteMany({
+      where: { userId },
+    });
+
+    const code = Array.from(crypto.randomBytes(8))
+      .map((byte) => LINK_CODE_ALPHABET[byte % LINK_CODE_ALPHABET.length])
+      .join('');
+
+    return this.prisma.accountLinkCode.create({
+      data: {
+        code,
+        userId,
+        expiresAt: new Date(Date.now() + LINK_CODE_EXPIRES_IN_MS),
+      },
+    });
+  }
+
+  /**
+   * ワンタイムコードを使ってプラットフォームのアカウントを紐付ける（コードは使用後に削除）
+   */
+  async redeemLinkCode(
+    code: string,
+    platform: Platform,
+    externalUserId: string
+  ): Promise<User> {
+    const linkCode = await this.prisma.accountLinkCode.findUnique({
+      where: { code: code.toUpperCase() },
+    });
+
+    if (!linkCode || linkCode.expiresAt < new Date()) {
+      throw new Error('連携コードが無効か期限切れです。もう一度コードを発行してください。');
+    }
+
+    const user = await this.linkPlatformAccount(linkCode.userId, platform, externalUserId);
+
+    await this.prisma.accountLinkCode.delete({
+      where: { id: linkCode.id },
+    });
+
+    return user;
+  }
+
+  /**
+   * デフォルトの組織を設定する
+   */
+  async setDefaultOrganization(
+    userId: string,
+    organizationId: string | null
+  ): Promise<User> {
+    const before = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { defaultOrganizationId: organizationId },
+    });
+
+    await this.auditLogService.record({
+      action: 'user.default_organization_changed',
+      organizationId,
+      targetId: user.id,
+      userId: user.id,
+      before: { defaultOrganizationId: before.defaultOrganizationId },
+      after: { defaultOrganizationId: user.defaultOrganizationId },
+    });
+
+    return user;
+  }
+
+  /**
+   * ユーザーのタイムゾーンを設定する（nullで組織の設定に戻す）
+   */
+  async updateTimeZone(userId: string, timeZone: string | null): Promise<User> {
+    const before = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { timeZone },
+    });
+
+    await this.auditLogService.record({
+      action: 'user.time_zone_changed',
+      targetId: user.id,
+      userId: user.id,
+      before: { timeZone: before.timeZone },
+      after: { timeZone: user.timeZone },
+    });
+
+    return user;
+  }
+
+  /**
+   * Slackステータス更新用のユーザートークンを保存する（nullで削除）
+   */
+  async setSlackUserToken(userId: string, token: string | null): Promise<User> {
+    const before = await this.prisma.user.findUniqueOrThrow({ where: { id: userId } });
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: { slackUserToken: token ? encrypt(token) : null },
+    });
+
+    // トークン自体は記録せず、連携の有無のみ記録する
+    await this.auditLogService.record({
+      action: 'user.slack_token_changed',
+      targetId: user.id,
+      userId: user.id,
+      before: { connected: before.slackUserToken !== null },
+      after: { connected: user.slackUserToken !== null },
+      actorId: getCurrentActor()?.actorId ?? user.id,
+    });
+
+    return user;
+  }
+
+  /**
+   * 保存済みのSlackユーザートークンを取得する
+   */
+  getSlackUserToken(user: User): string | null {
+    return user.slackUserToken ? decrypt(user.slackUserToken) : null;
+  }
+
   /**
    * ユーザーを組織に招待する
    */
   async inviteUserToOrganization(
     userId: string,
     organizationId: string,
-    role: Role = Role.MEMBER
+    role: Role,
+    actorId: string
   ): Promise<Membership> {
-    return this.prisma.membership.create({
-      data: {
-        userId,
-        organizationId,
-        role,
-        status: MembershipStatus.INVITED,
+    await this.permissionService.authorizeInvitation(actorId, organizationId, role);
+
+    const membership = await this.prisma.membership.findUnique({
+      where: {
+        userId_organizationId: {
+          userId,
+          organizationId,
+        },
       },
     });
+
+    if (membership && membership.status !== MembershipStatus.LEFT) {
+      throw new Error('このユーザーは既に組織のメンバーか招待済みです。');
+    }
+
+    // 退会済みのユーザーは同じメンバーシップを招待状態に戻す
+    const invited = membership
+      ? await this.prisma.membership.update({
+          where: { id: membership.id },
+          data: { role, status: MembershipStatus.INVITED },
+        })
+      : await this.prisma.membership.create({
+          data: {
+            userId,
+            organizationId,
+            role,
+            status: MembershipStatus.INVITED,
+          },
+        });
+
+    await this.auditLogService.record({
+      action: 'membership.invited',
+      organizationId,
+      targetId: invited.id,
+      userId,
+      before: membership,
+      after: invited,
+      actorId,
+    });
+
+    return invited;
   }
 
   /**
    * 招待を承認する
    */
   async acceptInvitation(membershipId: string): Promise<Membership> {
-    return this.prisma.membership.update({
+    const before = await this.prisma.membership.findUniqueOrThrow({ where: { id: membershipId } });
+    const membership = await this.prisma.membership.update({
       where: { id: membershipId },
       data: { status: MembershipStatus.ACTIVE },
     });
+
+    await this.auditLogService.record({
+      action: 'membership.accepted',
+      organizationId: membership.organizationId,
+      targetId: membership.id,
+      userId: membership.userId,
+      before,
+      after: membership,
+      actorId: membership.userId,
+    });
+
+    return membership;
+  }
+
+  /**
+   * 承認待ちの招待を取得する
+   */
+  async getPendingInvitations(
+    userId: string
+  ): Promise<(Membership & { organization: Organization })[]> {
+    return this.prisma.membership.findMany({
+      where: {
+        userId,
+        status: MembershipStatus.INVITED,
+      },
+      include: {
+        organization: true,
+      },
+    });
   }
 
   /**
@@ -0,0 +1,74 @@
+import { Organization, Prisma, PrismaClient, User, Vacation } from '@prisma/client';
+import VacationService from './VacationService';
+import GoogleCredentialService from './GoogleCredentialService';
+import GoogleCalendarService from './GoogleCalendarService';
+
+const user = { id: 'user-1', name: '山田太郎', email: 'taro@example.com' } as User;
+const organization = {
+  id: 'org-1',
+  googleCalendarId: 'calendar@example.com',
+  timeZone: 'Asia/Tokyo',
+} as Organization;
+const date = new Date('2026-11-03T00:00:00Z');
+
+describe('VacationService', () => {
+  let prisma: {
+    vacation: { findUnique: jest.Mock; create: jest.Mock; update: jest.Mock; delete: jest.Mock };
+  };
+  let deleteVacationEvent: jest.Mock;
+  let service: VacationService;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    prisma = {
+      vacation: { findUnique: jest.fn(), create: jest.fn(), update: jest.fn(), delete: jest.fn() },
+    };
+    deleteVacationEvent = jest.fn();
+    jest.spyOn(GoogleCredentialService.prototype, 'getCalendarService').mockResolvedValue({
+      createVacationEvent: jest.fn().mockResolvedValue({}),
+      deleteVacationEvent,
+    } as unknown as GoogleCalendarService);
+
+    service = new VacationService(prisma as unknown as PrismaClient);
+  });
+
+  it('同時に登録された日付は登録済みとしてスキップする', async () => {
+    prisma.vacation.findUnique.mockResolvedValue(null);
+    prisma.vacation.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+      })
+    );
+
+    const result = await service.requestVacation(user, organization, date, date);
+
+    expect(result).toEqual({ vacations: [], skippedDates: [date] });
+  });
+
+  it('カレンダーの予定を削除してから休暇を取り消す', async () => {
+    const vacation = { id: 'vacation-1', date, googleEventId: 'event-1' } as Vacation;
+    prisma.vacation.findUnique.mockResolvedValue(vacation);
+    prisma.vacation.delete.mockResolvedValue(vacation);
+    deleteVacationEvent.mockResolvedValue(undefined);
+
+    const result = await service.cancelVacation(user, organization, date);
+
+    expect(deleteVacationEvent).toHaveBeenCalledWith('calendar@example.com', 'event-1');
+    expect(prisma.vacation.delete).toHaveBeenCalledWith({ where: { id: 'vacation-1' } });
+    expect(result).toBe(vacation);
+  });
+
+  it('カレンダーの予定を削除できない場合は休暇を取り消さない', async () => {
+    const vacation = { id: 'vacation-1', date, googleEventId: 'event-1' } as Vacation;
+    prisma.vacation.findUnique.mockResolvedValue(vacation);
+    deleteVacationEvent.mockRejectedValue(new Error('Backend Error'));
+
+    await expect(service.cancelVacation(user, organization, date)).rejects.toThrow(
+      'カレンダーの予定を削除できなかったため、休暇を取り消していません。'
+    );
+    expect(prisma.vacation.delete).not.toHaveBeenCalled();
+  });
+});
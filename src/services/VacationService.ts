@@ -0,0 +1,323 @@
+import { PrismaClient, Organization, User, Vacation, VacationType } from '@prisma/client';
+import GoogleCalendarService from './GoogleCalendarService';
+import GoogleCredentialService from './GoogleCredentialService';
+import { attendanceEvents } from '../events/attendanceEvents';
+import { addDays, resolveTimeZone } from '../utils/timezone';
+import { isUniqueConstraintError } from '../utils/prismaErrors';
+
+/** カレンダーの予定のタイトルに付ける半休の表示 */
+const HALF_DAY_SUFFIXES: Record<VacationType, string> = {
+  FULL_DAY: '',
+  AM_HALF: '（午前半休）',
+  PM_HALF: '（午後半休）',
+};
+
+/**
+ * 休暇申請の登録結果
+ */
+export interface VacationRequestResult {
+  /** 新しく登録した休暇 */
+  vacations: Vacation[];
+  /** 既に登録済みのため登録しなかった日付 */
+  skippedDates: Date[];
+}
+
+export default class VacationService {
+  private prisma: PrismaClient;
+  private googleCredentialService: GoogleCredentialService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.googleCredentialService = new GoogleCredentialService(prisma);
+  }
+
+  /**
+   * 休暇を申請する（期間内の日付ごとに登録し、カレンダーへ予定を作成）
+   *
+   * 半休は1日分のみ申請できる。
+   */
+  async requestVacation(
+    user: User,
+    organization: Organization,
+    startDate: Date,
+    endDate: Date,
+    reason?: string,
+    type: VacationType = VacationType.FULL_DAY
+  ): Promise<VacationRequestResult> {
+    if (type !== VacationType.FULL_DAY && endDate.getTime() !== startDate.getTime()) {
+      throw new Error('半休は1日ずつ申請してください。');
+    }
+
+    const calendarService = await this.getCalendarService(organization);
+    const vacations: Vacation[] = [];
+    const skippedDates: Date[] = [];
+
+    for (const date of this.eachDate(startDate, endDate)) {
+      const existing = await this.findVacation(user.id, organization.id, date);
+      if (existing) {
+        skippedDates.push(date);
+        continue;
+      }
+
+      let vacation: Vacation;
+      try {
+        vacation = await this.prisma.vacation.create({
+          data: {
+            userId: user.id,
+            organizationId: organization.id,
+            date,
+            type,
+            reason,
+          },
+        });
+      } catch (error) {
+        // 同時に申請された場合は登録済みとして扱う
+        if (isUniqueConstraintError(error)) {
+          skippedDates.push(date);
+          continue;
+        }
+        throw error;
+      }
+
+      // カレンダー登録に失敗しても休暇自体は登録済みとして扱う
+      if (calendarService && organization.googleCalendarId) {
+        try {
+          const event = await calendarService.createVacationEvent(
+            organization.googleCalendarId,
+            `${user.name} 休暇${HALF_DAY_SUFFIXES[type]}`,
+            reason || '',
+            date,
+            addDays(date, 1),
+            resolveTimeZone(user, organization),
+            user.email
+          );
+
+          if (event.id) {
+            vacation = await this.prisma.vacation.update({
+              where: { id: vacation.id },
+              data: { googleEventId: event.id },
+            });
+          }
+        } catch (error) {
+          console.error('休暇のカレンダー登録エラー:', error);
+        }
+      }
+
+      vacations.push(vacation);
+    }
+
+    if (vacations.length > 0) {
+      attendanceEvents.emit('vacation_requested', {
+        userId: user.id,
+        organizationId: organization.id,
+        vacations,
+      });
+    }
+
+    return { vacations, skippedDates };
+  }
+
+  /**
+   * 休暇を取り消す（カレンダーの予定も削除）
+   */
+  async cancelVacation(
+    user: User,
+    organization: Organization,
+    date: Date
+  ): Promise<Vacation> {
+    const vacation = await this.findVacation(user.id, organization.id, date);
+    if (!vacation) {
+      throw new Error('指定した日付の休暇が見つかりません。');
+    }
+
+    // カレンダーに予定が残らないよう、予定を削除できなかった場合は休暇を取り消さない
+    // （既に削除済みの予定は GoogleCalendarService で削除できたものとして扱う）
+    if (vacation.googleEventId && organization.googleCalendarId) {
+      const calendarService = await this.getCalendarService(organization);
+      try {
+        await calendarService?.deleteVacationEvent(
+          organization.googleCalendarId,
+          vacation.googleEventId
+        );
+      } catch {
+        throw new Error(
+          'カレンダーの予定を削除できなかったため、休暇を取り消していません。時間をおいて再度お試しください。'
+        );
+      }
+    }
+
+    const deleted = await this.prisma.vacation.delete({
+      where: { id: vacation.id },
+    });
+
+    attendanceEvents.emit('vacation_cancelled', {
+      userId: user.id,
+      organizationId: organization.id,
+      vacation: deleted,
+    });
+    return deleted;
+  }
+
+  /**
+   * 指定した期間の休暇を取得
+   */
+  async getVacationsByDateRange(
+    userId: string,
+    organizationId: string,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Vacation[]> {
+    return this.prisma.vacation.findMany({
+      where: {
+        userId,
+        organizationId,
+        date: {
+          gte: startDate,
+          lte: endDate,
+        },
+      },
+      orderBy: {
+        date: 'asc',
+      },
+    });
+  }
+
+  /**
+   * 組織の休暇を条件で絞り込んで日付順に取得する（ページング用に総件数も返す）
+   */
+  async findVacations(
+    organizationId: string,
+    filter: { userId?: string; from?: Date; to?: Date },
+    page: { skip: number; take: number }
+  ): Promise<{ vacations: (Vacation & { user: User })[]; total: number }> {
+    const where = {
+      organizationId,
+      userId: filter.userId,
+      date: { gte: filter.from, lte: filter.to },
+    };
+
+    const [vacations, total] = await Promise.all([
+      this.prisma.vacation.findMany({
+        where,
+        include: { user: true },
+        orderBy: [{ date: 'asc' }, { id: 'asc' }],
+        skip: page.skip,
+        take: page.take,
+      }),
+      this.prisma.vacation.count({ where }),
+    ]);
+
+    return { vacations, total };
+  }
+
+  /**
+   * IDから休暇を取得
+   */
+  async getVacationById(id: string): Promise<(Vacation & { user: User }) | null> {
+    return this.prisma.vacation.findUnique({
+      where: { id },
+      include: { user: true },
+    });
+  }
+
+  /**
+   * 休暇の理由を変更する（カレンダーの予定の説明も更新）
+   */
+  async updateVacationReason(
+    vacation: Vacation,
+    organization: Organization,
+    reason: string | null
+  ): Promise<Vacation> {
+    const updated = await this.prisma.vacation.update({
+      where: { id: vacation.id },
+      data: { reason },
+    });
+
+    // カレンダーの更新に失敗しても休暇の変更は反映済みとして扱う
+    if (vacation.googleEventId && organization.googleCalendarId) {
+      try {
+        const calendarService = await this.getCalendarService(organization);
+        await calendarService?.updateVacationEvent(
+          organization.googleCalendarId,
+          vacation.googleEventId,
+          undefined,
+          reason ?? ''
+        );
+      } catch (error) {
+        console.error('休暇のカレンダー更新エラー:', error);
+      }
+    }
+
+    return updated;
+  }
+
+  /**
+   * 指定した日付のいずれかに休暇を取得しているユーザーの休暇を取得（全組織）
+   *
+   * タイムゾーンによって「今日」の日付が異なるため、候補の日付をまとめて指定する。
+   */
+  async getVacationsOnDates(
+    dates: Date[]
+  ): Promise<(Vacation & { user: User; organization: Organization })[]> {
+    return this.prisma.vacation.findMany({
+      where: { date: { in: dates } },
+      include: {
+        user: true,
+        organization: true,
+      },
+    });
+  }
+
+  /**
+   * 休暇中のSlackステータスを設定したことを記録する
+   */
+  async markSlackStatusApplied(vacationIds: string[], appliedAt: Date): Promise<void> {
+    await this.prisma.vacation.updateMany({
+      where: { id: { in: vacationIds } },
+      data: { slackStatusAppliedAt: appliedAt },
+    });
+  }
+
+  /**
+   * 指定した日付の休暇を取得
+   */
+  private async findVacation(
+    userId: string,
+    organizationId: string,
+    date: Date
+  ): Promise<Vacation | null> {
+    return this.prisma.vacation.findUnique({
+      where: {
+        userId_organizationId_date: {
+          userId,
+          organizationId,
+          date,
+        },
+      },
+    });
+  }
+
+  /**
+   * 組織のカレンダーを操作するサービスを取得（未設定の場合はnull）
+   */
+  private async getCalendarService(
+    organization: Organization
+  ): Promise<GoogleCalendarService | null> {
+    if (!organization.googleCalendarId) {
+      return null;
+    }
+
+    return this.googleCredentialService.getCalendarService(organization.id);
+  }
+
+  /**
+   * 期間内の日付を列挙する
+   */
+  private eachDate(startDate: Date, endDate: Date): Date[] {
+    const dates: Date[] = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      dates.push(date);
+    }
+    return dates;
+  }
+}
@@ -0,0 +1,342 @@
+import {
+  Membership,
+  Organization,
+  Prisma,
+  PrismaClient,
+  StaleSessionPolicy,
+  User,
+  WorkingBreak,
+  WorkingSession,
+} from '@prisma/client';
+import WorkingSessionService from './WorkingSessionService';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+import { attendanceEvents } from '../events/attendanceEvents';
+
+/** 2026-10-19 12:00 JST */
+const NOW = new Date('2026-10-19T03:00:00Z');
+
+function createSession(overrides: Partial<WorkingSession> = {}): WorkingSession {
+  return {
+    id: 'session-1',
+    userId: 'user-1',
+    organizationId: 'org-1',
+    // 2026-10-19 09:00 JST
+    checkinAt: new Date('2026-10-19T00:00:00Z'),
+    checkoutAt: null,
+    lastActivityAt: new Date('2026-10-19T00:00:00Z'),
+    note: '設計',
+    open: true,
+    ...overrides,
+  } as WorkingSession;
+}
+
+function createBreak(overrides: Partial<WorkingBreak> = {}): WorkingBreak {
+  return {
+    id: 'break-1',
+    sessionId: 'session-1',
+    startAt: new Date('2026-10-19T02:00:00Z'),
+    endAt: null,
+    ...overrides,
+  } as WorkingBreak;
+}
+
+function createOrganization(overrides: Partial<Organization> = {}): Organization {
+  return {
+    id: 'org-1',
+    timeZone: 'Asia/Tokyo',
+    staleSessionHours: 12,
+    staleSessionPolicy: StaleSessionPolicy.AUTO_CLOSE_AT_TIME,
+    autoCloseTime: '22:00',
+    ...overrides,
+  } as Organization;
+}
+
+describe('WorkingSessionService', () => {
+  let prisma: {
+    $transaction: jest.Mock;
+    workingSession: {
+      findFirst: jest.Mock;
+      findMany: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      create: jest.Mock;
+      updateMany: jest.Mock;
+    };
+    workingBreak: {
+      findFirst: jest.Mock;
+      findMany: jest.Mock;
+      findUniqueOrThrow: jest.Mock;
+      create: jest.Mock;
+      update: jest.Mock;
+      updateMany: jest.Mock;
+    };
+  };
+  let service: WorkingSessionService;
+  let record: jest.SpyInstance;
+  let emit: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    jest.spyOn(PermissionService.prototype, 'authorize').mockResolvedValue({} as Membership);
+    record = jest.spyOn(AuditLogService.prototype, 'record').mockResolvedValue({} as never);
+    emit = jest.spyOn(attendanceEvents, 'emit').mockImplementation(() => undefined);
+
+    prisma = {
+      $transaction: jest.fn(),
+      workingSession: {
+        findFirst: jest.fn().mockResolvedValue(createSession()),
+        findMany: jest.fn().mockResolvedValue([]),
+        findUniqueOrThrow: jest.fn(async () => ({ ...createSession({ checkoutAt: NOW, open: null }), breaks: [] })),
+        create: jest.fn(async ({ data }) => ({ id: 'session-2', ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      workingBreak: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        findUniqueOrThrow: jest.fn(async () => createBreak({ endAt: NOW })),
+        create: jest.fn(async ({ data }) => ({ id: 'break-2', endAt: null, ...data })),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+    prisma.$transaction.mockImplementation((callback) => callback(prisma));
+
+    service = new WorkingSessionService(prisma as unknown as PrismaClient);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('checkin', () => {
+    it('セッションを作成し、同じトランザクションで監査ログを記録する', async () => {
+      prisma.workingSession.findFirst.mockResolvedValue(null);
+
+      const session = await service.checkin('user-1', 'org-1', '設計');
+
+      expect(prisma.workingSession.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user-1',
+          organizationId: 'org-1',
+          checkinAt: NOW,
+          lastActivityAt: NOW,
+          note: '設計',
+          open: true,
+        },
+      });
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'session.checkin', targetId: 'session-2' }),
+        prisma
+      );
+      expect(emit).toHaveBeenCalledWith('checkin', { userId: 'user-1', organizationId: 'org-1', session });
+    });
+
+    it('チェックイン中、または同時に作成されて一意制約に違反した場合はエラーにする', async () => {
+      await expect(service.checkin('user-1', 'org-1')).rejects.toThrow(
+        '既にチェックインしています。先にチェックアウトしてください。'
+      );
+      expect(prisma.workingSession.create).not.toHaveBeenCalled();
+
+      prisma.workingSession.findFirst.mockResolvedValue(null);
+      prisma.workingSession.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: Prisma.prismaVersion.client,
+        })
+      );
+      await expect(service.checkin('user-1', 'org-1')).rejects.toThrow(
+        '既にチェックインしています。先にチェックアウトしてください。'
+      );
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkout', () => {
+    it('セッションと休憩中の休憩を同じ時刻で終了する', async () => {
+      prisma.workingBreak.findMany.mockResolvedValue([createBreak()]);
+
+      await service.checkout('user-1', 'org-1');
+
+      expect(prisma.workingSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', checkoutAt: null },
+        data: { checkoutAt: NOW, open: null, note: '設計' },
+      });
+      expect(prisma.workingBreak.update).toHaveBeenCalledWith({
+        where: { id: 'break-1' },
+        data: { endAt: NOW },
+      });
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'session.checkout', before: createSession() }),
+        prisma
+      );
+      expect(emit).toHaveBeenCalledWith('checkout', expect.objectContaining({ userId: 'user-1' }));
+    });
+
+    it('同時にチェックアウトされていた場合は二重に終了しない', async () => {
+      prisma.workingSession.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.checkout('user-1', 'org-1')).rejects.toThrow(
+        'チェックインしていません。先にチェックインしてください。'
+      );
+      expect(prisma.workingBreak.findMany).not.toHaveBeenCalled();
+      expect(record).not.toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('チェックインしていない場合はエラーにする', async () => {
+      prisma.workingSession.findFirst.mockResolvedValue(null);
+
+      await expect(service.checkout('user-1', 'org-1')).rejects.toThrow(
+        'チェックインしていません。先にチェックインしてください。'
+      );
+      expect(prisma.workingSession.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startBreak / endBreak', () => {
+    it('セッションを更新してから休憩を開始する', async () => {
+      const workingBreak = await service.startBreak('user-1', 'org-1');
+
+      expect(prisma.workingSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', checkoutAt: null },
+        data: { lastActivityAt: NOW },
+      });
+      expect(workingBreak).toMatchObject({ sessionId: 'session-1', startAt: NOW });
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ action: 'break.started' }), prisma);
+      expect(emit).toHaveBeenCalledWith('break_started', {
+        userId: 'user-1',
+        organizationId: 'org-1',
+        sessionId: 'session-1',
+      });
+    });
+
+    it('休憩中・同時にチェックアウトされた場合は休憩を開始しない', async () => {
+      prisma.workingBreak.findFirst.mockResolvedValue(createBreak());
+      await expect(service.startBreak('user-1', 'org-1')).rejects.toThrow(
+        '既に休憩中です。再開するには /resume を実行してください。'
+      );
+
+      prisma.workingSession.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.startBreak('user-1', 'org-1')).rejects.toThrow(
+        'チェックインしていません。先にチェックインしてください。'
+      );
+
+      expect(prisma.workingBreak.create).not.toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('終了していない休憩のみ終了する', async () => {
+      prisma.workingBreak.findFirst.mockResolvedValue(createBreak());
+
+      const workingBreak = await service.endBreak('user-1', 'org-1');
+
+      expect(prisma.workingBreak.updateMany).toHaveBeenCalledWith({
+        where: { id: 'break-1', endAt: null },
+        data: { endAt: NOW },
+      });
+      expect(workingBreak.endAt).toEqual(NOW);
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'break.ended', before: createBreak() }),
+        prisma
+      );
+    });
+
+    it('休憩中でない・同時に再開された場合はエラーにする', async () => {
+      await expect(service.endBreak('user-1', 'org-1')).rejects.toThrow('休憩中ではありません。');
+      expect(prisma.workingBreak.updateMany).not.toHaveBeenCalled();
+
+      prisma.workingBreak.findFirst.mockResolvedValue(createBreak());
+      prisma.workingBreak.updateMany.mockResolvedValue({ count: 0 });
+      await expect(service.endBreak('user-1', 'org-1')).rejects.toThrow('休憩中ではありません。');
+
+      expect(record).not.toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeStaleSession', () => {
+    // 2026-10-18 08:00 JST にチェックインしたまま
+    const staleSession = createSession({
+      checkinAt: new Date('2026-10-17T23:00:00Z'),
+      lastActivityAt: new Date('2026-10-18T06:30:00Z'),
+    });
+
+    beforeEach(() => {
+      prisma.workingSession.findFirst.mockResolvedValue(staleSession);
+    });
+
+    it('組織のタイムゾーンで最初に来る終了時刻で終了し、要確認にする', async () => {
+      // 終了時刻より後に始めた休憩は開始時刻で終了する
+      prisma.workingBreak.findMany.mockResolvedValue([createBreak({ startAt: new Date('2026-10-18T14:00:00Z') })]);
+
+      const closed = await service.closeStaleSession('user-1', createOrganization());
+
+      expect(closed).not.toBeNull();
+      expect(prisma.workingSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-1', checkoutAt: null },
+        data: { checkoutAt: new Date('2026-10-18T13:00:00Z'), open: null, autoClosed: true, needsReview: true },
+      });
+      expect(prisma.workingBreak.update).toHaveBeenCalledWith({
+        where: { id: 'break-1' },
+        data: { endAt: new Date('2026-10-18T14:00:00Z') },
+      });
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'session.auto_closed', actorId: null }),
+        prisma
+      );
+      expect(emit).toHaveBeenCalledWith('checkout', expect.objectContaining({ userId: 'user-1' }));
+    });
+
+    it('最後の操作時刻・チェックイン時刻で終了するポリシーに従う', async () => {
+      await service.closeStaleSession(
+        'user-1',
+        createOrganization({ staleSessionPolicy: StaleSessionPolicy.CLOSE_AT_LAST_ACTIVITY })
+      );
+      await service.closeStaleSession(
+        'user-1',
+        createOrganization({ staleSessionPolicy: StaleSessionPolicy.FLAG_FOR_REVIEW })
+      );
+
+      expect(prisma.workingSession.updateMany.mock.calls.map(([args]) => args.data.checkoutAt)).toEqual([
+        new Date('2026-10-18T06:30:00Z'),
+        new Date('2026-10-17T23:00:00Z'),
+      ]);
+    });
+
+    it('本人が先にチェックアウトしていた場合は終了しない', async () => {
+      prisma.workingSession.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.closeStaleSession('user-1', createOrganization())).resolves.toBeNull();
+      expect(prisma.workingBreak.findMany).not.toHaveBeenCalled();
+      expect(record).not.toHaveBeenCalled();
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    it('チェックアウト忘れとみなす時間が経っていないセッションは終了しない', async () => {
+      prisma.workingSession.findFirst.mockResolvedValue(createSession());
+
+      await expect(service.closeStaleSession('user-1', createOrganization())).resolves.toBeNull();
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closeStaleSessions', () => {
+    it('終了したセッションのみユーザー付きで返す', async () => {
+      const user = { id: 'user-1', name: '山田太郎' } as User;
+      prisma.workingSession.findMany.mockResolvedValue([
+        { ...createSession({ id: 'session-1', checkinAt: new Date('2026-10-17T23:00:00Z') }), user },
+        { ...createSession({ id: 'session-2', checkinAt: new Date('2026-10-17T23:00:00Z') }), user },
+      ]);
+      prisma.workingSession.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValueOnce({ count: 0 });
+
+      const closed = await service.closeStaleSessions(createOrganization());
+
+      expect(prisma.workingSession.findMany).toHaveBeenCalledWith({
+        where: { organizationId: 'org-1', checkoutAt: null, checkinAt: { lt: new Date('2026-10-18T15:00:00Z') } },
+        include: { user: true },
+      });
+      expect(closed).toEqual([expect.objectContaining({ user })]);
+    });
+  });
+});
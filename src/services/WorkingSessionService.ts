@@ -1,20 +1,61 @@
-import { PrismaClient, WorkingSession } from '@prisma/client';
+import {
+  Prisma,
+  PrismaClient,
+  Organization,
+  StaleSessionPolicy,
+  User,
+  WorkingBreak,
+  WorkingSession,
+} from '@prisma/client';
+import { attendanceEvents } from '../events/attendanceEvents';
+import PermissionService from './PermissionService';
+import AuditLogService from './AuditLogService';
+import { getMonthRange, getZonedParts, splitByDay, zonedTime } from '../utils/timezone';
+import { isUniqueConstraintError } from '../utils/prismaErrors';
+
+/**
+ * 休憩を含む稼働セッション
+ */
+export type WorkingSessionWithBreaks = WorkingSession & { breaks: WorkingBreak[] };
+
+/**
+ * 日付が変わる時刻で分割したセッションの1日分
+ */
+export interface DailySessionSegment {
+  /** タイムゾーンでの日付 */
+  date: Date;
+  start: Date;
+  end: Date;
+  /** 休憩時間（時間単位） */
+  breakHours: number;
+  /** 休憩を除いた稼働時間（時間単位） */
+  workingHours: number;
+}
 
 export default class WorkingSessionService {
   private prisma: PrismaClient;
+  private permissionService: PermissionService;
+  private auditLogService: AuditLogService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.permissionService = new PermissionService(prisma);
+    this.auditLogService = new AuditLogService(prisma);
   }
 
   /**
    * チェックイン処理（打刻開始）
+   *
+   * 同時に実行された場合も、未終了のセッションは一意制約により1つしか作成されない。
    */
   async checkin(
     userId: string,
     organizationId: string,
     note?: string
   ): Promise<WorkingSession> {
+    // 組織のアクティブなメンバーか確認（利用停止中・退会済みはチェックインできない）
+    await this.permissionService.authorize(userId, organizationId, 'session:checkin');
+
     // 未終了のセッションがあるか確認
     const activeSession = await this.getActiveSession(userId, organizationId);
     
@@ -22,40 +63,328 @@ export default class WorkingSessionService {
       throw new Error('既にチェックインしています。先にチェックアウトしてください。');
     }
 
-    // 新しいセッションを作成
-    return this.prisma.workingSession.create({
-      data: {
-        userId,
-        organizationId,
-        checkinAt: new Date(),
-        note,
-      },
-    });
+    // 新しいセッションを作成（確認後に別のリクエストで作成されていた場合は一意制約で失敗する）
+    let session: WorkingSession;
+    try {
+      session = await this.prisma.$transaction(async (tx) => {
+        const session = await tx.workingSession.create({
+          data: {
+            userId,
+            organizationId,
+            checkinAt: new Date(),
+            lastActivityAt: new Date(),
+            note,
+            open: true,
+          },
+        });
+
+        await this.auditLogService.record(
+          {
+            action: 'session.checkin',
+            organizationId,
+            targetId: session.id,
+            userId,
+            after: session,
+          },
+          tx
+        );
+
+        return session;
+      });
+    } catch (error) {
+      if (isUniqueConstraintError(error)) {
+        throw new Error('既にチェックインしています。先にチェックアウトしてください。');
+      }
+      throw error;
+    }
+
+    attendanceEvents.emit('checkin', { userId, organizationId, session });
+    return session;
   }
 
   /**
    * チェックアウト処理（打刻終了）
+   *
+   * セッションと休憩の終了は1つのトランザクションで行い、同時に実行された場合は一方のみ成功する。
    */
   async checkout(
     userId: string,
     organizationId: string,
     note?: string
-  ): Promise<WorkingSession> {
-    // アクティブなセッションを取得
-    const activeSession = await this.getActiveSession(userId, organizationId);
+  ): Promise<WorkingSessionWithBreaks> {
+    const checkoutAt = new Date();
+
+    const session = await this.prisma.$transaction(async (tx) => {
+      // アクティブなセッションを取得
+      const activeSession = await this.getActiveSession(userId, organizationId, tx);
+
+      if (!activeSession) {
+        throw new Error('チェックインしていません。先にチェックインしてください。');
+      }
+
+      // セッションを更新して終了時間を設定（同時にチェックアウトされた場合に二重に終了しないよう、未終了の場合のみ）
+      const { count } = await tx.workingSession.updateMany({
+        where: { id: activeSession.id, checkoutAt: null },
+        data: {
+          checkoutAt,
+          open: null,
+          note: note || activeSession.note,
+        },
+      });
+      if (count === 0) {
+        throw new Error('チェックインしていません。先にチェックインしてください。');
+      }
+
+      // 休憩中のままチェックアウトした場合は休憩も終了する
+      await this.closeOpenBreaks(activeSession.id, checkoutAt, tx);
+
+      const session = await tx.workingSession.findUniqueOrThrow({
+        where: { id: activeSession.id },
+        include: {
+          breaks: true,
+        },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'session.checkout',
+          organizationId,
+          targetId: session.id,
+          userId,
+          before: activeSession,
+          after: session,
+        },
+        tx
+      );
+
+      return session;
+    });
+
+    attendanceEvents.emit('checkout', { userId, organizationId, session });
+    return session;
+  }
+
+  /**
+   * 休憩開始処理
+   *
+   * セッションの行を更新してロックしてから休憩を作成し、同時に実行された場合も休憩は1つだけ開始する。
+   */
+  async startBreak(userId: string, organizationId: string): Promise<WorkingBreak> {
+    // 利用停止中・退会済みのメンバーは休憩の打刻もできない
+    await this.permissionService.authorize(userId, organizationId, 'session:checkin');
+
+    const startAt = new Date();
+
+    const { activeSession, workingBreak } = await this.prisma.$transaction(async (tx) => {
+      const activeSession = await this.getActiveSession(userId, organizationId, tx);
+      if (!activeSession) {
+        throw new Error('チェックインしていません。先にチェックインしてください。');
+      }
+
+      // 未終了の場合のみ更新（同時にチェックアウトされた場合は休憩を開始しない）
+      const { count } = await tx.workingSession.updateMany({
+        where: { id: activeSession.id, checkoutAt: null },
+        data: { lastActivityAt: startAt },
+      });
+      if (count === 0) {
+        throw new Error('チェックインしていません。先にチェックインしてください。');
+      }
+
+      const openBreak = await this.getOpenBreak(activeSession.id, tx);
+      if (openBreak) {
+        throw new Error('既に休憩中です。再開するには /resume を実行してください。');
+      }
+
+      const workingBreak = await tx.workingBreak.create({
+        data: {
+          sessionId: activeSession.id,
+          startAt,
+        },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'break.started',
+          organizationId,
+          targetId: workingBreak.id,
+          userId,
+          after: workingBreak,
+        },
+        tx
+      );
+
+      return { activeSession, workingBreak };
+    });
+
+    attendanceEvents.emit('break_started', { userId, organizationId, sessionId: activeSession.id });
+    return workingBreak;
+  }
+
+  /**
+   * 休憩終了（作業再開）処理
+   *
+   * 終了していない休憩の場合のみ更新し、同時に実行された場合は一方のみ成功する。
+   */
+  async endBreak(userId: string, organizationId: string): Promise<WorkingBreak> {
+    // 利用停止中・退会済みのメンバーは休憩の打刻もできない
+    await this.permissionService.authorize(userId, organizationId, 'session:checkin');
+
+    const endAt = new Date();
+
+    const { activeSession, workingBreak } = await this.prisma.$transaction(async (tx) => {
+      const activeSession = await this.getActiveSession(userId, organizationId, tx);
+      if (!activeSession) {
+        throw new Error('チェックインしていません。先にチェックインしてください。');
+      }
+
+      const openBreak = await this.getOpenBreak(activeSession.id, tx);
+      if (!openBreak) {
+        throw new Error('休憩中ではありません。');
+      }
 
-    if (!activeSession) {
-      throw new Error('チェックインしていません。先にチェックインしてください。');
+      const { count } = await tx.workingBreak.updateMany({
+        where: { id: openBreak.id, endAt: null },
+        data: { endAt },
+      });
+      if (count === 0) {
+        throw new Error('休憩中ではありません。');
+      }
+
+      const workingBreak = await tx.workingBreak.findUniqueOrThrow({
+        where: { id: openBreak.id },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'break.ended',
+          organizationId,
+          targetId: workingBreak.id,
+          userId,
+          before: openBreak,
+          after: workingBreak,
+        },
+        tx
+      );
+
+      return { activeSession, workingBreak };
+    });
+
+    attendanceEvents.emit('break_ended', { userId, organizationId, sessionId: activeSession.id });
+    return workingBreak;
+  }
+
+  /**
+   * セッションの休憩を除いた稼働時間（時間単位）を計算する
+   *
+   * 未終了のセッション・休憩は until（既定は現在時刻）までとして計算する。
+   */
+  getNetWorkingHours(session: WorkingSessionWithBreaks, until: Date = new Date()): number {
+    const end = session.checkoutAt ?? until;
+    const totalHours = (end.getTime() - session.checkinAt.getTime()) / (1000 * 60 * 60);
+
+    return Math.max(totalHours - this.getBreakHours(session, until), 0);
+  }
+
+  /**
+   * セッション中の休憩時間（時間単位）を計算する
+   */
+  getBreakHours(session: WorkingSessionWithBreaks, until: Date = new Date()): number {
+    const end = session.checkoutAt ?? until;
+    return this.getBreakMs(session, session.checkinAt, end, end) / (1000 * 60 * 60); // ミリ秒を時間に変換
+  }
+
+  /**
+   * セッションをタイムゾーンでの日付が変わる時刻で分割し、日ごとの稼働時間を計算する
+   */
+  splitByDay(
+    session: WorkingSessionWithBreaks,
+    timeZone: string,
+    until: Date = new Date()
+  ): DailySessionSegment[] {
+    const end = session.checkoutAt ?? until;
+
+    return splitByDay(session.checkinAt, end, timeZone).map((segment) => {
+      const totalMs = segment.end.getTime() - segment.start.getTime();
+      const breakMs = this.getBreakMs(session, segment.start, segment.end, end);
+
+      return {
+        ...segment,
+        breakHours: breakMs / (1000 * 60 * 60),
+        workingHours: Math.max(totalMs - breakMs, 0) / (1000 * 60 * 60),
+      };
+    });
+  }
+
+  /**
+   * 指定した範囲に含まれる休憩時間（ミリ秒）
+   *
+   * 終了していない休憩は sessionEnd までとして数える。
+   */
+  private getBreakMs(
+    session: WorkingSessionWithBreaks,
+    rangeStart: Date,
+    rangeEnd: Date,
+    sessionEnd: Date
+  ): number {
+    let breakMs = 0;
+
+    for (const workingBreak of session.breaks) {
+      // セッション・範囲の外の休憩は数えない
+      const breakStart = Math.max(
+        workingBreak.startAt.getTime(),
+        session.checkinAt.getTime(),
+        rangeStart.getTime()
+      );
+      const breakEnd = Math.min(
+        (workingBreak.endAt ?? sessionEnd).getTime(),
+        sessionEnd.getTime(),
+        rangeEnd.getTime()
+      );
+      if (breakEnd > breakStart) {
+        breakMs += breakEnd - breakStart;
+      }
     }
 
-    // セッションを更新して終了時間を設定
-    return this.prisma.workingSession.update({
-      where: { id: activeSession.id },
-      data: {
-        checkoutAt: new Date(),
-        note: note || activeSession.note,
+    return breakMs;
+  }
+
+  /**
+   * セッションの終了していない休憩を取得
+   */
+  private async getOpenBreak(
+    sessionId: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<WorkingBreak | null> {
+    return client.workingBreak.findFirst({
+      where: {
+        sessionId,
+        endAt: null,
+      },
+    });
+  }
+
+  /**
+   * セッションの終了していない休憩を指定した時刻で終了する
+   */
+  private async closeOpenBreaks(
+    sessionId: string,
+    endAt: Date,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<void> {
+    const openBreaks = await client.workingBreak.findMany({
+      where: {
+        sessionId,
+        endAt: null,
       },
     });
+
+    for (const openBreak of openBreaks) {
+      await client.workingBreak.update({
+        where: { id: openBreak.id },
+        // 休憩開始より前に終了することはない
+        data: { endAt: endAt > openBreak.startAt ? endAt : openBreak.startAt },
+      });
+    }
   }
 
   /**
@@ -63,21 +392,231 @@ export default class WorkingSessionService {
    */
   async getActiveSession(
     userId: string,
-    organizationId: string
+    organizationId: string,
+    client: Prisma.TransactionClient = this.prisma
   ): Promise<WorkingSession | null> {
-    return this.prisma.workingSession.findFirst({
+    return client.workingSession.findFirst({
       where: {
         userId,
         organizationId,
         checkoutAt: null,
       },
+      // 一意制約の導入前のデータで複数ある場合も、同じセッションを対象にする
+      orderBy: { checkinAt: 'asc' },
+    });
+  }
+
+  /**
+   * IDからセッションを取得
+   */
+  async getSessionById(id: string): Promise<WorkingSession | null> {
+    return this.prisma.workingSession.findUnique({
+      where: { id },
     });
   }
 
+  /**
+   * 最後の操作時刻を記録する（CLOSE_AT_LAST_ACTIVITY の終了時刻に使用）
+   *
+   * 勤怠の内容は変わらないため監査ログには記録しない。
+   */
+  async recordActivity(userId: string, organizationId: string): Promise<void> {
+    await this.prisma.workingSession.updateMany({
+      where: {
+        userId,
+        organizationId,
+        checkoutAt: null,
+      },
+      data: {
+        lastActivityAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * ユーザーのチェックアウト忘れのセッションを組織のポリシーに従って終了する
+   */
+  async closeStaleSession(
+    userId: string,
+    organization: Organization
+  ): Promise<WorkingSession | null> {
+    const activeSession = await this.getActiveSession(userId, organization.id);
+
+    if (!activeSession || !this.isStale(activeSession, organization)) {
+      return null;
+    }
+
+    return this.closeByPolicy(activeSession, organization);
+  }
+
+  /**
+   * 組織内のチェックアウト忘れのセッションをすべて終了する
+   */
+  async closeStaleSessions(
+    organization: Organization
+  ): Promise<(WorkingSession & { user: User })[]> {
+    const staleSessions = await this.prisma.workingSession.findMany({
+      where: {
+        organizationId: organization.id,
+        checkoutAt: null,
+        checkinAt: { lt: this.getStaleThreshold(organization) },
+      },
+      include: {
+        user: true,
+      },
+    });
+
+    const closedSessions: (WorkingSession & { user: User })[] = [];
+    for (const session of staleSessions) {
+      const closed = await this.closeByPolicy(session, organization);
+      if (closed) {
+        closedSessions.push({ ...closed, user: session.user });
+      }
+    }
+
+    return closedSessions;
+  }
+
+  /**
+   * セッションのメモ（作業内容）を更新する（本人または組織の管理者）
+   */
+  async updateNote(sessionId: string, actorId: string, note: string): Promise<WorkingSession> {
+    const session = await this.prisma.workingSession.findUnique({
+      where: { id: sessionId },
+    });
+
+    if (!session) {
+      throw new Error('セッションが見つかりません。');
+    }
+    await this.permissionService.authorizeSessionEdit(actorId, session);
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.workingSession.update({
+        where: { id: session.id },
+        data: { note },
+      });
+
+      await this.auditLogService.record(
+        {
+          action: 'session.note_updated',
+          organizationId: session.organizationId,
+          targetId: session.id,
+          userId: session.userId,
+          before: session,
+          after: updated,
+        },
+        tx
+      );
+
+      return updated;
+    });
+  }
+
+  /**
+   * チェックアウト忘れとみなす境界の時刻
+   */
+  private getStaleThreshold(organization: Organization): Date {
+    return new Date(Date.now() - organization.staleSessionHours * 60 * 60 * 1000);
+  }
+
+  /**
+   * チェックアウト忘れのセッションか判定
+   */
+  private isStale(session: WorkingSession, organization: Organization): boolean {
+    return session.checkoutAt === null && session.checkinAt < this.getStaleThreshold(organization);
+  }
+
+  /**
+   * 組織のポリシーに従ってセッションを自動終了する（既に終了していた場合はnull）
+   */
+  private async closeByPolicy(
+    session: WorkingSession,
+    organization: Organization
+  ): Promise<WorkingSession | null> {
+    const now = new Date();
+    let checkoutAt: Date;
+
+    switch (organization.staleSessionPolicy) {
+      case StaleSessionPolicy.AUTO_CLOSE_AT_TIME: {
+        // チェックイン後、組織のタイムゾーンで最初に来る終了時刻で終了する
+        const [hours, minutes] = organization.autoCloseTime.split(':').map(Number);
+        const checkin = getZonedParts(session.checkinAt, organization.timeZone);
+        checkoutAt = zonedTime(organization.timeZone, checkin.year, checkin.month, checkin.day, hours, minutes);
+        if (checkoutAt <= session.checkinAt) {
+          checkoutAt = zonedTime(
+            organization.timeZone,
+            checkin.year,
+            checkin.month,
+            checkin.day + 1,
+            hours,
+            minutes
+          );
+        }
+        if (checkoutAt > now) {
+          checkoutAt = now;
+        }
+        break;
+      }
+      case StaleSessionPolicy.CLOSE_AT_LAST_ACTIVITY:
+        checkoutAt = session.lastActivityAt ?? session.checkinAt;
+        break;
+      case StaleSessionPolicy.FLAG_FOR_REVIEW:
+        checkoutAt = session.checkinAt;
+        break;
+    }
+
+    const closedSession = await this.prisma.$transaction(async (tx) => {
+      // 取得後に本人がチェックアウトしていた場合は終了しない
+      const { count } = await tx.workingSession.updateMany({
+        where: { id: session.id, checkoutAt: null },
+        data: {
+          checkoutAt,
+          open: null,
+          autoClosed: true,
+          needsReview: true,
+        },
+      });
+      if (count === 0) {
+        return null;
+      }
+
+      await this.closeOpenBreaks(session.id, checkoutAt, tx);
+      const closedSession = await tx.workingSession.findUniqueOrThrow({ where: { id: session.id } });
+
+      // 自動終了は組織のポリシーによるシステムの操作として記録する
+      await this.auditLogService.record(
+        {
+          action: 'session.auto_closed',
+          organizationId: session.organizationId,
+          targetId: session.id,
+          userId: session.userId,
+          before: session,
+          after: closedSession,
+          actorId: null,
+        },
+        tx
+      );
+
+      return closedSession;
+    });
+    if (!closedSession) {
+      return null;
+    }
+
+    attendanceEvents.emit('checkout', {
+      userId: session.userId,
+      organizationId: session.organizationId,
+      session: closedSession,
+    });
+    return closedSession;
+  }
+
   /**
    * 現在アクティブなすべてのセッションを取得
    */
-  async getAllActiveSessions(organizationId: string): Promise<WorkingSession[]> {
+  async getAllActiveSessions(
+    organizationId: string
+  ): Promise<(WorkingSessionWithBreaks & { user: User })[]> {
     return this.prisma.workingSession.findMany({
       where: {
         organizationId,
@@ -85,27 +624,87 @@ export default class WorkingSessionService {
       },
       include: {
         user: true,
+        breaks: true,
       },
     });
   }
 
   /**
-   * 指定した期間のセッションを取得
+   * 組織のセッションを条件で絞り込んで新しい順に取得する（ページング用に総件数も返す）
+   *
+   * 期間はチェックイン時刻で絞り込む。open を指定した場合は未終了（true）・終了済み（false）のみ。
+   */
+  async findSessions(
+    organizationId: string,
+    filter: { userId?: string; from?: Date; to?: Date; open?: boolean },
+    page: { skip: number; take: number }
+  ): Promise<{ sessions: (WorkingSessionWithBreaks & { user: User })[]; total: number }> {
+    const where = {
+      organizationId,
+      userId: filter.userId,
+      checkinAt: { gte: filter.from, lt: filter.to },
+      ...(filter.open === undefined
+        ? {}
+        : { checkoutAt: filter.open ? null : { not: null } }),
+    };
+
+    const [sessions, total] = await Promise.all([
+      this.prisma.workingSession.findMany({
+        where,
+        include: { user: true, breaks: true },
+        orderBy: [{ checkinAt: 'desc' }, { id: 'asc' }],
+        skip: page.skip,
+        take: page.take,
+      }),
+      this.prisma.workingSession.count({ where }),
+    ]);
+
+    return { sessions, total };
+  }
+
+  /**
+   * 指定した期間（startDate 以上 endDate 未満）と重なるセッションを取得
    */
   async getSessionsByDateRange(
     userId: string,
     organizationId: string,
     startDate: Date,
     endDate: Date
-  ): Promise<WorkingSession[]> {
+  ): Promise<WorkingSessionWithBreaks[]> {
     return this.prisma.workingSession.findMany({
       where: {
         userId,
         organizationId,
-        checkinAt: {
-          gte: startDate,
-          lte: endDate,
-        },
+        ...this.overlapping(startDate, endDate),
+      },
+      include: {
+        breaks: true,
+      },
+      orderBy: {
+        checkinAt: 'asc',
+      },
+    });
+  }
+
+  /**
+   * 組織の指定した期間（startDate 以上 endDate 未満）と重なるセッションを取得
+   * （userId を指定した場合はそのメンバーのみ）
+   */
+  async getOrganizationSessionsByDateRange(
+    organizationId: string,
+    startDate: Date,
+    endDate: Date,
+    userId?: string
+  ): Promise<(WorkingSessionWithBreaks & { user: User })[]> {
+    return this.prisma.workingSession.findMany({
+      where: {
+        organizationId,
+        userId,
+        ...this.overlapping(startDate, endDate),
+      },
+      include: {
+        user: true,
+        breaks: true,
       },
       orderBy: {
         checkinAt: 'asc',
@@ -113,43 +712,71 @@ export default class WorkingSessionService {
     });
   }
 
+  /**
+   * 期間と重なるセッションの条件（日付をまたぐセッション・未終了のセッションを含む）
+   */
+  private overlapping(startDate: Date, endDate: Date) {
+    return {
+      checkinAt: { lt: endDate },
+      OR: [{ checkoutAt: null }, { checkoutAt: { gt: startDate } }],
+    };
+  }
+
   /**
    * 月次レポートのデータを取得
+   *
+   * 月の境界と日別の集計はタイムゾーンに従い、日付をまたぐセッションは日ごとに分けて計上する。
    */
   async getMonthlyReport(
     userId: string,
     organizationId: string,
     year: number,
-    month: number
+    month: number,
+    timeZone: string
   ): Promise<{ 
     totalWorkingHours: number;
-    sessions: WorkingSession[];
+    sessions: WorkingSessionWithBreaks[];
+    dailyWorkingHours: { date: Date; hours: number }[];
+    openSessions: WorkingSession[];
+    autoClosedSessions: WorkingSession[];
   }> {
-    // 指定した月の開始日と終了日を設定
-    const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0, 23, 59, 59);
+    // 指定した月の期間（タイムゾーンでの1日0時から翌月1日0時まで）
+    const { start, end } = getMonthRange(year, month, timeZone);
 
-    // 該当月のセッションを取得
-    const sessions = await this.getSessionsByDateRange(
-      userId,
-      organizationId,
-      startDate,
-      endDate
-    );
+    // 該当月と重なるセッションを取得
+    const sessions = await this.getSessionsByDateRange(userId, organizationId, start, end);
 
-    // 総労働時間を計算
+    // 休憩を除いた総労働時間と日別の労働時間を計算（月の範囲外の部分は除く）
     let totalWorkingHours = 0;
+    const dailyWorkingHours = new Map<number, { date: Date; hours: number }>();
     
     sessions.forEach((session) => {
-      if (session.checkoutAt) {
-        const duration = session.checkoutAt.getTime() - session.checkinAt.getTime();
-        totalWorkingHours += duration / (1000 * 60 * 60); // ミリ秒を時間に変換
+      if (!session.checkoutAt) {
+        return;
+      }
+
+      for (const segment of this.splitByDay(session, timeZone)) {
+        if (segment.start < start || segment.start >= end) {
+          continue;
+        }
+
+        totalWorkingHours += segment.workingHours;
+
+        const daily = dailyWorkingHours.get(segment.date.getTime()) ?? {
+          date: segment.date,
+          hours: 0,
+        };
+        daily.hours += segment.workingHours;
+        dailyWorkingHours.set(segment.date.getTime(), daily);
       }
     });
 
     return {
       totalWorkingHours,
       sessions,
+      dailyWorkingHours: Array.from(dailyWorkingHours.values()),
+      openSessions: sessions.filter((session) => !session.checkoutAt),
+      autoClosedSessions: sessions.filter((session) => session.autoClosed),
     };
   }
 }
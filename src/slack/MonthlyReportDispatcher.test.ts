@@ -0,0 +1,106 @@
+import { App } from '@slack/bolt';
+import { Organization, PrismaClient } from '@prisma/client';
+import MonthlyReportDispatcher from './MonthlyReportDispatcher';
+import OrganizationService from '../services/OrganizationService';
+
+function createOrganization(overrides: Partial<Organization> = {}): Organization {
+  return {
+    id: 'org-1',
+    name: '株式会社サンプル',
+    timeZone: 'Asia/Tokyo',
+    monthlyReportSentMonth: '2026-09',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    ...overrides,
+  } as Organization;
+}
+
+describe('MonthlyReportDispatcher', () => {
+  let dispatcher: MonthlyReportDispatcher;
+  let findAll: jest.SpyInstance;
+  let markSent: jest.SpyInstance;
+  let dispatch: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    findAll = jest.spyOn(OrganizationService.prototype, 'findAll');
+    markSent = jest.spyOn(OrganizationService.prototype, 'markMonthlyReportSent').mockResolvedValue();
+
+    dispatcher = new MonthlyReportDispatcher({} as App, {} as PrismaClient);
+    dispatch = jest.spyOn(dispatcher, 'dispatch').mockResolvedValue();
+  });
+
+  it('1日の配信時刻を過ぎたら前月分を配信して記録する', async () => {
+    const organization = createOrganization();
+    findAll.mockResolvedValue([organization]);
+
+    // 2026-11-01 09:00 JST
+    await dispatcher.dispatchDue(new Date('2026-11-01T00:00:00Z'));
+
+    expect(dispatch).toHaveBeenCalledWith(organization, 2026, 10);
+    expect(markSent).toHaveBeenCalledWith('org-1', '2026-10');
+  });
+
+  it('配信時刻に停止していた場合は後の実行で配信する', async () => {
+    const organization = createOrganization();
+    findAll.mockResolvedValue([organization]);
+
+    // 2026-11-03 15:00 JST
+    await dispatcher.dispatchDue(new Date('2026-11-03T06:00:00Z'));
+
+    expect(dispatch).toHaveBeenCalledWith(organization, 2026, 10);
+  });
+
+  it('1日の配信時刻前・配信済みの月は配信しない', async () => {
+    findAll.mockResolvedValue([
+      createOrganization(),
+      createOrganization({ id: 'org-2', monthlyReportSentMonth: '2026-10' }),
+    ]);
+
+    // 2026-11-01 08:00 JST（org-1は配信時刻前、org-2は配信済み）
+    await dispatcher.dispatchDue(new Date('2026-10-31T23:00:00Z'));
+    // 2026-11-02 09:00 JST
+    await dispatcher.dispatchDue(new Date('2026-11-02T00:00:00Z'));
+
+    expect(dispatch).toHaveBeenCalledTimes(1);
+    expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({ id: 'org-1' }), 2026, 10);
+  });
+
+  it('組織のタイムゾーンで月・年をまたぐ', async () => {
+    const organization = createOrganization({
+      timeZone: 'America/New_York',
+      monthlyReportSentMonth: '2026-11',
+    });
+    findAll.mockResolvedValue([organization]);
+
+    // 2027-01-01 10:00 JST は New York ではまだ 2026-12-31
+    await dispatcher.dispatchDue(new Date('2027-01-01T01:00:00Z'));
+    expect(dispatch).not.toHaveBeenCalled();
+
+    // 2027-01-01 09:00 EST
+    await dispatcher.dispatchDue(new Date('2027-01-01T14:00:00Z'));
+    expect(dispatch).toHaveBeenCalledWith(organization, 2026, 12);
+    expect(markSent).toHaveBeenCalledWith('org-1', '2026-12');
+  });
+
+  it('対象の月より後に作成された組織には配信しない', async () => {
+    findAll.mockResolvedValue([
+      createOrganization({ monthlyReportSentMonth: null, createdAt: new Date('2026-11-15T00:00:00Z') }),
+    ]);
+
+    await dispatcher.dispatchDue(new Date('2026-11-20T00:00:00Z'));
+
+    expect(dispatch).not.toHaveBeenCalled();
+  });
+
+  it('配信に失敗した組織は記録せず、他の組織への配信は続ける', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    findAll.mockResolvedValue([createOrganization(), createOrganization({ id: 'org-2' })]);
+    dispatch.mockRejectedValueOnce(new Error('connection refused'));
+
+    await dispatcher.dispatchDue(new Date('2026-11-01T00:00:00Z'));
+
+    expect(dispatch).toHaveBeenCalledTimes(2);
+    expect(markSent).toHaveBeenCalledTimes(1);
+    expect(markSent).toHaveBeenCalledWith('org-2', '2026-10');
+  });
+});
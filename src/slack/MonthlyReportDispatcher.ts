@@ -0,0 +1,102 @@
+import { App } from '@slack/bolt';
+import { Organization, PrismaClient, Role } from '@prisma/client';
+import OrganizationService from '../services/OrganizationService';
+import ReportService from '../services/ReportService';
+import { formatMonthlyReport, formatOrganizationSummary } from '../commands/reportText';
+import { getMonthRange, getZonedParts } from '../utils/timezone';
+
+/** 月次レポートを配信する時刻（組織のタイムゾーンでの毎月1日の時） */
+const DISPATCH_HOUR = 9;
+
+/**
+ * 月次レポートをSlack DMで配信するクラス
+ */
+export default class MonthlyReportDispatcher {
+  private app: App;
+  private organizationService: OrganizationService;
+  private reportService: ReportService;
+
+  constructor(app: App, prisma: PrismaClient) {
+    this.app = app;
+    this.organizationService = new OrganizationService(prisma);
+    this.reportService = new ReportService(prisma);
+  }
+
+  /**
+   * 組織のタイムゾーンで毎月1日の配信時刻を過ぎ、前月分の月次レポートをまだ配信していない組織に送信する
+   *
+   * 配信した月を組織に記録するため、配信時刻にサーバーが停止していても次の実行で配信する。
+   * 配信に失敗した組織は記録せず、次の実行で再度配信する。
+   */
+  async dispatchDue(now: Date): Promise<void> {
+    const organizations = await this.organizationService.findAll();
+
+    for (const organization of organizations) {
+      const { year, month } = this.getDueMonth(organization, now);
+      const period = `${year}-${month.toString().padStart(2, '0')}`;
+      if (organization.monthlyReportSentMonth && organization.monthlyReportSentMonth >= period) continue;
+
+      // 対象の月より後に作成された組織には配信しない
+      if (organization.createdAt >= getMonthRange(year, month, organization.timeZone).end) continue;
+
+      try {
+        await this.dispatch(organization, year, month);
+        await this.organizationService.markMonthlyReportSent(organization.id, period);
+      } catch (error) {
+        console.error(`月次レポート配信エラー (${organization.id}):`, error);
+      }
+    }
+  }
+
+  /**
+   * 組織のアクティブメンバーに月次レポートを、OWNER・ADMINに組織サマリーを送信する
+   */
+  async dispatch(organization: Organization, year: number, month: number): Promise<void> {
+    const summary = await this.reportService.getOrganizationMonthlySummary(
+      organization,
+      year,
+      month
+    );
+
+    for (const report of summary.members) {
+      if (report.user.slackUserId) {
+        await this.sendDirectMessage(report.user.slackUserId, formatMonthlyReport(report));
+      }
+    }
+
+    const admins = (
+      await this.organizationService.getActiveOrganizationMembers(organization.id)
+    ).filter((membership) => membership.role === Role.OWNER || membership.role === Role.ADMIN);
+
+    for (const membership of admins) {
+      if (membership.user.slackUserId) {
+        await this.sendDirectMessage(
+          membership.user.slackUserId,
+          formatOrganizationSummary(summary)
+        );
+      }
+    }
+  }
+
+  /**
+   * 配信時刻を過ぎた直近の月次レポートの対象の月（組織のタイムゾーンでの前月、1日の配信時刻前は前々月）
+   */
+  private getDueMonth(organization: Organization, now: Date): { year: number; month: number } {
+    const { year, month, day, hours } = getZonedParts(now, organization.timeZone);
+    const monthsBack = day === 1 && hours < DISPATCH_HOUR ? 2 : 1;
+    const index = year * 12 + (month - 1) - monthsBack;
+
+    return { year: Math.floor(index / 12), month: (index % 12) + 1 };
+  }
+
+  /**
+   * SlackユーザーにDMを送信する（失敗しても他のメンバーへの送信は続ける）
+   */
+  private async sendDirectMessage(slackUserId: string, text: string): Promise<void> {
+    try {
+      await this.app.client.chat.postMessage({ channel: slackUserId, text });
+    } catch (error) {
+      console.error(`Slack DM送信エラー (${slackUserId}):`, error);
+    }
+  }
+}
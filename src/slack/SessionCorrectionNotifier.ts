@@ -0,0 +1,162 @@
+import { App, BlockAction, ButtonAction, KnownBlock } from '@slack/bolt';
+import { CorrectionStatus, PrismaClient } from '@prisma/client';
+import UserService from '../services/UserService';
+import OrganizationService from '../services/OrganizationService';
+import PermissionService from '../services/PermissionService';
+import SessionCorrectionService from '../services/SessionCorrectionService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import { attendanceEvents } from '../events/attendanceEvents';
+import { formatCommandError } from '../commands/errorText';
+import { formatCorrection, formatCorrectionReviewed } from '../commands/correctionText';
+import { runAsActor } from '../utils/auditContext';
+
+/**
+ * 稼働時間の修正申請を管理者にSlack DMで通知し、承認・却下ボタンを受け付けるクラス
+ *
+ * 申請はChatworkからのものも含めて勤怠イベントで受け取る。
+ */
+export default class SessionCorrectionNotifier {
+  private app: App;
+  private userService: UserService;
+  private organizationService: OrganizationService;
+  private sessionCorrectionService: SessionCorrectionService;
+
+  constructor(app: App, prisma: PrismaClient) {
+    this.app = app;
+    this.userService = new UserService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.sessionCorrectionService = new SessionCorrectionService(prisma);
+  }
+
+  /**
+   * 承認・却下ボタンのハンドラー設定と勤怠イベントの購読を開始する
+   */
+  start(): void {
+    this.setupReviewHandler();
+
+    attendanceEvents.on('correction_requested', ({ correction }) =>
+      this.notifyReviewers(correction.id)
+    );
+    attendanceEvents.on('correction_reviewed', ({ correction }) =>
+      this.notifyRequester(correction.id)
+    );
+  }
+
+  /**
+   * 承認・却下ボタンのハンドラー設定
+   */
+  private setupReviewHandler(): void {
+    this.app.action<BlockAction<ButtonAction>>(
+      /^session_correction_(approve|reject):/,
+      async ({ action, body, ack, respond }) => {
+        await ack();
+
+        const [actionName, correctionId] = action.action_id.split(':');
+
+        try {
+          const reviewer = await this.userService.findBySlackUserId(body.user.id);
+          if (!reviewer) {
+            await respond({ text: 'ユーザー登録が必要です。/register で登録してください。' });
+            return;
+          }
+
+          const correction = await runAsActor({ actorId: reviewer.id, platform: 'slack' }, () =>
+            actionName === 'session_correction_approve'
+              ? this.sessionCorrectionService.approve(correctionId, reviewer.id)
+              : this.sessionCorrectionService.reject(correctionId, reviewer.id)
+          );
+
+          await respond({ text: formatCorrectionReviewed(correction), replace_original: true });
+        } catch (error) {
+          await respond({
+            text:
+              error instanceof PermissionDeniedError
+                ? formatCommandError('PERMISSION_DENIED', error.message)
+                : `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`,
+          });
+        }
+      }
+    );
+  }
+
+  /**
+   * 組織の管理者に承認・却下ボタン付きのDMを送る
+   *
+   * 申請者本人には送らない。ただし他に審査できるメンバーがいない場合は本人が審査するため本人に送る。
+   */
+  private async notifyReviewers(correctionId: string): Promise<void> {
+    const correction = await this.sessionCorrectionService.getCorrectionById(correctionId);
+    if (!correction) return;
+
+    const members = await this.organizationService.getActiveOrganizationMembers(
+      correction.organizationId
+    );
+    const candidates = members.filter((member) =>
+      PermissionService.hasPermission(member.role, 'session:edit_any')
+    );
+    const others = candidates.filter((member) => member.user.id !== correction.requesterId);
+    const reviewers = (others.length > 0 ? others : candidates).filter(
+      (member) => member.user.slackUserId
+    );
+
+    const text =
+      `${correction.requester.name} さんから「${correction.organization.name}」の稼働時間の修正申請が届きました。\n` +
+      formatCorrection(correction);
+
+    const blocks: KnownBlock[] = [
+      { type: 'section', text: { type: 'mrkdwn', text } },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            style: 'primary',
+            action_id: `session_correction_approve:${correction.id}`,
+            text: { type: 'plain_text', text: '承認' },
+          },
+          {
+            type: 'button',
+            style: 'danger',
+            action_id: `session_correction_reject:${correction.id}`,
+            text: { type: 'plain_text', text: '却下' },
+          },
+        ],
+      },
+    ];
+
+    for (const reviewer of reviewers) {
+      try {
+        await this.app.client.chat.postMessage({
+          channel: reviewer.user.slackUserId as string,
+          text,
+          blocks,
+        });
+      } catch (error) {
+        console.error(`Slack DM送信エラー (${reviewer.user.slackUserId}):`, error);
+      }
+    }
+  }
+
+  /**
+   * 申請者に審査結果をDMで通知する
+   */
+  private async notifyRequester(correctionId: string): Promise<void> {
+    const correction = await this.sessionCorrectionService.getCorrectionById(correctionId);
+    if (!correction?.requester.slackUserId) return;
+
+    const approved = correction.status === CorrectionStatus.APPROVED;
+    const text =
+      `「${correction.organization.name}」の稼働時間の修正申請が${approved ? '承認' : '却下'}されました。\n` +
+      formatCorrection(correction) +
+      (correction.reviewComment ? `\n却下理由: ${correction.reviewComment}` : '');
+
+    try {
+      await this.app.client.chat.postMessage({
+        channel: correction.requester.slackUserId,
+        text,
+      });
+    } catch (error) {
+      console.error(`Slack DM送信エラー (${correction.requester.slackUserId}):`, error);
+    }
+  }
+}
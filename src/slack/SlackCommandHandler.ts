@@ -1,193 +1,430 @@
-import { App } from '@slack/bolt';
+import { App, BlockAction, ButtonAction, KnownBlock, RespondFn, SlashCommand } from '@slack/bolt';
 import { PrismaClient } from '@prisma/client';
+import axios from 'axios';
+import AttendanceCommandProcessor from '../commands/AttendanceCommandProcessor';
+import { CommandName, CommandResult } from '../commands/types';
+import { formatCommandResult, ResultTextStyle } from '../commands/resultText';
+import { formatCommandError } from '../commands/errorText';
+import StaleSessionNotifier from './StaleSessionNotifier';
+import SlackOAuthHandler from './SlackOAuthHandler';
+import SlackHomeTab from './SlackHomeTab';
 import UserService from '../services/UserService';
 import WorkingSessionService from '../services/WorkingSessionService';
-import OrganizationService from '../services/OrganizationService';
+import VacationService from '../services/VacationService';
+import OrganizationResolver from '../commands/OrganizationResolver';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import ProcessedRequestService from '../services/ProcessedRequestService';
+import { runAsActor } from '../utils/auditContext';
+import { formatDate, resolveTimeZone, toCalendarDate } from '../utils/timezone';
+import {
+  buildCheckoutNoteModal,
+  buildVacationModal,
+  parseCheckoutNoteSubmission,
+  parseVacationSubmission,
+} from './modals';
+
+/** Slackのmrkdwnでの表記 */
+const SLACK_TEXT_STYLE: ResultTextStyle = {
+  member: (name) => `@${name}`,
+  code: (text) => `\`${text}\``,
+};
+
+/**
+ * Slackに返すメッセージ
+ */
+interface SlackMessage {
+  text: string;
+  blocks?: KnownBlock[];
+}
+
+/**
+ * モーダルに埋め込む送信時のコンテキスト
+ */
+interface ModalContext {
+  /** 休暇を申請する組織（決まらない場合はモーダルで選択する） */
+  organizationId?: string;
+  /** 結果を返すスラッシュコマンド・ボタンの response_url */
+  responseUrl?: string;
+  /** 作業内容を記録するセッション */
+  sessionId?: string;
+}
+
+/**
+ * 組織選択ボタンに埋め込む再実行用の値
+ */
+interface OrganizationSelection {
+  command: CommandName;
+  args: string;
+  organizationId: string;
+}
 
 /**
  * Slackコマンドハンドラークラス
+ *
+ * スラッシュコマンドを正規化して勤怠コマンド処理に渡し、結果をSlackのメッセージに変換する。
  */
 export default class SlackCommandHandler {
   private app: App;
-  private prisma: PrismaClient;
+  private commandProcessor: AttendanceCommandProcessor;
+  private staleSessionNotifier: StaleSessionNotifier;
+  private slackOAuthHandler: SlackOAuthHandler;
+  private homeTab: SlackHomeTab;
   private userService: UserService;
   private workingSessionService: WorkingSessionService;
-  private organizationService: OrganizationService;
+  private vacationService: VacationService;
+  private organizationResolver: OrganizationResolver;
+  private processedRequestService: ProcessedRequestService;
 
   constructor(app: App, prisma: PrismaClient) {
     this.app = app;
-    this.prisma = prisma;
+    this.commandProcessor = new AttendanceCommandProcessor(prisma);
+    this.staleSessionNotifier = new StaleSessionNotifier(app, prisma);
+    this.slackOAuthHandler = new SlackOAuthHandler(app, prisma);
+    this.homeTab = new SlackHomeTab(app, prisma, this.staleSessionNotifier);
     this.userService = new UserService(prisma);
     this.workingSessionService = new WorkingSessionService(prisma);
-    this.organizationService = new OrganizationService(prisma);
+    this.vacationService = new VacationService(prisma);
+    this.organizationResolver = new OrganizationResolver(prisma);
+    this.processedRequestService = new ProcessedRequestService(prisma);
   }
 
   /**
    * コマンドハンドラーの初期化
    */
   initialize(): void {
-    this.setupCheckinHandler();
-    this.setupCheckoutHandler();
-    this.setupStatusHandler();
-    this.setupVacationHandler();
+    this.setupCommandHandler('/checkin', 'checkin');
+    this.setupCommandHandler('/checkout', 'checkout');
+    this.setupCommandHandler('/break', 'break');
+    this.setupCommandHandler('/resume', 'resume');
+    this.setupCommandHandler('/status', 'status');
+    this.setupCommandHandler('/vacation', 'vacation');
+    this.setupCommandHandler('/report', 'report');
+    this.setupCommandHandler('/register', 'register');
+    this.setupCommandHandler('/link', 'link');
+    this.setupCommandHandler('/nw-org', 'org');
+    this.setupCommandHandler('/nw-calendar', 'calendar');
+    this.setupCommandHandler('/fix', 'fix');
+    this.setupCommandHandler('/nw-admin', 'admin');
+    this.setupCommandHandler('/nw-export', 'export');
+    this.setupCommandHandler('/nw-timezone', 'timezone');
+    this.setupOrganizationSelectionHandler();
+    this.setupVacationModalHandler();
+    this.setupCheckoutNoteHandler();
+    this.setupStatusSyncHandler();
+    this.staleSessionNotifier.initialize();
+    this.homeTab.initialize();
   }
 
   /**
-   * チェックインコマンドのハンドラー設定
+   * スラッシュコマンドのハンドラー設定
    */
-  private setupCheckinHandler(): void {
-    this.app.command('/checkin', async ({ command, ack, respond }) => {
+  private setupCommandHandler(slashCommand: string, commandName: CommandName): void {
+    this.app.command(slashCommand, async ({ command, ack, respond }) => {
       await ack();
 
       try {
-        // Slack ユーザーの取得
-        const user = await this.userService.findBySlackUserId(command.user_id);
-        if (!user) {
-          await respond({
-            text: `ユーザー登録が必要です。管理者に連絡してください。`,
-          });
-          return;
-        }
+        await this.runCommand(command, commandName, respond);
+      } catch (error) {
+        console.error(`Slackコマンド処理エラー (${slashCommand}):`, error);
+        await respond({ text: 'エラーが発生しました。もう一度実行してください。' });
+      }
+    });
+  }
 
-        // 組織の取得（TODO: 複数組織対応の場合は選択UIが必要）
-        const organizations = await this.organizationService.getUserOrganizations(user.id);
-        if (organizations.length === 0) {
-          await respond({
-            text: `所属組織が見つかりません。管理者に連絡してください。`,
-          });
-          return;
-        }
+  /**
+   * スラッシュコマンドを実行して結果を返す
+   */
+  private async runCommand(
+    command: SlashCommand,
+    commandName: CommandName,
+    respond: RespondFn
+  ): Promise<void> {
+    // 再送されたリクエストは処理しない（trigger_id はコマンドの実行ごとに発行される）
+    // 引数なしの /vacation は入力モーダルを開く
+    if (commandName === 'vacation' && !command.text.trim()) {
+      if (await this.processedRequestService.claim('slack', command.trigger_id)) {
+        await this.openVacationModal(command, respond);
+      }
+      return;
+    }
 
-        // 最初の組織を使用
-        const organization = organizations[0];
+    const result = await this.processedRequestService.executeOnce('slack', command.trigger_id, async () =>
+      this.commandProcessor.execute({
+        platform: 'slack',
+        externalUserId: command.user_id,
+        command: commandName,
+        args: command.text || '',
+        context: { slackTeamId: command.team_id },
+        // ユーザー登録ではSlackのプロフィールからメールアドレスを取得する
+        profile: commandName === 'register' ? await this.fetchProfile(command.user_id) : undefined,
+      })
+    );
+    if (!result) {
+      return;
+    }
 
-        // コメントがあれば取得
-        const note = command.text ? command.text.trim() : undefined;
+    // 前回のセッションを自動終了した場合は実際の終了時刻をDMで確認する
+    if (result.type === 'checkin' && result.closedStaleSession) {
+      await this.staleSessionNotifier.notify(
+        result.user,
+        result.organization,
+        result.closedStaleSession
+      );
+    }
 
-        // チェックイン実行
-        await this.workingSessionService.checkin(user.id, organization.id, note);
+    if (result.type === 'file' && !(await this.uploadFile(command.user_id, result))) {
+      await respond({ text: 'ファイルの送信に失敗しました。' });
+      return;
+    }
 
-        // Slackステータス更新（オプション）
-        // this.updateSlackStatus(command.user_id, '稼働中');
+    await respond(this.renderResult(result));
+  }
 
-        await respond({
-          text: `@${command.user_name} さんがチェックインしました！${note ? `\n> ${note}` : ''}`,
+  /**
+   * 休暇申請モーダルを開く（開始日の初期値はユーザーのタイムゾーンでの今日）
+   *
+   * 対象組織はコマンドの実行時に決め、決まらない場合はモーダルで選択する。
+   */
+  private async openVacationModal(command: SlashCommand, respond: RespondFn): Promise<void> {
+    const user = await this.userService.findBySlackUserId(command.user_id);
+    if (!user) {
+      await respond({
+        text: formatCommandError('USER_NOT_REGISTERED', 'ユーザー登録が必要です。/register で登録してください。'),
+      });
+      return;
+    }
+
+    const resolution = await this.organizationResolver.resolve(user, {
+      context: { slackTeamId: command.team_id },
+    });
+    if (resolution.type === 'not_found') {
+      await respond({ text: formatCommandError('ORGANIZATION_NOT_FOUND', resolution.message) });
+      return;
+    }
+    if (resolution.type === 'suspended') {
+      await respond({ text: formatCommandError('PERMISSION_DENIED', resolution.message) });
+      return;
+    }
+
+    const organization = resolution.type === 'resolved' ? resolution.organization : undefined;
+    const context: ModalContext = { organizationId: organization?.id, responseUrl: command.response_url };
+    const today = formatDate(toCalendarDate(new Date(), resolveTimeZone(user, organization)));
+
+    await this.app.client.views.open({
+      trigger_id: command.trigger_id,
+      view: buildVacationModal(
+        JSON.stringify(context),
+        today,
+        resolution.type === 'ambiguous' ? resolution.candidates : []
+      ),
+    });
+  }
+
+  /**
+   * 休暇申請モーダルの送信のハンドラー設定（入力エラーはモーダル内に表示）
+   *
+   * 入力内容はコマンドの引数に変換せず、休暇申請のサービスに直接渡す。
+   */
+  private setupVacationModalHandler(): void {
+    this.app.view('vacation_request', async ({ ack, body, view }) => {
+      const submission = parseVacationSubmission(view.state.values);
+      if (!submission.ok) {
+        await ack({ response_action: 'errors', errors: submission.errors });
+        return;
+      }
+
+      const context: ModalContext = JSON.parse(view.private_metadata || '{}');
+      const { startDate, endDate, type, reason } = submission.value;
+      const errorBlock = submission.value.organizationId ? 'organization' : 'start_date';
+
+      const user = await this.userService.findBySlackUserId(body.user.id);
+      if (!user) {
+        await ack({
+          response_action: 'errors',
+          errors: { [errorBlock]: 'ユーザー登録が必要です。/register で登録してください。' },
+        });
+        return;
+      }
+
+      const resolution = await this.organizationResolver.resolve(user, {
+        organizationId: submission.value.organizationId ?? context.organizationId,
+      });
+      if (resolution.type !== 'resolved') {
+        await ack({
+          response_action: 'errors',
+          errors: {
+            [errorBlock]: resolution.type === 'ambiguous' ? '組織を選択してください。' : resolution.message,
+          },
+        });
+        return;
+      }
+      await ack();
+
+      const organization = resolution.organization;
+      let message: SlackMessage;
+      try {
+        const { vacations, skippedDates } = await runAsActor(
+          { actorId: user.id, platform: 'slack' },
+          () => this.vacationService.requestVacation(user, organization, startDate, endDate, reason, type)
+        );
+        message = this.renderResult({
+          type: 'vacation_requested',
+          user,
+          organization,
+          vacations,
+          skippedDates,
+          reason,
         });
       } catch (error) {
-        await respond({
+        console.error(`休暇申請エラー (${body.user.id}):`, error);
+        message = {
           text: `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`,
-        });
+        };
       }
+
+      await this.postResponse(body.user.id, context.responseUrl, message);
     });
   }
 
   /**
-   * チェックアウトコマンドのハンドラー設定
+   * チェックアウト後の作業内容の記録ボタン・モーダルのハンドラー設定
    */
-  private setupCheckoutHandler(): void {
-    this.app.command('/checkout', async ({ command, ack, respond }) => {
-      await ack();
+  private setupCheckoutNoteHandler(): void {
+    this.app.action<BlockAction<ButtonAction>>(
+      /^checkout_note:/,
+      async ({ action, body, ack }) => {
+        await ack();
 
-      try {
-        // Slack ユーザーの取得
-        const user = await this.userService.findBySlackUserId(command.user_id);
-        if (!user) {
-          await respond({
-            text: `ユーザー登録が必要です。管理者に連絡してください。`,
+        const sessionId = action.action_id.split(':')[1];
+        try {
+          const session = await this.workingSessionService.getSessionById(sessionId);
+          if (!session) return;
+
+          await this.app.client.views.open({
+            trigger_id: body.trigger_id,
+            view: buildCheckoutNoteModal(
+              JSON.stringify({ sessionId, responseUrl: body.response_url } as ModalContext),
+              session.note
+            ),
           });
-          return;
+        } catch (error) {
+          console.error(`作業内容モーダル表示エラー (${body.user.id}):`, error);
         }
+      }
+    );
 
-        // 組織の取得（TODO: 複数組織対応の場合は選択UIが必要）
-        const organizations = await this.organizationService.getUserOrganizations(user.id);
-        if (organizations.length === 0) {
-          await respond({
-            text: `所属組織が見つかりません。管理者に連絡してください。`,
-          });
-          return;
+    this.app.view('checkout_note', async ({ ack, body, view }) => {
+      const submission = parseCheckoutNoteSubmission(view.state.values);
+      if (!submission.ok) {
+        await ack({ response_action: 'errors', errors: submission.errors });
+        return;
+      }
+      await ack();
+
+      const context: ModalContext = JSON.parse(view.private_metadata || '{}');
+      let message: SlackMessage;
+      try {
+        const user = await this.userService.findBySlackUserId(body.user.id);
+        if (!user || !context.sessionId) {
+          message = { text: 'ユーザー登録が必要です。/register で登録してください。' };
+        } else {
+          const sessionId = context.sessionId;
+          await runAsActor({ actorId: user.id, platform: 'slack' }, () =>
+            this.workingSessionService.updateNote(sessionId, user.id, submission.value)
+          );
+          message = { text: `作業内容を記録しました。\n> ${submission.value}` };
         }
+      } catch (error) {
+        message = {
+          text:
+            error instanceof PermissionDeniedError
+              ? formatCommandError('PERMISSION_DENIED', error.message)
+              : `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`,
+        };
+      }
 
-        // 最初の組織を使用
-        const organization = organizations[0];
+      await this.postResponse(body.user.id, context.responseUrl, message);
+    });
+  }
 
-        // コメントがあれば取得
-        const note = command.text ? command.text.trim() : undefined;
+  /**
+   * モーダルの送信結果を元のコマンドの response_url に返す（ない場合・失敗した場合はDMで送る）
+   */
+  private async postResponse(
+    slackUserId: string,
+    responseUrl: string | undefined,
+    message: SlackMessage
+  ): Promise<void> {
+    try {
+      if (responseUrl) {
+        await axios.post(responseUrl, { ...message, response_type: 'ephemeral' });
+        return;
+      }
+    } catch (error) {
+      console.error(`Slack応答送信エラー (${slackUserId}):`, error);
+    }
 
-        // チェックアウト実行
-        const session = await this.workingSessionService.checkout(user.id, organization.id, note);
-        
-        // セッションの開始時間と終了時間から稼働時間を計算
-        const hours = session.checkoutAt && 
-          (session.checkoutAt.getTime() - session.checkinAt.getTime()) / (1000 * 60 * 60);
-        
-        // Slackステータスをリセット（オプション）
-        // this.resetSlackStatus(command.user_id);
+    try {
+      await this.app.client.chat.postMessage({ channel: slackUserId, ...message });
+    } catch (error) {
+      console.error(`Slack DM送信エラー (${slackUserId}):`, error);
+    }
+  }
 
-        await respond({
-          text: `@${command.user_name} さんがチェックアウトしました！${note ? `\n> ${note}` : ''}` +
-                 `\n稼働時間: ${hours ? hours.toFixed(2) : '計算エラー'} 時間`,
-        });
-      } catch (error) {
-        await respond({
-          text: `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`,
-        });
+  /**
+   * ファイルの出力をユーザーとのDMにアップロード（失敗した場合はfalse）
+   */
+  private async uploadFile(
+    slackUserId: string,
+    file: Extract<CommandResult, { type: 'file' }>
+  ): Promise<boolean> {
+    try {
+      const { channel } = await this.app.client.conversations.open({ users: slackUserId });
+      if (!channel?.id) {
+        return false;
       }
-    });
+
+      await this.app.client.files.uploadV2({
+        channel_id: channel.id,
+        filename: file.filename,
+        initial_comment: file.message,
+        // テキストは content、Excelなどのバイナリは file で送る
+        ...(typeof file.content === 'string' ? { content: file.content } : { file: file.content }),
+      });
+      return true;
+    } catch (error) {
+      console.error(`Slackファイル送信エラー (${slackUserId}):`, error);
+      return false;
+    }
   }
 
   /**
-   * ステータス確認コマンドのハンドラー設定
+   * Slackステータス連携コマンドのハンドラー設定（`off` で連携解除）
    */
-  private setupStatusHandler(): void {
-    this.app.command('/status', async ({ command, ack, respond }) => {
+  private setupStatusSyncHandler(): void {
+    this.app.command('/nw-slack-status', async ({ command, ack, respond }) => {
       await ack();
 
       try {
-        // Slack ユーザーの取得
         const user = await this.userService.findBySlackUserId(command.user_id);
         if (!user) {
-          await respond({
-            text: `ユーザー登録が必要です。管理者に連絡してください。`,
-          });
-          return;
-        }
-
-        // 組織の取得（TODO: 複数組織対応の場合は選択UIが必要）
-        const organizations = await this.organizationService.getUserOrganizations(user.id);
-        if (organizations.length === 0) {
-          await respond({
-            text: `所属組織が見つかりません。管理者に連絡してください。`,
-          });
+          await respond({ text: `ユーザー登録が必要です。/register で登録してください。` });
           return;
         }
 
-        // 最初の組織を使用
-        const organization = organizations[0];
-
-        // 全アクティブセッションを取得
-        const activeSessions = await this.workingSessionService.getAllActiveSessions(organization.id);
-        
-        if (activeSessions.length === 0) {
-          await respond({
-            text: `現在稼働中のメンバーはいません。`,
-          });
+        if (command.text.trim() === 'off') {
+          await runAsActor({ actorId: user.id, platform: 'slack' }, () =>
+            this.userService.setSlackUserToken(user.id, null)
+          );
+          await respond({ text: `Slackステータス連携を解除しました。` });
           return;
         }
 
-        // メッセージ作成
-        let message = `現在稼働中のメンバー (${activeSessions.length}人):\n`;
-        
-        for (const session of activeSessions) {
-          const startTime = session.checkinAt.toLocaleString('ja-JP', {
-            hour: '2-digit',
-            minute: '2-digit',
-          });
-          
-          message += `• @${session.user.name} (開始: ${startTime})${session.note ? ` - ${session.note}` : ''}\n`;
-        }
-
+        const url = this.slackOAuthHandler.createConnectUrl(command.user_id);
         await respond({
-          text: message,
+          text:
+            `チェックイン・休憩・休暇に合わせてSlackステータスを自動更新するには、` +
+            `10分以内に次のURLを開いて許可してください:\n${url}`,
         });
       } catch (error) {
         await respond({
@@ -198,16 +435,142 @@ export default class SlackCommandHandler {
   }
 
   /**
-   * 休暇申請コマンドのハンドラー設定
+   * 組織選択ボタンのハンドラー設定
    */
-  private setupVacationHandler(): void {
-    this.app.command('/vacation', async ({ command, ack, respond }) => {
-      await ack();
+  private setupOrganizationSelectionHandler(): void {
+    this.app.action<BlockAction<ButtonAction>>(
+      /^select_organization:/,
+      async ({ action, body, ack, respond }) => {
+        await ack();
 
-      // TODO: Google Calendar連携を実装
-      await respond({
-        text: `休暇申請機能は近日公開予定です。`,
-      });
-    });
+        if (!action.value) return;
+        const selection: OrganizationSelection = JSON.parse(action.value);
+
+        try {
+          const result = await this.processedRequestService.executeOnce('slack', body.trigger_id, () =>
+            this.commandProcessor.execute({
+              platform: 'slack',
+              externalUserId: body.user.id,
+              command: selection.command,
+              args: selection.args,
+              organizationId: selection.organizationId,
+            })
+          );
+          if (!result) return;
+
+          if (result.type === 'file' && !(await this.uploadFile(body.user.id, result))) {
+            await respond({ text: 'ファイルの送信に失敗しました。', replace_original: true });
+            return;
+          }
+
+          await respond({
+            ...this.renderResult(result),
+            replace_original: true,
+          });
+        } catch (error) {
+          console.error(`組織選択の処理エラー (${body.user.id}):`, error);
+          await respond({ text: 'エラーが発生しました。もう一度実行してください。' });
+        }
+      }
+    );
+  }
+
+  /**
+   * Slackのプロフィール（表示名・メールアドレス）を取得
+   */
+  private async fetchProfile(
+    slackUserId: string
+  ): Promise<{ name: string; email: string } | undefined> {
+    try {
+      const { user } = await this.app.client.users.info({ user: slackUserId });
+      const email = user?.profile?.email;
+      if (!email) {
+        return undefined;
+      }
+
+      return {
+        name: user.real_name || user.profile?.display_name || user.name || email,
+        email,
+      };
+    } catch (error) {
+      console.error('Slackプロフィール取得エラー:', error);
+      return undefined;
+    }
   }
+
+  /**
+   * コマンド実行結果をSlackのメッセージに変換
+   */
+  private renderResult(result: CommandResult): SlackMessage {
+    switch (result.type) {
+      case 'checkin':
+        return {
+          text:
+            formatCommandResult(result, SLACK_TEXT_STYLE) +
+            (result.closedStaleSession ? '\nDMから実際の終了時刻を入力してください。' : ''),
+        };
+
+      case 'checkout': {
+        const text = formatCommandResult(result, SLACK_TEXT_STYLE);
+
+        // 作業内容はボタンから開くモーダルで任意に記録できる
+        return {
+          text,
+          blocks: [
+            { type: 'section', text: { type: 'mrkdwn', text } },
+            {
+              type: 'actions',
+              elements: [
+                {
+                  type: 'button',
+                  action_id: `checkout_note:${result.session.id}`,
+                  text: { type: 'plain_text', text: result.note ? '作業内容を編集' : '作業内容を記録' },
+                },
+              ],
+            },
+          ],
+        };
+      }
+
+      case 'select_organization': {
+        const text = '複数の組織に所属しています。対象の組織を選択してください。';
+
+        return {
+          text,
+          blocks: [
+            { type: 'section', text: { type: 'mrkdwn', text } },
+            {
+              type: 'actions',
+              elements: result.candidates.map((organization) => ({
+                type: 'button' as const,
+                action_id: `select_organization:${organization.id}`,
+                text: { type: 'plain_text' as const, text: organization.name },
+                value: JSON.stringify({
+                  command: result.request.command,
+                  args: result.request.args,
+                  organizationId: organization.id,
+                } as OrganizationSelection),
+              })),
+            },
+            {
+              type: 'context',
+              elements: [
+                {
+                  type: 'mrkdwn',
+                  text: '`/nw-org <slug>` でデフォルトの組織を設定できます。',
+                },
+              ],
+            },
+          ],
+        };
+      }
+
+      case 'file':
+        return { text: `${result.message}\nDMにファイル（${result.filename}）を送信しました。` };
+
+      default:
+        return { text: formatCommandResult(result, SLACK_TEXT_STYLE) };
+    }
+  }
+
 }
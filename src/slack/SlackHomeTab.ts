@@ -0,0 +1,122 @@
+import { App, BlockAction, ButtonAction } from '@slack/bolt';
+import { PrismaClient } from '@prisma/client';
+import AttendanceCommandProcessor from '../commands/AttendanceCommandProcessor';
+import OrganizationResolver from '../commands/OrganizationResolver';
+import { formatCommandError } from '../commands/errorText';
+import UserService from '../services/UserService';
+import DashboardService from '../services/DashboardService';
+import ProcessedRequestService from '../services/ProcessedRequestService';
+import StaleSessionNotifier from './StaleSessionNotifier';
+import { buildHomeView, buildMessageHomeView, HomeAction } from './homeView';
+
+/**
+ * SlackのApp Homeタブに本人の稼働状況を表示し、ボタンでの打刻を受け付けるクラス
+ *
+ * ボタンの操作はスラッシュコマンドと同じく勤怠コマンド処理に渡す。
+ */
+export default class SlackHomeTab {
+  private app: App;
+  private commandProcessor: AttendanceCommandProcessor;
+  private organizationResolver: OrganizationResolver;
+  private userService: UserService;
+  private dashboardService: DashboardService;
+  private processedRequestService: ProcessedRequestService;
+  private staleSessionNotifier: StaleSessionNotifier;
+
+  constructor(app: App, prisma: PrismaClient, staleSessionNotifier: StaleSessionNotifier) {
+    this.app = app;
+    this.commandProcessor = new AttendanceCommandProcessor(prisma);
+    this.organizationResolver = new OrganizationResolver(prisma);
+    this.userService = new UserService(prisma);
+    this.dashboardService = new DashboardService(prisma);
+    this.processedRequestService = new ProcessedRequestService(prisma);
+    this.staleSessionNotifier = staleSessionNotifier;
+  }
+
+  /**
+   * App Homeを開いたときのイベントと打刻ボタンのハンドラー設定
+   */
+  initialize(): void {
+    this.app.event('app_home_opened', async ({ event, body }) => {
+      if (event.tab !== 'home') return;
+      await this.publish(event.user, body.team_id);
+    });
+
+    this.app.action<BlockAction<ButtonAction>>(/^home:/, async ({ action, body, ack }) => {
+      await ack();
+
+      const command = action.action_id.split(':')[1] as HomeAction;
+
+      try {
+        const result = await this.processedRequestService.executeOnce('slack', body.trigger_id, () =>
+          this.commandProcessor.execute({
+            platform: 'slack',
+            externalUserId: body.user.id,
+            command,
+            args: '',
+            organizationId: action.value,
+          })
+        );
+        if (!result) return;
+
+        // 前回のセッションを自動終了した場合は実際の終了時刻をDMで確認する
+        if (result.type === 'checkin' && result.closedStaleSession) {
+          await this.staleSessionNotifier.notify(
+            result.user,
+            result.organization,
+            result.closedStaleSession
+          );
+        }
+
+        await this.publish(
+          body.user.id,
+          body.team?.id,
+          result.type === 'error' ? formatCommandError(result.code, result.message) : undefined
+        );
+      } catch (error) {
+        console.error(`App Homeの打刻エラー (${body.user.id}):`, error);
+        await this.publish(body.user.id, body.team?.id, 'エラーが発生しました。もう一度実行してください。');
+      }
+    });
+  }
+
+  /**
+   * ユーザーのApp Homeを最新の状態で表示する
+   */
+  async publish(slackUserId: string, slackTeamId?: string, notice?: string): Promise<void> {
+    try {
+      await this.app.client.views.publish({
+        user_id: slackUserId,
+        view: await this.buildView(slackUserId, slackTeamId, notice),
+      });
+    } catch (error) {
+      console.error(`App Home表示エラー (${slackUserId}):`, error);
+    }
+  }
+
+  /**
+   * ユーザーと組織を確認してApp Homeのビューを作成
+   */
+  private async buildView(slackUserId: string, slackTeamId?: string, notice?: string) {
+    const user = await this.userService.findBySlackUserId(slackUserId);
+    if (!user) {
+      return buildMessageHomeView('ユーザー登録が必要です。/register で登録してください。');
+    }
+
+    const resolution = await this.organizationResolver.resolve(user, {
+      context: { slackTeamId },
+    });
+    if (resolution.type === 'not_found' || resolution.type === 'suspended') {
+      return buildMessageHomeView(resolution.message);
+    }
+    if (resolution.type === 'ambiguous') {
+      return buildMessageHomeView(
+        '複数の組織に所属しています。`/nw-org <slug>` でデフォルト組織を設定すると、ここに稼働状況を表示します。\n' +
+          resolution.candidates.map((organization) => `• ${organization.name} (${organization.slug})`).join('\n')
+      );
+    }
+
+    const dashboard = await this.dashboardService.getDashboard(user, resolution.organization);
+    return buildHomeView(dashboard, notice);
+  }
+}
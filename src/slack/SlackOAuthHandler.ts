@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { App } from '@slack/bolt';
+import { PrismaClient } from '@prisma/client';
+import UserService from '../services/UserService';
+import { createSignedToken, verifySignedToken } from '../utils/crypto';
+import { runAsActor } from '../utils/auditContext';
+
+/** 連携開始リンクの有効期限（秒） */
+const CONNECT_LINK_EXPIRES_IN = 10 * 60;
+
+/** ステータス・プレゼンス更新に必要なユーザースコープ */
+const USER_SCOPES = ['users.profile:write', 'users:write'];
+
+/**
+ * Slackステータス連携（ユーザートークン取得）のOAuthハンドラークラス
+ */
+export default class SlackOAuthHandler {
+  private app: App;
+  private userService: UserService;
+
+  constructor(app: App, prisma: PrismaClient) {
+    this.app = app;
+    this.userService = new UserService(prisma);
+  }
+
+  /**
+   * Slackユーザー向けの連携開始URLを作成する
+   */
+  createConnectUrl(slackUserId: string): string {
+    const state = createSignedToken({ slackUserId }, CONNECT_LINK_EXPIRES_IN);
+    const baseUrl = process.env.APP_BASE_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+    return `${baseUrl}/oauth/slack/start?state=${encodeURIComponent(state)}`;
+  }
+
+  /**
+   * 連携開始（Slackの認可画面へリダイレクト）
+   */
+  async handleStart(req: Request, res: Response): Promise<void> {
+    const state = typeof req.query.state === 'string' ? req.query.state : '';
+    if (!verifySignedToken<{ slackUserId: string }>(state)) {
+      res.status(400).type('text/plain').send('連携リンクが無効か期限切れです。もう一度リンクを発行してください。');
+      return;
+    }
+
+    const params = new URLSearchParams({
+      client_id: process.env.SLACK_CLIENT_ID || '',
+      user_scope: USER_SCOPES.join(','),
+      redirect_uri: process.env.SLACK_REDIRECT_URI || '',
+      state,
+    });
+
+    res.redirect(`https://slack.com/oauth/v2/authorize?${params.toString()}`);
+  }
+
+  /**
+   * 認可後のコールバック（ユーザートークンを保存）
+   */
+  async handleCallback(req: Request, res: Response): Promise<void> {
+    const { code, state, error } = req.query;
+
+    if (typeof error === 'string') {
+      res.status(400).type('text/plain').send(`Slackステータス連携がキャンセルされました: ${error}`);
+      return;
+    }
+    if (typeof code !== 'string' || typeof state !== 'string') {
+      res.status(400).type('text/plain').send('不正なリクエストです。');
+      return;
+    }
+
+    try {
+      const payload = verifySignedToken<{ slackUserId: string }>(state);
+      if (!payload) {
+        throw new Error('連携リンクが無効か期限切れです。もう一度リンクを発行してください。');
+      }
+
+      const response = await this.app.client.oauth.v2.access({
+        client_id: process.env.SLACK_CLIENT_ID || '',
+        client_secret: process.env.SLACK_CLIENT_SECRET || '',
+        redirect_uri: process.env.SLACK_REDIRECT_URI,
+        code,
+      });
+
+      // 連携リンクを発行したユーザー本人が認可したことを確認する
+      const authedUser = response.authed_user;
+      if (!authedUser?.access_token || authedUser.id !== payload.slackUserId) {
+        throw new Error('連携リンクを発行したSlackユーザーで認可してください。');
+      }
+
+      const user = await this.userService.findBySlackUserId(payload.slackUserId);
+      if (!user) {
+        throw new Error('ユーザー登録が必要です。/register で登録してください。');
+      }
+
+      await runAsActor({ actorId: user.id, platform: 'slack' }, () =>
+        this.userService.setSlackUserToken(user.id, authedUser.access_token as string)
+      );
+      res.type('text/plain').send('Slackステータス連携が完了しました。このページは閉じて構いません。');
+    } catch (error) {
+      console.error('Slack OAuthコールバックエラー:', error);
+      res.status(400).type('text/plain').send(
+        `Slackステータス連携に失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+      );
+    }
+  }
+}
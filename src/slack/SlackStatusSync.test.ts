@@ -0,0 +1,93 @@
+import { App } from '@slack/bolt';
+import { Organization, PrismaClient, User, Vacation } from '@prisma/client';
+import SlackStatusSync from './SlackStatusSync';
+import UserService from '../services/UserService';
+import VacationService from '../services/VacationService';
+
+const tokyo = { id: 'org-1', timeZone: 'Asia/Tokyo' } as Organization;
+const newYork = { id: 'org-2', timeZone: 'America/New_York' } as Organization;
+
+function createVacation(
+  id: string,
+  user: User,
+  organization: Organization,
+  date: string,
+  slackStatusAppliedAt: Date | null = null
+) {
+  return {
+    id,
+    userId: user.id,
+    date: new Date(`${date}T00:00:00Z`),
+    slackStatusAppliedAt,
+    user,
+    organization,
+  } as Vacation & { user: User; organization: Organization };
+}
+
+describe('SlackStatusSync', () => {
+  const taro = { id: 'user-1', timeZone: null } as User;
+  const hanako = { id: 'user-2', timeZone: null } as User;
+
+  let sync: SlackStatusSync;
+  let setProfile: jest.Mock;
+  let getVacations: jest.SpyInstance;
+  let markApplied: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    setProfile = jest.fn().mockResolvedValue({});
+    const app = {
+      client: { users: { profile: { set: setProfile }, setPresence: jest.fn().mockResolvedValue({}) } },
+    } as unknown as App;
+
+    jest.spyOn(UserService.prototype, 'findById').mockImplementation(async (id) => ({ id }) as User);
+    jest.spyOn(UserService.prototype, 'getSlackUserToken').mockImplementation((user) => `xoxp-${user.id}`);
+    getVacations = jest.spyOn(VacationService.prototype, 'getVacationsOnDates');
+    markApplied = jest.spyOn(VacationService.prototype, 'markSlackStatusApplied').mockResolvedValue();
+
+    sync = new SlackStatusSync(app, {} as PrismaClient);
+  });
+
+  it('今日休暇で未設定のメンバーに設定し、0時台を過ぎていても設定する', async () => {
+    // 2026-11-03 10:00 JST（New York ではまだ 11/2）
+    const now = new Date('2026-11-03T01:00:00Z');
+    getVacations.mockResolvedValue([
+      createVacation('vacation-1', taro, tokyo, '2026-11-03'),
+      createVacation('vacation-2', hanako, newYork, '2026-11-03'),
+    ]);
+
+    await sync.applyTodayVacationStatuses(now);
+
+    expect(setProfile).toHaveBeenCalledTimes(1);
+    expect(setProfile).toHaveBeenCalledWith(expect.objectContaining({ token: 'xoxp-user-1' }));
+    expect(markApplied).toHaveBeenCalledWith(['vacation-1'], now);
+  });
+
+  it('今日既に設定したメンバーには再度設定しない', async () => {
+    getVacations.mockResolvedValue([
+      createVacation('vacation-1', taro, tokyo, '2026-11-03', new Date('2026-11-02T15:05:00Z')),
+      // 同じ日の別の組織の休暇
+      createVacation('vacation-3', taro, { ...tokyo, id: 'org-3' } as Organization, '2026-11-03'),
+    ]);
+
+    await sync.applyTodayVacationStatuses(new Date('2026-11-03T01:00:00Z'));
+
+    expect(setProfile).not.toHaveBeenCalled();
+    expect(markApplied).not.toHaveBeenCalled();
+  });
+
+  it('設定に失敗したメンバーは記録せず、次の実行で再度設定する', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    getVacations.mockResolvedValue([
+      createVacation('vacation-1', taro, tokyo, '2026-11-03'),
+      createVacation('vacation-4', hanako, tokyo, '2026-11-03'),
+    ]);
+    setProfile.mockRejectedValueOnce(new Error('ratelimited'));
+
+    await sync.applyTodayVacationStatuses(new Date('2026-11-03T01:00:00Z'));
+
+    expect(setProfile).toHaveBeenCalledTimes(2);
+    expect(markApplied).toHaveBeenCalledTimes(1);
+    expect(markApplied).toHaveBeenCalledWith(['vacation-4'], expect.any(Date));
+  });
+});
@@ -0,0 +1,199 @@
+import { App } from '@slack/bolt';
+import { PrismaClient } from '@prisma/client';
+import UserService from '../services/UserService';
+import OrganizationService from '../services/OrganizationService';
+import VacationService from '../services/VacationService';
+import { attendanceEvents } from '../events/attendanceEvents';
+import {
+  addDays,
+  resolveTimeZone,
+  startOfDay,
+  toCalendarDate,
+} from '../utils/timezone';
+
+const BREAK_STATUS = { emoji: ':coffee:', text: '休憩中' };
+const VACATION_STATUS = { emoji: ':palm_tree:', text: '休暇中' };
+
+/**
+ * 打刻・休憩・休暇に合わせてSlackのステータスとプレゼンスを更新するクラス
+ *
+ * ステータスの変更には各ユーザーが連携したユーザートークンを使用する（未連携のユーザーは対象外）。
+ * 休暇の「今日」はユーザーのタイムゾーンで判定する。
+ */
+export default class SlackStatusSync {
+  private app: App;
+  private userService: UserService;
+  private organizationService: OrganizationService;
+  private vacationService: VacationService;
+
+  constructor(app: App, prisma: PrismaClient) {
+    this.app = app;
+    this.userService = new UserService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.vacationService = new VacationService(prisma);
+  }
+
+  /**
+   * 勤怠イベントの購読を開始する
+   */
+  start(): void {
+    attendanceEvents.on('checkin', ({ userId, organizationId }) =>
+      this.setWorkingStatus(userId, organizationId)
+    );
+    attendanceEvents.on('break_ended', ({ userId, organizationId }) =>
+      this.setWorkingStatus(userId, organizationId)
+    );
+    attendanceEvents.on('break_started', ({ userId }) =>
+      this.updateStatus(userId, BREAK_STATUS.emoji, BREAK_STATUS.text)
+    );
+    attendanceEvents.on('checkout', ({ userId }) => this.clearStatus(userId));
+
+    attendanceEvents.on('vacation_requested', async ({ userId, organizationId, vacations }) => {
+      const timeZone = await this.getTimeZone(userId, organizationId);
+      const today = toCalendarDate(new Date(), timeZone);
+      const todayVacations = vacations.filter((vacation) => vacation.date.getTime() === today.getTime());
+      if (todayVacations.length > 0) {
+        await this.setVacationStatus(userId, timeZone);
+        // 毎時のジョブで再度設定しない（チェックイン後のステータスを上書きしないため）
+        await this.vacationService.markSlackStatusApplied(
+          todayVacations.map((vacation) => vacation.id),
+          new Date()
+        );
+      }
+    });
+    attendanceEvents.on('vacation_cancelled', async ({ userId, organizationId, vacation }) => {
+      const timeZone = await this.getTimeZone(userId, organizationId);
+      if (vacation.date.getTime() === toCalendarDate(new Date(), timeZone).getTime()) {
+        await this.clearStatus(userId);
+      }
+    });
+  }
+
+  /**
+   * 今日休暇で、今日まだ休暇中ステータスを設定していないユーザーに設定する（毎時のジョブから実行）
+   *
+   * 設定したことを休暇に記録するため、日付が変わった時刻にサーバーが停止していても次の実行で設定する。
+   * 設定に失敗したユーザーは記録せず、次の実行で再度設定する。
+   */
+  async applyTodayVacationStatuses(now: Date = new Date()): Promise<void> {
+    // タイムゾーンによって今日の日付が前後するため、前後1日の休暇から絞り込む
+    const utcToday = toCalendarDate(now, 'UTC');
+    const vacations = await this.vacationService.getVacationsOnDates([
+      addDays(utcToday, -1),
+      utcToday,
+      addDays(utcToday, 1),
+    ]);
+
+    const todayVacations = vacations.filter(
+      (vacation) =>
+        vacation.date.getTime() ===
+        toCalendarDate(now, resolveTimeZone(vacation.user, vacation.organization)).getTime()
+    );
+
+    // 複数の組織で同じ日に休暇を登録している場合も、いずれかで設定済みなら設定しない
+    const appliedUserIds = new Set(
+      todayVacations.filter((vacation) => vacation.slackStatusAppliedAt).map((vacation) => vacation.userId)
+    );
+    const pending = new Map<string, { timeZone: string; vacationIds: string[] }>();
+    for (const vacation of todayVacations) {
+      if (appliedUserIds.has(vacation.userId)) continue;
+
+      const entry = pending.get(vacation.userId) ?? {
+        timeZone: resolveTimeZone(vacation.user, vacation.organization),
+        vacationIds: [],
+      };
+      entry.vacationIds.push(vacation.id);
+      pending.set(vacation.userId, entry);
+    }
+
+    for (const [userId, { timeZone, vacationIds }] of pending) {
+
+      try {
+        await this.setVacationStatus(userId, timeZone);
+        await this.vacationService.markSlackStatusApplied(vacationIds, now);
+      } catch (error) {
+        console.error(`休暇中ステータス設定エラー (${userId}):`, error);
+      }
+    }
+  }
+
+  /**
+   * 組織で設定された稼働中ステータスを設定する
+   */
+  private async setWorkingStatus(userId: string, organizationId: string): Promise<void> {
+    const organization = await this.organizationService.findById(organizationId);
+    if (!organization) return;
+
+    await this.updateStatus(
+      userId,
+      organization.slackStatusEmoji,
+      organization.slackStatusText,
+      0,
+      'auto'
+    );
+  }
+
+  /**
+   * 休暇中ステータスをタイムゾーンでの今日の終わりまで設定する
+   */
+  private async setVacationStatus(userId: string, timeZone: string): Promise<void> {
+    const endOfDay = startOfDay(addDays(toCalendarDate(new Date(), timeZone), 1), timeZone);
+
+    await this.updateStatus(
+      userId,
+      VACATION_STATUS.emoji,
+      VACATION_STATUS.text,
+      Math.floor(endOfDay.getTime() / 1000),
+      'away'
+    );
+  }
+
+  /**
+   * ステータスをクリアする
+   */
+  private async clearStatus(userId: string): Promise<void> {
+    await this.updateStatus(userId, '', '', 0, 'away');
+  }
+
+  /**
+   * ユーザートークンでSlackのステータスとプレゼンスを更新する
+   *
+   * @param expiration ステータスの有効期限（UNIX秒、0は無期限）
+   */
+  private async updateStatus(
+    userId: string,
+    emoji: string,
+    text: string,
+    expiration = 0,
+    presence?: 'auto' | 'away'
+  ): Promise<void> {
+    const user = await this.userService.findById(userId);
+    const token = user && this.userService.getSlackUserToken(user);
+    if (!token) return;
+
+    await this.app.client.users.profile.set({
+      token,
+      profile: JSON.stringify({
+        status_emoji: emoji,
+        status_text: text,
+        status_expiration: expiration,
+      }),
+    });
+
+    if (presence) {
+      await this.app.client.users.setPresence({ token, presence });
+    }
+  }
+
+  /**
+   * ユーザー・組織の設定から休暇の判定に使うタイムゾーンを取得する
+   */
+  private async getTimeZone(userId: string, organizationId: string): Promise<string> {
+    const [user, organization] = await Promise.all([
+      this.userService.findById(userId),
+      this.organizationService.findById(organizationId),
+    ]);
+
+    return resolveTimeZone(user, organization);
+  }
+}
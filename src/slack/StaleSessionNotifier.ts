@@ -0,0 +1,146 @@
+import { App, BlockAction, TimepickerAction } from '@slack/bolt';
+import { Organization, PrismaClient, User, WorkingSession } from '@prisma/client';
+import UserService from '../services/UserService';
+import OrganizationService from '../services/OrganizationService';
+import WorkingSessionService from '../services/WorkingSessionService';
+import SessionCorrectionService from '../services/SessionCorrectionService';
+import PermissionDeniedError from '../errors/PermissionDeniedError';
+import { formatCommandError } from '../commands/errorText';
+import { runAsActor } from '../utils/auditContext';
+import { formatClockTime, getZonedParts, resolveTimeZone, zonedTime } from '../utils/timezone';
+
+/**
+ * チェックアウト忘れで自動終了したセッションをSlack DMで通知し、実際の終了時刻を受け付けるクラス
+ *
+ * 時刻はセッションのユーザーのタイムゾーンで表示・解釈する。
+ */
+export default class StaleSessionNotifier {
+  private app: App;
+  private userService: UserService;
+  private organizationService: OrganizationService;
+  private workingSessionService: WorkingSessionService;
+  private sessionCorrectionService: SessionCorrectionService;
+
+  constructor(app: App, prisma: PrismaClient) {
+    this.app = app;
+    this.userService = new UserService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+    this.workingSessionService = new WorkingSessionService(prisma);
+    this.sessionCorrectionService = new SessionCorrectionService(prisma);
+  }
+
+  /**
+   * 終了時刻選択のハンドラー設定（選択した時刻は修正申請として管理者の承認後に反映する）
+   */
+  initialize(): void {
+    this.app.action<BlockAction<TimepickerAction>>(
+      /^stale_session_end_time:/,
+      async ({ action, body, ack, respond }) => {
+        await ack();
+
+        const sessionId = action.action_id.split(':')[1];
+        if (!action.selected_time) return;
+
+        try {
+          const user = await this.userService.findBySlackUserId(body.user.id);
+          if (!user) {
+            await respond({ text: 'ユーザー登録が必要です。/register で登録してください。' });
+            return;
+          }
+
+          const { checkoutAt, timeZone } = await this.resolveCheckoutAt(
+            sessionId,
+            action.selected_time
+          );
+          await runAsActor({ actorId: user.id, platform: 'slack' }, () =>
+            this.sessionCorrectionService.requestCheckoutCorrection(sessionId, user.id, checkoutAt)
+          );
+
+          await respond({
+            text:
+              `終了時刻を ${this.formatDateTime(checkoutAt, timeZone)} に修正する申請を送信しました。` +
+              '管理者が承認すると反映されます。',
+            replace_original: true,
+          });
+        } catch (error) {
+          await respond({
+            text:
+              error instanceof PermissionDeniedError
+                ? formatCommandError('PERMISSION_DENIED', error.message)
+                : `エラーが発生しました: ${error instanceof Error ? error.message : '不明なエラー'}`,
+          });
+        }
+      }
+    );
+  }
+
+  /**
+   * 自動終了したセッションをDMで通知する
+   */
+  async notify(user: User, organization: Organization, session: WorkingSession): Promise<void> {
+    const slackUserId = user.slackUserId;
+    if (!slackUserId) return;
+
+    const timeZone = resolveTimeZone(user, organization);
+    const text =
+      `「${organization.name}」で ${this.formatDateTime(session.checkinAt, timeZone)} に開始したセッションが` +
+      `チェックアウトされていなかったため、自動で終了しました。実際の終了時刻を選択すると、修正申請として管理者に送信します。`;
+
+    try {
+      await this.app.client.chat.postMessage({
+        channel: slackUserId,
+        text,
+        blocks: [
+          {
+            type: 'section',
+            text: { type: 'mrkdwn', text },
+            accessory: {
+              type: 'timepicker',
+              action_id: `stale_session_end_time:${session.id}`,
+              placeholder: { type: 'plain_text', text: '終了時刻' },
+            },
+          },
+        ],
+      });
+    } catch (error) {
+      console.error(`Slack DM送信エラー (${slackUserId}):`, error);
+    }
+  }
+
+  /**
+   * 選択された時刻をセッションのユーザーのタイムゾーンでチェックイン日の日時に変換
+   * （チェックイン時刻より前なら翌日とみなす）
+   */
+  private async resolveCheckoutAt(
+    sessionId: string,
+    selectedTime: string
+  ): Promise<{ checkoutAt: Date; timeZone: string }> {
+    const session = await this.workingSessionService.getSessionById(sessionId);
+    if (!session) {
+      throw new Error('修正できるセッションが見つかりません。');
+    }
+
+    const [owner, organization] = await Promise.all([
+      this.userService.findById(session.userId),
+      this.organizationService.findById(session.organizationId),
+    ]);
+    const timeZone = resolveTimeZone(owner, organization);
+
+    const [hours, minutes] = selectedTime.split(':').map(Number);
+    const { year, month, day } = getZonedParts(session.checkinAt, timeZone);
+    let checkoutAt = zonedTime(timeZone, year, month, day, hours, minutes);
+    if (checkoutAt <= session.checkinAt) {
+      checkoutAt = zonedTime(timeZone, year, month, day + 1, hours, minutes);
+    }
+
+    return { checkoutAt, timeZone };
+  }
+
+  /**
+   * 日時をタイムゾーンでの「10/17 09:30」形式にフォーマット
+   */
+  private formatDateTime(date: Date, timeZone: string): string {
+    const { month, day } = getZonedParts(date, timeZone);
+    return `${month}/${day} ${formatClockTime(date, timeZone)}`;
+  }
+}
@@ -0,0 +1,124 @@
+import { ActionsBlock, ContextBlock, SectionBlock } from '@slack/bolt';
+import { Organization, User, Vacation, VacationType, WorkingBreak } from '@prisma/client';
+import { buildHomeView, buildMessageHomeView } from './homeView';
+import { Dashboard } from '../services/DashboardService';
+import { WorkingSessionWithBreaks } from '../services/WorkingSessionService';
+
+const organization = { id: 'org-1', name: '株式会社サンプル', timeZone: 'Asia/Tokyo' } as Organization;
+const taro = { id: 'user-1', name: '山田太郎' } as User;
+
+function createSession(
+  user: User,
+  checkinAt: string,
+  options: { onBreak?: boolean; note?: string } = {}
+): WorkingSessionWithBreaks & { user: User } {
+  return {
+    id: `session-${user.id}`,
+    userId: user.id,
+    checkinAt: new Date(checkinAt),
+    checkoutAt: null,
+    note: options.note ?? null,
+    breaks: options.onBreak ? [{ startAt: new Date(checkinAt), endAt: null } as WorkingBreak] : [],
+    user,
+  } as WorkingSessionWithBreaks & { user: User };
+}
+
+function createDashboard(overrides: Partial<Dashboard> = {}): Dashboard {
+  return {
+    user: taro,
+    organization,
+    timeZone: 'Asia/Tokyo',
+    activeSession: null,
+    onBreak: false,
+    weekStart: new Date('2026-10-19T00:00:00Z'),
+    weeklyHours: 10.5,
+    upcomingVacations: [],
+    workingNow: [],
+    ...overrides,
+  };
+}
+
+function actionIds(dashboard: Dashboard): string[] {
+  const actions = buildHomeView(dashboard).blocks.find((block) => block.type === 'actions') as ActionsBlock;
+  return actions.elements.map((element) => (element as { action_id: string }).action_id);
+}
+
+function texts(dashboard: Dashboard, notice?: string): string {
+  return JSON.stringify(buildHomeView(dashboard, notice).blocks);
+}
+
+describe('buildHomeView', () => {
+  it('チェックインの状態に応じたボタンを表示する', () => {
+    const session = createSession(taro, '2026-10-21T00:00:00Z');
+
+    expect(actionIds(createDashboard())).toEqual(['home:checkin']);
+    expect(actionIds(createDashboard({ activeSession: session }))).toEqual(['home:break', 'home:checkout']);
+    expect(actionIds(createDashboard({ activeSession: session, onBreak: true }))).toEqual([
+      'home:resume',
+      'home:checkout',
+    ]);
+  });
+
+  it('ボタンの値に組織IDを埋め込む', () => {
+    const view = buildHomeView(createDashboard());
+    const actions = view.blocks.find((block) => block.type === 'actions') as ActionsBlock;
+
+    expect(actions.elements[0]).toMatchObject({ action_id: 'home:checkin', value: 'org-1', style: 'primary' });
+  });
+
+  it('稼働中の開始時刻をユーザーのタイムゾーンで表示し、操作結果を表示する', () => {
+    const view = buildHomeView(
+      createDashboard({ activeSession: createSession(taro, '2026-10-21T00:00:00Z'), onBreak: true }),
+      '既に休憩中です。'
+    );
+
+    expect((view.blocks[1] as SectionBlock).text?.text).toBe('☕ *休憩中*（10/21(水) 09:00 から稼働）');
+    expect((view.blocks[3] as ContextBlock).elements[0]).toEqual({ type: 'mrkdwn', text: '既に休憩中です。' });
+  });
+
+  it('今週の稼働時間と今後の休暇を表示する', () => {
+    const vacations = [
+      { date: new Date('2026-11-03T00:00:00Z'), type: VacationType.FULL_DAY, reason: '帰省' },
+      { date: new Date('2026-11-04T00:00:00Z'), type: VacationType.AM_HALF, reason: null },
+    ] as Vacation[];
+
+    expect(texts(createDashboard({ upcomingVacations: vacations }))).toContain(
+      '*今週の稼働時間*（10/19(月)〜）\\n10.50 時間'
+    );
+    expect(texts(createDashboard({ upcomingVacations: vacations }))).toContain(
+      '*今後の休暇*\\n• 11/03(火) - 帰省\\n• 11/04(水) 午前半休'
+    );
+    expect(texts(createDashboard())).toContain('予定されている休暇はありません。');
+  });
+
+  it('稼働中のメンバーは最大50人まで表示し、残りは人数のみ表示する', () => {
+    const workingNow = Array.from({ length: 52 }, (_, index) =>
+      createSession({ id: `user-${index}`, name: `メンバー${index}` } as User, '2026-10-21T00:00:00Z', {
+        onBreak: index === 0,
+        note: index === 1 ? '設計レビュー' : undefined,
+      })
+    );
+
+    const text = texts(createDashboard({ workingNow }));
+
+    expect(text).toContain('*稼働中のメンバー*（52人）');
+    expect(text).toContain('• メンバー0（開始: 09:00） ☕ 休憩中');
+    expect(text).toContain('• メンバー1（開始: 09:00） - 設計レビュー');
+    expect(text).toContain('• メンバー49（開始: 09:00）');
+    expect(text).not.toContain('メンバー50');
+    expect(text).toContain('ほか 2人');
+    expect(texts(createDashboard())).toContain('現在稼働中のメンバーはいません。');
+  });
+});
+
+describe('buildMessageHomeView', () => {
+  it('メッセージのみのビューを作成する', () => {
+    expect(buildMessageHomeView('ユーザー登録が必要です。')).toEqual({
+      type: 'home',
+      blocks: [
+        { type: 'header', text: { type: 'plain_text', text: 'NowWorking' } },
+        { type: 'section', text: { type: 'mrkdwn', text: 'ユーザー登録が必要です。' } },
+      ],
+    });
+  });
+});
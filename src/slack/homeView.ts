@@ -0,0 +1,132 @@
+import { Button, HomeView, KnownBlock } from '@slack/bolt';
+import { Dashboard } from '../services/DashboardService';
+import { formatDay, formatTime, formatVacationDay } from '../commands/reportText';
+
+/** 「稼働中のメンバー」に表示する最大人数（ブロックの文字数の上限を超えないようにする） */
+const MAX_WORKING_MEMBERS = 50;
+
+/**
+ * App Homeのボタンで実行する勤怠コマンド
+ */
+export type HomeAction = 'checkin' | 'checkout' | 'break' | 'resume';
+
+/**
+ * App Homeのボタン（値に対象の組織IDを埋め込む）
+ */
+function actionButton(
+  action: HomeAction,
+  label: string,
+  organizationId: string,
+  style?: 'primary' | 'danger'
+): Button {
+  return {
+    type: 'button',
+    action_id: `home:${action}`,
+    text: { type: 'plain_text', text: label },
+    value: organizationId,
+    ...(style ? { style } : {}),
+  };
+}
+
+/**
+ * ダッシュボードをApp Homeのビューに変換
+ *
+ * notice にはボタン操作の結果（エラーなど）を表示する。
+ */
+export function buildHomeView(dashboard: Dashboard, notice?: string): HomeView {
+  const { organization, timeZone, activeSession, onBreak } = dashboard;
+  const blocks: KnownBlock[] = [
+    { type: 'header', text: { type: 'plain_text', text: `NowWorking（${organization.name}）` } },
+  ];
+
+  // 現在の状態とボタン
+  let state: string;
+  let buttons: Button[];
+  if (!activeSession) {
+    state = '⚪ チェックインしていません';
+    buttons = [actionButton('checkin', 'チェックイン', organization.id, 'primary')];
+  } else {
+    const since = `${formatDay(activeSession.checkinAt, timeZone)} ${formatTime(activeSession.checkinAt, timeZone)} から`;
+    state = onBreak ? `☕ *休憩中*（${since}稼働）` : `🟢 *稼働中*（${since}）`;
+    buttons = [
+      onBreak
+        ? actionButton('resume', '作業再開', organization.id, 'primary')
+        : actionButton('break', '休憩', organization.id),
+      actionButton('checkout', 'チェックアウト', organization.id, 'danger'),
+    ];
+  }
+
+  blocks.push(
+    { type: 'section', text: { type: 'mrkdwn', text: state } },
+    { type: 'actions', elements: buttons }
+  );
+  if (notice) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: notice }] });
+  }
+
+  // 今週の稼働時間と今後の休暇
+  const vacations =
+    dashboard.upcomingVacations.length > 0
+      ? dashboard.upcomingVacations
+          .map((vacation) => `• ${formatVacationDay(vacation)}${vacation.reason ? ` - ${vacation.reason}` : ''}`)
+          .join('\n')
+      : '予定されている休暇はありません。';
+
+  blocks.push(
+    { type: 'divider' },
+    {
+      type: 'section',
+      fields: [
+        {
+          type: 'mrkdwn',
+          text: `*今週の稼働時間*（${formatDay(dashboard.weekStart)}〜）\n${dashboard.weeklyHours.toFixed(2)} 時間`,
+        },
+        { type: 'mrkdwn', text: `*今後の休暇*\n${vacations}` },
+      ],
+    }
+  );
+
+  // 稼働中のメンバー
+  const members = dashboard.workingNow.slice(0, MAX_WORKING_MEMBERS).map((session) => {
+    const memberOnBreak = session.breaks.some((workingBreak) => !workingBreak.endAt);
+    return (
+      `• ${session.user.name}（開始: ${formatTime(session.checkinAt, timeZone)}）` +
+      `${memberOnBreak ? ' ☕ 休憩中' : ''}${session.note ? ` - ${session.note}` : ''}`
+    );
+  });
+  if (dashboard.workingNow.length > members.length) {
+    members.push(`ほか ${dashboard.workingNow.length - members.length}人`);
+  }
+
+  blocks.push(
+    { type: 'divider' },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text:
+          `*稼働中のメンバー*（${dashboard.workingNow.length}人）\n` +
+          (members.length > 0 ? members.join('\n') : '現在稼働中のメンバーはいません。'),
+      },
+    },
+    {
+      type: 'context',
+      elements: [{ type: 'mrkdwn', text: `時刻は ${timeZone} で表示しています。` }],
+    }
+  );
+
+  return { type: 'home', blocks };
+}
+
+/**
+ * ダッシュボードを表示できない場合（未登録・組織が決まらないなど）のビュー
+ */
+export function buildMessageHomeView(message: string): HomeView {
+  return {
+    type: 'home',
+    blocks: [
+      { type: 'header', text: { type: 'plain_text', text: 'NowWorking' } },
+      { type: 'section', text: { type: 'mrkdwn', text: message } },
+    ],
+  };
+}
@@ -0,0 +1,209 @@
+import { KnownBlock, ModalView, ViewStateValue } from '@slack/bolt';
+import { Organization, VacationType } from '@prisma/client';
+import { VACATION_TYPE_LABELS } from '../commands/reportText';
+import { MAX_VACATION_DAYS } from '../commands/vacationArgs';
+import { calendarDate, diffDays } from '../utils/timezone';
+
+/** モーダルで入力できる理由・作業内容の最大文字数 */
+const MAX_REASON_LENGTH = 200;
+const MAX_NOTE_LENGTH = 1000;
+
+/**
+ * モーダルの送信時に受け取る値（ブロックID → アクションID → 値）
+ */
+type ViewValues = Record<string, Record<string, ViewStateValue>>;
+
+/**
+ * 入力内容の検証結果（エラーはブロックIDごとのメッセージ）
+ */
+export type ModalSubmission<T> = { ok: true; value: T } | { ok: false; errors: Record<string, string> };
+
+/**
+ * 休暇申請モーダルの入力内容
+ */
+export interface VacationSubmission {
+  startDate: Date;
+  endDate: Date;
+  type: VacationType;
+  reason?: string;
+  /** モーダルで選択した組織（組織を選択する欄がある場合のみ） */
+  organizationId?: string;
+}
+
+/**
+ * 休暇申請モーダル
+ *
+ * metadata には送信時に使うコンテキスト（対象組織・返信先など）を埋め込む。
+ * 対象組織が決まらない場合は organizations を指定し、申請する組織を選択する欄を表示する。
+ */
+export function buildVacationModal(
+  metadata: string,
+  today: string,
+  organizations: Organization[] = []
+): ModalView {
+  const organizationBlocks: KnownBlock[] =
+    organizations.length > 0
+      ? [
+          {
+            type: 'input',
+            block_id: 'organization',
+            label: { type: 'plain_text', text: '組織' },
+            element: {
+              type: 'static_select',
+              action_id: 'value',
+              options: organizations.map((organization) => ({
+                text: { type: 'plain_text', text: organization.name },
+                value: organization.id,
+              })),
+            },
+          },
+        ]
+      : [];
+
+  return {
+    type: 'modal',
+    callback_id: 'vacation_request',
+    private_metadata: metadata,
+    title: { type: 'plain_text', text: '休暇申請' },
+    submit: { type: 'plain_text', text: '申請' },
+    close: { type: 'plain_text', text: 'キャンセル' },
+    blocks: [
+      ...organizationBlocks,
+      {
+        type: 'input',
+        block_id: 'start_date',
+        label: { type: 'plain_text', text: '開始日' },
+        element: { type: 'datepicker', action_id: 'value', initial_date: today },
+      },
+      {
+        type: 'input',
+        block_id: 'end_date',
+        optional: true,
+        label: { type: 'plain_text', text: '終了日' },
+        hint: { type: 'plain_text', text: `1日だけの場合は空欄にしてください（最大${MAX_VACATION_DAYS}日間）。` },
+        element: { type: 'datepicker', action_id: 'value' },
+      },
+      {
+        type: 'input',
+        block_id: 'vacation_type',
+        label: { type: 'plain_text', text: '種類' },
+        element: {
+          type: 'radio_buttons',
+          action_id: 'value',
+          initial_option: vacationTypeOption(VacationType.FULL_DAY),
+          options: Object.values(VacationType).map((type) => vacationTypeOption(type)),
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'reason',
+        optional: true,
+        label: { type: 'plain_text', text: '理由' },
+        element: { type: 'plain_text_input', action_id: 'value', max_length: MAX_REASON_LENGTH },
+      },
+    ],
+  };
+}
+
+/**
+ * 休暇の種類の選択肢
+ */
+function vacationTypeOption(type: VacationType) {
+  return { text: { type: 'plain_text' as const, text: VACATION_TYPE_LABELS[type] }, value: type };
+}
+
+/**
+ * 休暇申請モーダルの入力内容を検証する
+ *
+ * 理由などの自由入力はコマンドの引数として解析し直さず、入力欄ごとの値をそのまま使う。
+ */
+export function parseVacationSubmission(values: ViewValues): ModalSubmission<VacationSubmission> {
+  const start = values.start_date?.value?.selected_date;
+  const end = values.end_date?.value?.selected_date || start;
+  const selectedType = values.vacation_type?.value?.selected_option?.value ?? VacationType.FULL_DAY;
+  const reason = values.reason?.value?.value?.trim() || undefined;
+  const organizationId = values.organization?.value?.selected_option?.value ?? undefined;
+
+  if (values.organization && !organizationId) {
+    return { ok: false, errors: { organization: '組織を選択してください。' } };
+  }
+
+  const startDate = start ? parseDate(start) : null;
+  const endDate = end ? parseDate(end) : null;
+  if (!startDate) {
+    return { ok: false, errors: { start_date: '開始日を選択してください。' } };
+  }
+  if (!endDate || endDate < startDate) {
+    return { ok: false, errors: { end_date: '終了日は開始日以降の日付を選択してください。' } };
+  }
+  if (diffDays(startDate, endDate) + 1 > MAX_VACATION_DAYS) {
+    return { ok: false, errors: { end_date: `一度に申請できるのは${MAX_VACATION_DAYS}日間までです。` } };
+  }
+
+  if (!isVacationType(selectedType)) {
+    return { ok: false, errors: { vacation_type: '種類を選択してください。' } };
+  }
+  if (selectedType !== VacationType.FULL_DAY && endDate.getTime() !== startDate.getTime()) {
+    return { ok: false, errors: { vacation_type: '半休は1日ずつ申請してください（終了日は空欄にしてください）。' } };
+  }
+
+  return {
+    ok: true,
+    value: { startDate, endDate, type: selectedType, reason, organizationId },
+  };
+}
+
+/**
+ * 選択肢の値が休暇の種類かどうか
+ */
+function isVacationType(value: string): value is VacationType {
+  return (Object.values(VacationType) as string[]).includes(value);
+}
+
+/**
+ * チェックアウト後の作業内容の入力モーダル
+ */
+export function buildCheckoutNoteModal(metadata: string, note: string | null): ModalView {
+  return {
+    type: 'modal',
+    callback_id: 'checkout_note',
+    private_metadata: metadata,
+    title: { type: 'plain_text', text: '作業内容の記録' },
+    submit: { type: 'plain_text', text: '保存' },
+    close: { type: 'plain_text', text: 'キャンセル' },
+    blocks: [
+      {
+        type: 'input',
+        block_id: 'note',
+        label: { type: 'plain_text', text: '何に取り組みましたか？' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          max_length: MAX_NOTE_LENGTH,
+          ...(note ? { initial_value: note } : {}),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * 作業内容の入力モーダルの入力内容を検証する
+ */
+export function parseCheckoutNoteSubmission(values: ViewValues): ModalSubmission<string> {
+  const note = values.note?.value?.value?.trim();
+  if (!note) {
+    return { ok: false, errors: { note: '作業内容を入力してください。' } };
+  }
+
+  return { ok: true, value: note };
+}
+
+/**
+ * datepicker の YYYY-MM-DD 形式の日付を日付に変換する
+ */
+function parseDate(value: string): Date | null {
+  const [year, month, day] = value.split('-').map(Number);
+  return calendarDate(year, month, day);
+}
@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Platform } from '../commands/types';
+
+/**
+ * 監査ログに記録する操作者
+ */
+export interface AuditActor {
+  /** 操作したユーザーのID（未登録ユーザーの操作では未設定） */
+  actorId?: string;
+  /** REST APIからの操作は 'api' */
+  platform: Platform | 'api';
+}
+
+const storage = new AsyncLocalStorage<AuditActor>();
+
+/**
+ * 操作者を設定して処理を実行する（処理中のサービス呼び出しの監査ログに操作者が記録される）
+ */
+export function runAsActor<T>(actor: AuditActor, callback: () => Promise<T>): Promise<T> {
+  return storage.run(actor, callback);
+}
+
+/**
+ * 実行中の処理の操作者を取得する（定期ジョブなど操作者がいない場合はundefined）
+ */
+export function getCurrentActor(): AuditActor | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * 暗号化キーを環境変数から取得（32バイトのbase64文字列）
+ */
+function getEncryptionKey(): Buffer {
+  const key = Buffer.from(process.env.TOKEN_ENCRYPTION_KEY || '', 'base64');
+  if (key.length !== 32) {
+    throw new Error('TOKEN_ENCRYPTION_KEY には32バイトのキーをbase64で設定してください。');
+  }
+  return key;
+}
+
+/**
+ * 文字列を暗号化する（iv.authTag.暗号文 をbase64で連結した形式）
+ */
+export function encrypt(plainText: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, encrypted].map((buffer) => buffer.toString('base64')).join('.');
+}
+
+/**
+ * encrypt で暗号化した文字列を復号する
+ */
+export function decrypt(cipherText: string): string {
+  const [iv, authTag, encrypted] = cipherText.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, getEncryptionKey(), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * 有効期限付きの署名済みトークンを作成する（OAuthのstateなどに使用）
+ */
+export function createSignedToken(payload: Record<string, unknown>, expiresInSeconds: number): string {
+  const body = Buffer.from(
+    JSON.stringify({ ...payload, exp: Math.floor(Date.now() / 1000) + expiresInSeconds })
+  ).toString('base64url');
+
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * 署名済みトークンを検証してペイロードを返す（不正・期限切れの場合はnull）
+ */
+export function verifySignedToken<T extends Record<string, unknown>>(token: string): T | null {
+  const [body, signature] = token.split('.');
+  if (!body || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+  if (typeof payload.exp !== 'number' || payload.exp < Math.floor(Date.now() / 1000)) {
+    return null;
+  }
+
+  return payload as T;
+}
+
+/**
+ * HMAC-SHA256で署名する
+ */
+function sign(value: string): string {
+  return crypto.createHmac('sha256', getEncryptionKey()).update(value).digest('base64url');
+}
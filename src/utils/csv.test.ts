@@ -0,0 +1,22 @@
+import { toCsv } from './csv';
+
+describe('toCsv', () => {
+  it('カンマ・改行・ダブルクォートを含むセルはクォートする', () => {
+    expect(toCsv([['朝会, 定例', '1行目\n2行目', '"要確認"']])).toBe(
+      '\uFEFF"朝会, 定例","1行目\n2行目","""要確認"""\r\n'
+    );
+  });
+
+  it('数式として解釈される文字で始まる文字列は先頭に \' を付ける', () => {
+    expect(toCsv([['=HYPERLINK("https://example.com")', '+1', '-対応', '@SUM(A1)', '\tメモ']])).toBe(
+      '\uFEFF"\'=HYPERLINK(""https://example.com"")",\'+1,\'-対応,\'@SUM(A1),\'\tメモ\r\n'
+    );
+    expect(toCsv([['\r\n改行']])).toBe('\uFEFF"\'\r\n改行"\r\n');
+  });
+
+  it('数値・日付はそのまま出力する', () => {
+    expect(toCsv([[-1.5, new Date('2026-10-01T00:00:00Z'), null, true]])).toBe(
+      '\uFEFF-1.5,2026-10-01T00:00:00.000Z,,true\r\n'
+    );
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * CSVのセルの値
+ */
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+/** 表計算ソフトで数式として解釈される先頭の文字 */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * 値をCSVのセルに変換する（カンマ・改行・ダブルクォートを含む場合はクォート）
+ *
+ * メモ・理由などの文字列が数式として実行されないよう、数式と解釈される文字で始まる場合は先頭に ' を付ける。
+ */
+function escapeCell(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 行の配列をCSV文字列に変換する（Excelで文字化けしないようBOM付き）
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return '\uFEFF' + rows.map((row) => row.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,8 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * 一意制約の違反によるエラーか（同時実行で既に作成されていた場合など）
+ */
+export function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
@@ -0,0 +1,108 @@
+import { getMonthRange, getZonedParts, splitByDay, zonedTime } from './timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedTime / getZonedParts', () => {
+  it('夏時間が始まる日は時差が切り替わる', () => {
+    // 2026-03-08 02:00 EST に 03:00 EDT へ切り替わる
+    expect(zonedTime(NEW_YORK, 2026, 3, 8)).toEqual(new Date('2026-03-08T05:00:00Z'));
+    expect(zonedTime(NEW_YORK, 2026, 3, 8, 3)).toEqual(new Date('2026-03-08T07:00:00Z'));
+    expect(zonedTime(NEW_YORK, 2026, 3, 9)).toEqual(new Date('2026-03-09T04:00:00Z'));
+
+    expect(getZonedParts(new Date('2026-03-08T06:59:00Z'), NEW_YORK)).toMatchObject({ day: 8, hours: 1, minutes: 59 });
+    expect(getZonedParts(new Date('2026-03-08T07:00:00Z'), NEW_YORK)).toMatchObject({ day: 8, hours: 3, minutes: 0 });
+  });
+
+  it('夏時間の切り替えで存在しない時刻は前後どちらかの時差で変換する', () => {
+    const time = zonedTime(NEW_YORK, 2026, 3, 8, 2, 30);
+
+    expect([new Date('2026-03-08T06:30:00Z'), new Date('2026-03-08T07:30:00Z')]).toContainEqual(time);
+  });
+
+  it('夏時間が終わる日は同じ時刻が2回ある', () => {
+    // 2026-11-01 02:00 EDT に 01:00 EST へ切り替わる
+    expect(zonedTime(NEW_YORK, 2026, 11, 1)).toEqual(new Date('2026-11-01T04:00:00Z'));
+    expect(zonedTime(NEW_YORK, 2026, 11, 1, 3)).toEqual(new Date('2026-11-01T08:00:00Z'));
+    expect(zonedTime(NEW_YORK, 2026, 11, 2)).toEqual(new Date('2026-11-02T05:00:00Z'));
+
+    expect(getZonedParts(new Date('2026-11-01T05:30:00Z'), NEW_YORK)).toMatchObject({ day: 1, hours: 1, minutes: 30 });
+    expect(getZonedParts(new Date('2026-11-01T06:30:00Z'), NEW_YORK)).toMatchObject({ day: 1, hours: 1, minutes: 30 });
+    expect([new Date('2026-11-01T05:30:00Z'), new Date('2026-11-01T06:30:00Z')]).toContainEqual(
+      zonedTime(NEW_YORK, 2026, 11, 1, 1, 30)
+    );
+  });
+});
+
+describe('splitByDay', () => {
+  it('日付をまたぐ期間を0時で分割する', () => {
+    // 2026-10-19 22:00 〜 10-20 02:00 JST
+    const segments = splitByDay(new Date('2026-10-19T13:00:00Z'), new Date('2026-10-19T17:00:00Z'), 'Asia/Tokyo');
+
+    expect(segments).toEqual([
+      {
+        date: new Date('2026-10-19T00:00:00Z'),
+        start: new Date('2026-10-19T13:00:00Z'),
+        end: new Date('2026-10-19T15:00:00Z'),
+      },
+      {
+        date: new Date('2026-10-20T00:00:00Z'),
+        start: new Date('2026-10-19T15:00:00Z'),
+        end: new Date('2026-10-19T17:00:00Z'),
+      },
+    ]);
+  });
+
+  it('0時ちょうどに終わる期間は翌日の区間を作らない', () => {
+    const segments = splitByDay(new Date('2026-10-19T13:00:00Z'), new Date('2026-10-19T15:00:00Z'), 'Asia/Tokyo');
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].date).toEqual(new Date('2026-10-19T00:00:00Z'));
+  });
+
+  it('夏時間が終わる日は25時間の日として分割する', () => {
+    // 2026-10-31 22:00 EDT 〜 11-02 01:00 EST
+    const segments = splitByDay(new Date('2026-11-01T02:00:00Z'), new Date('2026-11-02T06:00:00Z'), NEW_YORK);
+
+    expect(segments.map((segment) => segment.date)).toEqual([
+      new Date('2026-10-31T00:00:00Z'),
+      new Date('2026-11-01T00:00:00Z'),
+      new Date('2026-11-02T00:00:00Z'),
+    ]);
+    expect(segments[1]).toEqual({
+      date: new Date('2026-11-01T00:00:00Z'),
+      start: new Date('2026-11-01T04:00:00Z'),
+      end: new Date('2026-11-02T05:00:00Z'),
+    });
+  });
+});
+
+describe('getMonthRange', () => {
+  it('12月の期間は翌年1月1日の0時まで', () => {
+    expect(getMonthRange(2026, 12, 'Asia/Tokyo')).toEqual({
+      start: new Date('2026-11-30T15:00:00Z'),
+      end: new Date('2026-12-31T15:00:00Z'),
+    });
+    expect(getMonthRange(2027, 1, NEW_YORK)).toEqual({
+      start: new Date('2027-01-01T05:00:00Z'),
+      end: new Date('2027-02-01T05:00:00Z'),
+    });
+  });
+
+  it('2月の期間はうるう年を考慮する', () => {
+    expect(getMonthRange(2026, 2, 'Asia/Tokyo')).toEqual({
+      start: new Date('2026-01-31T15:00:00Z'),
+      end: new Date('2026-02-28T15:00:00Z'),
+    });
+    expect(getMonthRange(2028, 2, 'Asia/Tokyo')).toEqual({
+      start: new Date('2028-01-31T15:00:00Z'),
+      end: new Date('2028-02-29T15:00:00Z'),
+    });
+  });
+
+  it('夏時間の切り替えがある月は月初と翌月初で時差が異なる', () => {
+    expect(getMonthRange(2026, 3, NEW_YORK)).toEqual({
+      start: new Date('2026-03-01T05:00:00Z'),
+      end: new Date('2026-04-01T04:00:00Z'),
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * タイムゾーンを考慮した日付・時刻の計算
+ *
+ * 日時（チェックイン時刻など）は Date、日付（休暇の日付など）はその日のUTCの0時の Date で表し、
+ * サーバーのタイムゾーンに依存しないようにする。
+ */
+
+/** タイムゾーンが未設定の場合の既定値 */
+export const DEFAULT_TIME_ZONE = 'Asia/Tokyo';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * タイムゾーンでの日時の各要素
+ */
+export interface ZonedParts {
+  year: number;
+  /** 1〜12 */
+  month: number;
+  day: number;
+  hours: number;
+  minutes: number;
+  /** 0（日曜）〜6（土曜） */
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * タイムゾーンごとのフォーマッター（作成コストが高いため使い回す）
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * IANAのタイムゾーン名（例: Asia/Tokyo）として有効か
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ユーザー・組織の設定から使用するタイムゾーンを決める（ユーザーの設定を優先）
+ */
+export function resolveTimeZone(
+  user?: { timeZone: string | null } | null,
+  organization?: { timeZone: string } | null
+): string {
+  return user?.timeZone || organization?.timeZone || DEFAULT_TIME_ZONE;
+}
+
+/**
+ * 日時をタイムゾーンでの年月日・時刻に分解する
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hours: Number(parts.hour),
+    minutes: Number(parts.minute),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.weekday),
+  };
+}
+
+/**
+ * タイムゾーンでの年月日・時刻を日時に変換する
+ *
+ * 夏時間の切り替えで存在しない・重複する時刻は、切り替え前後のどちらかの時差で変換する。
+ */
+export function zonedTime(
+  timeZone: string,
+  year: number,
+  month: number,
+  day: number,
+  hours = 0,
+  minutes = 0
+): Date {
+  const wallTime = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // UTCとの時差を求め、時差が変わる場合はもう一度補正する
+  let time = wallTime - getOffset(new Date(wallTime), timeZone);
+  time = wallTime - getOffset(new Date(time), timeZone);
+
+  return new Date(time);
+}
+
+/**
+ * タイムゾーンのUTCとの時差（ミリ秒）
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const wallTime = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hours, parts.minutes);
+
+  return wallTime - Math.floor(date.getTime() / 60000) * 60000;
+}
+
+/**
+ * 年月日から日付を作成する（存在しない日付の場合はnull）
+ */
+export function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  // 2/30 のような存在しない日付を除外
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date;
+}
+
+/**
+ * 月の最終日の日付
+ */
+export function lastDayOfMonth(year: number, month: number): Date {
+  return new Date(Date.UTC(year, month, 0));
+}
+
+/**
+ * 日時のタイムゾーンでの日付
+ */
+export function toCalendarDate(date: Date, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+}
+
+/**
+ * 日付に日数を加算する
+ */
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * 日付どうしの日数の差（end - start）
+ */
+export function diffDays(start: Date, end: Date): number {
+  return Math.round((end.getTime() - start.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * 日付のタイムゾーンでの0時の日時
+ */
+export function startOfDay(date: Date, timeZone: string): Date {
+  return zonedTime(timeZone, date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+/**
+ * 月のタイムゾーンでの期間（start 以上 end 未満）
+ */
+export function getMonthRange(
+  year: number,
+  month: number,
+  timeZone: string
+): { start: Date; end: Date } {
+  return {
+    start: zonedTime(timeZone, year, month, 1),
+    end: zonedTime(timeZone, month === 12 ? year + 1 : year, (month % 12) + 1, 1),
+  };
+}
+
+/**
+ * 期間をタイムゾーンでの日付が変わる時刻で分割する
+ */
+export function splitByDay(
+  start: Date,
+  end: Date,
+  timeZone: string
+): { date: Date; start: Date; end: Date }[] {
+  const segments: { date: Date; start: Date; end: Date }[] = [];
+
+  let date = toCalendarDate(start, timeZone);
+  let segmentStart = start;
+  while (segmentStart < end) {
+    const nextDay = addDays(date, 1);
+    const dayEnd = startOfDay(nextDay, timeZone);
+    const segmentEnd = dayEnd < end ? dayEnd : end;
+
+    segments.push({ date, start: segmentStart, end: segmentEnd });
+    date = nextDay;
+    segmentStart = segmentEnd;
+  }
+
+  return segments;
+}
+
+/**
+ * 日付をYYYY-MM-DD形式にフォーマット
+ */
+export function formatDate(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = (date.getUTCMonth() + 1).toString().padStart(2, '0');
+  const day = date.getUTCDate().toString().padStart(2, '0');
+
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * 日時のタイムゾーンでの時刻をHH:MM形式にフォーマット
+ */
+export function formatClockTime(date: Date, timeZone: string): string {
+  const { hours, minutes } = getZonedParts(date, timeZone);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+}
+
+/**
+ * 日時をタイムゾーンでのYYYY-MM-DD HH:MM形式にフォーマット
+ */
+export function formatDateTime(date: Date, timeZone: string): string {
+  return `${formatDate(toCalendarDate(date, timeZone))} ${formatClockTime(date, timeZone)}`;
+}
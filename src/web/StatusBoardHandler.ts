@@ -0,0 +1,166 @@
+import { Request, Response } from 'express';
+import { Organization, PrismaClient } from '@prisma/client';
+import StatusBoardService from '../services/StatusBoardService';
+import OrganizationService from '../services/OrganizationService';
+import { AttendanceEventName, attendanceEvents } from '../events/attendanceEvents';
+import { renderStatusBoardMembers, renderStatusBoardPage } from './statusBoardHtml';
+
+/** ボードの表示が変わる勤怠イベント */
+const BOARD_EVENTS: AttendanceEventName[] = [
+  'checkin',
+  'checkout',
+  'break_started',
+  'break_ended',
+  'vacation_requested',
+  'vacation_cancelled',
+  'correction_reviewed',
+];
+
+/** プロキシに接続を切られないよう送るコメントの間隔 */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Webのステータスボードのハンドラークラス
+ *
+ * `/status/:slug?token=...` でページを返し、`/status/:slug/events` のServer-Sent Eventsで
+ * 勤怠イベントが発生するたびに最新のメンバー一覧を送る。
+ */
+export default class StatusBoardHandler {
+  private statusBoardService: StatusBoardService;
+  private organizationService: OrganizationService;
+  /** 組織IDごとの接続中のクライアント */
+  private clients = new Map<string, Set<Response>>();
+  private heartbeatTimer?: NodeJS.Timeout;
+
+  constructor(prisma: PrismaClient) {
+    this.statusBoardService = new StatusBoardService(prisma);
+    this.organizationService = new OrganizationService(prisma);
+  }
+
+  /**
+   * 勤怠イベントの購読と接続維持のコメント送信を開始する
+   */
+  start(): void {
+    for (const event of BOARD_EVENTS) {
+      attendanceEvents.on(event, ({ organizationId }) => this.broadcast(organizationId));
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const clients of this.clients.values()) {
+        for (const res of clients) res.write(': heartbeat\n\n');
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * すべての接続を閉じる（サーバーの終了時に接続が残らないようにする）
+   */
+  stop(): void {
+    clearInterval(this.heartbeatTimer);
+
+    for (const clients of this.clients.values()) {
+      for (const res of clients) res.end();
+    }
+    this.clients.clear();
+  }
+
+  /**
+   * ステータスボードのページ
+   */
+  async handlePage(req: Request, res: Response): Promise<void> {
+    const organization = await this.findBoard(req, res);
+    if (!organization) return;
+
+    try {
+      const statuses = await this.statusBoardService.getMemberStatuses(organization);
+      // プロキシでパスの前に接頭辞が付いても動くよう、ページからの相対パスにする
+      const eventsUrl = `${encodeURIComponent(organization.slug)}/events?token=${organization.statusBoardToken}`;
+
+      res.type('html').send(renderStatusBoardPage(organization, statuses, eventsUrl));
+    } catch (error) {
+      console.error('ステータスボード表示エラー:', error);
+      res.status(500).type('text/plain').send('ステータスボードの表示に失敗しました。');
+    }
+  }
+
+  /**
+   * メンバー一覧の更新を送るServer-Sent Events
+   */
+  async handleEvents(req: Request, res: Response): Promise<void> {
+    const organization = await this.findBoard(req, res);
+    if (!organization) return;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // nginxなどのプロキシでバッファリングさせない
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    const clients = this.clients.get(organization.id) ?? new Set();
+    clients.add(res);
+    this.clients.set(organization.id, clients);
+
+    req.on('close', () => {
+      clients.delete(res);
+      if (clients.size === 0) this.clients.delete(organization.id);
+    });
+
+    // 再接続時に切断中の変更を反映するため、接続直後にも最新の一覧を送る
+    try {
+      await this.send(organization.id, [res]);
+    } catch (error) {
+      console.error('ステータスボード更新エラー:', error);
+    }
+  }
+
+  /**
+   * 組織のボードを表示中のクライアントに最新のメンバー一覧を送る
+   */
+  private async broadcast(organizationId: string): Promise<void> {
+    const clients = this.clients.get(organizationId);
+    if (!clients || clients.size === 0) return;
+
+    await this.send(organizationId, Array.from(clients));
+  }
+
+  /**
+   * メンバー一覧を `update` イベントとして送る
+   */
+  private async send(organizationId: string, targets: Response[]): Promise<void> {
+    // タイムゾーンの変更を反映するため、組織は毎回取得する
+    const organization = await this.organizationService.findById(organizationId);
+    if (!organization) return;
+
+    const statuses = await this.statusBoardService.getMemberStatuses(organization);
+    const data = JSON.stringify({ html: renderStatusBoardMembers(organization, statuses) });
+
+    for (const res of targets) {
+      if (!res.writableEnded) res.write(`event: update\ndata: ${data}\n\n`);
+    }
+  }
+
+  /**
+   * slugとトークンからボードを表示する組織を取得する（見つからない場合は404を返してnull）
+   */
+  private async findBoard(req: Request, res: Response): Promise<Organization | null> {
+    const token = typeof req.query.token === 'string' ? req.query.token : '';
+
+    try {
+      const organization = token
+        ? await this.statusBoardService.findBoard(req.params.slug, token)
+        : null;
+      if (!organization) {
+        res.status(404).type('text/plain').send('ステータスボードが見つかりません。URLを確認してください。');
+      }
+
+      return organization;
+    } catch (error) {
+      console.error('ステータスボード取得エラー:', error);
+      res.status(500).type('text/plain').send('ステータスボードの表示に失敗しました。');
+      return null;
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { Organization } from '@prisma/client';
+import { MemberState, MemberStatus } from '../services/StatusBoardService';
+import { formatTime } from '../commands/reportText';
+
+const STATE_LABELS: Record<MemberState, string> = {
+  working: '稼働中',
+  on_break: '休憩中',
+  vacation: '休暇',
+  offline: 'オフライン',
+};
+
+const STYLE = `
+  body { margin: 0; padding: 2rem; font-family: system-ui, sans-serif; background: #111827; color: #f9fafb; }
+  h1 { margin: 0 0 0.25rem; font-size: 2rem; }
+  .updated { margin: 0 0 1.5rem; color: #9ca3af; }
+  .summary { margin: 0 0 1.5rem; font-size: 1.25rem; }
+  ul { list-style: none; margin: 0; padding: 0; display: grid; gap: 0.75rem; grid-template-columns: repeat(auto-fill, minmax(20rem, 1fr)); }
+  li { padding: 1rem 1.25rem; border-radius: 0.75rem; background: #1f2937; border-left: 0.5rem solid #4b5563; }
+  li.working { border-color: #22c55e; }
+  li.on_break { border-color: #eab308; }
+  li.vacation { border-color: #3b82f6; }
+  li.offline { opacity: 0.6; }
+  .name { font-size: 1.25rem; font-weight: bold; }
+  .state { margin-left: 0.5rem; color: #d1d5db; }
+  .detail { margin-top: 0.25rem; color: #9ca3af; word-break: break-all; }
+  .disconnected .updated { color: #f87171; }
+`;
+
+/**
+ * HTMLの特殊文字をエスケープする
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * メンバー1人分の表示
+ */
+function renderMember(status: MemberStatus, timeZone: string): string {
+  let detail = '';
+  if (status.checkinAt) {
+    detail = `${formatTime(status.checkinAt, timeZone)} から`;
+    if (status.note) detail += ` ・ ${status.note}`;
+  } else if (status.vacationReason) {
+    detail = status.vacationReason;
+  }
+
+  return (
+    `<li class="${status.state}">` +
+    `<span class="name">${escapeHtml(status.user.name)}</span>` +
+    `<span class="state">${STATE_LABELS[status.state]}</span>` +
+    (detail ? `<div class="detail">${escapeHtml(detail)}</div>` : '') +
+    '</li>'
+  );
+}
+
+/**
+ * メンバー一覧部分のHTML（Server-Sent Eventsで送る更新内容にも使う、時刻は組織のタイムゾーンで表示）
+ */
+export function renderStatusBoardMembers(
+  organization: Organization,
+  statuses: MemberStatus[]
+): string {
+  const working = statuses.filter((status) => status.state === 'working').length;
+  const onBreak = statuses.filter((status) => status.state === 'on_break').length;
+
+  return (
+    `<p class="updated">最終更新 ${formatTime(new Date(), organization.timeZone)}</p>` +
+    `<p class="summary">稼働中 ${working}人 ・ 休憩中 ${onBreak}人 ・ メンバー ${statuses.length}人</p>` +
+    `<ul>${statuses.map((status) => renderMember(status, organization.timeZone)).join('')}</ul>`
+  );
+}
+
+/**
+ * ステータスボードのページ全体のHTML
+ *
+ * eventsUrl のServer-Sent Eventsで `update` イベントを受け取るとメンバー一覧を差し替える。
+ * 日付が変わった場合の休暇の表示のため、1時間ごとにページ全体も再読み込みする。
+ */
+export function renderStatusBoardPage(
+  organization: Organization,
+  statuses: MemberStatus[],
+  eventsUrl: string
+): string {
+  const script = `
+    const members = document.getElementById('members');
+    const source = new EventSource(${JSON.stringify(eventsUrl)});
+    source.addEventListener('update', (event) => {
+      members.innerHTML = JSON.parse(event.data).html;
+      members.classList.remove('disconnected');
+    });
+    source.addEventListener('error', () => members.classList.add('disconnected'));
+  `;
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="refresh" content="3600">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(organization.name)} - NowWorking</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(organization.name)}</h1>
+<div id="members">${renderStatusBoardMembers(organization, statuses)}</div>
+<script>${script}</script>
+</body>
+</html>`;
+}